@@ -5,6 +5,7 @@ import {
   Activity,
   TrendingUp,
   LineChart,
+  ClipboardCheck,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import {
@@ -24,6 +25,7 @@ const menuItems = [
   { title: "Analytics", icon: BarChart3, url: "/analytics" },
   { title: "Volatility", icon: LineChart, url: "/volatility" },
   { title: "Simulator", icon: TrendingUp, url: "/simulator" },
+  { title: "Approvals", icon: ClipboardCheck, url: "/approvals" },
   { title: "Settings", icon: Settings, url: "/settings" },
 ];
 
@@ -0,0 +1,242 @@
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+export interface BacktestResult {
+  source: "recorded" | "uploaded";
+  poolAddress?: string;
+  strategy: string;
+  binStep: number;
+  binCount: number;
+  startPrice: number;
+  endPrice: number;
+  initialValue: number;
+  finalValue: number;
+  hodlValue: number;
+  totalReturn: number;
+  vsHodl: number;
+  feesEarned: number;
+  rebalanceCount: number;
+  rebalanceCosts: number;
+  timeInRange: number;
+  maxDrawdown: number;
+  binFees: Array<{
+    binId: number;
+    price: number;
+    crossings: number;
+    fees: number;
+  }>;
+  rebalances: Array<{
+    timestamp: number;
+    price: number;
+    reason: "out-of-range" | "width-drift" | "scheduled";
+    swapCost: number;
+    txCost: number;
+  }>;
+  timeline: Array<{
+    timestamp: number;
+    price: number;
+    activeBinId: number;
+    value: number;
+    hodlValue: number;
+    feesAccumulated: number;
+    inRange: boolean;
+  }>;
+}
+
+interface BacktestResultsProps {
+  result: BacktestResult;
+}
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "0.5rem",
+};
+
+export function BacktestResults({ result }: BacktestResultsProps) {
+  const valueSeries = result.timeline.map((point) => ({
+    time: new Date(point.timestamp).toLocaleDateString(),
+    value: Number(point.value.toFixed(2)),
+    hodl: Number(point.hodlValue.toFixed(2)),
+  }));
+
+  const binSeries = result.binFees.map((bin) => ({
+    price: bin.price.toPrecision(5),
+    fees: Number(bin.fees.toFixed(4)),
+    crossings: bin.crossings,
+  }));
+
+  const start = result.timeline[0]?.timestamp;
+  const end = result.timeline[result.timeline.length - 1]?.timestamp;
+  const period =
+    start && end
+      ? ` from ${new Date(start).toLocaleDateString()} to ${new Date(
+          end
+        ).toLocaleDateString()}`
+      : "";
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Backtest Results</CardTitle>
+          <CardDescription>
+            {result.source === "recorded"
+              ? "Recorded pool prices"
+              : "Uploaded series"}
+            {period} · {result.strategy} · {result.binCount} bins · bin step{" "}
+            {result.binStep}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Total Return</p>
+              <p
+                className={`text-2xl font-bold ${
+                  result.totalReturn >= 0 ? "text-green-600" : "text-red-600"
+                }`}
+              >
+                {(result.totalReturn * 100).toFixed(2)}%
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">vs HODL</p>
+              <p
+                className={`text-2xl font-bold ${
+                  result.vsHodl >= 0 ? "text-green-600" : "text-red-600"
+                }`}
+              >
+                {(result.vsHodl * 100).toFixed(2)}%
+              </p>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Final Value</span>
+              <span className="text-lg font-semibold">
+                ${result.finalValue.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Fees Earned</span>
+              <span className="text-lg font-semibold text-green-600">
+                ${result.feesEarned.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Rebalances ({result.rebalanceCount})
+              </span>
+              <span className="text-lg font-semibold text-red-600">
+                -${result.rebalanceCosts.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Time in Range</span>
+              <span className="text-lg font-semibold">
+                {(result.timeInRange * 100).toFixed(1)}%
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Max Drawdown</span>
+              <span className="text-lg font-semibold text-red-600">
+                {(result.maxDrawdown * 100).toFixed(2)}%
+              </span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Position Value vs HODL</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={valueSeries}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="time"
+                style={{ fontSize: "11px" }}
+                minTickGap={40}
+              />
+              <YAxis style={{ fontSize: "11px" }} domain={["auto", "auto"]} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="value"
+                name="LP value"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+              />
+              <Line
+                type="monotone"
+                dataKey="hodl"
+                name="HODL"
+                stroke="#94a3b8"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Fee Accrual by Bin</CardTitle>
+          <CardDescription>
+            Fees earned each time price swapped through a bin
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {binSeries.length > 0 ? (
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={binSeries}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="price"
+                  style={{ fontSize: "11px" }}
+                  minTickGap={20}
+                />
+                <YAxis style={{ fontSize: "11px" }} />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) =>
+                    name === "fees" ? [`$${value}`, "Fees"] : [value, name]
+                  }
+                />
+                <Bar dataKey="fees" fill="#22c55e" />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Price never crossed a funded bin.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  BarChart,
+  Bar,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+
+interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+interface Distribution extends Percentiles {
+  mean: number;
+  min: number;
+  max: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+}
+
+export interface MonteCarloSummary {
+  iterations: number;
+  seed: number;
+  probabilityOfLoss: number;
+  bands: Array<{
+    timestamp: number;
+    value: Percentiles;
+    fees: Percentiles;
+  }>;
+  finalReturn: Distribution;
+  rebalanceCount: Distribution;
+  maxDrawdown: Distribution;
+}
+
+interface MonteCarloResultsProps {
+  summary: MonteCarloSummary;
+}
+
+const tooltipStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "0.5rem",
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export function MonteCarloResults({ summary }: MonteCarloResultsProps) {
+  const [series, setSeries] = useState<"value" | "fees">("value");
+
+  // Range areas: recharts draws [low, high] pairs as a band
+  const fan = summary.bands.map((band) => {
+    const p = band[series];
+    return {
+      time: new Date(band.timestamp).toLocaleDateString(),
+      outer: [Number(p.p5.toFixed(2)), Number(p.p95.toFixed(2))],
+      inner: [Number(p.p25.toFixed(2)), Number(p.p75.toFixed(2))],
+      median: Number(p.p50.toFixed(2)),
+    };
+  });
+
+  const returnHistogram = summary.finalReturn.histogram.map((bucket) => ({
+    range: percent((bucket.from + bucket.to) / 2),
+    paths: bucket.count,
+  }));
+
+  const lossTone =
+    summary.probabilityOfLoss > 0.5
+      ? "text-red-600"
+      : summary.probabilityOfLoss > 0.2
+        ? "text-yellow-600"
+        : "text-green-600";
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Outcome Range</CardTitle>
+          <CardDescription>
+            {summary.iterations} simulated price paths · seed {summary.seed}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Probability of Loss
+              </p>
+              <p className={`text-2xl font-bold ${lossTone}`}>
+                {(summary.probabilityOfLoss * 100).toFixed(1)}%
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Median Return</p>
+              <p className="text-2xl font-bold">
+                {percent(summary.finalReturn.p50)}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">90% of Paths</p>
+              <p className="text-sm font-semibold pt-2">
+                {percent(summary.finalReturn.p5)} to{" "}
+                {percent(summary.finalReturn.p95)}
+              </p>
+            </div>
+          </div>
+
+          <Tabs
+            value={series}
+            onValueChange={(value) => setSeries(value as typeof series)}
+          >
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="value">Position Value</TabsTrigger>
+              <TabsTrigger value="fees">Fees Earned</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <ResponsiveContainer width="100%" height={240}>
+            <ComposedChart data={fan}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="time"
+                style={{ fontSize: "11px" }}
+                minTickGap={30}
+              />
+              <YAxis style={{ fontSize: "11px" }} width={60} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Area
+                dataKey="outer"
+                name="p5–p95"
+                stroke="none"
+                fill="#3b82f6"
+                fillOpacity={0.15}
+              />
+              <Area
+                dataKey="inner"
+                name="p25–p75"
+                stroke="none"
+                fill="#3b82f6"
+                fillOpacity={0.3}
+              />
+              <Line
+                dataKey="median"
+                name="Median"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Final Return Distribution</CardTitle>
+          <CardDescription>Number of paths ending in each range</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={returnHistogram}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="range"
+                style={{ fontSize: "11px" }}
+                minTickGap={20}
+              />
+              <YAxis style={{ fontSize: "11px" }} allowDecimals={false} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Bar dataKey="paths" fill="#8b5cf6" />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className="pt-4 border-t space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Rebalances (p5 / median / p95)
+              </span>
+              <span className="text-sm font-semibold">
+                {summary.rebalanceCount.p5.toFixed(0)} /{" "}
+                {summary.rebalanceCount.p50.toFixed(0)} /{" "}
+                {summary.rebalanceCount.p95.toFixed(0)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                Max Drawdown (median / p95)
+              </span>
+              <span className="text-sm font-semibold text-red-600">
+                {percent(summary.maxDrawdown.p50)} /{" "}
+                {percent(summary.maxDrawdown.p95)}
+              </span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
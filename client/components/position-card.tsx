@@ -6,8 +6,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { DollarSign, TrendingUp, AlertTriangle, ArrowUpRight, ArrowDownRight, RefreshCw, Eye } from 'lucide-react';
 import { useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { Transaction } from '@solana/web3.js';
+import { VersionedTransaction } from '@solana/web3.js';
 import { useToast } from '@/hooks/use-toast';
+import { authFetch } from '@/lib/auth';
 import { PositionDetailModal } from './position-detail-modal';
 import type { PositionData } from '../../shared/schema';
 
@@ -20,6 +21,12 @@ interface PositionCardProps {
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+// Base-unit swap amount in token units
+function formatSwapAmount(amount: string, token?: { symbol: string; decimals: number }) {
+  if (!token) return amount;
+  return `${(Number(amount) / Math.pow(10, token.decimals)).toFixed(4)} ${token.symbol}`;
+}
+
 export function PositionCard({ position, onCollectFees, onRebalance, wallet }: PositionCardProps) {
   const { pool, currentValue, feesEarned, performance, riskMetrics } = position;
   const isInRange = riskMetrics?.isInRange ?? false;
@@ -38,7 +45,7 @@ export function PositionCard({ position, onCollectFees, onRebalance, wallet }: P
       }
 
       setIsRebalancing(true);
-      const response = await fetch(`${API_URL}/rebalance`, {
+      const response = await authFetch(`${API_URL}/rebalance`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -89,12 +96,12 @@ export function PositionCard({ position, onCollectFees, onRebalance, wallet }: P
 
       // Deserialize and sign the transaction
       const txBuffer = Uint8Array.from(atob(rebalanceData.transaction), c => c.charCodeAt(0));
-      const transaction = Transaction.from(txBuffer);
+      const transaction = VersionedTransaction.deserialize(txBuffer);
       const signedTx = await signTransaction(transaction);
       const signedTransactionData = btoa(String.fromCharCode(...signedTx.serialize()));
 
       // Send the transaction(s)
-      const response = await fetch(`${API_URL}/rebalance/execute`, {
+      const response = await authFetch(`${API_URL}/rebalance/execute`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -270,6 +277,13 @@ export function PositionCard({ position, onCollectFees, onRebalance, wallet }: P
                 <p className="text-sm font-medium">This will:</p>
                 <ol className="text-sm text-muted-foreground space-y-1 list-decimal list-inside">
                   <li>Remove liquidity from current position</li>
+                  {rebalanceData.swap && (
+                    <li>
+                      Swap {formatSwapAmount(rebalanceData.swap.amountIn, rebalanceData.swap.swapForY ? pool?.tokenX : pool?.tokenY)}{' '}
+                      for at least {formatSwapAmount(rebalanceData.swap.minAmountOut, rebalanceData.swap.swapForY ? pool?.tokenY : pool?.tokenX)}{' '}
+                      to match the new range's token ratio ({rebalanceData.swap.slippageBps / 100}% max slippage)
+                    </li>
+                  )}
                   <li>Add liquidity to new optimized range</li>
                 </ol>
               </div>
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, Transaction, Connection } from '@solana/web3.js';
+import { PublicKey, VersionedTransaction, Connection } from '@solana/web3.js';
 import { Buffer } from 'buffer';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -10,7 +10,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { toast } from '@/hooks/use-toast';
 import { HelpCircle } from 'lucide-react';
 import { usePools } from '@/hooks/use-pools';
-import { useQueryClient } from '@tanstack/react-query';
+import { authFetch } from '@/lib/auth';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import type { BinAllocation, LiquidityDistribution, LiquidityShape } from '../../shared/schema';
+
+interface DistributionPreview {
+  activeBinId: number;
+  lowerBinId: number;
+  upperBinId: number;
+  bins: BinAllocation[];
+}
+
+const SHAPE_DESCRIPTIONS: Record<LiquidityShape, string> = {
+  spot: 'Equal liquidity in every bin',
+  curve: 'Concentrated around the current price',
+  'bid-ask': 'Concentrated towards the range edges',
+  custom: 'Your own weight for each bin, lowest price first',
+};
 
 interface PositionCreatorProps {
   open: boolean;
@@ -21,7 +38,7 @@ interface PositionCreatorProps {
 export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreatorProps) {
   const { publicKey, signTransaction } = useWallet();
   const queryClient = useQueryClient();
-  const { data: poolsData, isLoading: loadingPools } = usePools(1, 50);
+  const { data: poolsData, isLoading: loadingPools } = usePools({ limit: 50 });
   const [selectedPool, setSelectedPool] = useState('');
   const [lowerPrice, setLowerPrice] = useState('');
   const [upperPrice, setUpperPrice] = useState('');
@@ -29,9 +46,49 @@ export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreat
   const [amountY, setAmountY] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [shape, setShape] = useState<LiquidityShape>('spot');
+  const [customWeights, setCustomWeights] = useState('');
 
   const pools = poolsData?.data || [];
   const selectedPoolData = pools.find((p) => p.address === selectedPool);
+  const baseUrl = import.meta.env.VITE_API_URL || '/api';
+
+  const distribution: LiquidityDistribution =
+    shape === 'custom'
+      ? {
+          shape,
+          weights: customWeights
+            .split(',')
+            .map((w) => w.trim())
+            .filter((w) => w !== '')
+            .map(Number),
+        }
+      : { shape };
+
+  const { data: preview, error: previewError } = useQuery({
+    queryKey: ['distribution-preview', selectedPool, lowerPrice, upperPrice, amountX, amountY, distribution],
+    queryFn: async (): Promise<DistributionPreview> => {
+      const response = await authFetch(`${baseUrl}/positions/distribution/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          poolAddress: selectedPool,
+          lowerPrice: parseFloat(lowerPrice),
+          upperPrice: parseFloat(upperPrice),
+          amountX: amountX ? parseFloat(amountX) : 0,
+          amountY: amountY ? parseFloat(amountY) : 0,
+          distribution,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to preview distribution');
+      }
+      return result.data;
+    },
+    enabled: !!selectedPool && !!lowerPrice && !!upperPrice && (shape !== 'custom' || customWeights.trim() !== ''),
+    retry: false,
+  });
 
   const handleCreate = async () => {
     console.log('[PositionCreator] Create button clicked');
@@ -58,7 +115,6 @@ export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreat
 
     setIsCreating(true);
     try {
-      const baseUrl = import.meta.env.VITE_API_URL || '/api';
       const apiUrl = `${baseUrl}/positions/create`;
       const payload = {
         poolAddress: selectedPool,
@@ -67,11 +123,12 @@ export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreat
         amountX: amountX ? parseFloat(amountX) : 0,
         amountY: amountY ? parseFloat(amountY) : 0,
         wallet: publicKey.toString(),
+        distribution,
       };
       
       console.log('[PositionCreator] Creating position', { apiUrl, payload });
       
-      const response = await fetch(apiUrl, {
+      const response = await authFetch(apiUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
@@ -84,7 +141,7 @@ export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreat
       if (result.success && result.data) {
         // Deserialize and sign transaction
         const txBuffer = Buffer.from(result.data.transaction, 'base64');
-        const transaction = Transaction.from(txBuffer);
+        const transaction = VersionedTransaction.deserialize(txBuffer);
         
         console.log('[PositionCreator] Signing transaction...');
         const signedTx = await signTransaction!(transaction);
@@ -215,6 +272,68 @@ export function PositionCreator({ open, onOpenChange, onSuccess }: PositionCreat
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Liquidity Shape</Label>
+            <Select value={shape} onValueChange={(value) => setShape(value as LiquidityShape)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="spot">Spot</SelectItem>
+                <SelectItem value="curve">Curve</SelectItem>
+                <SelectItem value="bid-ask">Bid-Ask</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{SHAPE_DESCRIPTIONS[shape]}</p>
+            {shape === 'custom' && (
+              <Input
+                placeholder="One weight per bin, e.g. 1, 2, 4, 2, 1"
+                value={customWeights}
+                onChange={(e) => setCustomWeights(e.target.value)}
+              />
+            )}
+          </div>
+
+          {selectedPoolData && lowerPrice && upperPrice && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Liquidity Distribution</h4>
+              {preview ? (
+                <ResponsiveContainer width="100%" height={160}>
+                  <BarChart data={preview.bins}>
+                    <XAxis
+                      dataKey="price"
+                      tickFormatter={(price: number) => price.toFixed(4)}
+                      style={{ fontSize: '10px' }}
+                      minTickGap={20}
+                    />
+                    <YAxis style={{ fontSize: '10px' }} width={40} />
+                    <Tooltip
+                      labelFormatter={(price) => `$${Number(price).toFixed(4)}`}
+                      formatter={(value: number, name: string) => [value.toFixed(4), name]}
+                    />
+                    <Bar
+                      dataKey="amountX"
+                      name={selectedPoolData.tokenX.symbol}
+                      stackId="liquidity"
+                      fill="#3b82f6"
+                    />
+                    <Bar
+                      dataKey="amountY"
+                      name={selectedPoolData.tokenY.symbol}
+                      stackId="liquidity"
+                      fill="#22c55e"
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {previewError instanceof Error ? previewError.message : 'Loading preview...'}
+                </p>
+              )}
+            </div>
+          )}
+
           {selectedPoolData && (
             <Button
               type="button"
@@ -0,0 +1,100 @@
+import { ArrowRight } from "lucide-react";
+
+interface BinRange {
+  lowerBinId: number;
+  upperBinId: number;
+}
+
+interface RangeDiffProps {
+  oldRange?: BinRange;
+  newRange?: BinRange;
+}
+
+function signed(value: number) {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+/**
+ * Old and new bin range of a rebalance, drawn on a shared scale with the
+ * shift of each edge and the change in width
+ */
+export function RangeDiff({ oldRange, newRange }: RangeDiffProps) {
+  if (!oldRange || !newRange) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Target range is set when the transaction is approved.
+      </p>
+    );
+  }
+
+  const min = Math.min(oldRange.lowerBinId, newRange.lowerBinId);
+  const max = Math.max(oldRange.upperBinId, newRange.upperBinId);
+  const span = Math.max(1, max - min + 1);
+  const bar = (range: BinRange) => ({
+    left: `${((range.lowerBinId - min) / span) * 100}%`,
+    width: `${((range.upperBinId - range.lowerBinId + 1) / span) * 100}%`,
+  });
+
+  const oldWidth = oldRange.upperBinId - oldRange.lowerBinId + 1;
+  const newWidth = newRange.upperBinId - newRange.lowerBinId + 1;
+  const rows = [
+    {
+      label: "Lower bin",
+      from: oldRange.lowerBinId,
+      to: newRange.lowerBinId,
+    },
+    {
+      label: "Upper bin",
+      from: oldRange.upperBinId,
+      to: newRange.upperBinId,
+    },
+    { label: "Width", from: oldWidth, to: newWidth },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex items-center gap-2">
+          <span className="w-10 text-xs text-muted-foreground">Old</span>
+          <div className="relative h-2 flex-1 rounded bg-muted">
+            <div
+              className="absolute h-2 rounded bg-muted-foreground/60"
+              style={bar(oldRange)}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-10 text-xs text-muted-foreground">New</span>
+          <div className="relative h-2 flex-1 rounded bg-muted">
+            <div
+              className="absolute h-2 rounded bg-primary"
+              style={bar(newRange)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="rounded-md border p-2">
+            <p className="text-xs text-muted-foreground">{row.label}</p>
+            <p className="flex items-center gap-1 font-mono">
+              {row.from}
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              {row.to}
+            </p>
+            <p
+              className={`text-xs font-mono ${
+                row.to === row.from
+                  ? "text-muted-foreground"
+                  : "text-foreground"
+              }`}
+            >
+              {signed(row.to - row.from)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type SweepMetric =
+  | "totalReturn"
+  | "feesEarned"
+  | "maxDrawdown"
+  | "sharpeRatio";
+
+export interface SweepResult {
+  paths: number;
+  duration: number;
+  startPrice: number;
+  rankBy: SweepMetric;
+  combinations: number;
+  ranked: Array<{
+    rank: number;
+    strategy: string;
+    rangeWidth: number;
+    rebalanceFrequency: number;
+    feeRate: number;
+    totalReturn: number;
+    feesEarned: number;
+    maxDrawdown: number;
+    sharpeRatio: number;
+    rebalanceCount: number;
+    returnStdDev: number;
+  }>;
+  heatmaps: Array<{
+    strategy: string;
+    feeRate: number;
+    rangeWidths: number[];
+    rebalanceFrequencies: number[];
+    metrics: Record<SweepMetric, number[][]>;
+  }>;
+}
+
+interface SweepResultsProps {
+  result: SweepResult;
+}
+
+const METRIC_LABELS: Record<SweepMetric, string> = {
+  totalReturn: "Return",
+  feesEarned: "Fees",
+  maxDrawdown: "Max Drawdown",
+  sharpeRatio: "Sharpe",
+};
+
+const TOP_ROWS = 10;
+
+function formatMetric(metric: SweepMetric, value: number): string {
+  switch (metric) {
+    case "totalReturn":
+    case "maxDrawdown":
+      return `${(value * 100).toFixed(2)}%`;
+    case "feesEarned":
+      return `$${value.toFixed(2)}`;
+    case "sharpeRatio":
+      return value.toFixed(3);
+  }
+}
+
+// Green for the best cell in a grid, red for the worst
+function heatColor(
+  metric: SweepMetric,
+  value: number,
+  min: number,
+  max: number
+) {
+  if (max === min) return "hsl(var(--muted))";
+  let score = (value - min) / (max - min);
+  if (metric === "maxDrawdown") score = 1 - score;
+  return `hsla(${Math.round(score * 120)}, 70%, 45%, 0.35)`;
+}
+
+export function SweepResults({ result }: SweepResultsProps) {
+  const [heatmapIndex, setHeatmapIndex] = useState(0);
+  const [metric, setMetric] = useState<SweepMetric>(result.rankBy);
+
+  const heatmap =
+    result.heatmaps[Math.min(heatmapIndex, result.heatmaps.length - 1)];
+  const grid = heatmap?.metrics[metric] || [];
+  const cells = grid.flat();
+  const min = Math.min(...cells);
+  const max = Math.max(...cells);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Parameter Sweep</CardTitle>
+          <CardDescription>
+            {result.combinations} combinations over the same {result.paths}{" "}
+            price paths ({result.duration / 24} days from $
+            {result.startPrice.toFixed(2)}), ranked by{" "}
+            {METRIC_LABELS[result.rankBy].toLowerCase()}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Strategy</TableHead>
+                <TableHead>Bins</TableHead>
+                <TableHead>Every (h)</TableHead>
+                <TableHead>Fee (bps)</TableHead>
+                <TableHead className="text-right">Return</TableHead>
+                <TableHead className="text-right">Fees</TableHead>
+                <TableHead className="text-right">Drawdown</TableHead>
+                <TableHead className="text-right">Sharpe</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.ranked.slice(0, TOP_ROWS).map((row) => (
+                <TableRow key={row.rank}>
+                  <TableCell>{row.rank}</TableCell>
+                  <TableCell>{row.strategy}</TableCell>
+                  <TableCell>{row.rangeWidth}</TableCell>
+                  <TableCell>{row.rebalanceFrequency}</TableCell>
+                  <TableCell>{row.feeRate}</TableCell>
+                  <TableCell
+                    className={`text-right ${
+                      row.totalReturn >= 0 ? "text-green-600" : "text-red-600"
+                    }`}
+                    title={`±${(row.returnStdDev * 100).toFixed(2)}% across paths`}
+                  >
+                    {formatMetric("totalReturn", row.totalReturn)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMetric("feesEarned", row.feesEarned)}
+                  </TableCell>
+                  <TableCell className="text-right text-red-600">
+                    {formatMetric("maxDrawdown", row.maxDrawdown)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatMetric("sharpeRatio", row.sharpeRatio)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {result.ranked.length > TOP_ROWS && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Showing the top {TOP_ROWS} of {result.ranked.length}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {heatmap && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Heatmap</CardTitle>
+            <CardDescription>
+              Range width (rows) against rebalance frequency (columns)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value={String(heatmapIndex)}
+                onValueChange={(value) => setHeatmapIndex(Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {result.heatmaps.map((map, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {map.strategy} · {map.feeRate} bps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={metric}
+                onValueChange={(value) => setMetric(value as SweepMetric)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METRIC_LABELS) as SweepMetric[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {METRIC_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bins \ Hours</TableHead>
+                  {heatmap.rebalanceFrequencies.map((frequency) => (
+                    <TableHead key={frequency} className="text-center">
+                      {frequency}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {heatmap.rangeWidths.map((width, row) => (
+                  <TableRow key={width}>
+                    <TableCell className="font-medium">{width}</TableCell>
+                    {grid[row].map((value, column) => (
+                      <TableCell
+                        key={column}
+                        className="text-center"
+                        style={{
+                          backgroundColor: heatColor(metric, value, min, max),
+                        }}
+                      >
+                        {formatMetric(metric, value)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import { AlertTriangle, CheckCircle2, Cpu } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { TransactionSimulation as Simulation } from "../../shared/schema";
+
+interface TransactionSimulationProps {
+  simulation?: Simulation;
+}
+
+function formatAmount(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+}
+
+/**
+ * Preflight result of a queued transaction: outcome, compute units and the
+ * wallet's balances before and after
+ */
+export function TransactionSimulation({
+  simulation,
+}: TransactionSimulationProps) {
+  if (!simulation) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Not simulated yet; balances will be checked before it is sent.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {simulation.success ? (
+          <Badge variant="default" className="gap-1">
+            <CheckCircle2 className="w-3 h-3" />
+            Simulation passed
+          </Badge>
+        ) : (
+          <Badge variant="destructive" className="gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            Simulation failed
+          </Badge>
+        )}
+        {simulation.computeUnits !== undefined && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Cpu className="w-3 h-3" />
+            {simulation.computeUnits.toLocaleString()} CU
+          </span>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {new Date(simulation.simulatedAt).toLocaleTimeString()}
+        </span>
+      </div>
+
+      {simulation.error && (
+        <p className="text-sm text-destructive font-mono break-all">
+          {simulation.error}
+        </p>
+      )}
+
+      {simulation.balanceChanges.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead className="text-right">Before</TableHead>
+              <TableHead className="text-right">After</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {simulation.balanceChanges.map((balance) => (
+              <TableRow key={balance.mint}>
+                <TableCell className="font-medium">
+                  {balance.symbol || `${balance.mint.slice(0, 6)}...`}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatAmount(balance.before)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatAmount(balance.after)}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-mono ${
+                    balance.change > 0
+                      ? "text-green-600"
+                      : balance.change < 0
+                        ? "text-red-600"
+                        : "text-muted-foreground"
+                  }`}
+                >
+                  {balance.change > 0 ? "+" : ""}
+                  {formatAmount(balance.change)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {!simulation.success && simulation.logs.length > 0 && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground">
+            Program logs
+          </summary>
+          <pre className="mt-2 max-h-48 overflow-auto rounded bg-muted p-2 whitespace-pre-wrap">
+            {simulation.logs.join("\n")}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
-import { Wallet, Copy, LogOut, Check } from 'lucide-react';
+import { Wallet, Copy, LogOut, Check, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -9,11 +9,16 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { signIn, signOut, useAuthToken } from '@/lib/auth';
 
 export function WalletButton() {
-  const { connected, publicKey, disconnect, select, wallets } = useWallet();
+  const { connected, publicKey, disconnect, select, wallets, signMessage } = useWallet();
+  const authToken = useAuthToken(publicKey?.toBase58());
   const [showModal, setShowModal] = React.useState(false);
   const [copied, setCopied] = React.useState(false);
+  const [signingIn, setSigningIn] = React.useState(false);
+  const { toast } = useToast();
 
   const handleConnect = () => {
     setShowModal(true);
@@ -27,7 +32,32 @@ export function WalletButton() {
     }
   };
 
+  const handleSignIn = async () => {
+    if (!publicKey || !signMessage) {
+      toast({
+        title: 'Sign-in not supported',
+        description: 'This wallet cannot sign messages',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSigningIn(true);
+    try {
+      await signIn(publicKey, signMessage);
+    } catch (error) {
+      toast({
+        title: 'Sign-in failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
   const handleDisconnect = () => {
+    signOut();
     disconnect();
   };
 
@@ -91,7 +121,7 @@ export function WalletButton() {
           variant="ghost"
           className="flex items-center gap-2.5 px-4 py-2.5 rounded-lg text-base font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-accent"
         >
-          <Wallet className="w-5 h-5" />
+          {authToken ? <Wallet className="w-5 h-5" /> : <KeyRound className="w-5 h-5" />}
           <span>{displayText}</span>
         </Button>
       </DropdownMenuTrigger>
@@ -104,6 +134,12 @@ export function WalletButton() {
           )}
           <span>{copied ? 'Copied!' : 'Copy Address'}</span>
         </DropdownMenuItem>
+        {!authToken && (
+          <DropdownMenuItem onClick={handleSignIn} disabled={signingIn} className="cursor-pointer">
+            <KeyRound className="mr-2 h-4 w-4" />
+            <span>{signingIn ? 'Signing In...' : 'Sign In'}</span>
+          </DropdownMenuItem>
+        )}
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleDisconnect} className="cursor-pointer text-destructive focus:text-destructive">
           <LogOut className="mr-2 h-4 w-4" />
@@ -1,5 +1,4 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useEffect } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -10,6 +9,26 @@ export interface Pool {
   currentPrice: number;
   binStep: number;
   activeId: number;
+  tvl: number;
+  volume24h: number;
+  fees24h: number;
+  volatility: number; // annualized %, 0 without price history
+  feeApr: number;
+  indexedAt: number;
+}
+
+export type PoolSort = 'tvl' | 'volume24h' | 'fees24h' | 'volatility' | 'feeApr';
+
+export interface PoolsQuery {
+  search?: string;
+  mint?: string;
+  symbol?: string;
+  minTvl?: number;
+  binStep?: number;
+  sort?: PoolSort;
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
 }
 
 interface PoolsResponse {
@@ -22,51 +41,39 @@ interface PoolsResponse {
     totalPages: number;
     hasMore: boolean;
   };
+  index?: {
+    size: number;
+    refreshing: boolean;
+    refreshedAt: number | null;
+  };
   timestamp: number;
 }
 
-export function usePools(page: number = 1, limit: number = 20) {
-  const queryClient = useQueryClient();
+// The server's index refreshes every few minutes; no point asking sooner
+const POOLS_STALE_MS = 60000;
 
+export function usePools(query: PoolsQuery = {}) {
   return useQuery({
-    queryKey: ['pools', page, limit],
+    queryKey: ['pools', query],
     queryFn: async (): Promise<PoolsResponse> => {
-      const url = `${API_URL}/pools?page=${page}&limit=${limit}`;
-      console.log('[usePools] Fetching pools from:', url);
-      
-      const response = await fetch(url);
-      console.log('[usePools] Response status:', response.status);
-      
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+      }
+
+      const response = await fetch(`${API_URL}/pools?${params}`);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
-      
-      const data: PoolsResponse = await response.json();
-      console.log('[usePools] Response data:', data);
 
+      const data: PoolsResponse = await response.json();
       if (!data.success || !Array.isArray(data.data)) {
         throw new Error('Invalid response format');
       }
-
-      // Filter out invalid pools
-      const validPools = data.data.filter((pool: any) => {
-        const hasAddress = !!pool?.address;
-        const hasTokenX = !!pool?.tokenX;
-        const hasTokenY = !!pool?.tokenY;
-        const hasValidPrice = typeof pool?.currentPrice === 'number' && !isNaN(pool.currentPrice) && pool.currentPrice > 0;
-        
-        return hasAddress && hasTokenX && hasTokenY && hasValidPrice;
-      });
-
-      console.log('[usePools] Valid pools:', validPools.length, 'of', data.data.length);
-      
-      return {
-        ...data,
-        data: validPools,
-      };
+      return data;
     },
-    staleTime: Infinity, // Never auto-refetch
-    refetchInterval: false, // No polling
+    placeholderData: keepPreviousData, // keep the current page while paging
+    staleTime: POOLS_STALE_MS,
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
     retry: 1,
@@ -84,10 +91,10 @@ export function usePool(address: string | undefined) {
 
       const url = `${API_URL}/pool/${address}`;
       console.log('[usePool] Fetching pool from:', url);
-      
+
       const response = await fetch(url);
       console.log('[usePool] Response status:', response.status);
-      
+
       const data = await response.json();
       console.log('[usePool] Response data:', data);
 
@@ -1,12 +1,14 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useEffect } from 'react';
+import { authFetch, useAuthToken } from '@/lib/auth';
 import type { PositionData, ApiResponse } from '../../shared/schema';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 export function useWalletPositions() {
   const { publicKey, connected } = useWallet();
+  const authToken = useAuthToken(publicKey?.toBase58());
   const queryClient = useQueryClient();
 
   // Invalidate cache when wallet connects/disconnects
@@ -35,7 +37,7 @@ export function useWalletPositions() {
   }, [publicKey, queryClient]);
 
   return useQuery({
-    queryKey: ['positions', publicKey?.toString()],
+    queryKey: ['positions', publicKey?.toString(), authToken],
     queryFn: async (): Promise<PositionData[]> => {
       if (!publicKey) {
         console.log('[useWalletPositions] No wallet connected');
@@ -45,7 +47,7 @@ export function useWalletPositions() {
       const url = `${API_URL}/positions/${publicKey.toString()}`;
       console.log('[useWalletPositions] Fetching positions from:', url);
       
-      const response = await fetch(url);
+      const response = await authFetch(url);
       console.log('[useWalletPositions] Response status:', response.status);
       
       const data: ApiResponse<PositionData[]> = await response.json();
@@ -59,7 +61,8 @@ export function useWalletPositions() {
       console.log('[useWalletPositions] Positions loaded:', data.data.length);
       return data.data;
     },
-    enabled: !!publicKey && connected,
+    // Positions are scoped to the signed-in wallet
+    enabled: !!publicKey && connected && !!authToken,
     staleTime: Infinity, // Never auto-refetch
     refetchInterval: false, // No polling
     refetchOnWindowFocus: false,
@@ -80,7 +83,7 @@ export function usePositionDetail(address: string | undefined) {
       const url = `${API_URL}/positions/detail/${address}`;
       console.log('[usePositionDetail] Fetching position from:', url);
       
-      const response = await fetch(url);
+      const response = await authFetch(url);
       console.log('[usePositionDetail] Response status:', response.status);
       
       const data: ApiResponse<PositionData> = await response.json();
@@ -0,0 +1,136 @@
+import { useSyncExternalStore } from 'react';
+import type { PublicKey } from '@solana/web3.js';
+import type { ApiResponse } from '../../shared/schema';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+const STORAGE_KEY = 'liquidflow-auth';
+
+interface StoredSession {
+  wallet: string;
+  token: string;
+  expiresAt: number;
+}
+
+const listeners = new Set<() => void>();
+
+function readSession(): StoredSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const session: StoredSession = JSON.parse(raw);
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSession(session: StoredSession | null) {
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Token of the stored session, only if it belongs to this wallet
+export function getAuthToken(wallet?: string | null): string | null {
+  const session = readSession();
+  if (!session || (wallet && session.wallet !== wallet)) return null;
+  return session.token;
+}
+
+export function useAuthToken(wallet?: string | null): string | null {
+  return useSyncExternalStore(subscribe, () => getAuthToken(wallet));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Sign-In-With-Solana: sign the server's nonce message with the wallet and
+ * exchange the signature for a session token
+ */
+export async function signIn(
+  publicKey: PublicKey,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>
+): Promise<void> {
+  const wallet = publicKey.toBase58();
+
+  const nonceResponse = await fetch(`${API_URL}/auth/nonce`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ wallet }),
+  });
+  const nonce: ApiResponse<{ nonce: string; message: string }> =
+    await nonceResponse.json();
+  if (!nonce.success || !nonce.data) {
+    throw new Error(nonce.error || 'Failed to start sign-in');
+  }
+
+  const signature = await signMessage(
+    new TextEncoder().encode(nonce.data.message)
+  );
+
+  const verifyResponse = await fetch(`${API_URL}/auth/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      wallet,
+      nonce: nonce.data.nonce,
+      signature: toBase64(signature),
+    }),
+  });
+  const verified: ApiResponse<{ token: string; expiresAt: number }> =
+    await verifyResponse.json();
+  if (!verified.success || !verified.data) {
+    throw new Error(verified.error || 'Sign-in failed');
+  }
+
+  writeSession({
+    wallet,
+    token: verified.data.token,
+    expiresAt: verified.data.expiresAt,
+  });
+}
+
+export async function signOut(): Promise<void> {
+  const token = getAuthToken();
+  writeSession(null);
+  if (!token) return;
+  try {
+    await fetch(`${API_URL}/auth/logout`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+  } catch {
+    // The local session is already gone; the server one simply expires
+  }
+}
+
+/**
+ * fetch with the session's bearer token; a 401 drops the stored session so
+ * the wallet button asks to sign in again
+ */
+export async function authFetch(
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && token) writeSession(null);
+  return response;
+}
@@ -9,17 +9,8 @@ interface VolatilityData {
   tokenY?: { symbol: string };
 }
 
-interface Pool {
-  address: string;
-  tokenX: { symbol: string; mint: string };
-  tokenY: { symbol: string; mint: string };
-  currentPrice: number;
-}
-
 interface VolatilityContextType {
-  pools: Pool[];
   volatilityData: Map<string, VolatilityData>;
-  setPools: React.Dispatch<React.SetStateAction<Pool[]>>;
   setVolatilityData: (data: Map<string, VolatilityData>) => void;
   updateVolatilityForPool: (poolAddress: string, data: VolatilityData) => void;
 }
@@ -29,7 +20,6 @@ const VolatilityContext = createContext<VolatilityContextType | undefined>(
 );
 
 export function VolatilityProvider({ children }: { children: ReactNode }) {
-  const [pools, setPools] = useState<Pool[]>([]);
   const [volatilityData, setVolatilityData] = useState<
     Map<string, VolatilityData>
   >(new Map());
@@ -48,9 +38,7 @@ export function VolatilityProvider({ children }: { children: ReactNode }) {
   return (
     <VolatilityContext.Provider
       value={{
-        pools,
         volatilityData,
-        setPools,
         setVolatilityData,
         updateVolatilityForPool,
       }}
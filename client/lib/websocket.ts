@@ -26,7 +26,8 @@ export type WebSocketEventType =
   | 'position_closed'
   | 'rebalance_event'
   | 'alert'
-  | 'auto_rebalance_status';
+  | 'auto_rebalance_status'
+  | 'transaction_update';
 
 export function useWebSocket() {
   const [ws, setWs] = useState<WebSocket | null>(null);
@@ -0,0 +1,535 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { VersionedTransaction } from "@solana/web3.js";
+import { Check, Clock, ExternalLink, Wallet, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch, useAuthToken } from "@/lib/auth";
+import { useWebSocket } from "@/lib/websocket";
+import { RangeDiff } from "../components/range-diff";
+import { TransactionSimulation } from "../components/transaction-simulation";
+import type {
+  ApiResponse,
+  TransactionSimulation as Simulation,
+} from "../../shared/schema";
+
+const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
+
+interface BinRange {
+  lowerBinId: number;
+  upperBinId: number;
+}
+
+interface PendingTransaction {
+  id: string;
+  type: "rebalance" | "stop-loss" | "close-position" | "compound";
+  positionAddress: string;
+  walletAddress: string;
+  transaction: string; // base64, unsigned
+  networkFee?: {
+    computeUnitLimit: number;
+    microLamports: number;
+    priorityFeeLamports: number;
+    paidLamports?: number;
+  };
+  metadata: {
+    poolAddress: string;
+    oldRange?: BinRange;
+    newRange?: BinRange;
+    reason: string;
+    estimatedValue?: number;
+    fees?: { amountX: number; amountY: number; valueUsd: number };
+    estimatedCostUsd?: number;
+    simulation?: Simulation;
+  };
+  status: "pending" | "approved" | "rejected" | "executed" | "failed";
+  createdAt: number;
+  expiresAt: number;
+  approvedAt?: number;
+  executedAt?: number;
+  signature?: string;
+  error?: string;
+}
+
+type Tab = "pending" | "approved" | "executed" | "failed";
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "executed", label: "Executed" },
+  { value: "failed", label: "Failed" },
+];
+
+const TYPE_LABELS: Record<PendingTransaction["type"], string> = {
+  rebalance: "Rebalance",
+  "stop-loss": "Stop-Loss",
+  "close-position": "Close Position",
+  compound: "Compound Fees",
+};
+
+const STATUS_VARIANTS: Record<
+  PendingTransaction["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "outline",
+  approved: "secondary",
+  executed: "default",
+  failed: "destructive",
+  rejected: "outline",
+};
+
+// Rejected transactions are listed with the failed ones
+function tabOf(tx: PendingTransaction): Tab {
+  return tx.status === "rejected" ? "failed" : tx.status;
+}
+
+function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function formatCountdown(ms: number) {
+  if (ms <= 0) return "Expired";
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  if (minutes > 0) return `${minutes}m ${seconds}s left`;
+  return `${seconds}s left`;
+}
+
+function formatLamports(lamports: number) {
+  return `${(lamports / 1e9).toLocaleString(undefined, {
+    maximumFractionDigits: 6,
+  })} SOL`;
+}
+
+// Current time, ticking every second for the countdowns
+function useNow() {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+export default function Approvals() {
+  const { publicKey, signTransaction, signAllTransactions } = useWallet();
+  const wallet = publicKey?.toBase58();
+  const authToken = useAuthToken(wallet);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { lastMessage } = useWebSocket();
+  const now = useNow();
+  const [tab, setTab] = useState<Tab>("pending");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<Set<string>>(new Set());
+
+  const { data: transactions = [], isLoading } = useQuery({
+    queryKey: ["transactions", wallet, authToken],
+    enabled: !!wallet,
+    queryFn: async (): Promise<PendingTransaction[]> => {
+      const response = await authFetch(
+        `${API_URL}/transactions/wallet/${wallet}`
+      );
+      const result: ApiResponse<PendingTransaction[]> = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load transactions");
+      }
+      return result.data;
+    },
+  });
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ["transactions", wallet] });
+
+  // The server pushes only ids and statuses, not whose transaction changed,
+  // so reload the wallet's list on every update
+  useEffect(() => {
+    if (lastMessage?.type !== "transaction_update") return;
+    queryClient.invalidateQueries({ queryKey: ["transactions", wallet] });
+  }, [lastMessage, wallet, queryClient]);
+
+  const byTab = (value: Tab) =>
+    transactions.filter((tx) => tabOf(tx) === value);
+  const actionable = byTab("pending").filter((tx) => tx.expiresAt > now);
+
+  // Drop selections that are no longer pending
+  useEffect(() => {
+    setSelected((current) => {
+      const ids = new Set(
+        transactions
+          .filter((tx) => tx.status === "pending" && tx.expiresAt > Date.now())
+          .map((tx) => tx.id)
+      );
+      const next = new Set([...current].filter((id) => ids.has(id)));
+      return next.size === current.size ? current : next;
+    });
+  }, [transactions]);
+
+  const markBusy = (ids: string[], on: boolean) =>
+    setBusy((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (on ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  /**
+   * Approve (which rebuilds each transaction with a fresh blockhash), sign
+   * them all in one wallet prompt, then send each
+   */
+  const approveAndSend = async (ids: string[]) => {
+    if (!signTransaction || !publicKey) {
+      toast({
+        title: "Wallet not connected",
+        description: "Connect your wallet to approve transactions",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    markBusy(ids, true);
+    const failures: string[] = [];
+    let sent = 0;
+    try {
+      const approved: { id: string; transaction: VersionedTransaction }[] = [];
+      for (const id of ids) {
+        const response = await authFetch(
+          `${API_URL}/transactions/approve/${id}`,
+          { method: "POST" }
+        );
+        const result: ApiResponse<PendingTransaction> = await response.json();
+        if (result.success && result.data) {
+          approved.push({
+            id,
+            transaction: VersionedTransaction.deserialize(
+              fromBase64(result.data.transaction)
+            ),
+          });
+        } else {
+          failures.push(result.error || "Approval failed");
+        }
+      }
+      if (approved.length === 0) return;
+
+      const unsigned = approved.map((entry) => entry.transaction);
+      const signed = signAllTransactions
+        ? await signAllTransactions(unsigned)
+        : await Promise.all(unsigned.map((tx) => signTransaction(tx)));
+
+      for (const [i, entry] of approved.entries()) {
+        const response = await authFetch(
+          `${API_URL}/transactions/execute/${entry.id}`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              signedTransaction: toBase64(signed[i].serialize()),
+            }),
+          }
+        );
+        const result: ApiResponse<{ signature: string }> =
+          await response.json();
+        if (result.success) sent++;
+        else failures.push(result.error || "Execution failed");
+      }
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      markBusy(ids, false);
+      refresh();
+    }
+
+    if (sent > 0) {
+      toast({
+        title: `${sent} transaction${sent !== 1 ? "s" : ""} executed`,
+      });
+    }
+    if (failures.length > 0) {
+      toast({
+        title: `${failures.length} transaction${
+          failures.length !== 1 ? "s" : ""
+        } not executed`,
+        description: failures[0],
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reject = async (ids: string[]) => {
+    markBusy(ids, true);
+    let rejected = 0;
+    try {
+      for (const id of ids) {
+        const response = await authFetch(
+          `${API_URL}/transactions/reject/${id}`,
+          { method: "POST" }
+        );
+        const result: ApiResponse<PendingTransaction> = await response.json();
+        if (result.success) rejected++;
+      }
+    } catch (error) {
+      console.error("[Approvals] Reject error:", error);
+    } finally {
+      markBusy(ids, false);
+      refresh();
+    }
+
+    toast({
+      title: `${rejected} transaction${rejected !== 1 ? "s" : ""} rejected`,
+      variant: rejected === ids.length ? "default" : "destructive",
+    });
+  };
+
+  if (!publicKey) {
+    return (
+      <div className="flex items-center justify-center min-h-[80vh] p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <Wallet className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h2 className="text-xl font-semibold mb-2">Connect Your Wallet</h2>
+            <p className="text-muted-foreground">
+              Connect your Solana wallet to review queued transactions
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const selectedIds = [...selected];
+  const anyBusy = busy.size > 0;
+
+  const renderTransaction = (tx: PendingTransaction) => {
+    const expired = tx.status === "pending" && tx.expiresAt <= now;
+    const working = busy.has(tx.id);
+
+    return (
+      <Card key={tx.id}>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3">
+              {tx.status === "pending" && (
+                <Checkbox
+                  className="mt-1"
+                  checked={selected.has(tx.id)}
+                  disabled={expired || working}
+                  onCheckedChange={(checked) => toggle(tx.id, checked === true)}
+                />
+              )}
+              <div className="space-y-1">
+                <CardTitle className="flex items-center gap-2">
+                  {TYPE_LABELS[tx.type]}
+                  <Badge variant={STATUS_VARIANTS[tx.status]}>
+                    {tx.status}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>{tx.metadata.reason}</CardDescription>
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              <Badge variant="outline" className="font-mono">
+                {tx.positionAddress.slice(0, 8)}...
+                {tx.positionAddress.slice(-6)}
+              </Badge>
+              {(tx.status === "pending" || tx.status === "approved") && (
+                <span
+                  className={`flex items-center gap-1 text-xs ${
+                    expired ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  <Clock className="h-3 w-3" />
+                  {formatCountdown(tx.expiresAt - now)}
+                </span>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {tx.type === "rebalance" && (
+            <RangeDiff
+              oldRange={tx.metadata.oldRange}
+              newRange={tx.metadata.newRange}
+            />
+          )}
+
+          {tx.metadata.fees && (
+            <p className="text-sm">
+              Compounds ${tx.metadata.fees.valueUsd.toFixed(2)} of fees
+              {tx.metadata.estimatedCostUsd !== undefined &&
+                ` for about $${tx.metadata.estimatedCostUsd.toFixed(2)}`}
+            </p>
+          )}
+
+          {(tx.status === "pending" || tx.status === "approved") && (
+            <TransactionSimulation simulation={tx.metadata.simulation} />
+          )}
+
+          {tx.networkFee && (
+            <p className="text-sm text-muted-foreground">
+              Network fee:{" "}
+              {tx.networkFee.paidLamports !== undefined
+                ? `${formatLamports(tx.networkFee.paidLamports)} paid`
+                : `up to ${formatLamports(
+                    5000 + tx.networkFee.priorityFeeLamports
+                  )}`}
+            </p>
+          )}
+
+          {tx.error && (
+            <p className="text-sm text-destructive break-all">{tx.error}</p>
+          )}
+
+          {tx.signature && (
+            <a
+              href={`https://solscan.io/tx/${tx.signature}`}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1 text-sm font-mono text-primary hover:underline"
+            >
+              {tx.signature.slice(0, 16)}...
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </CardContent>
+
+        {(tx.status === "pending" || tx.status === "approved") && (
+          <CardFooter className="gap-2">
+            <Button
+              size="sm"
+              disabled={expired || working}
+              onClick={() => approveAndSend([tx.id])}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              {tx.status === "pending" ? "Approve & sign" : "Sign & send"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={working}
+              onClick={() => reject([tx.id])}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-6 lg:p-8 max-w-7xl mx-auto">
+      <div>
+        <h1 className="text-3xl md:text-4xl font-bold tracking-tight">
+          Approvals
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          {actionable.length} transaction
+          {actionable.length !== 1 ? "s" : ""} awaiting approval
+        </p>
+      </div>
+
+      {isLoading && (
+        <p className="text-muted-foreground">Loading transactions...</p>
+      )}
+
+      <Tabs
+        value={tab}
+        onValueChange={(value) => setTab(value as Tab)}
+        className="space-y-4"
+      >
+        <TabsList>
+          {TABS.map(({ value, label }) => (
+            <TabsTrigger key={value} value={value}>
+              {label} ({byTab(value).length})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {TABS.map(({ value }) => (
+          <TabsContent key={value} value={value} className="space-y-4">
+            {value === "pending" && actionable.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={
+                      selected.size > 0 && selected.size === actionable.length
+                    }
+                    onCheckedChange={(checked) =>
+                      setSelected(
+                        checked === true
+                          ? new Set(actionable.map((tx) => tx.id))
+                          : new Set()
+                      )
+                    }
+                  />
+                  Select all
+                </label>
+                <span className="text-sm text-muted-foreground">
+                  {selected.size} selected
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={selected.size === 0 || anyBusy}
+                    onClick={() => approveAndSend(selectedIds)}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve & sign ({selected.size})
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={selected.size === 0 || anyBusy}
+                    onClick={() => reject(selectedIds)}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject ({selected.size})
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {byTab(value).length === 0 && !isLoading && (
+              <p className="text-muted-foreground">
+                No {value} transactions
+              </p>
+            )}
+
+            {byTab(value).map(renderTransaction)}
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
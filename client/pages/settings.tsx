@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import {
   Card,
   CardContent,
@@ -11,38 +11,122 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@solana/wallet-adapter-react";
 import { Save, AlertCircle } from "lucide-react";
 import { useWebSocket } from "@/lib/websocket";
+import { authFetch } from "@/lib/auth";
+import type { WalletProfileStatus } from "../../shared/schema";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001/api";
 
+const shortWallet = (wallet: string) =>
+  `${wallet.slice(0, 4)}...${wallet.slice(-4)}`;
+
 export default function Settings() {
   const { toast } = useToast();
   const { publicKey } = useWallet();
+  const connectedWallet = publicKey?.toBase58() || null;
+  const [profiles, setProfiles] = useState<WalletProfileStatus[]>([]);
+  const [selectedWallet, setSelectedWallet] = useState<string | null>(null);
   const [autoRebalance, setAutoRebalance] = useState(false);
   const [autoCollectFees, setAutoCollectFees] = useState(true);
   const [rebalanceThreshold, setRebalanceThreshold] = useState([5]);
   const [feeThreshold, setFeeThreshold] = useState(10);
   const [stopLossEnabled, setStopLossEnabled] = useState(false);
   const [stopLossThreshold, setStopLossThreshold] = useState([10]);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [telegramChatId, setTelegramChatId] = useState("");
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(true);
   const [autoRebalanceActive, setAutoRebalanceActive] = useState(false);
   const { lastMessage } = useWebSocket();
 
-  useEffect(() => {
-    loadSettings();
-    loadAutoRebalanceStatus();
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await authFetch(`${API_URL}/profiles`);
+      const result = await response.json();
+
+      if (result.success && result.data) {
+        setProfiles(result.data);
+      }
+    } catch (error) {
+      console.error("[Settings] Failed to load wallet profiles:", error);
+    }
+  }, []);
+
+  const applyProfile = useCallback((profile: WalletProfileStatus) => {
+    setAutoRebalance(profile.autoRebalance);
+    setAutoCollectFees(profile.autoCollectFees);
+    setRebalanceThreshold([profile.rebalanceThreshold]);
+    setFeeThreshold(profile.feeThreshold);
+    setStopLossEnabled(profile.stopLoss.enabled);
+    setStopLossThreshold([profile.stopLoss.lossThreshold]);
+    setNotificationsEnabled(profile.notifications.enabled);
+    setTelegramChatId(profile.notifications.telegramChatId || "");
+    setAutoRebalanceActive(profile.autoRebalance && profile.running);
   }, []);
 
+  const loadProfile = useCallback(
+    async (wallet: string) => {
+      setLoading(true);
+      try {
+        const response = await authFetch(`${API_URL}/profiles/${wallet}`);
+        const result = await response.json();
+
+        if (result.success && result.data) {
+          applyProfile(result.data);
+        } else {
+          throw new Error(result.error || "Failed to load settings");
+        }
+      } catch (error) {
+        console.error("[Settings] Failed to load settings:", error);
+        toast({
+          title: "Error",
+          description:
+            error instanceof Error ? error.message : "Failed to load settings",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [applyProfile, toast]
+  );
+
+  // Default to the connected wallet's profile
+  useEffect(() => {
+    if (!selectedWallet && connectedWallet) {
+      setSelectedWallet(connectedWallet);
+    }
+  }, [connectedWallet, selectedWallet]);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [connectedWallet, loadProfiles]);
+
+  useEffect(() => {
+    if (selectedWallet) {
+      loadProfile(selectedWallet);
+    } else {
+      setLoading(false);
+    }
+  }, [selectedWallet, loadProfile]);
+
   // Listen for WebSocket updates
   useEffect(() => {
     if (!lastMessage) return;
 
     if (lastMessage.type === "auto_rebalance_status") {
       const status = lastMessage.data;
+      if (status.wallet && status.wallet !== selectedWallet) return;
       setAutoRebalanceActive(status.enabled);
       if (status.threshold) {
         setRebalanceThreshold([status.threshold]);
@@ -62,78 +146,59 @@ export default function Settings() {
         console.log("[Settings] Rebalance check:", data);
       }
     }
-  }, [lastMessage, toast]);
-
-  const loadAutoRebalanceStatus = async () => {
-    try {
-      const response = await fetch(`${API_URL}/automation/rebalance/status`);
-      const result = await response.json();
-
-      if (result.success && result.data) {
-        setAutoRebalanceActive(result.data.enabled);
-      }
-    } catch (error) {
-      console.error("[Settings] Failed to load auto-rebalance status:", error);
-    }
-  };
+  }, [lastMessage, selectedWallet, toast]);
 
-  const loadSettings = async () => {
-    try {
-      const response = await fetch(`${API_URL}/settings`);
-      const result = await response.json();
+  // Profiles this session may manage, plus the connected wallet's
+  const walletOptions = Array.from(
+    new Set([
+      ...(connectedWallet ? [connectedWallet] : []),
+      ...profiles.map((profile) => profile.wallet),
+    ])
+  );
 
-      if (result.success && result.data) {
-        const settings = result.data;
-        setAutoRebalance(settings.autoRebalance || false);
-        setAutoCollectFees(settings.autoCollectFees !== false);
-        setRebalanceThreshold([settings.rebalanceThreshold || 5]);
-        setFeeThreshold(settings.feeThreshold || 10);
-        setStopLossEnabled(settings.stopLossEnabled || false);
-        setStopLossThreshold([settings.stopLossThreshold || 10]);
-      }
-    } catch (error) {
-      console.error("[Settings] Failed to load settings:", error);
+  // Saving starts or stops this wallet's monitoring and auto-rebalancing
+  const saveSettings = async () => {
+    if (!selectedWallet) {
       toast({
-        title: "Error",
-        description: "Failed to load settings",
+        title: "Wallet Required",
+        description: "Please connect your wallet to save settings",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
+      return;
     }
-  };
 
-  const saveSettings = async () => {
     setSaving(true);
     try {
-      const settingsData = {
+      const profileData = {
+        monitoring: autoRebalance || stopLossEnabled,
         autoRebalance,
-        autoCollectFees,
         rebalanceThreshold: rebalanceThreshold[0],
+        autoCollectFees,
         feeThreshold,
-        stopLossEnabled,
-        stopLossThreshold: stopLossThreshold[0],
+        stopLoss: {
+          enabled: stopLossEnabled,
+          lossThreshold: stopLossThreshold[0],
+        },
+        notifications: {
+          enabled: notificationsEnabled,
+          telegramChatId: telegramChatId.trim(),
+        },
       };
 
-      const response = await fetch(`${API_URL}/settings`, {
-        method: "POST",
+      const response = await authFetch(`${API_URL}/profiles/${selectedWallet}`, {
+        method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(settingsData),
+        body: JSON.stringify(profileData),
       });
 
       const result = await response.json();
 
-      if (result.success) {
-        // Handle auto-rebalancing activation/deactivation
-        if (autoRebalance && !autoRebalanceActive) {
-          await startAutoRebalancing();
-        } else if (!autoRebalance && autoRebalanceActive) {
-          await stopAutoRebalancing();
-        }
-
+      if (result.success && result.data) {
+        applyProfile(result.data);
+        loadProfiles();
         toast({
           title: "Success",
-          description: "Settings saved successfully",
+          description: `Settings saved for ${shortWallet(selectedWallet)}`,
         });
       } else {
         throw new Error(result.error || "Failed to save settings");
@@ -151,83 +216,6 @@ export default function Settings() {
     }
   };
 
-  const startAutoRebalancing = async () => {
-    if (!publicKey) {
-      toast({
-        title: "Wallet Required",
-        description: "Please connect your wallet to enable auto-rebalancing",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      const response = await fetch(`${API_URL}/automation/rebalance/start`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          wallet: publicKey.toString(),
-          threshold: rebalanceThreshold[0],
-        }),
-      });
-
-      const result = await response.json();
-
-      if (result.success) {
-        setAutoRebalanceActive(true);
-        toast({
-          title: "Auto-Rebalancing Started",
-          description: `Monitoring positions for ${publicKey
-            .toString()
-            .slice(0, 8)}...`,
-        });
-      } else {
-        throw new Error(result.error || "Failed to start auto-rebalancing");
-      }
-    } catch (error) {
-      console.error("[Settings] Failed to start auto-rebalancing:", error);
-      toast({
-        title: "Error",
-        description:
-          error instanceof Error
-            ? error.message
-            : "Failed to start auto-rebalancing",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const stopAutoRebalancing = async () => {
-    try {
-      const response = await fetch(`${API_URL}/automation/rebalance/stop`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-      });
-
-      const result = await response.json();
-
-      if (result.success) {
-        setAutoRebalanceActive(false);
-        toast({
-          title: "Auto-Rebalancing Stopped",
-          description: "Position monitoring has been disabled",
-        });
-      } else {
-        throw new Error(result.error || "Failed to stop auto-rebalancing");
-      }
-    } catch (error) {
-      console.error("[Settings] Failed to stop auto-rebalancing:", error);
-      toast({
-        title: "Error",
-        description:
-          error instanceof Error
-            ? error.message
-            : "Failed to stop auto-rebalancing",
-        variant: "destructive",
-      });
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[80vh]">
@@ -251,6 +239,45 @@ export default function Settings() {
         </p>
       </div>
 
+      {/* Wallet Profile */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Wallet Profile</CardTitle>
+          <CardDescription>
+            Each wallet keeps its own thresholds, stop-loss defaults and
+            notifications, and runs on its own schedule
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {walletOptions.length > 0 ? (
+            <Select
+              value={selectedWallet || undefined}
+              onValueChange={setSelectedWallet}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a wallet" />
+              </SelectTrigger>
+              <SelectContent>
+                {walletOptions.map((wallet) => {
+                  const profile = profiles.find((p) => p.wallet === wallet);
+                  return (
+                    <SelectItem key={wallet} value={wallet}>
+                      {profile?.label || shortWallet(wallet)}
+                      {wallet === connectedWallet ? " (connected)" : ""}
+                      {profile?.running ? " - running" : ""}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Connect a wallet to manage its settings
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Automation Settings */}
       <Card>
         <CardHeader>
@@ -302,7 +329,8 @@ export default function Settings() {
             <div className="space-y-0.5">
               <Label htmlFor="auto-collect">Auto Collect Fees</Label>
               <p className="text-sm text-muted-foreground">
-                Automatically collect fees when threshold is reached
+                Queue a claim-and-compound transaction for approval when fees
+                reach the threshold
               </p>
             </div>
             <Switch
@@ -323,7 +351,8 @@ export default function Settings() {
                 min={1}
               />
               <p className="text-xs text-muted-foreground">
-                Collect fees when they reach this amount
+                Compound fees once they reach this amount and beat the
+                transaction cost
               </p>
             </div>
           )}
@@ -369,6 +398,35 @@ export default function Settings() {
             </div>
           )}
 
+          <div className="flex items-center justify-between pt-4 border-t">
+            <div className="space-y-0.5">
+              <Label htmlFor="notifications">Notifications</Label>
+              <p className="text-sm text-muted-foreground">
+                Send this wallet's alerts to Telegram
+              </p>
+            </div>
+            <Switch
+              id="notifications"
+              checked={notificationsEnabled}
+              onCheckedChange={setNotificationsEnabled}
+            />
+          </div>
+
+          {notificationsEnabled && (
+            <div className="space-y-2 pl-4 border-l-2 border-primary/20">
+              <Label htmlFor="telegram-chat">Telegram Chat ID</Label>
+              <Input
+                id="telegram-chat"
+                value={telegramChatId}
+                onChange={(e) => setTelegramChatId(e.target.value)}
+                placeholder="Default chat"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to use the server's configured chat
+              </p>
+            </div>
+          )}
+
           <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20">
             <AlertCircle className="h-4 w-4 text-warning mt-0.5 flex-shrink-0" />
             <div className="space-y-1 flex-1">
@@ -384,7 +442,11 @@ export default function Settings() {
 
       {/* Save Button */}
       <div className="flex justify-end">
-        <Button onClick={saveSettings} disabled={saving} className="gap-2">
+        <Button
+          onClick={saveSettings}
+          disabled={saving || !selectedWallet}
+          className="gap-2"
+        >
           <Save className="h-4 w-4" />
           {saving ? "Saving..." : "Save Settings"}
         </Button>
@@ -11,7 +11,26 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BacktestResults,
+  type BacktestResult,
+} from "@/components/backtest-results";
+import { SweepResults, type SweepResult } from "@/components/sweep-results";
+import { authFetch } from "@/lib/auth";
+import {
+  MonteCarloResults,
+  type MonteCarloSummary,
+} from "@/components/monte-carlo-results";
 import {
   TrendingUp,
   DollarSign,
@@ -35,8 +54,24 @@ interface SimulationResult {
     feesAccumulated: number;
     inRange: boolean;
   }>;
+  monteCarlo?: MonteCarloSummary;
 }
 
+const ALL_STRATEGIES = [
+  "fixed-width",
+  "volatility-scaled",
+  "trend-following",
+  "fee-maximizing",
+];
+
+// "8, 16, 32" -> [8, 16, 32]
+const parseValueList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v !== "")
+    .map(Number);
+
 export default function Simulator() {
   const navigate = useNavigate();
   const [lowerPrice, setLowerPrice] = useState(170);
@@ -46,6 +81,32 @@ export default function Simulator() {
   const [volatility, setVolatility] = useState([50]);
   const [duration, setDuration] = useState(720); // 30 days in hours
   const [rebalanceFrequency, setRebalanceFrequency] = useState(24); // Daily
+  const [iterations, setIterations] = useState(100);
+  const [seed, setSeed] = useState<number | "">("");
+
+  const [mode, setMode] = useState<"synthetic" | "backtest" | "sweep">(
+    "synthetic"
+  );
+  const [poolAddress, setPoolAddress] = useState("");
+  const [candleInterval, setCandleInterval] = useState("1h");
+  const [lookbackDays, setLookbackDays] = useState(30);
+  const [binCount, setBinCount] = useState(16);
+  const [binStep, setBinStep] = useState<number | "">("");
+  const [rebalanceCost, setRebalanceCost] = useState(0.01);
+  const [strategy, setStrategy] = useState("fixed-width");
+  const [uploadedSeries, setUploadedSeries] = useState<{
+    name: string;
+    content: string;
+  } | null>(null);
+  const [backtestResult, setBacktestResult] = useState<BacktestResult | null>(
+    null
+  );
+  const [sweepWidths, setSweepWidths] = useState("8, 16, 32");
+  const [sweepFrequencies, setSweepFrequencies] = useState("6, 24, 72");
+  const [sweepFeeRates, setSweepFeeRates] = useState("25");
+  const [sweepPaths, setSweepPaths] = useState(20);
+  const [compareStrategies, setCompareStrategies] = useState(false);
+  const [sweepResult, setSweepResult] = useState<SweepResult | null>(null);
 
   const [isSimulating, setIsSimulating] = useState(false);
   const [
@@ -71,11 +132,91 @@ export default function Simulator() {
     };
   };
 
+  const handleSeriesUpload = async (file: File | undefined) => {
+    if (!file) {
+      setUploadedSeries(null);
+      return;
+    }
+    setUploadedSeries({ name: file.name, content: await file.text() });
+  };
+
+  const runBacktest = async () => {
+    const response = await fetch("/api/simulator/run", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        mode: "backtest",
+        amount,
+        poolAddress: poolAddress.trim() || undefined,
+        series: uploadedSeries?.content,
+        interval: candleInterval,
+        from: Date.now() - lookbackDays * 24 * 60 * 60 * 1000,
+        binCount,
+        binStep: binStep === "" ? undefined : binStep,
+        strategy,
+        rebalanceCost,
+        // 0 = only rebalance when price leaves the range
+        rebalanceFrequency: 0,
+        feeRate: 25,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Backtest failed");
+    }
+
+    setBacktestResult(data.data);
+  };
+
+  const runSweep = async () => {
+    const response = await authFetch("/api/simulator/sweep", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount,
+        volatility: volatility[0],
+        duration,
+        paths: sweepPaths,
+        rebalanceCost,
+        strategies: compareStrategies ? ALL_STRATEGIES : [strategy],
+        rangeWidths: parseValueList(sweepWidths),
+        rebalanceFrequencies: parseValueList(sweepFrequencies),
+        feeRates: parseValueList(sweepFeeRates),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Sweep failed");
+    }
+
+    setSweepResult(data.data);
+  };
+
   const runSimulation = async () => {
     try {
       setIsSimulating(true);
       setError(null);
       setSimulationResult(null);
+      setBacktestResult(null);
+      setSweepResult(null);
+
+      if (mode === "backtest") {
+        await runBacktest();
+        return;
+      }
+
+      if (mode === "sweep") {
+        await runSweep();
+        return;
+      }
 
       const response = await fetch("/api/simulator/run", {
         method: "POST",
@@ -89,7 +230,10 @@ export default function Simulator() {
           volatility: volatility[0],
           duration,
           rebalanceFrequency,
+          strategy,
           feeRate: 25, // 0.25% fee
+          iterations,
+          seed: seed === "" ? undefined : seed,
         }),
       });
 
@@ -129,6 +273,17 @@ export default function Simulator() {
             <CardDescription>Configure your position settings</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            <Tabs
+              value={mode}
+              onValueChange={(value) => setMode(value as typeof mode)}
+            >
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="synthetic">Synthetic</TabsTrigger>
+                <TabsTrigger value="backtest">Backtest</TabsTrigger>
+                <TabsTrigger value="sweep">Sweep</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
             <div className="space-y-2">
               <Label htmlFor="amount">Investment Amount ($)</Label>
               <Input
@@ -141,74 +296,304 @@ export default function Simulator() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="lower">Lower Price ($)</Label>
-              <Input
-                id="lower"
-                type="number"
-                value={lowerPrice}
-                onChange={(e) => setLowerPrice(Number(e.target.value))}
-                min={0}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="upper">Upper Price ($)</Label>
-              <Input
-                id="upper"
-                type="number"
-                value={upperPrice}
-                onChange={(e) => setUpperPrice(Number(e.target.value))}
-                min={0}
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label>Market Volatility: {volatility[0]}%</Label>
-              <Slider
-                value={volatility}
-                onValueChange={setVolatility}
-                min={0}
-                max={100}
-                step={5}
-                className="mt-2"
-              />
+              <Label>Rebalance Strategy</Label>
+              <Select value={strategy} onValueChange={setStrategy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed-width">Fixed width</SelectItem>
+                  <SelectItem value="volatility-scaled">
+                    Volatility scaled
+                  </SelectItem>
+                  <SelectItem value="trend-following">
+                    Trend following
+                  </SelectItem>
+                  <SelectItem value="fee-maximizing">Fee maximizing</SelectItem>
+                </SelectContent>
+              </Select>
               <p className="text-xs text-muted-foreground">
-                Higher volatility = more trading volume = higher fees
+                How the range is re-picked on each rebalance
               </p>
+              {mode === "sweep" && (
+                <div className="flex items-center gap-2 pt-1">
+                  <Switch
+                    id="compareStrategies"
+                    checked={compareStrategies}
+                    onCheckedChange={setCompareStrategies}
+                  />
+                  <Label htmlFor="compareStrategies">
+                    Compare all strategies
+                  </Label>
+                </div>
+              )}
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="duration">Simulation Duration (days)</Label>
-              <Input
-                id="duration"
-                type="number"
-                value={duration / 24}
-                onChange={(e) => setDuration(Number(e.target.value) * 24)}
-                min={1}
-              />
-            </div>
+            {mode === "backtest" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="pool">Pool Address</Label>
+                  <Input
+                    id="pool"
+                    value={poolAddress}
+                    onChange={(e) => setPoolAddress(e.target.value)}
+                    placeholder="Replays recorded candles for this pool"
+                  />
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="rebalance">Rebalance Frequency (hours)</Label>
-              <Input
-                id="rebalance"
-                type="number"
-                value={rebalanceFrequency}
-                onChange={(e) => setRebalanceFrequency(Number(e.target.value))}
-                min={1}
-              />
-            </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Candle Interval</Label>
+                    <Select value={candleInterval} onValueChange={setCandleInterval}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1m">1 minute</SelectItem>
+                        <SelectItem value="5m">5 minutes</SelectItem>
+                        <SelectItem value="1h">1 hour</SelectItem>
+                        <SelectItem value="1d">1 day</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lookback">Lookback (days)</Label>
+                    <Input
+                      id="lookback"
+                      type="number"
+                      value={lookbackDays}
+                      onChange={(e) => setLookbackDays(Number(e.target.value))}
+                      min={1}
+                    />
+                  </div>
+                </div>
 
-            <div className="pt-4 border-t">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Current Price</span>
-                <span className="font-medium">${currentPrice}</span>
+                <div className="space-y-2">
+                  <Label htmlFor="series">Or upload a price series (CSV/JSON)</Label>
+                  <Input
+                    id="series"
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => handleSeriesUpload(e.target.files?.[0])}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {uploadedSeries
+                      ? `Using ${uploadedSeries.name} instead of recorded candles`
+                      : "Columns: timestamp, price (or open, high, low, close)"}
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bins">Bins</Label>
+                    <Input
+                      id="bins"
+                      type="number"
+                      value={binCount}
+                      onChange={(e) => setBinCount(Number(e.target.value))}
+                      min={3}
+                      disabled={strategy !== "fixed-width"}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="binStep">Bin Step</Label>
+                    <Input
+                      id="binStep"
+                      type="number"
+                      value={binStep}
+                      onChange={(e) =>
+                        setBinStep(
+                          e.target.value === "" ? "" : Number(e.target.value)
+                        )
+                      }
+                      placeholder="From pool"
+                      min={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rebalanceCost">Cost / Rebalance ($)</Label>
+                    <Input
+                      id="rebalanceCost"
+                      type="number"
+                      value={rebalanceCost}
+                      onChange={(e) => setRebalanceCost(Number(e.target.value))}
+                      min={0}
+                      step={0.01}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+              {mode === "synthetic" && (
+              <>
+              <div className="space-y-2">
+                <Label htmlFor="lower">Lower Price ($)</Label>
+                <Input
+                  id="lower"
+                  type="number"
+                  value={lowerPrice}
+                  onChange={(e) => setLowerPrice(Number(e.target.value))}
+                  min={0}
+                />
               </div>
-              <div className="flex items-center justify-between text-sm mt-2">
-                <span className="text-muted-foreground">Range Width</span>
-                <span className="font-medium">{projections.rangeWidth}%</span>
+
+              <div className="space-y-2">
+                <Label htmlFor="upper">Upper Price ($)</Label>
+                <Input
+                  id="upper"
+                  type="number"
+                  value={upperPrice}
+                  onChange={(e) => setUpperPrice(Number(e.target.value))}
+                  min={0}
+                />
               </div>
-            </div>
+              </>
+              )}
+
+              <div className="space-y-2">
+                <Label>Market Volatility: {volatility[0]}%</Label>
+                <Slider
+                  value={volatility}
+                  onValueChange={setVolatility}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="mt-2"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Higher volatility = more trading volume = higher fees
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="duration">Simulation Duration (days)</Label>
+                <Input
+                  id="duration"
+                  type="number"
+                  value={duration / 24}
+                  onChange={(e) => setDuration(Number(e.target.value) * 24)}
+                  min={1}
+                />
+              </div>
+
+              {mode === "sweep" ? (
+              <>
+              <div className="space-y-2">
+                <Label htmlFor="sweepWidths">Range Widths (bins)</Label>
+                <Input
+                  id="sweepWidths"
+                  value={sweepWidths}
+                  onChange={(e) => setSweepWidths(e.target.value)}
+                  placeholder="8, 16, 32"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sweepFrequencies">
+                  Rebalance Frequencies (hours)
+                </Label>
+                <Input
+                  id="sweepFrequencies"
+                  value={sweepFrequencies}
+                  onChange={(e) => setSweepFrequencies(e.target.value)}
+                  placeholder="6, 24, 72"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sweepFeeRates">Fee Rates (bps)</Label>
+                  <Input
+                    id="sweepFeeRates"
+                    value={sweepFeeRates}
+                    onChange={(e) => setSweepFeeRates(e.target.value)}
+                    placeholder="10, 25"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sweepPaths">Price Paths</Label>
+                  <Input
+                    id="sweepPaths"
+                    type="number"
+                    value={sweepPaths}
+                    onChange={(e) => setSweepPaths(Number(e.target.value))}
+                    min={1}
+                    max={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sweepCost">Cost / Rebalance ($)</Label>
+                  <Input
+                    id="sweepCost"
+                    type="number"
+                    value={rebalanceCost}
+                    onChange={(e) => setRebalanceCost(Number(e.target.value))}
+                    min={0}
+                    step={0.01}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Comma-separated values; every combination runs on the same
+                simulated price paths
+              </p>
+              </>
+              ) : (
+              <>
+              <div className="space-y-2">
+                <Label htmlFor="rebalance">Rebalance Frequency (hours)</Label>
+                <Input
+                  id="rebalance"
+                  type="number"
+                  value={rebalanceFrequency}
+                  onChange={(e) => setRebalanceFrequency(Number(e.target.value))}
+                  min={1}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="iterations">Price Paths</Label>
+                  <Input
+                    id="iterations"
+                    type="number"
+                    value={iterations}
+                    onChange={(e) => setIterations(Number(e.target.value))}
+                    min={1}
+                    max={1000}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="seed">Seed</Label>
+                  <Input
+                    id="seed"
+                    type="number"
+                    value={seed}
+                    onChange={(e) =>
+                      setSeed(
+                        e.target.value === "" ? "" : Number(e.target.value)
+                      )
+                    }
+                    placeholder="Random"
+                  />
+                </div>
+              </div>
+
+              <div className="pt-4 border-t">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Current Price</span>
+                  <span className="font-medium">${currentPrice}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm mt-2">
+                  <span className="text-muted-foreground">Range Width</span>
+                  <span className="font-medium">{projections.rangeWidth}%</span>
+                </div>
+              </div>
+              </>
+              )}
+              </>
+            )}
 
             <Button
               onClick={runSimulation}
@@ -239,7 +624,11 @@ export default function Simulator() {
             </Alert>
           )}
 
-          {simulationResult ? (
+          {sweepResult ? (
+            <SweepResults result={sweepResult} />
+          ) : backtestResult ? (
+            <BacktestResults result={backtestResult} />
+          ) : simulationResult ? (
             <>
               <Card>
                 <CardHeader>
@@ -247,6 +636,8 @@ export default function Simulator() {
                   <CardDescription>
                     Based on {duration / 24} days with rebalancing every{" "}
                     {rebalanceFrequency} hours
+                    {simulationResult.monteCarlo &&
+                      " · median of all simulated paths"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -340,6 +731,9 @@ export default function Simulator() {
                   </div>
                 </CardContent>
               </Card>
+              {simulationResult.monteCarlo && (
+                <MonteCarloResults summary={simulationResult.monteCarlo} />
+              )}
             </>
           ) : (
             <Card>
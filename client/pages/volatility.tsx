@@ -10,6 +10,13 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Search,
   TrendingUp,
@@ -18,8 +25,11 @@ import {
   RefreshCw,
   ChevronLeft,
   ChevronRight,
+  ArrowDown,
+  ArrowUp,
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { usePools, type PoolSort } from "@/hooks/use-pools";
 import { useVolatility } from "@/lib/volatility-context";
 import { PoolDetailModal } from "@/components/pool-detail-modal";
 
@@ -32,68 +42,68 @@ interface VolatilityData {
   tokenY?: { symbol: string };
 }
 
+const SORT_LABELS: Record<PoolSort, string> = {
+  tvl: "TVL",
+  volume24h: "24h volume",
+  fees24h: "24h fees",
+  volatility: "Volatility",
+  feeApr: "Fee APR",
+};
+
+const ITEMS_PER_PAGE = 12;
+
+function formatUsd(value: number) {
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  if (value >= 1e3) return `$${(value / 1e3).toFixed(1)}K`;
+  return `$${value.toFixed(2)}`;
+}
+
 export default function Volatility() {
-  const {
-    pools,
-    volatilityData,
-    setPools,
-    updateVolatilityForPool,
-  } = useVolatility();
+  const { volatilityData, updateVolatilityForPool } = useVolatility();
+  const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [loadingPools, setLoadingPools] = useState(false);
+  const [sort, setSort] = useState<PoolSort>("tvl");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [minTvl, setMinTvl] = useState("");
+  const [binStep, setBinStep] = useState("");
   const [selectedPool, setSelectedPool] = useState<any>(null);
   const [showPoolDetail, setShowPoolDetail] = useState(false);
   const [loadingVolatility, setLoadingVolatility] = useState<Set<string>>(
     new Set()
   );
   const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(12);
 
+  // Search once typing pauses
   useEffect(() => {
-    if (pools.length === 0) {
-      loadPools();
-    }
-  }, []);
-
-  const loadPools = async (page: number = 1, limit: number = 50) => {
-    setLoadingPools(true);
-    try {
-      const apiUrl = `${import.meta.env.VITE_API_URL ||
-        "http://localhost:3001/api"}/pools?page=${page}&limit=${limit}`;
-      const response = await fetch(apiUrl);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-      const result = await response.json();
-
-      if (result.success && Array.isArray(result.data)) {
-        // Merge with existing pools to avoid duplicates
-        setPools((prevPools) => {
-          const poolMap = new Map(prevPools.map((p) => [p.address, p]));
-          result.data.forEach((pool: any) => poolMap.set(pool.address, pool));
-          return Array.from(poolMap.values());
-        });
+  const {
+    data: poolsData,
+    isLoading: loadingPools,
+    isFetching,
+    isError,
+    refetch,
+  } = usePools({
+    search: searchQuery || undefined,
+    minTvl: Number(minTvl) > 0 ? Number(minTvl) : undefined,
+    binStep: Number(binStep) > 0 ? Number(binStep) : undefined,
+    sort,
+    order,
+    page: currentPage,
+    limit: ITEMS_PER_PAGE,
+  });
 
-        // Auto-load volatility for first 5 pools if this is the first load
-        if (page === 1) {
-          result.data.slice(0, 5).forEach((pool: any) => {
-            loadVolatilityForPool(pool.address);
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Failed to load pools:", error);
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load pools",
         variant: "destructive",
       });
-    } finally {
-      setLoadingPools(false);
     }
-  };
+  }, [isError]);
 
   const loadVolatilityForPool = async (poolAddress: string) => {
     setLoadingVolatility((prev) => new Set(prev).add(poolAddress));
@@ -131,25 +141,19 @@ export default function Volatility() {
     }
   };
 
-  const filteredPools = pools.filter((pool) => {
-    const matchesSearch =
-      pool.tokenX?.symbol?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      pool.tokenY?.symbol?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      pool.address?.toLowerCase().includes(searchQuery.toLowerCase());
+  // Filtering and paging happen on the server
+  const paginatedPools = poolsData?.data ?? [];
+  const totalPools = poolsData?.pagination?.total ?? 0;
+  const totalPages = poolsData?.pagination?.totalPages ?? 0;
+  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+  const endIndex = startIndex + paginatedPools.length;
+  const indexing =
+    poolsData?.index?.refreshing && poolsData.index.refreshedAt === null;
 
-    return matchesSearch;
-  });
-
-  // Pagination
-  const totalPages = Math.ceil(filteredPools.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedPools = filteredPools.slice(startIndex, endIndex);
-
-  // Reset to page 1 when search changes
+  // Back to page 1 when the filters or order change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery]);
+  }, [searchQuery, sort, order, minTvl, binStep]);
 
   const getVolatilityColor = (volatility: number) => {
     if (volatility < 20) return "text-green-600";
@@ -177,12 +181,12 @@ export default function Volatility() {
           </p>
         </div>
         <Button
-          onClick={() => loadPools()}
-          disabled={loadingPools}
+          onClick={() => refetch()}
+          disabled={isFetching}
           className="gap-2"
         >
           <RefreshCw
-            className={`w-4 h-4 ${loadingPools ? "animate-spin" : ""}`}
+            className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`}
           />
           Refresh
         </Button>
@@ -198,19 +202,62 @@ export default function Volatility() {
         </AlertDescription>
       </Alert>
 
-      {/* Search */}
+      {/* Search and filters */}
       <Card>
-        <CardContent className="pt-6">
+        <CardContent className="pt-6 space-y-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
               type="text"
               placeholder="Search by token pair or pool address..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="pl-10"
             />
           </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Select
+              value={sort}
+              onValueChange={(value) => setSort(value as PoolSort)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    Sort by {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => setOrder(order === "desc" ? "asc" : "desc")}
+            >
+              {order === "desc" ? (
+                <ArrowDown className="w-4 h-4" />
+              ) : (
+                <ArrowUp className="w-4 h-4" />
+              )}
+              {order === "desc" ? "Highest first" : "Lowest first"}
+            </Button>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min TVL ($)"
+              value={minTvl}
+              onChange={(e) => setMinTvl(e.target.value)}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Bin step"
+              value={binStep}
+              onChange={(e) => setBinStep(e.target.value)}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -228,9 +275,11 @@ export default function Volatility() {
             <Search className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
             <h3 className="text-lg font-semibold mb-2">No pools found</h3>
             <p className="text-muted-foreground">
-              {searchQuery
-                ? "Try adjusting your search criteria"
-                : "No pools available"}
+              {indexing
+                ? "The pool index is still being built, try again shortly"
+                : searchQuery || minTvl || binStep
+                  ? "Try adjusting your search criteria"
+                  : "No pools available"}
             </p>
           </CardContent>
         </Card>
@@ -240,16 +289,19 @@ export default function Volatility() {
             {paginatedPools.map((pool) => {
               const volatility = volatilityData.get(pool.address);
               const isLoading = loadingVolatility.has(pool.address);
+              const indexedVolatility =
+                pool.volatility > 0 ? pool.volatility : null;
               const badge = volatility
                 ? getVolatilityBadge(volatility.volatility)
-                : null;
+                : indexedVolatility !== null
+                  ? getVolatilityBadge(indexedVolatility)
+                  : null;
 
               return (
                 <Card
                   key={pool.address}
                   className="hover:shadow-lg transition-shadow cursor-pointer"
                   onClick={() => {
-                    const volatility = volatilityData.get(pool.address);
                     setSelectedPool(pool);
                     setShowPoolDetail(true);
                   }}
@@ -280,6 +332,24 @@ export default function Volatility() {
                         </span>
                       </div>
 
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-muted-foreground">
+                          TVL
+                        </span>
+                        <span className="font-medium">
+                          {formatUsd(pool.tvl)}
+                        </span>
+                      </div>
+
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm text-muted-foreground">
+                          Fee APR
+                        </span>
+                        <span className="font-medium">
+                          {pool.feeApr.toFixed(2)}%
+                        </span>
+                      </div>
+
                       {volatility ? (
                         <>
                           <div className="flex justify-between items-center">
@@ -330,30 +400,46 @@ export default function Volatility() {
                           </div>
                         </>
                       ) : (
-                        <div className="py-4 text-center">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              loadVolatilityForPool(pool.address);
-                            }}
-                            disabled={isLoading}
-                            className="w-full"
-                          >
-                            {isLoading ? (
-                              <>
-                                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                                Loading...
-                              </>
-                            ) : (
-                              <>
-                                <Activity className="w-4 h-4 mr-2" />
-                                Load Volatility
-                              </>
-                            )}
-                          </Button>
-                        </div>
+                        <>
+                          {indexedVolatility !== null && (
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm text-muted-foreground">
+                                Volatility
+                              </span>
+                              <span
+                                className={`font-bold ${getVolatilityColor(
+                                  indexedVolatility
+                                )}`}
+                              >
+                                {indexedVolatility.toFixed(2)}%
+                              </span>
+                            </div>
+                          )}
+                          <div className="py-4 text-center">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                loadVolatilityForPool(pool.address);
+                              }}
+                              disabled={isLoading}
+                              className="w-full"
+                            >
+                              {isLoading ? (
+                                <>
+                                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                                  Loading...
+                                </>
+                              ) : (
+                                <>
+                                  <Activity className="w-4 h-4 mr-2" />
+                                  Load Volatility
+                                </>
+                              )}
+                            </Button>
+                          </div>
+                        </>
                       )}
                     </div>
 
@@ -388,9 +474,8 @@ export default function Volatility() {
               <CardContent className="pt-6">
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-muted-foreground">
-                    Showing {startIndex + 1}-
-                    {Math.min(endIndex, filteredPools.length)} of{" "}
-                    {filteredPools.length} pools
+                    Showing {startIndex + 1}-{endIndex} of {totalPools}{" "}
+                    pools
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
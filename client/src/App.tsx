@@ -17,6 +17,7 @@ import {
   Menu,
   X,
   LineChart,
+  ClipboardCheck,
 } from "lucide-react";
 import { WalletButton } from "../components/wallet-button";
 import { ThemeToggle } from "../components/theme-toggle";
@@ -26,6 +27,7 @@ import Analytics from "../pages/analytics";
 import Simulator from "../pages/simulator";
 import SettingsPage from "../pages/settings";
 import Volatility from "../pages/volatility";
+import Approvals from "../pages/approvals";
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 
@@ -39,6 +41,7 @@ function Navigation() {
     { name: "Analytics", href: "/analytics", icon: TrendingUp },
     { name: "Volatility", href: "/volatility", icon: LineChart },
     { name: "Simulator", href: "/simulator", icon: TrendingUp },
+    { name: "Approvals", href: "/approvals", icon: ClipboardCheck },
     { name: "Settings", href: "/settings", icon: Settings },
   ];
 
@@ -200,6 +203,7 @@ function App() {
                   <Route path="/analytics" element={<Analytics />} />
                   <Route path="/volatility" element={<Volatility />} />
                   <Route path="/simulator" element={<Simulator />} />
+                  <Route path="/approvals" element={<Approvals />} />
                   <Route path="/settings" element={<SettingsPage />} />
                 </Routes>
               </main>
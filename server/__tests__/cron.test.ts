@@ -0,0 +1,67 @@
+import { describe, expect, it } from "@jest/globals";
+import { nextCronRun, parseCron } from "../scheduler/cron";
+
+// Schedules run in server local time; 2026-01-01 is a Thursday
+const at = (day: number, hour: number, minute: number) =>
+  new Date(2026, 0, day, hour, minute).getTime();
+
+describe("parseCron", () => {
+  it("expands steps, ranges and lists", () => {
+    const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.days)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.weekdays)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.daysRestricted).toBe(true);
+    expect(schedule.weekdaysRestricted).toBe(true);
+  });
+
+  it("runs a stepped start to the end of the field", () => {
+    expect(Array.from(parseCron("5/20 * * * *").minutes)).toEqual([5, 25, 45]);
+  });
+
+  it("treats weekday 7 as Sunday", () => {
+    expect(Array.from(parseCron("0 0 * * 7").weekdays)).toEqual([0]);
+  });
+
+  it("rejects the wrong number of fields", () => {
+    expect(() => parseCron("* * * *")).toThrow(/5 fields/);
+  });
+
+  it("rejects out-of-range values, zero steps and inverted ranges", () => {
+    expect(() => parseCron("60 * * * *")).toThrow(/Invalid minute/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("0 10-9 * * *")).toThrow(/Invalid hour range/);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute", () => {
+    const schedule = parseCron("*/15 * * * *");
+    expect(nextCronRun(schedule, at(1, 10, 7))).toBe(at(1, 10, 15));
+  });
+
+  it("runs strictly after the given time", () => {
+    const schedule = parseCron("*/15 * * * *");
+    expect(nextCronRun(schedule, at(1, 10, 15))).toBe(at(1, 10, 30));
+  });
+
+  it("rolls over to the next matching weekday", () => {
+    const schedule = parseCron("0 9 * * 1");
+    expect(nextCronRun(schedule, at(1, 10, 0))).toBe(at(5, 9, 0));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th or any Friday: Friday the 2nd comes first
+    const schedule = parseCron("0 0 13 * 5");
+    expect(nextCronRun(schedule, at(1, 12, 0))).toBe(at(2, 0, 0));
+    expect(nextCronRun(schedule, at(12, 12, 0))).toBe(at(13, 0, 0));
+  });
+
+  it("rejects schedules that never run", () => {
+    const schedule = parseCron("0 0 31 2 *");
+    expect(() => nextCronRun(schedule, at(1, 0, 0))).toThrow(/never runs/);
+  });
+});
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Keypair } from "@solana/web3.js";
+import type { PositionData, RebalanceEvent } from "../../shared/schema";
+
+const mockPackTransactions = jest.fn();
+const mockAddRebalanceEvent = jest.fn();
+const mockAddAlert = jest.fn();
+const mockPositions = new Map<string, PositionData>();
+
+jest.mock("../solana/transaction-builder", () => ({
+  packTransactions: (...args: unknown[]) => mockPackTransactions(...args),
+}));
+jest.mock("../solana/connection", () => ({ getConnection: () => ({}) }));
+jest.mock("../solana/dlmm-client", () => ({
+  dlmmClient: {
+    prepareRebalanceInstructions: async (
+      _position: unknown,
+      lowerBinId: number,
+      upperBinId: number
+    ) => ({
+      instructions: [],
+      signers: [],
+      newRange: { lowerBinId, upperBinId },
+    }),
+  },
+}));
+jest.mock("../storage", () => ({
+  __esModule: true,
+  default: {
+    getPosition: (address: string) => mockPositions.get(address),
+    addRebalanceEvent: (event: unknown) => mockAddRebalanceEvent(event),
+    addAlert: (alert: unknown) => mockAddAlert(alert),
+  },
+}));
+jest.mock("../services/telegram-bot", () => ({
+  telegramBot: { sendAlert: async () => undefined },
+}));
+jest.mock("../services/rebalance-strategy.service", () => ({
+  rebalanceStrategyService: {},
+}));
+jest.mock("../scheduler", () => ({ scheduler: {} }));
+
+import { EcoRebalancer } from "../services/eco-rebalancer";
+
+const owner = Keypair.fromSeed(new Uint8Array(32).fill(1));
+
+// An out-of-range position, so it clears the queue's priority threshold
+function outOfRange(address: string): PositionData {
+  return {
+    position: {
+      address,
+      poolAddress: "pool",
+      owner: owner.publicKey.toString(),
+      lowerBinId: 100,
+      upperBinId: 110,
+      liquidityX: "0",
+      liquidityY: "0",
+      feeX: "0",
+      feeY: "0",
+      createdAt: 0,
+    },
+    pool: {
+      address: "pool",
+      tokenX: { mint: "mintX", symbol: "X", decimals: 6 },
+      tokenY: { mint: "mintY", symbol: "Y", decimals: 6 },
+      binStep: 25,
+      activeId: 120,
+      currentPrice: 1,
+      tvl: 0,
+      volume24h: 0,
+      fees24h: 0,
+    },
+    currentValue: 0,
+    feesEarned: { tokenX: 0, tokenY: 0, total: 0 },
+    performance: { totalReturn: 0, dailyYield: 0, impermanentLoss: 0 },
+    riskMetrics: {
+      concentration: 0,
+      priceDistance: 0,
+      utilizationRate: 0,
+      isInRange: false,
+    },
+  };
+}
+
+beforeEach(() => {
+  mockPositions.clear();
+  mockPackTransactions.mockReset();
+  mockAddRebalanceEvent.mockClear();
+  mockAddAlert.mockClear();
+});
+
+describe("executeBatch", () => {
+  it("reports every position failed when packing throws", async () => {
+    const rebalancer = new EcoRebalancer();
+    for (const address of ["position-a", "position-b"]) {
+      mockPositions.set(address, outOfRange(address));
+      rebalancer.queueRebalance(address, {
+        positionAddress: address,
+        newLowerBinId: 115,
+        newUpperBinId: 125,
+        reason: "Out of range",
+      });
+    }
+    mockPackTransactions.mockImplementation(async () => {
+      throw new Error("Instruction group 0 does not fit in one transaction");
+    });
+
+    const result = await rebalancer.executeBatch(owner);
+
+    expect(result.transactions).toBe(0);
+    expect(result.positions).toEqual([
+      {
+        positionAddress: "position-a",
+        status: "failed",
+        error: "Instruction group 0 does not fit in one transaction",
+      },
+      {
+        positionAddress: "position-b",
+        status: "failed",
+        error: "Instruction group 0 does not fit in one transaction",
+      },
+    ]);
+
+    const events = mockAddRebalanceEvent.mock.calls.map(
+      ([event]) => event as RebalanceEvent
+    );
+    expect(events.map((event) => event.status)).toEqual(["failed", "failed"]);
+    expect(events.map((event) => event.newRange)).toEqual([
+      { lowerBinId: 115, upperBinId: 125 },
+      { lowerBinId: 115, upperBinId: 125 },
+    ]);
+
+    const status = rebalancer.getQueueStatus();
+    expect(status.queueLength).toBe(0);
+    expect(status.lastBatch).toBe(result);
+    expect(mockAddAlert).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "warning" })
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { Keypair } from "@solana/web3.js";
+import type { PositionData } from "../../shared/schema";
+
+const mockPositions: PositionData[] = [];
+const mockJobs: Array<{ run: () => Promise<void> }> = [];
+const mockPrepareCompound = jest.fn();
+const mockQueueTransaction = jest.fn();
+
+jest.mock("../storage", () => ({
+  __esModule: true,
+  default: {
+    getManualTokenPrices: () => ({}),
+    getUserPositions: () => mockPositions,
+  },
+}));
+jest.mock("../scheduler", () => ({
+  scheduler: {
+    register: (job: { run: () => Promise<void> }) => mockJobs.push(job),
+  },
+}));
+jest.mock("../solana/dlmm-client", () => ({
+  dlmmClient: {
+    prepareCompoundTransaction: (...args: unknown[]) =>
+      mockPrepareCompound(...args),
+  },
+}));
+jest.mock("../services/transaction-queue.service", () => ({
+  transactionQueueService: {
+    getPendingTransactions: () => [],
+    queueTransaction: (...args: unknown[]) => mockQueueTransaction(...args),
+  },
+}));
+jest.mock("../services/telegram-bot", () => ({
+  telegramBot: { sendTransactionApprovalAlert: async () => undefined },
+}));
+
+import { priceOracle } from "../oracle";
+import { FeeCompounder } from "../services/fee-compounder.service";
+
+const owner = Keypair.fromSeed(new Uint8Array(32).fill(2)).publicKey;
+
+// 2.5 X (9 decimals) and 40 Y (6 decimals) of unclaimed fees
+function withFees(): PositionData {
+  return {
+    position: {
+      address: "position",
+      poolAddress: "pool",
+      owner: owner.toString(),
+      lowerBinId: 100,
+      upperBinId: 110,
+      liquidityX: "0",
+      liquidityY: "0",
+      feeX: "2500000000",
+      feeY: "40000000",
+      createdAt: 0,
+    },
+    pool: {
+      address: "pool",
+      tokenX: { mint: "mintX", symbol: "X", decimals: 9 },
+      tokenY: { mint: "mintY", symbol: "Y", decimals: 6 },
+      binStep: 25,
+      activeId: 105,
+      currentPrice: 100,
+      tvl: 0,
+      volume24h: 0,
+      fees24h: 0,
+    },
+    currentValue: 0,
+    feesEarned: { tokenX: 0, tokenY: 0, total: 0 },
+    performance: { totalReturn: 0, dailyYield: 0, impermanentLoss: 0 },
+    riskMetrics: {
+      concentration: 0,
+      priceDistance: 0,
+      utilizationRate: 0,
+      isInRange: true,
+    },
+  };
+}
+
+beforeEach(() => {
+  mockPositions.length = 0;
+  mockJobs.length = 0;
+  mockPrepareCompound.mockReset();
+  mockPrepareCompound.mockImplementation(async () => ({ transaction: {} }));
+  mockQueueTransaction.mockReset();
+  mockQueueTransaction.mockImplementation(async () => ({
+    id: "tx",
+    metadata: {},
+  }));
+  // $100 X, $1 Y and $150 SOL for the transaction cost
+  jest.spyOn(priceOracle, "getPrice").mockImplementation((mint) => ({
+    mint,
+    usd: mint === "mintX" ? 100 : mint === "mintY" ? 1 : 150,
+    source: "static",
+    updatedAt: Date.now(),
+  }));
+});
+
+describe("FeeCompounder", () => {
+  it("builds the compound transaction from base-unit fee amounts", async () => {
+    const positionData = withFees();
+    mockPositions.push(positionData);
+
+    new FeeCompounder().start(owner.toString(), 1);
+    await mockJobs[0].run();
+
+    expect(mockPrepareCompound).toHaveBeenCalledTimes(1);
+    const [position, wallet, feeX, feeY] = mockPrepareCompound.mock.calls[0];
+    expect(position).toBe(positionData.position);
+    expect(String(wallet)).toBe(owner.toString());
+    expect(feeX).toBe(2500000000);
+    expect(feeY).toBe(40000000);
+  });
+
+  it("reports the fees to the approver in UI units", async () => {
+    mockPositions.push(withFees());
+
+    new FeeCompounder().start(owner.toString(), 1);
+    await mockJobs[0].run();
+
+    const metadata = mockQueueTransaction.mock.calls[0][4];
+    expect(metadata).toEqual(
+      expect.objectContaining({
+        fees: { amountX: 2.5, amountY: 40, valueUsd: 290 },
+      })
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "@jest/globals";
+import { ilCalculator } from "../utils/il-calculator";
+import { priceToBinId } from "../utils/bin-math";
+
+const BIN_STEP = 25;
+const INITIAL_PRICE = 100;
+const ACTIVE = priceToBinId(INITIAL_PRICE, BIN_STEP);
+const range = {
+  binStep: BIN_STEP,
+  lowerBinId: ACTIVE - 10,
+  upperBinId: ACTIVE + 10,
+  initialPrice: INITIAL_PRICE,
+  initialValue: 1000,
+};
+
+describe("calculateIL", () => {
+  it("is zero when price is unchanged", () => {
+    expect(ilCalculator.calculateIL(100, 100)).toBeCloseTo(0, 10);
+  });
+
+  it("matches the full-range formula for a 2x move", () => {
+    // 2√2 / 3 - 1
+    expect(ilCalculator.calculateIL(100, 200)).toBeCloseTo(-5.719, 3);
+  });
+
+  it("is symmetric for reciprocal moves", () => {
+    expect(ilCalculator.calculateIL(100, 50)).toBeCloseTo(
+      ilCalculator.calculateIL(100, 200),
+      10
+    );
+  });
+
+  it("rejects non-positive prices", () => {
+    expect(() => ilCalculator.calculateIL(0, 100)).toThrow(/positive/);
+  });
+});
+
+describe("calculateDlmmIL", () => {
+  it("deposits the initial value with no loss at the initial price", () => {
+    const result = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE);
+
+    expect(
+      result.initialAmountX * INITIAL_PRICE + result.initialAmountY
+    ).toBeCloseTo(1000, 6);
+    expect(result.impermanentLoss).toBeCloseTo(0, 10);
+    expect(result.lpValue).toBeCloseTo(result.hodlValue, 6);
+    expect(result.inRange).toBe(true);
+  });
+
+  it("holds only Y after price leaves the range above", () => {
+    const result = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE * 2);
+
+    expect(result.inRange).toBe(false);
+    expect(result.currentAmountX).toBeCloseTo(0, 10);
+    expect(result.currentAmountY).toBeGreaterThan(result.initialAmountY);
+    expect(result.bins.every((bin) => bin.amountX === 0)).toBe(true);
+  });
+
+  it("holds only X after price leaves the range below", () => {
+    const result = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE / 2);
+
+    expect(result.inRange).toBe(false);
+    expect(result.currentAmountY).toBeCloseTo(0, 10);
+    expect(result.currentAmountX).toBeGreaterThan(result.initialAmountX);
+  });
+
+  it("loses more than a full-range position outside the range", () => {
+    const dlmm = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE * 2);
+    const fullRange = ilCalculator.calculateIL(
+      INITIAL_PRICE,
+      INITIAL_PRICE * 2
+    );
+
+    expect(dlmm.impermanentLoss).toBeLessThan(fullRange);
+    expect(dlmm.absoluteLoss).toBeCloseTo(
+      (dlmm.impermanentLoss / 100) * dlmm.hodlValue,
+      6
+    );
+  });
+
+  it("keeps the loss growing once price is past the range", () => {
+    const twice = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE * 2);
+    const triple = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE * 3);
+
+    expect(triple.impermanentLoss).toBeLessThan(twice.impermanentLoss);
+  });
+
+  it("adds fees to the LP value", () => {
+    const result = ilCalculator.calculateDlmmIL(range, INITIAL_PRICE * 1.1, 5);
+    const withoutFees = ilCalculator.calculateDlmmIL(
+      range,
+      INITIAL_PRICE * 1.1
+    );
+
+    expect(result.lpValue).toBeCloseTo(withoutFees.lpValue + 5, 6);
+    expect(result.impermanentLoss).toBeCloseTo(withoutFees.impermanentLoss, 10);
+  });
+
+  it("rejects an inverted range", () => {
+    expect(() =>
+      ilCalculator.calculateDlmmIL(
+        { ...range, lowerBinId: ACTIVE + 1, upperBinId: ACTIVE - 1 },
+        INITIAL_PRICE
+      )
+    ).toThrow(/Lower bin/);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  allocateLiquidity,
+  shapeWeights,
+  swapToRatio,
+  targetShareX,
+} from "../utils/liquidity-distribution";
+
+const ACTIVE = 8388608;
+const range = {
+  lowerBinId: ACTIVE - 5,
+  upperBinId: ACTIVE + 5,
+  activeBinId: ACTIVE,
+  binStep: 25,
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe("shapeWeights", () => {
+  it("gives every bin the same weight for spot", () => {
+    const weights = shapeWeights(
+      { shape: "spot" },
+      ACTIVE - 2,
+      ACTIVE + 2,
+      ACTIVE
+    );
+    expect(weights).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  it("peaks at the active bin for curve", () => {
+    const weights = shapeWeights(
+      { shape: "curve" },
+      ACTIVE - 4,
+      ACTIVE + 4,
+      ACTIVE
+    );
+    const peak = Math.max(...weights);
+    expect(weights[4]).toBe(peak);
+    expect(weights[0]).toBeLessThan(weights[2]);
+    expect(weights[8]).toBeLessThan(weights[6]);
+  });
+
+  it("is thinnest at the active bin for bid-ask", () => {
+    const weights = shapeWeights(
+      { shape: "bid-ask" },
+      ACTIVE - 2,
+      ACTIVE + 2,
+      ACTIVE
+    );
+    expect(weights).toEqual([3, 2, 1, 2, 3]);
+  });
+
+  it("rejects custom weights that do not cover the range", () => {
+    expect(() =>
+      shapeWeights(
+        { shape: "custom", weights: [1, 2] },
+        ACTIVE - 1,
+        ACTIVE + 1,
+        ACTIVE
+      )
+    ).toThrow(/needs 3 weights/);
+  });
+});
+
+describe("allocateLiquidity", () => {
+  it("splits each token into basis points that sum to 10000", () => {
+    for (const shape of ["spot", "curve", "bid-ask"] as const) {
+      const bins = allocateLiquidity({
+        ...range,
+        amountX: 1000,
+        amountY: 500,
+        distribution: { shape },
+      });
+      expect(sum(bins.map((b) => b.distributionX))).toBe(10000);
+      expect(sum(bins.map((b) => b.distributionY))).toBe(10000);
+      expect(sum(bins.map((b) => b.amountX))).toBeCloseTo(1000, 9);
+      expect(sum(bins.map((b) => b.amountY))).toBeCloseTo(500, 9);
+    }
+  });
+
+  it("puts X at or above the active bin and Y at or below it", () => {
+    const bins = allocateLiquidity({ ...range, amountX: 1, amountY: 1 });
+    for (const bin of bins) {
+      if (bin.binId < ACTIVE) expect(bin.distributionX).toBe(0);
+      if (bin.binId > ACTIVE) expect(bin.distributionY).toBe(0);
+      expect(bin.relativeBinId).toBe(bin.binId - ACTIVE);
+    }
+  });
+
+  it("rejects an inverted range", () => {
+    expect(() =>
+      allocateLiquidity({
+        ...range,
+        lowerBinId: ACTIVE + 1,
+        upperBinId: ACTIVE - 1,
+        amountX: 1,
+        amountY: 0,
+      })
+    ).toThrow(/lower .* is above upper/);
+  });
+
+  it("rejects token X for a range entirely below the active bin", () => {
+    expect(() =>
+      allocateLiquidity({
+        ...range,
+        lowerBinId: ACTIVE - 5,
+        upperBinId: ACTIVE - 1,
+        amountX: 1,
+        amountY: 1,
+      })
+    ).toThrow(/places no token X/);
+  });
+});
+
+describe("targetShareX", () => {
+  it("is half for a symmetric range", () => {
+    for (const shape of ["spot", "curve", "bid-ask"] as const) {
+      expect(
+        targetShareX({ shape }, ACTIVE - 5, ACTIVE + 5, ACTIVE)
+      ).toBeCloseTo(0.5);
+    }
+  });
+
+  it("is all X for a range above the active bin", () => {
+    expect(
+      targetShareX({ shape: "spot" }, ACTIVE + 1, ACTIVE + 5, ACTIVE)
+    ).toBe(1);
+  });
+});
+
+describe("swapToRatio", () => {
+  it("sells X down to the target share", () => {
+    expect(swapToRatio(1000, 0, 2, 0.5)).toEqual({
+      swapForY: true,
+      amountIn: 500,
+    });
+  });
+
+  it("sells Y up to the target share", () => {
+    expect(swapToRatio(0, 1000, 2, 0.5)).toEqual({
+      swapForY: false,
+      amountIn: 500,
+    });
+  });
+
+  it("returns null when already balanced", () => {
+    expect(swapToRatio(500, 1000, 2, 0.5)).toBeNull();
+  });
+});
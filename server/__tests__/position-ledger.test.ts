@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LedgerEntry, PositionData } from "../../shared/schema";
+import type { PendingDeposit } from "../types";
+
+// In-memory ledger and pending deposits in place of the storage adapter
+jest.mock("../storage", () => {
+  const entries: LedgerEntry[] = [];
+  let pending: PendingDeposit[] = [];
+  return {
+    __esModule: true,
+    default: {
+      getManualTokenPrices: () => ({}),
+      getPosition: () => undefined,
+      getUserPositions: () => [],
+      addLedgerEntry: (entry: LedgerEntry) => entries.push(entry),
+      getLedgerEntries: (filter: { positionAddress?: string } = {}) =>
+        entries.filter(
+          (entry) =>
+            !filter.positionAddress ||
+            entry.positionAddress === filter.positionAddress
+        ),
+      getPendingDeposits: () => pending,
+      setPendingDeposits: (deposits: PendingDeposit[]) => {
+        pending = deposits;
+      },
+    },
+  };
+});
+
+import storage from "../storage";
+import { positionLedger } from "../services/position-ledger.service";
+
+const DECIMALS = 6;
+const UNIT = Math.pow(10, DECIMALS);
+
+let prices = { priceX: 100, priceY: 1 };
+let nextPosition = 0;
+
+// A position holding `x` and `y` tokens (UI units) with unclaimed fees
+function makePosition(
+  address: string,
+  holdings: { x: number; y: number; feeX?: number; feeY?: number }
+): PositionData {
+  return {
+    position: {
+      address,
+      poolAddress: "pool",
+      owner: "wallet",
+      lowerBinId: 100,
+      upperBinId: 110,
+      liquidityX: String(holdings.x * UNIT),
+      liquidityY: String(holdings.y * UNIT),
+      feeX: String((holdings.feeX ?? 0) * UNIT),
+      feeY: String((holdings.feeY ?? 0) * UNIT),
+      createdAt: 0,
+    },
+    pool: {
+      address: "pool",
+      tokenX: { mint: "mintX", symbol: "X", decimals: DECIMALS },
+      tokenY: { mint: "mintY", symbol: "Y", decimals: DECIMALS },
+      binStep: 25,
+      activeId: 105,
+      currentPrice: prices.priceX / prices.priceY,
+      tvl: 0,
+      volume24h: 0,
+      fees24h: 0,
+    },
+    currentValue: 0,
+    feesEarned: { tokenX: 0, tokenY: 0, total: 0 },
+    performance: { totalReturn: 0, dailyYield: 0, impermanentLoss: 0 },
+    riskMetrics: {
+      concentration: 0,
+      priceDistance: 0,
+      utilizationRate: 0,
+      isInRange: true,
+    },
+  };
+}
+
+beforeEach(() => {
+  prices = { priceX: 100, priceY: 1 };
+  jest.spyOn(positionLedger, "prices").mockImplementation(() => prices);
+  storage.setPendingDeposits([]);
+  nextPosition++;
+});
+
+const address = () => `position-${nextPosition}`;
+
+describe("cost basis", () => {
+  it("releases the average cost on a partial withdrawal", () => {
+    const opened = makePosition(address(), { x: 10, y: 0 });
+    positionLedger.ensureOpeningEntry(opened); // 10 X at $100
+
+    prices = { priceX: 120, priceY: 1 };
+    positionLedger.recordExit(opened, "withdrawal", { share: 0.5 });
+
+    const pnl = positionLedger.getPositionPnl(
+      address(),
+      makePosition(address(), { x: 5, y: 0 })
+    );
+    expect(pnl.deposited).toBeCloseTo(1000);
+    expect(pnl.withdrawn).toBeCloseTo(600);
+    expect(pnl.realizedPnl).toBeCloseTo(100);
+    expect(pnl.costBasis).toBeCloseTo(500);
+    expect(pnl.currentValue).toBeCloseTo(600);
+    expect(pnl.unrealizedPnl).toBeCloseTo(100);
+    expect(pnl.hodlValue).toBeCloseTo(1200);
+    expect(pnl.isOpen).toBe(true);
+  });
+
+  it("closes the position on a full withdrawal", () => {
+    const opened = makePosition(address(), { x: 10, y: 0 });
+    positionLedger.ensureOpeningEntry(opened);
+
+    prices = { priceX: 80, priceY: 1 };
+    positionLedger.recordExit(opened, "withdrawal");
+
+    const pnl = positionLedger.getPositionPnl(address());
+    expect(pnl.isOpen).toBe(false);
+    expect(pnl.realizedPnl).toBeCloseTo(-200);
+    expect(pnl.costBasis).toBe(0);
+    expect(pnl.unrealizedPnl).toBe(0);
+    expect(pnl.totalPnl).toBeCloseTo(-200);
+  });
+
+  it("adds compounded fees to the basis as fee income, not deposits", () => {
+    const opened = makePosition(address(), { x: 10, y: 0 });
+    positionLedger.ensureOpeningEntry(opened);
+    positionLedger.recordCompound(opened, { amountX: 0, amountY: 50 });
+
+    const pnl = positionLedger.getPositionPnl(
+      address(),
+      makePosition(address(), { x: 10, y: 50 })
+    );
+    expect(pnl.deposited).toBeCloseTo(1000);
+    expect(pnl.costBasis).toBeCloseTo(1050);
+    expect(pnl.feesCompounded).toBeCloseTo(50);
+    expect(pnl.feeIncome).toBeCloseTo(50);
+    expect(pnl.unrealizedPnl).toBeCloseTo(0);
+  });
+
+  it("counts claimed and unclaimed fees without touching the basis", () => {
+    const opened = makePosition(address(), { x: 10, y: 0 });
+    positionLedger.ensureOpeningEntry(opened);
+    positionLedger.recordClaim(opened, { amountX: 0.1, amountY: 0 });
+
+    const pnl = positionLedger.getPositionPnl(
+      address(),
+      makePosition(address(), { x: 10, y: 0, feeY: 5 })
+    );
+    expect(pnl.costBasis).toBeCloseTo(1000);
+    expect(pnl.feesClaimed).toBeCloseTo(10);
+    expect(pnl.feesUnclaimed).toBeCloseTo(5);
+    expect(pnl.totalPnl).toBeCloseTo(15);
+  });
+});
+
+describe("ensureOpeningEntry", () => {
+  it("opens with the deposit recorded at creation", () => {
+    positionLedger.recordPendingDeposit({
+      owner: "wallet",
+      poolAddress: "pool",
+      lowerBinId: 100,
+      upperBinId: 110,
+      amountX: 10,
+      amountY: 0,
+      priceX: 90,
+      priceY: 1,
+    });
+
+    positionLedger.ensureOpeningEntry(makePosition(address(), { x: 9, y: 0 }));
+
+    const [entry] = positionLedger.getEntries(address());
+    expect(entry.note).toBe("Opening deposit");
+    expect(entry.amountX).toBe(10);
+    expect(entry.valueUsd).toBeCloseTo(900);
+    expect(storage.getPendingDeposits()).toHaveLength(0);
+  });
+
+  it("falls back to the value when first observed", () => {
+    positionLedger.ensureOpeningEntry(makePosition(address(), { x: 2, y: 50 }));
+    positionLedger.ensureOpeningEntry(makePosition(address(), { x: 2, y: 50 }));
+
+    const entries = positionLedger.getEntries(address());
+    expect(entries).toHaveLength(1);
+    expect(entries[0].note).toBe("Opening balance (first observed)");
+    expect(entries[0].valueUsd).toBeCloseTo(250);
+  });
+});
+
+describe("shareOf", () => {
+  it("weights each token's fraction by its value", () => {
+    // $1000 of X and $1000 of Y; taking half the X is a quarter of the value
+    const positionData = makePosition(address(), { x: 10, y: 1000 });
+    const share = positionLedger.shareOf(positionData, {
+      amountX: String(5 * UNIT),
+    });
+    expect(share).toBeCloseTo(0.25);
+  });
+
+  it("caps each token at everything held", () => {
+    const positionData = makePosition(address(), { x: 10, y: 1000 });
+    const share = positionLedger.shareOf(positionData, {
+      amountX: String(20 * UNIT),
+      amountY: String(2000 * UNIT),
+    });
+    expect(share).toBeCloseTo(1);
+  });
+});
+
+describe("recordObservedClaim", () => {
+  it("records fees that disappeared between observations", () => {
+    const previous = makePosition(address(), { x: 10, y: 0, feeY: 8 });
+    positionLedger.ensureOpeningEntry(previous);
+    const current = makePosition(address(), { x: 10, y: 0, feeY: 1 });
+
+    const entry = positionLedger.recordObservedClaim(previous, current);
+    expect(entry?.type).toBe("fee_claim");
+    expect(entry?.amountY).toBeCloseTo(7);
+  });
+
+  it("skips fees an entry since the last observation accounts for", () => {
+    const previous = makePosition(address(), { x: 10, y: 0, feeY: 8 });
+    positionLedger.ensureOpeningEntry(previous);
+    positionLedger.recordCompound(previous, { amountX: 0, amountY: 8 });
+    const current = makePosition(address(), { x: 10, y: 8 });
+
+    expect(positionLedger.recordObservedClaim(previous, current)).toBeNull();
+  });
+});
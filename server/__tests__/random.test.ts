@@ -0,0 +1,38 @@
+import { describe, expect, it } from "@jest/globals";
+import { createRandom, randomSeed } from "../utils/random";
+
+const take = (seed: number, count: number) => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe("createRandom", () => {
+  it("replays the same sequence for the same seed", () => {
+    expect(take(42, 100)).toEqual(take(42, 100));
+  });
+
+  it("gives different sequences for different seeds", () => {
+    expect(take(42, 10)).not.toEqual(take(43, 10));
+  });
+
+  it("stays in [0, 1) with a roughly uniform mean", () => {
+    const values = take(7, 10000);
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean).toBeGreaterThan(0.48);
+    expect(mean).toBeLessThan(0.52);
+  });
+
+  it("treats seeds as unsigned 32-bit integers", () => {
+    expect(take(-1, 10)).toEqual(take(4294967295, 10));
+  });
+});
+
+describe("randomSeed", () => {
+  it("returns a 32-bit unsigned integer", () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+});
@@ -3,6 +3,13 @@
  * Environment variables and constants for Saros DLMM integration
  */
 
+import path from "path";
+import dotenv from "dotenv";
+import type { RebalanceStrategyName } from "../shared/schema";
+
+// Load .env before any value below is read; config is imported ahead of index.ts's own dotenv call
+dotenv.config();
+
 export const config = {
   // Solana RPC Configuration
   solana: {
@@ -51,6 +58,13 @@ export const config = {
     maxVolatilityThreshold: 0.5, // 50%
     defaultSlippageBps: 50, // 0.5%
     maxSlippageBps: 500, // 5%
+    // Skip swap-to-ratio swaps worth less than this share of the deposit
+    minSwapShare: 0.01,
+    // Range strategy used when a position has none selected
+    defaultStrategy: (process.env.REBALANCE_STRATEGY ||
+      "fixed-width") as RebalanceStrategyName,
+    minPositionBins: 3, // one bin either side of the active bin
+    maxPositionBins: parseInt(process.env.MAX_POSITION_BINS || "64"),
   },
 
   // Stop-Loss Settings
@@ -59,6 +73,41 @@ export const config = {
     percentage: parseFloat(process.env.STOP_LOSS_PERCENTAGE || "0.15"),
     defaultThreshold: 0.1, // 10% loss
     checkIntervalMs: 60000, // 1 minute
+    eventRetentionDays: 90,
+  },
+
+  // Fee Compounding
+  compounding: {
+    checkIntervalMs: 900000, // 15 minutes
+    // Network + priority fee of a claim-and-add transaction
+    txFeeLamports: parseInt(process.env.COMPOUND_TX_FEE_LAMPORTS || "20000"),
+    // Fees must be worth this many times the transaction cost
+    minFeeToCostRatio: 3,
+  },
+
+  // Transaction Building
+  transactions: {
+    priorityFee: {
+      // Percentile of recent fees paid to write the same accounts
+      percentile: parseInt(process.env.PRIORITY_FEE_PERCENTILE || "75"),
+      // Compute unit price (micro-lamports) when there are no recent fees
+      fallbackMicroLamports: parseInt(
+        process.env.PRIORITY_FEE_MICROLAMPORTS || "10000"
+      ),
+      maxMicroLamports: parseInt(
+        process.env.MAX_PRIORITY_FEE_MICROLAMPORTS || "2000000"
+      ),
+    },
+    computeUnits: {
+      margin: 1.2, // headroom over what simulation used
+      fallback: 400000, // when simulation fails
+      max: 1400000, // per-transaction limit
+    },
+    // Address lookup tables that v0 transactions may load accounts from
+    lookupTables:
+      process.env.ADDRESS_LOOKUP_TABLES?.split(",")
+        .map((t) => t.trim())
+        .filter(Boolean) || [],
   },
 
   // Monitored Pools
@@ -73,6 +122,92 @@ export const config = {
     monitoringIntervalMs: 300000, // 5 minutes
   },
 
+  // Price History Settings
+  priceHistory: {
+    sampleIntervalMs: parseInt(process.env.PRICE_SAMPLE_INTERVAL_MS || "60000"),
+    retentionCheckIntervalMs: 3600000, // 1 hour
+    // How long each series is kept (ms)
+    retention: {
+      raw: 2 * 86400000, // 2 days
+      "1m": 3 * 86400000, // 3 days
+      "5m": 30 * 86400000, // 30 days
+      "1h": 180 * 86400000, // 180 days
+      "1d": 5 * 365 * 86400000, // 5 years
+    },
+  },
+
+  // USD Price Oracle
+  oracle: {
+    // Mints valued at $1 (USDC and USDT mainnet, USDC devnet)
+    stablecoins: [
+      "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+      "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU",
+      ...(process.env.STABLECOIN_MINTS?.split(",").map((m) => m.trim()) || []),
+    ],
+    // Fixed prices as "mint=usd,mint=usd"
+    staticPrices: Object.fromEntries(
+      (process.env.STATIC_TOKEN_PRICES || "")
+        .split(",")
+        .map((pair) => pair.split("=").map((part) => part.trim()))
+        .filter(([mint, usd]) => mint && Number(usd) > 0)
+        .map(([mint, usd]) => [mint, Number(usd)])
+    ) as Record<string, number>,
+    maxRouteHops: 3,
+    maxPriceAgeMs: parseInt(process.env.MAX_PRICE_AGE_MS || "300000"), // 5 minutes
+  },
+
+  // Sign-In-With-Solana sessions
+  auth: {
+    required: process.env.AUTH_REQUIRED !== "false",
+    // Shown in the sign-in message so wallets can tell which site asked
+    domain: process.env.AUTH_DOMAIN || "localhost",
+    nonceTtlMs: 300000, // 5 minutes to sign
+    sessionTtlMs: parseInt(process.env.AUTH_SESSION_TTL_MS || "604800000"), // 7 days
+    // Wallets allowed to change server-wide settings besides the monitored wallet
+    adminWallets:
+      process.env.ADMIN_WALLETS?.split(",").map((w) => w.trim()) || [],
+  },
+
+  // Job Scheduler
+  scheduler: {
+    // "timers" runs jobs in-process; "external" leaves them to
+    // POST /api/jobs/:name/tick, e.g. from a serverless cron
+    mode: (process.env.SCHEDULER_MODE || "timers") as "timers" | "external",
+    // Lets a cron caller tick jobs without a wallet session
+    tickSecret: process.env.SCHEDULER_TICK_SECRET || "",
+    historyLimit: 20, // runs kept per job
+    // Retry delay after RPC failures, doubling per consecutive failure
+    backoff: {
+      baseMs: 30000,
+      maxMs: 900000, // 15 minutes
+    },
+  },
+
+  // Portfolio digests, sent at a server local time ("HH:MM"; set TZ to
+  // change the zone)
+  digest: {
+    time: process.env.DIGEST_TIME || "08:00",
+    weeklyDay: parseInt(process.env.DIGEST_WEEKLY_DAY || "1"), // 0 = Sunday
+    retentionDays: parseInt(process.env.DIGEST_RETENTION_DAYS || "90"),
+    topPositions: 3, // best and worst positions listed
+  },
+
+  // Pool discovery index, refreshed in the background
+  poolIndex: {
+    refreshIntervalMs: parseInt(process.env.POOL_INDEX_REFRESH_MS || "600000"),
+    maxPools: parseInt(process.env.POOL_INDEX_MAX_POOLS || "500"),
+    maxPageSize: 100,
+  },
+
+  // Persistence
+  storage: {
+    driver: (process.env.STORAGE_DRIVER || "sqlite") as "json" | "sqlite",
+    sqlitePath:
+      process.env.SQLITE_PATH || path.join(__dirname, "data", "saros.db"),
+    jsonPath: process.env.STORAGE_FILE || path.join(__dirname, "file.json"),
+  },
+
   // Logging
   logging: {
     level: process.env.LOG_LEVEL || "info",
@@ -6,8 +6,15 @@ import { createServer } from "http";
 import routes from "./routes";
 import { wsServer } from "./services/websocket-server";
 import { positionMonitor } from "./services/position-monitor";
-import { volatilityTracker } from "./services/volatility-tracker";
 import { telegramBot } from "./services/telegram-bot";
+import { priceHistoryService } from "./services/price-history.service";
+import { walletProfiles } from "./services/wallet-profile.service";
+import { digestService } from "./services/digest.service";
+import { stopLossManager } from "./services/stop-loss-manager";
+import { poolIndex } from "./services/pool-index.service";
+import { scheduler } from "./scheduler";
+import { config } from "./config";
+import storage from "./storage";
 import { logger } from "./utils/logger";
 
 dotenv.config();
@@ -49,6 +56,13 @@ httpServer.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`API available at http://localhost:${PORT}/api`);
 
+  // Run scheduled jobs in-process unless an external cron ticks them
+  if (config.scheduler.mode === "timers") {
+    scheduler.start();
+  } else {
+    logger.info("Scheduler in external mode - POST /api/jobs/tick to run jobs");
+  }
+
   // Start WebSocket server on the same HTTP server
   wsServer.start(httpServer);
   logger.info(`WebSocket server attached to HTTP server`);
@@ -56,23 +70,26 @@ httpServer.listen(PORT, () => {
   // Launch Telegram bot for interactive commands
   telegramBot.launch();
 
-  // Load and restore automation settings from storage
-  const storage = require("./storage").default;
-  const settings = storage.getSettings();
+  // Record pool prices into the candle store
+  priceHistoryService.startSampling();
 
-  if (settings?.autoRebalance && settings?.monitoredWallet) {
-    logger.info("Restoring auto-rebalancing from saved settings", {
-      wallet: settings.monitoredWallet,
-      threshold: settings.rebalanceThreshold || 5,
-    });
+  // Background-refreshed pool index behind GET /api/pools
+  poolIndex.start();
 
-    // Delay startup to avoid initial rate limiting
-    setTimeout(() => {
-      positionMonitor.startMonitoring([settings.monitoredWallet]);
-      positionMonitor.startAutoRebalancing(settings.rebalanceThreshold || 5);
-      logger.info("Auto-rebalancing restored successfully");
-    }, 3000);
-  }
+  // Daily and weekly portfolio digests
+  digestService.start();
+
+  // Stop-loss, price, trailing and take-profit triggers
+  stopLossManager.startMonitoring();
+
+  // Restore each wallet's monitoring and auto-rebalancing from its profile.
+  // Delay startup to avoid initial rate limiting
+  setTimeout(() => {
+    walletProfiles.restore();
+    logger.info("Wallet automation restored", {
+      wallets: positionMonitor.getMonitoredWallets().length,
+    });
+  }, 3000);
 
   logger.info("Server ready - all services started");
 });
@@ -80,19 +97,21 @@ httpServer.listen(PORT, () => {
 // Graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received, shutting down gracefully");
-  positionMonitor.stopMonitoring();
-  volatilityTracker.stopTracking();
+  // Jobs stay registered so their next run times are kept for the restart
+  scheduler.stop();
   wsServer.stop();
   telegramBot.stop();
+  storage.close();
   process.exit(0);
 });
 
 process.on("SIGINT", () => {
   logger.info("SIGINT received, shutting down gracefully");
-  positionMonitor.stopMonitoring();
-  volatilityTracker.stopTracking();
+  // Jobs stay registered so their next run times are kept for the restart
+  scheduler.stop();
   wsServer.stop();
   telegramBot.stop();
+  storage.close();
   process.exit(0);
 });
 
@@ -157,21 +176,13 @@ async function startServices() {
 
   logger.info(`Starting services (serverless mode: ${isServerless})`);
 
-  // Load and restore automation settings from storage
-  const storage = require("./storage").default;
-  const settings = storage.getSettings();
-
-  if (settings?.autoRebalance && settings?.monitoredWallet && !isServerless) {
-    // Delay startup to avoid initial rate limiting (non-serverless only)
-    setTimeout(() => {
-      positionMonitor.startMonitoring([settings.monitoredWallet]);
-      positionMonitor.startAutoRebalancing(settings.rebalanceThreshold || 5);
-      logger.info("Auto-rebalancing restored successfully");
-    }, 3000);
-  } else if (isServerless) {
-    logger.warn(
-      "Skipping auto-rebalancing in serverless mode—use cron/external scheduler"
-    );
+  // Register every wallet's jobs; timers only run outside serverless, where
+  // a cron calls POST /api/jobs/tick (or /api/jobs/:name/tick) instead
+  walletProfiles.restore();
+  if (!isServerless && config.scheduler.mode === "timers") {
+    scheduler.start();
+  } else {
+    logger.info("Jobs run when ticked through /api/jobs");
   }
 
   // Telegram: Launch only if non-serverless (serverless can't run persistent bots)
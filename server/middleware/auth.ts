@@ -0,0 +1,228 @@
+/**
+ * Auth Middleware
+ * Resolves the signed-in wallet from the bearer token and scopes routes to
+ * the wallet that owns the position, transaction or settings
+ */
+
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { PublicKey } from "@solana/web3.js";
+import { authService } from "../services/auth.service";
+import { dlmmClient } from "../solana/dlmm-client";
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { AuthenticationError, ForbiddenError } from "../utils/errors";
+
+type Params = Record<string, string | undefined>;
+
+// Generic so guards leave each route's own typed params alone
+type Guard = <P>(
+  req: Request<P>,
+  res: Response,
+  next: NextFunction
+) => void | Promise<void>;
+
+function reject(res: Response, error: AuthenticationError | ForbiddenError) {
+  res.status(error instanceof AuthenticationError ? 401 : 403).json({
+    success: false,
+    error: error.message,
+    timestamp: Date.now(),
+  });
+}
+
+function bearerToken(header: string | undefined): string | null {
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * Wallet of the current session, if the request is signed in
+ */
+export function sessionWallet(res: Response): string | undefined {
+  return res.locals.wallet;
+}
+
+/**
+ * Whether the request may act for a wallet. With AUTH_REQUIRED=false,
+ * anonymous requests may act for any wallet.
+ */
+export function canActFor(res: Response, wallet: string | null | undefined) {
+  const current = sessionWallet(res);
+  if (!current) return !config.auth.required;
+  return !!wallet && wallet === current;
+}
+
+/**
+ * Whether the request may manage a wallet's profile: the wallet itself or an
+ * admin wallet
+ */
+export function canManageWallet(res: Response, wallet: string) {
+  const current = sessionWallet(res);
+  if (current && config.auth.adminWallets.includes(current)) return true;
+  return canActFor(res, wallet);
+}
+
+/**
+ * Whether the request may change server-wide settings: an admin wallet, the
+ * monitored wallet, or anyone signed in while no wallet is monitored yet
+ */
+export function isSettingsOwner(res: Response): boolean {
+  const current = sessionWallet(res);
+  if (!current) return !config.auth.required;
+  if (config.auth.adminWallets.includes(current)) return true;
+  const monitoredWallet = storage.getSettings().monitoredWallet;
+  return !monitoredWallet || monitoredWallet === current;
+}
+
+/**
+ * Owner of a position as recorded in storage or its ledger
+ */
+export function storedPositionOwner(positionAddress: string): string | null {
+  const stored = storage.getPosition(positionAddress);
+  if (stored?.position.owner) return stored.position.owner;
+
+  const [entry] = storage.getLedgerEntries({ positionAddress });
+  return entry?.owner || null;
+}
+
+/**
+ * Whether the request may see records about a position (alerts, rebalance
+ * history). Records with no known owner are left to the settings owner.
+ */
+export function canAccessPosition(
+  res: Response,
+  positionAddress?: string
+): boolean {
+  const owner = positionAddress ? storedPositionOwner(positionAddress) : null;
+  return owner ? canActFor(res, owner) : isSettingsOwner(res);
+}
+
+/**
+ * Owner of a position from storage, its ledger, or on-chain as a last resort
+ */
+export async function resolvePositionOwner(
+  positionAddress: string
+): Promise<string | null> {
+  const stored = storedPositionOwner(positionAddress);
+  if (stored) return stored;
+
+  try {
+    const position = await dlmmClient.getPositionInfo(
+      new PublicKey(positionAddress)
+    );
+    return position?.owner || null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads the bearer token on every request; routes decide whether it is needed
+export const authenticate: Guard = (req, res, next) => {
+  const token = bearerToken(req.headers.authorization);
+  if (!token) return next();
+
+  const session = authService.getSession(token);
+  if (!session) {
+    return reject(res, new AuthenticationError("Session expired or invalid"));
+  }
+  res.locals.wallet = session.wallet;
+  res.locals.token = token;
+  next();
+};
+
+export const requireAuth: Guard = (req, res, next) => {
+  if (sessionWallet(res) || !config.auth.required) return next();
+  reject(res, new AuthenticationError());
+};
+
+/**
+ * Require the signed-in wallet to match the wallet named by the request
+ */
+export function requireWallet(
+  getWallet: (req: Request<Params>) => unknown
+): Guard {
+  return (req, res, next) => {
+    if (!sessionWallet(res) && config.auth.required) {
+      return reject(res, new AuthenticationError());
+    }
+    const wallet = getWallet(req as Request<Params>);
+    if (canActFor(res, typeof wallet === "string" ? wallet : null)) {
+      return next();
+    }
+    reject(res, new ForbiddenError());
+  };
+}
+
+/**
+ * Require the signed-in wallet to be the named wallet or an admin wallet
+ */
+export function requireWalletManager(
+  getWallet: (req: Request<Params>) => unknown
+): Guard {
+  return (req, res, next) => {
+    if (!sessionWallet(res) && config.auth.required) {
+      return reject(res, new AuthenticationError());
+    }
+    const wallet = getWallet(req as Request<Params>);
+    if (typeof wallet === "string" && canManageWallet(res, wallet)) {
+      return next();
+    }
+    reject(res, new ForbiddenError());
+  };
+}
+
+/**
+ * Require the signed-in wallet to own the position named by the request.
+ * Positions with no known owner are left to the route to report as missing.
+ */
+export function requirePositionOwner(
+  getAddress: (req: Request<Params>) => unknown = (req) => req.params.address
+): Guard {
+  return async (req, res, next) => {
+    if (!sessionWallet(res)) {
+      if (!config.auth.required) return next();
+      return reject(res, new AuthenticationError());
+    }
+
+    const address = getAddress(req as Request<Params>);
+    if (typeof address !== "string" || !address) return next();
+
+    const owner = await resolvePositionOwner(address);
+    if (!owner || canActFor(res, owner)) return next();
+
+    logger.warn("Rejected access to another wallet's position", {
+      wallet: sessionWallet(res),
+      positionAddress: address,
+    });
+    reject(res, new ForbiddenError("Position belongs to another wallet"));
+  };
+}
+
+export const requireSettingsOwner: Guard = (req, res, next) => {
+  if (!sessionWallet(res) && config.auth.required) {
+    return reject(res, new AuthenticationError());
+  }
+  if (isSettingsOwner(res)) return next();
+  reject(
+    res,
+    new ForbiddenError("Settings are managed by the monitored wallet")
+  );
+};
+
+/**
+ * Let an external cron run scheduled jobs with the shared secret in
+ * X-Scheduler-Secret; otherwise the settings owner may
+ */
+export const requireSchedulerTrigger: Guard = (req, res, next) => {
+  const secret = Buffer.from(config.scheduler.tickSecret);
+  const given = Buffer.from(String(req.headers["x-scheduler-secret"] || ""));
+  if (
+    secret.length > 0 &&
+    given.length === secret.length &&
+    crypto.timingSafeEqual(given, secret)
+  ) {
+    return next();
+  }
+  requireSettingsOwner(req, res, next);
+};
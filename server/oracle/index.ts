@@ -0,0 +1,183 @@
+/**
+ * Price Oracle
+ * USD prices for tokens and positions from fixed prices and observed pools
+ */
+
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import type {
+  Alert,
+  PoolInfo,
+  Position,
+  PositionData,
+  PositionValuation,
+} from "../../shared/schema";
+import type { PriceSource, TokenPrice } from "./types";
+import { StaticPriceSource } from "./static.source";
+import { PoolRoutePriceSource } from "./pool-route.source";
+
+export interface PositionAmounts {
+  amountX: number;
+  amountY: number;
+  feeX: number;
+  feeY: number;
+}
+
+/**
+ * Liquidity and unclaimed fees in UI units
+ */
+export function positionAmounts(
+  position: Position,
+  pool: PoolInfo
+): PositionAmounts {
+  const scaleX = Math.pow(10, pool.tokenX.decimals);
+  const scaleY = Math.pow(10, pool.tokenY.decimals);
+  return {
+    amountX: (parseFloat(position.liquidityX) || 0) / scaleX,
+    amountY: (parseFloat(position.liquidityY) || 0) / scaleY,
+    feeX: (parseFloat(position.feeX) || 0) / scaleX,
+    feeY: (parseFloat(position.feeY) || 0) / scaleY,
+  };
+}
+
+/**
+ * Value fields to attach to an alert about a position
+ */
+export function alertValuation(
+  positionData?: PositionData
+): Pick<Alert, "valueUsd" | "valuedAt"> {
+  if (!positionData?.valuation) return {};
+  return {
+    valueUsd: positionData.valuation.usd,
+    valuedAt: positionData.valuation.updatedAt,
+  };
+}
+
+export class PriceOracle {
+  readonly fixed: StaticPriceSource;
+  readonly pools: PoolRoutePriceSource;
+  private readonly sources: PriceSource[];
+  private readonly configured: Record<string, number>;
+
+  /**
+   * @param sources - price sources in priority order; defaults to fixed prices,
+   *   then routes through observed pools
+   */
+  constructor(sources?: PriceSource[]) {
+    this.configured = {
+      ...Object.fromEntries(config.oracle.stablecoins.map((mint) => [mint, 1])),
+      ...config.oracle.staticPrices,
+    };
+    this.fixed = new StaticPriceSource({
+      ...this.configured,
+      ...storage.getManualTokenPrices(),
+    });
+    this.pools = new PoolRoutePriceSource(
+      (mint) => this.fixed.getPrice(mint),
+      config.oracle.maxRouteHops
+    );
+    this.sources = sources || [this.fixed, this.pools];
+  }
+
+  observePool(pool: PoolInfo, observedAt?: number): void {
+    this.pools.observePool(pool, observedAt);
+  }
+
+  getPrice(mint: string): TokenPrice | null {
+    for (const source of this.sources) {
+      const price = source.getPrice(mint);
+      if (price) return price;
+    }
+    return null;
+  }
+
+  /**
+   * USD prices for both tokens of a pool. A token the sources cannot price is
+   * derived from the other through the pool; with neither priced, token Y is
+   * taken as the quote dollar and the prices are marked "quote".
+   */
+  getPoolPrices(pool: PoolInfo): { x: TokenPrice; y: TokenPrice } {
+    const x = this.getPrice(pool.tokenX.mint);
+    const y = this.getPrice(pool.tokenY.mint);
+
+    if (x && y) return { x, y };
+    if (y) {
+      const usd = y.usd * pool.currentPrice;
+      return { x: { ...y, mint: pool.tokenX.mint, usd }, y };
+    }
+    if (x) {
+      const usd = x.usd / pool.currentPrice;
+      return { x, y: { ...x, mint: pool.tokenY.mint, usd } };
+    }
+
+    logger.debug("No USD price for pool tokens, using quote token", {
+      poolAddress: pool.address,
+    });
+    const now = Date.now();
+    return {
+      x: {
+        mint: pool.tokenX.mint,
+        usd: pool.currentPrice,
+        source: "quote",
+        updatedAt: now,
+      },
+      y: { mint: pool.tokenY.mint, usd: 1, source: "quote", updatedAt: now },
+    };
+  }
+
+  valuePosition(position: Position, pool: PoolInfo): PositionValuation {
+    const { x, y } = this.getPoolPrices(pool);
+    const { amountX, amountY, feeX, feeY } = positionAmounts(position, pool);
+    const tokenXUsd = amountX * x.usd;
+    const tokenYUsd = amountY * y.usd;
+    const updatedAt = Math.min(x.updatedAt, y.updatedAt);
+
+    return {
+      usd: tokenXUsd + tokenYUsd,
+      tokenXUsd,
+      tokenYUsd,
+      feesUsd: feeX * x.usd + feeY * y.usd,
+      priceXUsd: x.usd,
+      priceYUsd: y.usd,
+      source: x.source === y.source ? x.source : `${x.source}+${y.source}`,
+      updatedAt,
+      stale: this.isStale(updatedAt),
+    };
+  }
+
+  isStale(updatedAt: number, now: number = Date.now()): boolean {
+    return now - updatedAt > config.oracle.maxPriceAgeMs;
+  }
+
+  // Manual prices (persisted, take priority over pool routes)
+  setManualPrice(mint: string, usd: number): void {
+    if (!mint || !Number.isFinite(usd) || usd <= 0) {
+      throw new ValidationError(
+        "A token mint and a positive USD price are required"
+      );
+    }
+    this.fixed.setPrice(mint, usd);
+    storage.setManualTokenPrice(mint, usd);
+    logger.info("Manual token price set", { mint, usd });
+  }
+
+  // Falls back to the configured price (e.g. a stablecoin peg) if there is one
+  removeManualPrice(mint: string): void {
+    if (this.configured[mint] !== undefined) {
+      this.fixed.setPrice(mint, this.configured[mint]);
+    } else {
+      this.fixed.removePrice(mint);
+    }
+    storage.removeManualTokenPrice(mint);
+    logger.info("Manual token price removed", { mint });
+  }
+}
+
+export const priceOracle = new PriceOracle();
+
+export type { PriceSource, TokenPrice } from "./types";
+export { StaticPriceSource } from "./static.source";
+export { PoolRoutePriceSource } from "./pool-route.source";
+export { MockPriceSource } from "./mock.source";
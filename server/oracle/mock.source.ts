@@ -0,0 +1,23 @@
+/**
+ * Mock Price Source
+ * Prices and timestamps set by hand, for tests and local runs
+ */
+
+import type { PriceSource, TokenPrice } from "./types";
+
+export class MockPriceSource implements PriceSource {
+  readonly name = "mock";
+  private prices = new Map<string, TokenPrice>();
+
+  getPrice(mint: string): TokenPrice | null {
+    return this.prices.get(mint) || null;
+  }
+
+  setPrice(mint: string, usd: number, updatedAt: number = Date.now()): void {
+    this.prices.set(mint, { mint, usd, source: this.name, updatedAt });
+  }
+
+  clear(): void {
+    this.prices.clear();
+  }
+}
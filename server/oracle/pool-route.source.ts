@@ -0,0 +1,105 @@
+/**
+ * Pool Route Price Source
+ * Prices a token by chaining observed pool prices until it reaches a token
+ * with a known USD price (e.g. SOL -> USDC, or BONK -> SOL -> USDC)
+ */
+
+import type { PoolInfo } from "../../shared/schema";
+import type { PriceSource, TokenPrice } from "./types";
+
+interface ObservedPool {
+  pool: PoolInfo;
+  observedAt: number;
+}
+
+interface Edge {
+  poolAddress: string;
+  to: string;
+  rate: number; // units of `to` per unit of the token the edge leaves
+}
+
+export class PoolRoutePriceSource implements PriceSource {
+  readonly name = "pool-route";
+  private pools = new Map<string, ObservedPool>();
+
+  /**
+   * @param anchor - USD prices routes may end at (never this source itself)
+   * @param maxHops - longest chain of pools tried
+   */
+  constructor(
+    private readonly anchor: (mint: string) => TokenPrice | null,
+    private readonly maxHops: number
+  ) {}
+
+  /**
+   * Record a pool's latest price; routes use the most recent observation
+   */
+  observePool(pool: PoolInfo, observedAt: number = Date.now()): void {
+    if (!Number.isFinite(pool.currentPrice) || pool.currentPrice <= 0) return;
+    this.pools.set(pool.address, { pool, observedAt });
+  }
+
+  getPrice(mint: string): TokenPrice | null {
+    // Breadth-first so the shortest route wins
+    let frontier = [{ mint, rate: 1, via: [] as string[], observedAt: Infinity }];
+    const visited = new Set([mint]);
+
+    for (let hop = 0; hop < this.maxHops && frontier.length > 0; hop++) {
+      const next: typeof frontier = [];
+
+      for (const node of frontier) {
+        for (const edge of this.edgesFrom(node.mint)) {
+          if (visited.has(edge.to)) continue;
+          visited.add(edge.to);
+
+          const step = {
+            mint: edge.to,
+            rate: node.rate * edge.rate,
+            via: [...node.via, edge.poolAddress],
+            observedAt: Math.min(
+              node.observedAt,
+              this.pools.get(edge.poolAddress)!.observedAt
+            ),
+          };
+
+          const anchored = this.anchor(edge.to);
+          if (anchored) {
+            return {
+              mint,
+              usd: step.rate * anchored.usd,
+              source: this.name,
+              updatedAt: Math.min(step.observedAt, anchored.updatedAt),
+              via: step.via,
+            };
+          }
+          next.push(step);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  private edgesFrom(mint: string): Edge[] {
+    const edges: Edge[] = [];
+    for (const { pool } of this.pools.values()) {
+      // currentPrice is token Y per token X
+      if (pool.tokenX.mint === mint) {
+        edges.push({
+          poolAddress: pool.address,
+          to: pool.tokenY.mint,
+          rate: pool.currentPrice,
+        });
+      } else if (pool.tokenY.mint === mint) {
+        edges.push({
+          poolAddress: pool.address,
+          to: pool.tokenX.mint,
+          rate: 1 / pool.currentPrice,
+        });
+      }
+    }
+    return edges;
+  }
+}
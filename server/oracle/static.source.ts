@@ -0,0 +1,36 @@
+/**
+ * Static Price Source
+ * Fixed USD prices: pegged stablecoins and operator-set manual prices
+ */
+
+import type { PriceSource, TokenPrice } from "./types";
+
+export class StaticPriceSource implements PriceSource {
+  readonly name = "static";
+  private prices = new Map<string, number>();
+
+  constructor(prices: Record<string, number> = {}) {
+    for (const [mint, usd] of Object.entries(prices)) {
+      this.setPrice(mint, usd);
+    }
+  }
+
+  // Fixed prices do not age, so they are always reported as current
+  getPrice(mint: string): TokenPrice | null {
+    const usd = this.prices.get(mint);
+    if (usd === undefined) return null;
+    return { mint, usd, source: this.name, updatedAt: Date.now() };
+  }
+
+  setPrice(mint: string, usd: number): void {
+    this.prices.set(mint, usd);
+  }
+
+  removePrice(mint: string): void {
+    this.prices.delete(mint);
+  }
+
+  list(): Record<string, number> {
+    return Object.fromEntries(this.prices);
+  }
+}
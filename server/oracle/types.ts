@@ -0,0 +1,21 @@
+/**
+ * Price Oracle Types
+ * Contract shared by every USD price source
+ */
+
+export interface TokenPrice {
+  mint: string;
+  usd: number;
+  source: string;
+  updatedAt: number; // when the inputs behind this price were observed
+  via?: string[]; // pool addresses a routed price was chained through
+}
+
+export interface PriceSource {
+  readonly name: string;
+
+  /**
+   * USD price of a token, or null if this source cannot price it
+   */
+  getPrice(mint: string): TokenPrice | null;
+}
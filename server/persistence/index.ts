@@ -0,0 +1,45 @@
+/**
+ * Persistence
+ * Selects the storage backend configured for this server
+ */
+
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { JsonFileAdapter } from "./json-file.adapter";
+import { SqliteAdapter } from "./sqlite.adapter";
+import type { StorageAdapter } from "./types";
+
+export type {
+  LedgerFilter,
+  StorageAdapter,
+  StorageSettings,
+  StoredPricePoint,
+} from "./types";
+export { DEFAULT_SETTINGS } from "./types";
+
+/**
+ * Build and initialise the configured storage adapter.
+ * Falls back to the JSON file store if SQLite cannot be opened.
+ */
+export function createStorageAdapter(): StorageAdapter {
+  if (config.storage.driver === "sqlite") {
+    try {
+      // better-sqlite3 loads its native binding here, so a missing or
+      // mismatched build is caught below
+      const adapter = new SqliteAdapter(
+        config.storage.sqlitePath,
+        config.storage.jsonPath
+      );
+      adapter.init();
+      return adapter;
+    } catch (error) {
+      logger.warn("SQLite storage unavailable, falling back to JSON file", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const adapter = new JsonFileAdapter(config.storage.jsonPath);
+  adapter.init();
+  return adapter;
+}
@@ -0,0 +1,344 @@
+/**
+ * JSON File Storage Adapter
+ * Keeps the whole dataset in memory and persists it to a single JSON file.
+ * Writes are coalesced: the file is rewritten at most once per flush delay.
+ */
+
+import fs from "fs";
+import path from "path";
+import type {
+  PositionData,
+  RebalanceEvent,
+  Alert,
+  StopLossConfig,
+  Candle,
+  CandleInterval,
+  LedgerEntry,
+} from "../../shared/schema";
+import type { PendingTransaction } from "../services/transaction-queue.service";
+import { logger } from "../utils/logger";
+import {
+  DEFAULT_SETTINGS,
+  type LedgerFilter,
+  type StorageAdapter,
+  type StorageSettings,
+  type StoredPricePoint,
+} from "./types";
+
+// How long changes may wait in memory before the file is rewritten
+const FLUSH_DELAY_MS = 1000;
+
+interface StorageData {
+  positions: Record<string, PositionData>;
+  rebalanceEvents: RebalanceEvent[];
+  alerts: Alert[];
+  stopLossConfigs: Record<string, StopLossConfig>;
+  transactionQueue?: PendingTransaction[];
+  priceHistory?: Record<string, StoredPricePoint[]>;
+  priceCandles?: Record<string, Partial<Record<CandleInterval, Candle[]>>>;
+  positionLedger?: LedgerEntry[];
+  settings: StorageSettings;
+  [key: string]: unknown;
+}
+
+export class JsonFileAdapter implements StorageAdapter {
+  readonly name = "json";
+  private data: StorageData = this.emptyData();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  init(): void {
+    this.data = this.loadFromFile();
+    logger.info("JSON storage loaded", {
+      file: this.filePath,
+      positions: Object.keys(this.data.positions).length,
+    });
+  }
+
+  close(): void {
+    this.flush();
+  }
+
+  // Writes are already coalesced into one file rewrite
+  batch<T>(fn: () => T): T {
+    return fn();
+  }
+
+  private emptyData(): StorageData {
+    return {
+      positions: {},
+      rebalanceEvents: [],
+      alerts: [],
+      stopLossConfigs: {},
+      transactionQueue: [],
+      priceHistory: {},
+      priceCandles: {},
+      positionLedger: [],
+      settings: structuredClone(DEFAULT_SETTINGS),
+    };
+  }
+
+  private loadFromFile(): StorageData {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const fileContent = fs.readFileSync(this.filePath, "utf-8");
+        return { ...this.emptyData(), ...JSON.parse(fileContent) };
+      }
+    } catch (error) {
+      logger.error("Failed to load storage file", {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return this.emptyData();
+  }
+
+  /**
+   * Mark the dataset dirty; the file is rewritten once the flush delay passes
+   */
+  private saveToFile() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Write to a temp file and rename it over the original so a crash or a
+   * concurrent write never leaves a half-written JSON document behind
+   */
+  private flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const tmpFile = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpFile, JSON.stringify(this.data, null, 2), "utf-8");
+      fs.renameSync(tmpFile, this.filePath);
+    } catch (error) {
+      logger.error("Failed to save storage file", {
+        file: this.filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Positions
+  getPosition(address: string): PositionData | undefined {
+    return this.data.positions[address];
+  }
+
+  getAllPositions(): PositionData[] {
+    return Object.values(this.data.positions);
+  }
+
+  upsertPosition(address: string, data: PositionData): void {
+    this.data.positions[address] = data;
+    this.saveToFile();
+  }
+
+  deletePosition(address: string): void {
+    delete this.data.positions[address];
+    this.saveToFile();
+  }
+
+  // Rebalance events
+  insertRebalanceEvent(event: RebalanceEvent): void {
+    this.data.rebalanceEvents.push(event);
+    this.saveToFile();
+  }
+
+  listRebalanceEvents(positionAddress?: string): RebalanceEvent[] {
+    if (positionAddress) {
+      return this.data.rebalanceEvents.filter(
+        (e) => e.positionAddress === positionAddress
+      );
+    }
+    return this.data.rebalanceEvents;
+  }
+
+  // Alerts
+  insertAlert(alert: Alert): void {
+    this.data.alerts.push(alert);
+    this.saveToFile();
+  }
+
+  listAlerts(unreadOnly: boolean): Alert[] {
+    if (unreadOnly) {
+      return this.data.alerts.filter((a) => !a.read);
+    }
+    return this.data.alerts;
+  }
+
+  markAlertRead(id: string): void {
+    const alert = this.data.alerts.find((a) => a.id === id);
+    if (alert) {
+      alert.read = true;
+      this.saveToFile();
+    }
+  }
+
+  // Stop-loss configs
+  upsertStopLoss(config: StopLossConfig): void {
+    this.data.stopLossConfigs[config.positionAddress] = config;
+    this.saveToFile();
+  }
+
+  getStopLoss(positionAddress: string): StopLossConfig | undefined {
+    return this.data.stopLossConfigs[positionAddress];
+  }
+
+  deleteStopLoss(positionAddress: string): void {
+    delete this.data.stopLossConfigs[positionAddress];
+    this.saveToFile();
+  }
+
+  listStopLoss(): StopLossConfig[] {
+    return Object.values(this.data.stopLossConfigs);
+  }
+
+  // Transaction queue
+  upsertQueuedTransaction(tx: PendingTransaction): void {
+    const queue = this.data.transactionQueue || [];
+    const index = queue.findIndex((item) => item.id === tx.id);
+    if (index >= 0) {
+      queue[index] = tx;
+    } else {
+      queue.push(tx);
+    }
+    this.data.transactionQueue = queue;
+    this.saveToFile();
+  }
+
+  deleteQueuedTransaction(id: string): void {
+    this.data.transactionQueue = (this.data.transactionQueue || []).filter(
+      (tx) => tx.id !== id
+    );
+    this.saveToFile();
+  }
+
+  listQueuedTransactions(): PendingTransaction[] {
+    return this.data.transactionQueue || [];
+  }
+
+  // Price history
+  insertPricePoint(poolAddress: string, point: StoredPricePoint): void {
+    const history = (this.data.priceHistory ||= {});
+    (history[poolAddress] ||= []).push(point);
+    this.saveToFile();
+  }
+
+  listPricePoints(
+    poolAddress: string,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): StoredPricePoint[] {
+    return (this.data.priceHistory?.[poolAddress] || []).filter(
+      (p) => p.timestamp >= from && p.timestamp <= to
+    );
+  }
+
+  deletePricePointsBefore(before: number): void {
+    const history = this.data.priceHistory || {};
+    for (const poolAddress of Object.keys(history)) {
+      history[poolAddress] = history[poolAddress].filter(
+        (p) => p.timestamp >= before
+      );
+    }
+    this.saveToFile();
+  }
+
+  // OHLC candles
+  private candleSeries(poolAddress: string, interval: CandleInterval): Candle[] {
+    const pools = (this.data.priceCandles ||= {});
+    const series = (pools[poolAddress] ||= {});
+    return (series[interval] ||= []);
+  }
+
+  upsertCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    candle: Candle
+  ): void {
+    const series = this.candleSeries(poolAddress, interval);
+    const index = series.findIndex((c) => c.timestamp === candle.timestamp);
+    if (index >= 0) {
+      series[index] = candle;
+    } else {
+      series.push(candle);
+      series.sort((a, b) => a.timestamp - b.timestamp);
+    }
+    this.saveToFile();
+  }
+
+  getCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    timestamp: number
+  ): Candle | undefined {
+    return this.data.priceCandles?.[poolAddress]?.[interval]?.find(
+      (c) => c.timestamp === timestamp
+    );
+  }
+
+  listCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): Candle[] {
+    return (this.data.priceCandles?.[poolAddress]?.[interval] || []).filter(
+      (c) => c.timestamp >= from && c.timestamp <= to
+    );
+  }
+
+  deleteCandlesBefore(interval: CandleInterval, before: number): void {
+    for (const series of Object.values(this.data.priceCandles || {})) {
+      if (series[interval]) {
+        series[interval] = series[interval]!.filter(
+          (c) => c.timestamp >= before
+        );
+      }
+    }
+    this.saveToFile();
+  }
+
+  // Position ledger
+  insertLedgerEntry(entry: LedgerEntry): void {
+    (this.data.positionLedger ||= []).push(entry);
+    this.saveToFile();
+  }
+
+  listLedgerEntries(filter: LedgerFilter = {}): LedgerEntry[] {
+    return (this.data.positionLedger || [])
+      .filter(
+        (e) =>
+          (!filter.positionAddress ||
+            e.positionAddress === filter.positionAddress) &&
+          (!filter.owner || e.owner === filter.owner)
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Settings
+  getSettings(): StorageSettings {
+    return this.data.settings;
+  }
+
+  saveSettings(settings: StorageSettings): void {
+    this.data.settings = settings;
+    this.saveToFile();
+  }
+
+  // Generic key/value
+  getValue<T = unknown>(key: string): T | undefined {
+    return this.data[key] as T | undefined;
+  }
+
+  setValue<T = unknown>(key: string, value: T): void {
+    this.data[key] = value;
+    this.saveToFile();
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * SQLite Schema Migrations
+ * Ordered, append-only list of schema changes applied on startup
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Never edit a migration once released - add a new one instead
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    up: `
+      CREATE TABLE positions (
+        address TEXT PRIMARY KEY,
+        owner TEXT NOT NULL,
+        pool_address TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_positions_owner ON positions(owner);
+
+      CREATE TABLE rebalance_events (
+        id TEXT PRIMARY KEY,
+        position_address TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_rebalance_events_position
+        ON rebalance_events(position_address, timestamp);
+
+      CREATE TABLE alerts (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        read INTEGER NOT NULL DEFAULT 0,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_alerts_read ON alerts(read, timestamp);
+
+      CREATE TABLE stop_loss_configs (
+        position_address TEXT PRIMARY KEY,
+        enabled INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE transaction_queue (
+        id TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        position_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_transaction_queue_wallet
+        ON transaction_queue(wallet_address, status);
+
+      CREATE TABLE price_history (
+        pool_address TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        price REAL NOT NULL,
+        PRIMARY KEY (pool_address, timestamp)
+      );
+
+      CREATE TABLE settings (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE kv_store (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "price_candles",
+    up: `
+      CREATE TABLE price_candles (
+        pool_address TEXT NOT NULL,
+        interval TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        samples INTEGER NOT NULL,
+        PRIMARY KEY (pool_address, interval, timestamp)
+      );
+      CREATE INDEX idx_price_history_timestamp ON price_history(timestamp);
+    `,
+  },
+  {
+    version: 3,
+    name: "position_ledger",
+    up: `
+      CREATE TABLE position_ledger (
+        id TEXT PRIMARY KEY,
+        position_address TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_position_ledger_position
+        ON position_ledger(position_address, timestamp);
+      CREATE INDEX idx_position_ledger_owner
+        ON position_ledger(owner, timestamp);
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the recorded schema version
+ */
+export function runMigrations(db: Database.Database): number {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get() as { version: number | null };
+  const current = row.version ?? 0;
+
+  const pending = MIGRATIONS.filter((m) => m.version > current).sort(
+    (a, b) => a.version - b.version
+  );
+
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+  );
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      record.run(migration.version, migration.name, Date.now());
+    })();
+    logger.info("Applied storage migration", {
+      version: migration.version,
+      name: migration.name,
+    });
+  }
+
+  return pending.length > 0 ? pending[pending.length - 1].version : current;
+}
@@ -0,0 +1,476 @@
+/**
+ * SQLite Storage Adapter
+ * Durable relational storage backed by better-sqlite3
+ */
+
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type {
+  PositionData,
+  RebalanceEvent,
+  Alert,
+  StopLossConfig,
+  Candle,
+  CandleInterval,
+  LedgerEntry,
+} from "../../shared/schema";
+import type { PendingTransaction } from "../services/transaction-queue.service";
+import { logger } from "../utils/logger";
+import { runMigrations } from "./migrations";
+import {
+  DEFAULT_SETTINGS,
+  type LedgerFilter,
+  type StorageAdapter,
+  type StorageSettings,
+  type StoredPricePoint,
+} from "./types";
+
+export class SqliteAdapter implements StorageAdapter {
+  readonly name = "sqlite";
+  private db: Database.Database | null = null;
+  private settingsCache: StorageSettings | null = null;
+  // data_version the cache was read at; it changes when another connection
+  // commits
+  private settingsVersion: number | null = null;
+
+  /**
+   * @param filePath - SQLite database file
+   * @param legacyJsonPath - JSON store imported once when the database is empty
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly legacyJsonPath?: string
+  ) {}
+
+  init(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("synchronous = NORMAL");
+    this.db.pragma("foreign_keys = ON");
+
+    const version = runMigrations(this.db);
+    this.importLegacyJson();
+
+    logger.info("SQLite storage ready", {
+      file: this.filePath,
+      schemaVersion: version,
+    });
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  batch<T>(fn: () => T): T {
+    return this.conn.transaction(fn)();
+  }
+
+  private get conn(): Database.Database {
+    if (!this.db) {
+      throw new Error("SQLite storage used before init()");
+    }
+    return this.db;
+  }
+
+  /**
+   * Copy an existing JSON store into a freshly created database
+   */
+  private importLegacyJson(): void {
+    if (!this.legacyJsonPath || !fs.existsSync(this.legacyJsonPath)) return;
+
+    const hasSettings = this.conn
+      .prepare("SELECT 1 FROM settings WHERE id = 1")
+      .get();
+    if (hasSettings) return;
+
+    try {
+      const legacy = JSON.parse(fs.readFileSync(this.legacyJsonPath, "utf-8"));
+
+      this.conn.transaction(() => {
+        for (const [address, data] of Object.entries<PositionData>(
+          legacy.positions || {}
+        )) {
+          this.upsertPosition(address, data);
+        }
+        for (const event of (legacy.rebalanceEvents || []) as RebalanceEvent[]) {
+          this.insertRebalanceEvent(event);
+        }
+        for (const alert of (legacy.alerts || []) as Alert[]) {
+          this.insertAlert(alert);
+        }
+        for (const config of Object.values<StopLossConfig>(
+          legacy.stopLossConfigs || {}
+        )) {
+          this.upsertStopLoss(config);
+        }
+        for (const tx of (legacy.transactionQueue || []) as PendingTransaction[]) {
+          this.upsertQueuedTransaction(tx);
+        }
+        for (const entry of (legacy.positionLedger || []) as LedgerEntry[]) {
+          this.insertLedgerEntry(entry);
+        }
+        this.saveSettings({ ...DEFAULT_SETTINGS, ...legacy.settings });
+      })();
+
+      logger.info("Imported legacy JSON storage into SQLite", {
+        file: this.legacyJsonPath,
+        positions: Object.keys(legacy.positions || {}).length,
+      });
+    } catch (error) {
+      logger.error("Failed to import legacy JSON storage", {
+        file: this.legacyJsonPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Positions
+  getPosition(address: string): PositionData | undefined {
+    const row = this.conn
+      .prepare("SELECT data FROM positions WHERE address = ?")
+      .get(address) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  getAllPositions(): PositionData[] {
+    const rows = this.conn
+      .prepare("SELECT data FROM positions ORDER BY rowid")
+      .all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  upsertPosition(address: string, data: PositionData): void {
+    this.conn
+      .prepare(
+        `INSERT INTO positions (address, owner, pool_address, data, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(address) DO UPDATE SET
+           owner = excluded.owner,
+           pool_address = excluded.pool_address,
+           data = excluded.data,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        address,
+        data.position.owner,
+        data.position.poolAddress,
+        JSON.stringify(data),
+        Date.now()
+      );
+  }
+
+  deletePosition(address: string): void {
+    this.conn.prepare("DELETE FROM positions WHERE address = ?").run(address);
+  }
+
+  // Rebalance events
+  insertRebalanceEvent(event: RebalanceEvent): void {
+    this.conn
+      .prepare(
+        `INSERT OR REPLACE INTO rebalance_events (id, position_address, timestamp, data)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        event.id,
+        event.positionAddress,
+        event.timestamp,
+        JSON.stringify(event)
+      );
+  }
+
+  listRebalanceEvents(positionAddress?: string): RebalanceEvent[] {
+    const rows = (
+      positionAddress
+        ? this.conn
+            .prepare(
+              "SELECT data FROM rebalance_events WHERE position_address = ? ORDER BY timestamp"
+            )
+            .all(positionAddress)
+        : this.conn
+            .prepare("SELECT data FROM rebalance_events ORDER BY timestamp")
+            .all()
+    ) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // Alerts
+  insertAlert(alert: Alert): void {
+    this.conn
+      .prepare(
+        `INSERT OR REPLACE INTO alerts (id, type, read, timestamp, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        alert.id,
+        alert.type,
+        alert.read ? 1 : 0,
+        alert.timestamp,
+        JSON.stringify(alert)
+      );
+  }
+
+  listAlerts(unreadOnly: boolean): Alert[] {
+    const rows = this.conn
+      .prepare(
+        unreadOnly
+          ? "SELECT data FROM alerts WHERE read = 0 ORDER BY timestamp"
+          : "SELECT data FROM alerts ORDER BY timestamp"
+      )
+      .all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  markAlertRead(id: string): void {
+    this.conn
+      .prepare(
+        `UPDATE alerts SET read = 1, data = json_set(data, '$.read', json('true'))
+         WHERE id = ?`
+      )
+      .run(id);
+  }
+
+  // Stop-loss configs
+  upsertStopLoss(config: StopLossConfig): void {
+    this.conn
+      .prepare(
+        `INSERT INTO stop_loss_configs (position_address, enabled, data)
+         VALUES (?, ?, ?)
+         ON CONFLICT(position_address) DO UPDATE SET
+           enabled = excluded.enabled,
+           data = excluded.data`
+      )
+      .run(config.positionAddress, config.enabled ? 1 : 0, JSON.stringify(config));
+  }
+
+  getStopLoss(positionAddress: string): StopLossConfig | undefined {
+    const row = this.conn
+      .prepare("SELECT data FROM stop_loss_configs WHERE position_address = ?")
+      .get(positionAddress) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  deleteStopLoss(positionAddress: string): void {
+    this.conn
+      .prepare("DELETE FROM stop_loss_configs WHERE position_address = ?")
+      .run(positionAddress);
+  }
+
+  listStopLoss(): StopLossConfig[] {
+    const rows = this.conn
+      .prepare("SELECT data FROM stop_loss_configs ORDER BY rowid")
+      .all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // Transaction queue
+  upsertQueuedTransaction(tx: PendingTransaction): void {
+    this.conn
+      .prepare(
+        `INSERT INTO transaction_queue
+           (id, wallet_address, position_address, status, created_at, expires_at, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           status = excluded.status,
+           expires_at = excluded.expires_at,
+           data = excluded.data`
+      )
+      .run(
+        tx.id,
+        tx.walletAddress,
+        tx.positionAddress,
+        tx.status,
+        tx.createdAt,
+        tx.expiresAt,
+        JSON.stringify(tx)
+      );
+  }
+
+  deleteQueuedTransaction(id: string): void {
+    this.conn.prepare("DELETE FROM transaction_queue WHERE id = ?").run(id);
+  }
+
+  listQueuedTransactions(): PendingTransaction[] {
+    const rows = this.conn
+      .prepare("SELECT data FROM transaction_queue ORDER BY created_at")
+      .all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // Price history
+  insertPricePoint(poolAddress: string, point: StoredPricePoint): void {
+    this.conn
+      .prepare(
+        `INSERT OR REPLACE INTO price_history (pool_address, timestamp, price)
+         VALUES (?, ?, ?)`
+      )
+      .run(poolAddress, point.timestamp, point.price);
+  }
+
+  listPricePoints(
+    poolAddress: string,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): StoredPricePoint[] {
+    return this.conn
+      .prepare(
+        `SELECT price, timestamp FROM price_history
+         WHERE pool_address = ? AND timestamp BETWEEN ? AND ?
+         ORDER BY timestamp`
+      )
+      .all(poolAddress, from, to) as StoredPricePoint[];
+  }
+
+  deletePricePointsBefore(before: number): void {
+    this.conn
+      .prepare("DELETE FROM price_history WHERE timestamp < ?")
+      .run(before);
+  }
+
+  // OHLC candles
+  upsertCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    candle: Candle
+  ): void {
+    this.conn
+      .prepare(
+        `INSERT INTO price_candles
+           (pool_address, interval, timestamp, open, high, low, close, samples)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(pool_address, interval, timestamp) DO UPDATE SET
+           open = excluded.open,
+           high = excluded.high,
+           low = excluded.low,
+           close = excluded.close,
+           samples = excluded.samples`
+      )
+      .run(
+        poolAddress,
+        interval,
+        candle.timestamp,
+        candle.open,
+        candle.high,
+        candle.low,
+        candle.close,
+        candle.samples
+      );
+  }
+
+  getCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    timestamp: number
+  ): Candle | undefined {
+    return this.conn
+      .prepare(
+        `SELECT timestamp, open, high, low, close, samples FROM price_candles
+         WHERE pool_address = ? AND interval = ? AND timestamp = ?`
+      )
+      .get(poolAddress, interval, timestamp) as Candle | undefined;
+  }
+
+  listCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): Candle[] {
+    return this.conn
+      .prepare(
+        `SELECT timestamp, open, high, low, close, samples FROM price_candles
+         WHERE pool_address = ? AND interval = ? AND timestamp BETWEEN ? AND ?
+         ORDER BY timestamp`
+      )
+      .all(poolAddress, interval, from, to) as Candle[];
+  }
+
+  deleteCandlesBefore(interval: CandleInterval, before: number): void {
+    this.conn
+      .prepare("DELETE FROM price_candles WHERE interval = ? AND timestamp < ?")
+      .run(interval, before);
+  }
+
+  // Position ledger
+  insertLedgerEntry(entry: LedgerEntry): void {
+    this.conn
+      .prepare(
+        `INSERT OR REPLACE INTO position_ledger
+           (id, position_address, owner, type, timestamp, data)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.id,
+        entry.positionAddress,
+        entry.owner,
+        entry.type,
+        entry.timestamp,
+        JSON.stringify(entry)
+      );
+  }
+
+  listLedgerEntries(filter: LedgerFilter = {}): LedgerEntry[] {
+    const rows = this.conn
+      .prepare(
+        `SELECT data FROM position_ledger
+         WHERE (@positionAddress IS NULL OR position_address = @positionAddress)
+           AND (@owner IS NULL OR owner = @owner)
+         ORDER BY timestamp`
+      )
+      .all({
+        positionAddress: filter.positionAddress ?? null,
+        owner: filter.owner ?? null,
+      }) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  // Settings
+  getSettings(): StorageSettings {
+    const version = this.dataVersion();
+    if (!this.settingsCache || version !== this.settingsVersion) {
+      const row = this.conn
+        .prepare("SELECT data FROM settings WHERE id = 1")
+        .get() as { data: string } | undefined;
+      this.settingsCache = row
+        ? JSON.parse(row.data)
+        : structuredClone(DEFAULT_SETTINGS);
+      this.settingsVersion = version;
+    }
+    return this.settingsCache!;
+  }
+
+  saveSettings(settings: StorageSettings): void {
+    this.conn
+      .prepare(
+        `INSERT INTO settings (id, data) VALUES (1, ?)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+      )
+      .run(JSON.stringify(settings));
+    this.settingsCache = settings;
+    this.settingsVersion = this.dataVersion();
+  }
+
+  // Unchanged by this connection's own commits
+  private dataVersion(): number {
+    return this.conn.pragma("data_version", { simple: true }) as number;
+  }
+
+  // Generic key/value
+  getValue<T = unknown>(key: string): T | undefined {
+    const row = this.conn
+      .prepare("SELECT value FROM kv_store WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  setValue<T = unknown>(key: string, value: T): void {
+    this.conn
+      .prepare(
+        `INSERT INTO kv_store (key, value) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+      )
+      .run(key, JSON.stringify(value));
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Persistence Types
+ * Contract shared by every storage backend
+ */
+
+import type {
+  PositionData,
+  RebalanceEvent,
+  Alert,
+  StopLossConfig,
+  Candle,
+  CandleInterval,
+  LedgerEntry,
+} from "../../shared/schema";
+import type { PendingTransaction } from "../services/transaction-queue.service";
+
+export interface StorageSettings {
+  telegram: {
+    enabled: boolean;
+    botToken: string;
+    chatId: string;
+  };
+  rebalancing: {
+    enabled: boolean;
+    intervalMinutes: number;
+    volatilityThreshold: number;
+  };
+  monitoring: {
+    enabled: boolean;
+    pools: string[];
+  };
+  monitoredWallet?: string | null;
+}
+
+export interface StoredPricePoint {
+  price: number;
+  timestamp: number;
+}
+
+export interface LedgerFilter {
+  positionAddress?: string;
+  owner?: string;
+}
+
+export const DEFAULT_SETTINGS: StorageSettings = {
+  telegram: { enabled: false, botToken: "", chatId: "" },
+  rebalancing: {
+    enabled: false,
+    intervalMinutes: 15,
+    volatilityThreshold: 0.05,
+  },
+  monitoring: { enabled: false, pools: [] },
+};
+
+/**
+ * Storage backend used by the Storage facade.
+ * All methods are synchronous so callers keep their current semantics.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  /**
+   * Prepare the backend (create files, run schema migrations)
+   */
+  init(): void;
+
+  close(): void;
+
+  /**
+   * Run several writes as one unit: a single transaction, or a single file
+   * write for backends that rewrite a whole file
+   */
+  batch<T>(fn: () => T): T;
+
+  // Positions
+  getPosition(address: string): PositionData | undefined;
+  getAllPositions(): PositionData[];
+  upsertPosition(address: string, data: PositionData): void;
+  deletePosition(address: string): void;
+
+  // Rebalance events
+  insertRebalanceEvent(event: RebalanceEvent): void;
+  listRebalanceEvents(positionAddress?: string): RebalanceEvent[];
+
+  // Alerts
+  insertAlert(alert: Alert): void;
+  listAlerts(unreadOnly: boolean): Alert[];
+  markAlertRead(id: string): void;
+
+  // Stop-loss configs
+  upsertStopLoss(config: StopLossConfig): void;
+  getStopLoss(positionAddress: string): StopLossConfig | undefined;
+  deleteStopLoss(positionAddress: string): void;
+  listStopLoss(): StopLossConfig[];
+
+  // Transaction queue
+  upsertQueuedTransaction(tx: PendingTransaction): void;
+  deleteQueuedTransaction(id: string): void;
+  listQueuedTransactions(): PendingTransaction[];
+
+  // Price history
+  insertPricePoint(poolAddress: string, point: StoredPricePoint): void;
+  listPricePoints(
+    poolAddress: string,
+    from?: number,
+    to?: number
+  ): StoredPricePoint[];
+  deletePricePointsBefore(before: number): void;
+
+  // OHLC candles
+  upsertCandle(poolAddress: string, interval: CandleInterval, candle: Candle): void;
+  getCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    timestamp: number
+  ): Candle | undefined;
+  listCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from?: number,
+    to?: number
+  ): Candle[];
+  deleteCandlesBefore(interval: CandleInterval, before: number): void;
+
+  // Position ledger
+  insertLedgerEntry(entry: LedgerEntry): void;
+  listLedgerEntries(filter?: LedgerFilter): LedgerEntry[];
+
+  // Settings
+  getSettings(): StorageSettings;
+  saveSettings(settings: StorageSettings): void;
+
+  // Generic key/value for auxiliary state
+  getValue<T = unknown>(key: string): T | undefined;
+  setValue<T = unknown>(key: string, value: T): void;
+}
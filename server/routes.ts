@@ -1,27 +1,164 @@
 import { Router, type Request, type Response } from "express";
-import { PublicKey, Keypair, Transaction } from "@solana/web3.js";
+import { PublicKey, Keypair, VersionedTransaction } from "@solana/web3.js";
 import BN from "bn.js";
 import { positionMonitor } from "./services/position-monitor";
 import { volatilityTracker } from "./services/volatility-tracker";
 import { rebalancer } from "./services/rebalancer";
 import { ecoRebalancer } from "./services/eco-rebalancer";
 import { stopLossManager } from "./services/stop-loss-manager";
+import { poolIndex } from "./services/pool-index.service";
 import { telegramBot } from "./services/telegram-bot";
 import { wsServer } from "./services/websocket-server";
 import { dlmmClient } from "./solana/dlmm-client";
 import { ilCalculator } from "./utils/il-calculator";
 import { feeOptimizer } from "./utils/fee-optimizer";
-import { SimulatorService } from "./services/simulator.service";
-import { transactionQueueService } from "./services/transaction-queue.service";
+import { SWEEP_METRICS, SimulatorService } from "./services/simulator.service";
+import {
+  transactionQueueService,
+  type PendingTransaction,
+} from "./services/transaction-queue.service";
+import { priceHistoryService } from "./services/price-history.service";
+import { rebalanceStrategyService } from "./services/rebalance-strategy.service";
+import { positionLedger } from "./services/position-ledger.service";
+import { authService } from "./services/auth.service";
+import { walletProfiles } from "./services/wallet-profile.service";
+import { alertRules } from "./services/alert-rules.service";
+import { digestService } from "./services/digest.service";
+import { priceOracle } from "./oracle";
+import { scheduler } from "./scheduler";
+import { listStrategies } from "./strategies";
+import { allocateLiquidity } from "./utils/liquidity-distribution";
+import { priceToBinId } from "./utils/bin-math";
+import { config } from "./config";
 import storage from "./storage";
 import { logger } from "./utils/logger";
-import type { ApiResponse } from "../shared/schema";
+import {
+  AuthenticationError,
+  PositionNotFoundError,
+  ValidationError,
+} from "./utils/errors";
+import {
+  authenticate,
+  canAccessPosition,
+  canActFor,
+  canManageWallet,
+  requireAuth,
+  requirePositionOwner,
+  requireSchedulerTrigger,
+  requireSettingsOwner,
+  requireWallet,
+  requireWalletManager,
+  sessionWallet,
+} from "./middleware/auth";
+import {
+  BinRangeSchema,
+  CandleIntervalSchema,
+  LiquidityDistributionSchema,
+  PositionStrategySchema,
+  RebalanceStrategyNameSchema,
+  type ApiResponse,
+  type BinRange,
+  type LiquidityDistribution,
+  type PositionStrategy,
+} from "../shared/schema";
 
 const router: Router = Router();
 const simulatorService = new SimulatorService();
 
+// Route guards; see middleware/auth.ts
+const ownWalletParam = requireWallet((req) => req.params.wallet);
+const ownWalletInBody = requireWallet((req) => req.body.wallet);
+const ownWalletQuery = requireWallet((req) => req.query.wallet);
+const ownPosition = requirePositionOwner();
+const ownPositionParam = requirePositionOwner(
+  (req) => req.params.positionAddress
+);
+const ownPositionInBody = requirePositionOwner(
+  (req) => req.body.positionAddress
+);
+const manageWalletParam = requireWalletManager((req) => req.params.wallet);
+const manageWalletInBody = requireWalletManager((req) => req.body.wallet);
+
+router.use(authenticate);
+
+// Auth (Sign-In-With-Solana)
+router.post("/auth/nonce", (req, res) => {
+  try {
+    const { wallet } = req.body;
+    logger.info("POST /auth/nonce", { wallet });
+    const nonce = authService.issueNonce(wallet);
+
+    res.json({
+      success: true,
+      data: nonce,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to issue sign-in nonce", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to issue sign-in nonce",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/auth/verify", (req, res) => {
+  try {
+    const { wallet, nonce, signature } = req.body;
+    logger.info("POST /auth/verify", { wallet });
+    const { token, session } = authService.verify(wallet, nonce, signature);
+
+    res.json({
+      success: true,
+      data: { token, ...session },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to verify sign-in", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    const status =
+      error instanceof ValidationError
+        ? 400
+        : error instanceof AuthenticationError
+          ? 401
+          : 500;
+    res.status(status).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to verify sign-in",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/auth/session", requireAuth, (req, res) => {
+  logger.info("GET /auth/session", { wallet: sessionWallet(res) });
+  res.json({
+    success: true,
+    data: {
+      wallet: sessionWallet(res) || null,
+      required: config.auth.required,
+    },
+    timestamp: Date.now(),
+  });
+});
+
+router.post("/auth/logout", (req, res) => {
+  logger.info("POST /auth/logout", { wallet: sessionWallet(res) });
+  if (res.locals.token) authService.revoke(res.locals.token);
+  res.json({
+    success: true,
+    data: { message: "Signed out" },
+    timestamp: Date.now(),
+  });
+});
+
 // Positions
-router.get("/positions/:wallet", async (req, res) => {
+router.get("/positions/:wallet", ownWalletParam, async (req, res) => {
   try {
     const { wallet } = req.params;
     logger.info("GET /positions/:wallet", { wallet });
@@ -33,12 +170,15 @@ router.get("/positions/:wallet", async (req, res) => {
       count: positions.length,
     });
 
-    // Also include positions from storage (for positions without owner field)
-    const allStoredPositions = storage.getAllPositions();
+    // Also include positions from storage (for positions without owner field).
+    // They cannot be attributed to a wallet, so only when auth is disabled.
+    const allStoredPositions = config.auth.required
+      ? []
+      : storage.getAllPositions();
     logger.info("All stored positions count", {
       total: allStoredPositions.length,
     });
-    
+
     const storedPositionsWithoutOwner = allStoredPositions.filter(
       (p) => !p.position.owner || p.position.owner === ""
     );
@@ -85,7 +225,7 @@ router.get("/positions/:wallet", async (req, res) => {
   }
 });
 
-router.get("/positions/detail/:address", async (req, res) => {
+router.get("/positions/detail/:address", ownPosition, async (req, res) => {
   try {
     const { address } = req.params;
     logger.info("GET /positions/detail/:address", { address });
@@ -112,6 +252,114 @@ router.get("/positions/detail/:address", async (req, res) => {
   }
 });
 
+// Position ledger and PnL
+router.get("/positions/:address/pnl", ownPosition, (req, res) => {
+  try {
+    const { address } = req.params;
+    logger.info("GET /positions/:address/pnl", { address });
+
+    res.json({
+      success: true,
+      data: positionLedger.getPositionPnl(address),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to calculate position PnL", {
+      address: req.params.address,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof PositionNotFoundError ? 404 : 500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to calculate PnL",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/positions/wallet/:wallet/pnl", ownWalletParam, (req, res) => {
+  try {
+    const { wallet } = req.params;
+    logger.info("GET /positions/wallet/:wallet/pnl", { wallet });
+
+    res.json({
+      success: true,
+      data: positionLedger.getWalletPnl(wallet),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to calculate wallet PnL", {
+      wallet: req.params.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to calculate PnL",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/positions/:address/ledger", ownPosition, (req, res) => {
+  try {
+    const { address } = req.params;
+    logger.info("GET /positions/:address/ledger", { address });
+
+    res.json({
+      success: true,
+      data: positionLedger.getEntries(address),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to load position ledger", {
+      address: req.params.address,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load ledger",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Record a deposit, withdrawal, fee claim or rebalance signed outside the server
+router.post("/positions/:address/ledger", ownPosition, (req, res) => {
+  try {
+    const { address } = req.params;
+    logger.info("POST /positions/:address/ledger", {
+      address,
+      type: req.body.type,
+    });
+
+    res.json({
+      success: true,
+      data: positionLedger.recordForPosition(address, req.body),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to record ledger entry", {
+      address: req.params.address,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res
+      .status(
+        error instanceof ValidationError
+          ? 400
+          : error instanceof PositionNotFoundError
+            ? 404
+            : 500
+      )
+      .json({
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to record entry",
+        timestamp: Date.now(),
+      });
+  }
+});
+
 // Volatility
 router.get("/volatility/:poolAddress", async (req, res) => {
   try {
@@ -148,10 +396,14 @@ router.get("/volatility/:poolAddress", async (req, res) => {
 });
 
 // Rebalancing - Prepare unsigned transaction for wallet to sign
-router.post("/rebalance", async (req, res) => {
+router.post("/rebalance", ownWalletInBody, ownPositionInBody, async (req, res) => {
   try {
     const { positionAddress, wallet } = req.body;
-    logger.info("POST /rebalance", { positionAddress, wallet });
+    logger.info("POST /rebalance", {
+      positionAddress,
+      wallet,
+      shape: req.body.distribution?.shape,
+    });
 
     if (!positionAddress || !wallet) {
       return res.status(400).json({
@@ -161,6 +413,39 @@ router.post("/rebalance", async (req, res) => {
       });
     }
 
+    let distribution: LiquidityDistribution | undefined;
+    if (req.body.distribution !== undefined) {
+      const parsedDistribution = LiquidityDistributionSchema.safeParse(
+        req.body.distribution
+      );
+      if (!parsedDistribution.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid liquidity distribution",
+          timestamp: Date.now(),
+        });
+      }
+      distribution = parsedDistribution.data;
+    }
+
+    // Swap to the new range's token ratio unless the caller opts out
+    const swapToRatio = req.body.swapToRatio !== false;
+    const slippageBps =
+      req.body.slippageBps === undefined
+        ? config.rebalancing.defaultSlippageBps
+        : Number(req.body.slippageBps);
+    if (
+      !Number.isFinite(slippageBps) ||
+      slippageBps <= 0 ||
+      slippageBps > config.rebalancing.maxSlippageBps
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: `slippageBps must be between 1 and ${config.rebalancing.maxSlippageBps}`,
+        timestamp: Date.now(),
+      });
+    }
+
     const shouldRebal = await rebalancer.shouldRebalance(positionAddress);
     logger.info("Checked rebalance necessity", {
       positionAddress,
@@ -193,22 +478,12 @@ router.post("/rebalance", async (req, res) => {
       },
     });
 
-    const volatilityData = volatilityTracker.getVolatilityData(
-      positionData.pool.address
-    );
-    const volatility = volatilityData?.volatility || 50;
-
-    const newRange = rebalancer.calculateOptimalRange(
-      positionData.pool.address,
-      positionData.pool.activeId,
-      volatility
-    );
+    const newRange = rebalancer.calculateOptimalRange(positionData);
 
     logger.info("Preparing rebalance transaction", {
       positionAddress,
       newRange,
       activeBinId: positionData.pool.activeId,
-      volatility,
       // Detailed validation info
       rangeValidation: {
         lowerBinId: newRange.lowerBinId,
@@ -233,7 +508,9 @@ router.post("/rebalance", async (req, res) => {
       newRange.upperBinId,
       new PublicKey(wallet),
       liquidityAmountX,
-      liquidityAmountY
+      liquidityAmountY,
+      distribution,
+      { swapToRatio, slippageBps }
     );
 
     const txData = {
@@ -243,7 +520,9 @@ router.post("/rebalance", async (req, res) => {
         lowerBinId: positionData.position.lowerBinId,
         upperBinId: positionData.position.upperBinId,
       },
-      newRange,
+      newRange: rebalanceResult.newRange,
+      distribution: distribution?.shape || "spot",
+      swap: rebalanceResult.swap,
       transaction: rebalanceResult.transaction,
       newPositionMint: rebalanceResult.positionMint,
       message: "Rebalance transaction prepared. Please sign with your wallet.",
@@ -264,7 +543,7 @@ router.post("/rebalance", async (req, res) => {
       positionAddress: req.body.positionAddress,
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error:
         error instanceof Error ? error.message : "Failed to prepare rebalance",
@@ -274,7 +553,7 @@ router.post("/rebalance", async (req, res) => {
 });
 
 // Execute signed rebalance transaction
-router.post("/rebalance/execute", async (req, res) => {
+router.post("/rebalance/execute", ownPositionInBody, async (req, res) => {
   try {
     const { signedTransaction, positionAddress, newPositionMint } = req.body;
     logger.info("POST /rebalance/execute", {
@@ -296,7 +575,7 @@ router.post("/rebalance/execute", async (req, res) => {
 
     // Execute single transaction
     const txBuffer = Buffer.from(signedTransaction, "base64");
-    const transaction = Transaction.from(txBuffer);
+    const transaction = VersionedTransaction.deserialize(txBuffer);
 
     const signature = await connection.sendRawTransaction(
       transaction.serialize(),
@@ -345,6 +624,11 @@ router.post("/rebalance/execute", async (req, res) => {
         status: "success" as const,
       };
       storage.addRebalanceEvent(rebalanceEvent);
+      positionLedger.recordExit(positionData, "rebalance", {
+        signature,
+        relatedPosition: newPositionMint,
+        note: "Manual rebalance",
+      });
 
       // Broadcast rebalance event via WebSocket
       wsServer.broadcastRebalanceEvent(rebalanceEvent);
@@ -373,13 +657,15 @@ router.post("/rebalance/execute", async (req, res) => {
   }
 });
 
-router.get("/rebalance/history/:positionAddress?", (req, res) => {
+router.get("/rebalance/history/:positionAddress?", requireAuth, (req, res) => {
   try {
     const { positionAddress } = req.params;
     logger.info("GET /rebalance/history/:positionAddress?", {
       positionAddress,
     });
-    const events = storage.getRebalanceEvents(positionAddress);
+    const events = storage
+      .getRebalanceEvents(positionAddress)
+      .filter((event) => canAccessPosition(res, event.positionAddress));
     logger.info("Retrieved rebalance history", {
       positionAddress,
       count: events.length,
@@ -405,184 +691,595 @@ router.get("/rebalance/history/:positionAddress?", (req, res) => {
   }
 });
 
-// Stop-loss
-router.post("/stop-loss/set", (req, res) => {
+// Rebalance strategies
+router.get("/rebalance/strategies", (req, res) => {
   try {
-    const config = req.body;
-    logger.info("POST /stop-loss/set", { config });
-    stopLossManager.setStopLoss(config);
-    logger.info("Stop-loss configured", {
-      positionAddress: config.positionAddress,
-    });
-
+    logger.info("GET /rebalance/strategies");
     res.json({
       success: true,
-      data: { message: "Stop-loss configured" },
+      data: {
+        default: config.rebalancing.defaultStrategy,
+        strategies: listStrategies().map(({ name, description }) => ({
+          name,
+          description,
+        })),
+      },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to set stop-loss", {
+    logger.error("Failed to list rebalance strategies", {
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : "Failed to set stop-loss",
+      error:
+        error instanceof Error ? error.message : "Failed to list strategies",
       timestamp: Date.now(),
     });
   }
 });
 
-router.delete("/stop-loss/:positionAddress", (req, res) => {
+router.get("/rebalance/strategy/:positionAddress", ownPositionParam, (req, res) => {
   try {
     const { positionAddress } = req.params;
-    logger.info("DELETE /stop-loss/:positionAddress", { positionAddress });
-    stopLossManager.removeStopLoss(positionAddress);
-    logger.info("Stop-loss removed", { positionAddress });
+    logger.info("GET /rebalance/strategy/:positionAddress", {
+      positionAddress,
+    });
+
+    const strategy = rebalanceStrategyService.getPositionStrategy(
+      positionAddress
+    );
+
+    // Preview the range the strategy would pick right now
+    const positionData = storage.getPosition(positionAddress);
+    const preview = positionData
+      ? rebalanceStrategyService.calculateRange(positionData)
+      : undefined;
 
     res.json({
       success: true,
-      data: { message: "Stop-loss removed" },
+      data: { positionAddress, ...strategy, preview },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to remove stop-loss", {
+    logger.error("Failed to get position strategy", {
       positionAddress: req.params.positionAddress,
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
       error:
-        error instanceof Error ? error.message : "Failed to remove stop-loss",
+        error instanceof Error
+          ? error.message
+          : "Failed to get position strategy",
       timestamp: Date.now(),
     });
   }
 });
 
-// Alerts
-router.get("/alerts", (req, res) => {
+router.post("/rebalance/strategy/:positionAddress", ownPositionParam, (req, res) => {
   try {
-    const { unread } = req.query;
-    logger.info("GET /alerts", { unread });
-    const alerts = storage.getAlerts(unread === "true");
-    logger.info("Retrieved alerts", { count: alerts.length, unread });
+    const { positionAddress } = req.params;
+    logger.info("POST /rebalance/strategy/:positionAddress", {
+      positionAddress,
+      strategy: req.body?.name,
+    });
+
+    const strategy = rebalanceStrategyService.setPositionStrategy(
+      positionAddress,
+      req.body
+    );
 
     res.json({
       success: true,
-      data: alerts,
+      data: { positionAddress, ...strategy },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to get alerts", {
+    logger.error("Failed to set position strategy", {
+      positionAddress: req.params.positionAddress,
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
-      error: error instanceof Error ? error.message : "Failed to get alerts",
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to set position strategy",
       timestamp: Date.now(),
     });
   }
 });
 
-router.post("/alerts/:id/read", (req, res) => {
+router.delete("/rebalance/strategy/:positionAddress", ownPositionParam, (req, res) => {
   try {
-    const { id } = req.params;
-    logger.info("POST /alerts/:id/read", { id });
-    storage.markAlertRead(id);
-    logger.info("Alert marked as read", { id });
+    const { positionAddress } = req.params;
+    logger.info("DELETE /rebalance/strategy/:positionAddress", {
+      positionAddress,
+    });
+
+    rebalanceStrategyService.resetPositionStrategy(positionAddress);
 
     res.json({
       success: true,
-      data: { message: "Alert marked as read" },
+      data: {
+        positionAddress,
+        ...rebalanceStrategyService.getPositionStrategy(positionAddress),
+      },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to mark alert as read", {
-      id: req.params.id,
+    logger.error("Failed to reset position strategy", {
+      positionAddress: req.params.positionAddress,
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
       error:
-        error instanceof Error ? error.message : "Failed to mark alert as read",
+        error instanceof Error
+          ? error.message
+          : "Failed to reset position strategy",
       timestamp: Date.now(),
     });
   }
 });
 
-// Eco-mode rebalancing
-router.post("/rebalance/eco/start", (req, res) => {
+// Stop-loss
+router.post("/stop-loss/set", ownPositionInBody, (req, res) => {
   try {
-    const { threshold } = req.body;
-    logger.info("POST /rebalance/eco/start", { threshold });
-
-    // Load owner keypair from secure storage
-    const ownerKeypair = Keypair.fromSecretKey(
-      Buffer.from(JSON.parse(process.env.WALLET_SECRET_KEY || "[]"))
-    );
-
-    ecoRebalancer.startEcoMode(ownerKeypair, threshold || 5);
-    logger.info("Eco-mode rebalancing started", { threshold: threshold || 5 });
+    logger.info("POST /stop-loss/set", {
+      positionAddress: req.body?.positionAddress,
+    });
+    const config = stopLossManager.configure(req.body);
 
     res.json({
       success: true,
-      data: { message: "Eco-mode rebalancing started" },
+      data: config,
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to start eco-mode", {
+    logger.error("Failed to set stop-loss", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to start eco-mode",
+      error: error instanceof Error ? error.message : "Failed to set stop-loss",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/stop-loss/:positionAddress", ownPositionParam, (req, res) => {
+  const { positionAddress } = req.params;
+  const config = stopLossManager.getStopLoss(positionAddress);
+  if (!config) {
+    return res.status(404).json({
+      success: false,
+      error: "No stop-loss for this position",
       timestamp: Date.now(),
     });
   }
+
+  res.json({
+    success: true,
+    data: config,
+    timestamp: Date.now(),
+  });
 });
 
-router.post("/rebalance/eco/stop", (req, res) => {
+router.get(
+  "/stop-loss/:positionAddress/events",
+  ownPositionParam,
+  (req, res) => {
+    res.json({
+      success: true,
+      data: stopLossManager.getEvents(req.params.positionAddress),
+      timestamp: Date.now(),
+    });
+  }
+);
+
+router.delete("/stop-loss/:positionAddress", ownPositionParam, (req, res) => {
   try {
-    logger.info("POST /rebalance/eco/stop");
-    ecoRebalancer.stopEcoMode();
-    logger.info("Eco-mode rebalancing stopped");
+    const { positionAddress } = req.params;
+    logger.info("DELETE /stop-loss/:positionAddress", { positionAddress });
+    stopLossManager.removeStopLoss(positionAddress);
+    logger.info("Stop-loss removed", { positionAddress });
 
     res.json({
       success: true,
-      data: { message: "Eco-mode rebalancing stopped" },
+      data: { message: "Stop-loss removed" },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to stop eco-mode", {
+    logger.error("Failed to remove stop-loss", {
+      positionAddress: req.params.positionAddress,
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : "Failed to stop eco-mode",
+      error:
+        error instanceof Error ? error.message : "Failed to remove stop-loss",
       timestamp: Date.now(),
     });
   }
 });
 
-router.get("/rebalance/eco/status", (req, res) => {
+// Alerts
+router.get("/alerts", requireAuth, (req, res) => {
   try {
-    logger.info("GET /rebalance/eco/status");
-    const status = ecoRebalancer.getQueueStatus();
-    logger.info("Retrieved eco-mode status", { status });
+    const { unread } = req.query;
+    logger.info("GET /alerts", { unread });
+    const alerts = storage
+      .getAlerts(unread === "true")
+      .filter((alert) => canAccessPosition(res, alert.positionAddress));
+    logger.info("Retrieved alerts", { count: alerts.length, unread });
 
     res.json({
       success: true,
-      data: status,
+      data: alerts,
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to get eco-mode status", {
+    logger.error("Failed to get alerts", {
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
-      error:
-        error instanceof Error
+      error: error instanceof Error ? error.message : "Failed to get alerts",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/alerts/:id/read", requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    logger.info("POST /alerts/:id/read", { id });
+    const alert = storage.getAlerts().find((a) => a.id === id);
+    if (alert && !canAccessPosition(res, alert.positionAddress)) {
+      return res.status(403).json({
+        success: false,
+        error: "Alert belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+    storage.markAlertRead(id);
+    logger.info("Alert marked as read", { id });
+
+    res.json({
+      success: true,
+      data: { message: "Alert marked as read" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to mark alert as read", {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to mark alert as read",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Alert rules (user-defined alert conditions)
+router.get("/alert-rules", requireAuth, (req, res) => {
+  try {
+    logger.info("GET /alert-rules", { wallet: sessionWallet(res) });
+    const rules = alertRules
+      .list()
+      .filter((rule) => canActFor(res, rule.wallet));
+
+    res.json({
+      success: true,
+      data: rules,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to list alert rules", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to list alert rules",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/alert-rules", requireAuth, (req, res) => {
+  try {
+    const wallet = req.body.wallet || sessionWallet(res);
+    logger.info("POST /alert-rules", { wallet, metric: req.body.metric });
+    if (typeof wallet !== "string" || !canActFor(res, wallet)) {
+      return res.status(403).json({
+        success: false,
+        error: "Alert rules can only be created for your own wallet",
+        timestamp: Date.now(),
+      });
+    }
+    const rule = alertRules.create(wallet, req.body);
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to create alert rule", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create alert rule",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/alert-rules/:id", requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    logger.info("GET /alert-rules/:id", { id });
+    const rule = alertRules.get(id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: "Alert rule not found",
+        timestamp: Date.now(),
+      });
+    }
+    if (!canActFor(res, rule.wallet)) {
+      return res.status(403).json({
+        success: false,
+        error: "Alert rule belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get alert rule", {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get alert rule",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.put("/alert-rules/:id", requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    logger.info("PUT /alert-rules/:id", { id });
+    const existing = alertRules.get(id);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: "Alert rule not found",
+        timestamp: Date.now(),
+      });
+    }
+    if (!canActFor(res, existing.wallet)) {
+      return res.status(403).json({
+        success: false,
+        error: "Alert rule belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+    const rule = alertRules.update(id, req.body);
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to update alert rule", {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update alert rule",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.delete("/alert-rules/:id", requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    logger.info("DELETE /alert-rules/:id", { id });
+    const rule = alertRules.get(id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: "Alert rule not found",
+        timestamp: Date.now(),
+      });
+    }
+    if (!canActFor(res, rule.wallet)) {
+      return res.status(403).json({
+        success: false,
+        error: "Alert rule belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+    alertRules.remove(id);
+
+    res.json({
+      success: true,
+      data: { message: "Alert rule removed" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to remove alert rule", {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to remove alert rule",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Portfolio digests
+router.get("/reports/digest", ownWalletQuery, (req, res) => {
+  try {
+    const wallet = String(req.query.wallet);
+    const period = req.query.period || "daily";
+    logger.info("GET /reports/digest", { wallet, period });
+    if (period !== "daily" && period !== "weekly") {
+      return res.status(400).json({
+        success: false,
+        error: "Period must be daily or weekly",
+        timestamp: Date.now(),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: digestService.build(wallet, period),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to build digest", {
+      wallet: req.query.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to build digest",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/reports/digest/history", ownWalletQuery, (req, res) => {
+  try {
+    const wallet = String(req.query.wallet);
+    const { period } = req.query;
+    const limit = req.query.limit ? parseInt(String(req.query.limit)) : 30;
+    logger.info("GET /reports/digest/history", { wallet, period, limit });
+    if (period !== undefined && period !== "daily" && period !== "weekly") {
+      return res.status(400).json({
+        success: false,
+        error: "Period must be daily or weekly",
+        timestamp: Date.now(),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: digestService.getHistory(wallet, { period, limit }),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get digest history", {
+      wallet: req.query.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get digest history",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Eco-mode rebalancing
+router.post("/rebalance/eco/start", requireSettingsOwner, (req, res) => {
+  try {
+    const { threshold } = req.body;
+    logger.info("POST /rebalance/eco/start", { threshold });
+
+    // Load owner keypair from secure storage
+    const ownerKeypair = Keypair.fromSecretKey(
+      Buffer.from(JSON.parse(process.env.WALLET_SECRET_KEY || "[]"))
+    );
+
+    ecoRebalancer.startEcoMode(ownerKeypair, threshold || 5);
+    logger.info("Eco-mode rebalancing started", { threshold: threshold || 5 });
+
+    res.json({
+      success: true,
+      data: { message: "Eco-mode rebalancing started" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to start eco-mode", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to start eco-mode",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/rebalance/eco/stop", requireSettingsOwner, (req, res) => {
+  try {
+    logger.info("POST /rebalance/eco/stop");
+    ecoRebalancer.stopEcoMode();
+    logger.info("Eco-mode rebalancing stopped");
+
+    res.json({
+      success: true,
+      data: { message: "Eco-mode rebalancing stopped" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to stop eco-mode", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to stop eco-mode",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/rebalance/eco/status", (req, res) => {
+  try {
+    logger.info("GET /rebalance/eco/status");
+    const status = ecoRebalancer.getQueueStatus();
+    logger.info("Retrieved eco-mode status", { status });
+
+    res.json({
+      success: true,
+      data: status,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get eco-mode status", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
           ? error.message
           : "Failed to get eco-mode status",
       timestamp: Date.now(),
@@ -590,6 +1287,27 @@ router.get("/rebalance/eco/status", (req, res) => {
   }
 });
 
+// A DLMM bin range when any of its fields is given, undefined when none is
+function parseBinRange(input: {
+  binStep?: unknown;
+  lowerBinId?: unknown;
+  upperBinId?: unknown;
+}): BinRange | undefined {
+  if (Object.values(input).every((value) => value === undefined)) {
+    return undefined;
+  }
+  const parsed = BinRangeSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid bin range: ${parsed.error.issues
+        .map((issue) => issue.message)
+        .join(", ")}`,
+      { issues: parsed.error.issues }
+    );
+  }
+  return parsed.data;
+}
+
 // Impermanent Loss Calculator
 router.post("/analytics/il", (req, res) => {
   try {
@@ -599,23 +1317,64 @@ router.post("/analytics/il", (req, res) => {
       initialAmountX,
       initialAmountY,
       feesEarned,
+      binStep,
+      lowerBinId,
+      upperBinId,
     } = req.body;
     logger.info("POST /analytics/il", {
       initialPrice,
       currentPrice,
       initialAmountX,
       initialAmountY,
-      feesEarned,
-    });
-
-    const result = ilCalculator.calculateDetailedIL(
-      initialPrice,
-      currentPrice,
-      initialAmountX,
-      initialAmountY,
-      feesEarned || 0
-    );
-    logger.info("Calculated IL", { result });
+      feesEarned,
+      binStep,
+      lowerBinId,
+      upperBinId,
+    });
+
+    let distribution: LiquidityDistribution | undefined;
+    if (req.body.distribution !== undefined) {
+      const parsedDistribution = LiquidityDistributionSchema.safeParse(
+        req.body.distribution
+      );
+      if (!parsedDistribution.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid liquidity distribution",
+          timestamp: Date.now(),
+        });
+      }
+      distribution = parsedDistribution.data;
+    }
+
+    const range = parseBinRange({ binStep, lowerBinId, upperBinId });
+
+    // A bin range gets the DLMM calculation; without one, full range x·y = k
+    const result = range
+      ? ilCalculator.calculateDlmmIL(
+          {
+            ...range,
+            initialPrice,
+            initialValue:
+              (initialAmountX || 0) * initialPrice + (initialAmountY || 0) ||
+              undefined,
+            distribution,
+          },
+          currentPrice,
+          feesEarned || 0
+        )
+      : ilCalculator.calculateDetailedIL(
+          initialPrice,
+          currentPrice,
+          initialAmountX,
+          initialAmountY,
+          feesEarned || 0
+        );
+    logger.info("Calculated IL", {
+      impermanentLoss: result.impermanentLoss,
+      lpValue: result.lpValue,
+      hodlValue: result.hodlValue,
+    });
 
     res.json({
       success: true,
@@ -626,7 +1385,7 @@ router.post("/analytics/il", (req, res) => {
     logger.error("Failed to calculate IL", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : "Failed to calculate IL",
       timestamp: Date.now(),
@@ -637,10 +1396,22 @@ router.post("/analytics/il", (req, res) => {
 router.get("/analytics/il/scenarios/:initialPrice", (req, res) => {
   try {
     const { initialPrice } = req.params;
-    logger.info("GET /analytics/il/scenarios/:initialPrice", { initialPrice });
-    const scenarios = ilCalculator.calculateILScenarios(
-      parseFloat(initialPrice)
-    );
+    const { binStep, lowerBinId, upperBinId } = req.query;
+    logger.info("GET /analytics/il/scenarios/:initialPrice", {
+      initialPrice,
+      binStep,
+      lowerBinId,
+      upperBinId,
+    });
+
+    const range = parseBinRange({ binStep, lowerBinId, upperBinId });
+
+    const scenarios = range
+      ? ilCalculator.calculateDlmmILScenarios({
+          ...range,
+          initialPrice: parseFloat(initialPrice),
+        })
+      : ilCalculator.calculateILScenarios(parseFloat(initialPrice));
     logger.info("Calculated IL scenarios", { scenarioCount: scenarios.size });
 
     res.json({
@@ -652,7 +1423,7 @@ router.get("/analytics/il/scenarios/:initialPrice", (req, res) => {
     logger.error("Failed to calculate IL scenarios", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error:
         error instanceof Error
@@ -711,78 +1482,30 @@ router.post("/analytics/fee-optimization", async (req, res) => {
 });
 
 // DLMM SDK Methods
-router.get("/pools", async (req, res) => {
-  try {
-    logger.info("GET /pools");
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const offset = (page - 1) * limit;
-
-    const poolAddresses = await dlmmClient.getPoolAddresses();
-    logger.info("Retrieved pool addresses", {
-      count: poolAddresses.length,
-      page,
-      limit,
-    });
-
-    // Fetch detailed info for requested page
-    const pools = [];
-    let attempted = 0;
-    const maxAttempts = Math.min(offset + limit + 20, poolAddresses.length); // Try extra to account for failures
-
-    for (let i = 0; i < poolAddresses.length && attempted < maxAttempts; i++) {
-      const address = poolAddresses[i];
-      attempted++;
-
-      try {
-        logger.debug("Fetching pool info", { address, attempt: attempted });
-        const pool = await dlmmClient.getPoolInfo(new PublicKey(address));
-        pools.push(pool);
-        logger.debug("Pool info fetched successfully", {
-          address,
-          poolsCount: pools.length,
-        });
-      } catch (err) {
-        logger.warn("Failed to fetch pool info", {
-          address,
-          error: err instanceof Error ? err.message : String(err),
-        });
-      }
-
-      // Stop if we have enough pools for this page
-      if (pools.length >= offset + limit) break;
-    }
-
-    // Slice to get the requested page
-    const paginatedPools = pools.slice(offset, offset + limit);
-    const totalPools = poolAddresses.length;
-    const totalPages = Math.ceil(totalPools / limit);
-
-    logger.info("Pools fetched for response", {
-      totalPools: paginatedPools.length,
-      page,
-      limit,
-      totalAvailable: totalPools,
-      totalPages,
-    });
+router.get("/pools", (req, res) => {
+  try {
+    logger.info("GET /pools", { query: req.query });
+    const { pools, total, query } = poolIndex.query(req.query);
+    const totalPages = Math.ceil(total / query.limit);
 
     res.json({
       success: true,
-      data: paginatedPools,
+      data: pools,
       pagination: {
-        page,
-        limit,
-        total: totalPools,
+        page: query.page,
+        limit: query.limit,
+        total,
         totalPages,
-        hasMore: page < totalPages,
+        hasMore: query.page < totalPages,
       },
+      index: poolIndex.getStatus(),
       timestamp: Date.now(),
     });
   } catch (error) {
     logger.error("Failed to get pools", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error: error instanceof Error ? error.message : "Failed to get pools",
       timestamp: Date.now(),
@@ -794,7 +1517,7 @@ router.get("/pool/:address", async (req, res) => {
   try {
     const { address } = req.params;
     logger.info("GET /pool/:address", { address });
-    const pool = await dlmmClient.getPoolInfo(new PublicKey(address));
+    const pool = await poolIndex.getPool(address);
     logger.info("Retrieved pool info", {
       address,
       tokenX: pool.tokenX.symbol,
@@ -819,6 +1542,63 @@ router.get("/pool/:address", async (req, res) => {
   }
 });
 
+router.get("/pool/:address/candles", (req, res) => {
+  try {
+    const { address } = req.params;
+    const interval = CandleIntervalSchema.safeParse(req.query.interval || "1h");
+    const from = req.query.from ? Number(req.query.from) : undefined;
+    const to = req.query.to ? Number(req.query.to) : undefined;
+    logger.info("GET /pool/:address/candles", {
+      address,
+      interval: req.query.interval,
+      from,
+      to,
+    });
+
+    if (!interval.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid interval. Use one of: 1m, 5m, 1h, 1d",
+        timestamp: Date.now(),
+      });
+    }
+
+    if (
+      (from !== undefined && !Number.isFinite(from)) ||
+      (to !== undefined && !Number.isFinite(to))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "from and to must be millisecond timestamps",
+        timestamp: Date.now(),
+      });
+    }
+
+    const candles = priceHistoryService.getCandles(
+      address,
+      interval.data,
+      from,
+      to
+    );
+
+    res.json({
+      success: true,
+      data: candles,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get candles", {
+      address: req.params.address,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get candles",
+      timestamp: Date.now(),
+    });
+  }
+});
+
 router.get("/pool/:address/bins", async (req, res) => {
   try {
     const { address } = req.params;
@@ -903,7 +1683,7 @@ router.post("/pool/:address/quote", async (req, res) => {
 });
 
 // Position Creation
-router.post("/positions/create", async (req, res) => {
+router.post("/positions/create", ownWalletInBody, async (req, res) => {
   try {
     const { poolAddress, lowerPrice, upperPrice, amountX, amountY, wallet } =
       req.body;
@@ -914,6 +1694,7 @@ router.post("/positions/create", async (req, res) => {
       amountX,
       amountY,
       wallet,
+      shape: req.body.distribution?.shape,
     });
 
     if (
@@ -932,6 +1713,17 @@ router.post("/positions/create", async (req, res) => {
       });
     }
 
+    const parsedDistribution = LiquidityDistributionSchema.safeParse(
+      req.body.distribution ?? { shape: "spot" }
+    );
+    if (!parsedDistribution.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid liquidity distribution",
+        timestamp: Date.now(),
+      });
+    }
+
     const pool = await dlmmClient.getPoolInfo(new PublicKey(poolAddress));
     const binStep = pool.binStep;
     const activeBinId = pool.activeId;
@@ -1024,11 +1816,24 @@ router.post("/positions/create", async (req, res) => {
       upperBinId,
       (amountX * Math.pow(10, pool.tokenX.decimals)).toString(),
       (amountY * Math.pow(10, pool.tokenY.decimals)).toString(),
-      new PublicKey(wallet)
+      new PublicKey(wallet),
+      parsedDistribution.data
     );
 
     logger.info("Position creation transaction prepared", { poolAddress });
 
+    // Opening deposit for the ledger, priced now; it is attached to the
+    // position once the monitor first sees it on-chain
+    positionLedger.recordPendingDeposit({
+      owner: wallet,
+      poolAddress,
+      lowerBinId,
+      upperBinId,
+      amountX: Number(amountX),
+      amountY: Number(amountY),
+      ...positionLedger.prices(pool),
+    });
+
     res.json({
       success: true,
       data: txData,
@@ -1039,7 +1844,7 @@ router.post("/positions/create", async (req, res) => {
       poolAddress: req.body.poolAddress,
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error:
         error instanceof Error ? error.message : "Failed to create position",
@@ -1048,8 +1853,169 @@ router.post("/positions/create", async (req, res) => {
   }
 });
 
+// Per-bin amounts a distribution would deposit, for previewing before create
+router.post("/positions/distribution/preview", async (req, res) => {
+  try {
+    const { poolAddress, lowerPrice, upperPrice, amountX, amountY } =
+      req.body;
+    logger.info("POST /positions/distribution/preview", {
+      poolAddress,
+      lowerPrice,
+      upperPrice,
+      shape: req.body.distribution?.shape,
+    });
+
+    if (!poolAddress || !lowerPrice || !upperPrice) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing required fields: poolAddress, lowerPrice, upperPrice",
+        timestamp: Date.now(),
+      });
+    }
+
+    const parsedDistribution = LiquidityDistributionSchema.safeParse(
+      req.body.distribution ?? { shape: "spot" }
+    );
+    if (!parsedDistribution.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid liquidity distribution",
+        timestamp: Date.now(),
+      });
+    }
+
+    const pool = await dlmmClient.getPoolInfo(new PublicKey(poolAddress));
+    const lowerBinId = priceToBinId(parseFloat(lowerPrice), pool.binStep);
+    const upperBinId = priceToBinId(parseFloat(upperPrice), pool.binStep);
+
+    if (upperBinId - lowerBinId > 140) {
+      throw new ValidationError(
+        `Price range too wide (${upperBinId - lowerBinId} bins, max 140)`
+      );
+    }
+
+    const bins = allocateLiquidity({
+      lowerBinId,
+      upperBinId,
+      activeBinId: pool.activeId,
+      binStep: pool.binStep,
+      amountX: Number(amountX) || 0,
+      amountY: Number(amountY) || 0,
+      distribution: parsedDistribution.data,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        activeBinId: pool.activeId,
+        lowerBinId,
+        upperBinId,
+        bins,
+      },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to preview distribution", {
+      poolAddress: req.body.poolAddress,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to preview distribution",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// USD prices
+router.get("/oracle/prices", (req, res) => {
+  try {
+    const mints = String(req.query.mints || "")
+      .split(",")
+      .map((mint) => mint.trim())
+      .filter(Boolean);
+    logger.info("GET /oracle/prices", { mints });
+
+    // Without mints, list the fixed prices (stablecoins, configured, manual)
+    const data =
+      mints.length > 0
+        ? Object.fromEntries(
+            mints.map((mint) => {
+              const price = priceOracle.getPrice(mint);
+              const stale = price && priceOracle.isStale(price.updatedAt);
+              return [mint, price && { ...price, stale }];
+            })
+          )
+        : priceOracle.fixed.list();
+
+    res.json({ success: true, data, timestamp: Date.now() });
+  } catch (error) {
+    logger.error("Failed to get token prices", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get prices",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/oracle/prices", requireSettingsOwner, (req, res) => {
+  try {
+    const { mint, usd } = req.body;
+    logger.info("POST /oracle/prices", { mint, usd });
+
+    priceOracle.setManualPrice(mint, Number(usd));
+
+    res.json({
+      success: true,
+      data: priceOracle.getPrice(mint),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to set token price", {
+      mint: req.body.mint,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to set price",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.delete("/oracle/prices/:mint", requireSettingsOwner, (req, res) => {
+  try {
+    const { mint } = req.params;
+    logger.info("DELETE /oracle/prices/:mint", { mint });
+
+    priceOracle.removeManualPrice(mint);
+
+    res.json({
+      success: true,
+      data: { message: "Manual price removed" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to remove token price", {
+      mint: req.params.mint,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to remove price",
+      timestamp: Date.now(),
+    });
+  }
+});
+
 // Telegram Configuration
-router.post("/telegram/configure", (req, res) => {
+router.post("/telegram/configure", requireSettingsOwner, (req, res) => {
   try {
     const { botToken, chatId } = req.body;
     logger.info("POST /telegram/configure", { chatId });
@@ -1074,7 +2040,7 @@ router.post("/telegram/configure", (req, res) => {
   }
 });
 
-router.post("/telegram/disable", (req, res) => {
+router.post("/telegram/disable", requireSettingsOwner, (req, res) => {
   try {
     logger.info("POST /telegram/disable");
     telegramBot.disable();
@@ -1099,7 +2065,7 @@ router.post("/telegram/disable", (req, res) => {
 });
 
 // Telegram Test Endpoint
-router.post("/telegram/test", async (req, res) => {
+router.post("/telegram/test", requireSettingsOwner, async (req, res) => {
   try {
     logger.info("POST /telegram/test");
 
@@ -1134,7 +2100,7 @@ router.post("/telegram/test", async (req, res) => {
 });
 
 // Settings
-router.get("/settings", (req, res) => {
+router.get("/settings", requireSettingsOwner, (req, res) => {
   try {
     logger.info("GET /settings");
     const settings = storage.getSettings();
@@ -1142,47 +2108,157 @@ router.get("/settings", (req, res) => {
 
     res.json({
       success: true,
-      data: settings || {},
+      data: settings || {},
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get settings", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to get settings",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.post("/settings", requireSettingsOwner, (req, res) => {
+  try {
+    const settings = req.body;
+    logger.info("POST /settings", { settings });
+    storage.saveSettings(settings);
+    logger.info("Settings saved successfully");
+
+    res.json({
+      success: true,
+      data: { message: "Settings saved successfully" },
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to save settings", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save settings",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Wallet profiles (per-wallet automation settings)
+router.get("/profiles", requireAuth, (req, res) => {
+  try {
+    logger.info("GET /profiles", { wallet: sessionWallet(res) });
+    const profiles = walletProfiles
+      .list()
+      .filter((profile) => canManageWallet(res, profile.wallet));
+
+    res.json({
+      success: true,
+      data: profiles,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to list wallet profiles", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to list wallet profiles",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+router.get("/profiles/:wallet", manageWalletParam, (req, res) => {
+  try {
+    const { wallet } = req.params;
+    logger.info("GET /profiles/:wallet", { wallet });
+
+    res.json({
+      success: true,
+      data: walletProfiles.get(wallet),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to get wallet profile", {
+      wallet: req.params.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to get wallet profile",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Saving a profile starts or stops the wallet's schedules to match it
+router.put("/profiles/:wallet", manageWalletParam, (req, res) => {
+  try {
+    const { wallet } = req.params;
+    logger.info("PUT /profiles/:wallet", { wallet });
+    const profile = walletProfiles.update(wallet, req.body);
+
+    wsServer.broadcastAutoRebalanceStatus({
+      wallet,
+      enabled: profile.autoRebalance,
+      threshold: profile.rebalanceThreshold,
+      lastCheck: Date.now(),
+    });
+
+    res.json({
+      success: true,
+      data: profile,
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to get settings", {
+    logger.error("Failed to save wallet profile", {
+      wallet: req.params.wallet,
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
-      error: error instanceof Error ? error.message : "Failed to get settings",
+      error:
+        error instanceof Error ? error.message : "Failed to save wallet profile",
       timestamp: Date.now(),
     });
   }
 });
 
-router.post("/settings", (req, res) => {
+router.delete("/profiles/:wallet", manageWalletParam, (req, res) => {
   try {
-    const settings = req.body;
-    logger.info("POST /settings", { settings });
-    storage.saveSettings(settings);
-    logger.info("Settings saved successfully");
+    const { wallet } = req.params;
+    logger.info("DELETE /profiles/:wallet", { wallet });
+    walletProfiles.remove(wallet);
 
     res.json({
       success: true,
-      data: { message: "Settings saved successfully" },
+      data: { message: "Wallet profile removed" },
       timestamp: Date.now(),
     });
   } catch (error) {
-    logger.error("Failed to save settings", {
+    logger.error("Failed to remove wallet profile", {
+      wallet: req.params.wallet,
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : "Failed to save settings",
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to remove wallet profile",
       timestamp: Date.now(),
     });
   }
 });
 
-// Auto-Rebalancing Control
-router.post("/automation/rebalance/start", (req, res) => {
+// Auto-Rebalancing Control (shortcuts over the wallet's profile)
+router.post("/automation/rebalance/start", manageWalletInBody, (req, res) => {
   try {
     const { wallet, threshold } = req.body;
     logger.info("POST /automation/rebalance/start", { wallet, threshold });
@@ -1195,27 +2271,26 @@ router.post("/automation/rebalance/start", (req, res) => {
       });
     }
 
-    // Store automation settings
-    const settings = storage.getSettings() || {};
-    storage.saveSettings({
-      ...settings,
+    // Starts monitoring and auto-rebalancing for this wallet only
+    const profile = walletProfiles.update(wallet, {
       autoRebalance: true,
       rebalanceThreshold: threshold || 5,
-      monitoredWallet: wallet,
     });
 
-    // Start position monitoring for the wallet
-    positionMonitor.startMonitoring([wallet]);
-    positionMonitor.startAutoRebalancing(threshold || 5);
+    // The first wallet to automate becomes the settings owner
+    if (!storage.getSettings().monitoredWallet) {
+      storage.saveSettings({ monitoredWallet: wallet });
+    }
     logger.info("Position monitoring and auto-rebalancing started", {
       wallet,
-      threshold: threshold || 5,
+      threshold: profile.rebalanceThreshold,
     });
 
     // Broadcast auto-rebalance status via WebSocket
     wsServer.broadcastAutoRebalanceStatus({
+      wallet,
       enabled: true,
-      threshold: threshold || 5,
+      threshold: profile.rebalanceThreshold,
       lastCheck: Date.now(),
     });
 
@@ -1224,7 +2299,7 @@ router.post("/automation/rebalance/start", (req, res) => {
       data: {
         message: "Auto-rebalancing started",
         wallet,
-        threshold: threshold || 5,
+        threshold: profile.rebalanceThreshold,
       },
       timestamp: Date.now(),
     });
@@ -1232,7 +2307,7 @@ router.post("/automation/rebalance/start", (req, res) => {
     logger.error("Failed to start auto-rebalancing", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error:
         error instanceof Error
@@ -1243,31 +2318,41 @@ router.post("/automation/rebalance/start", (req, res) => {
   }
 });
 
-router.post("/automation/rebalance/stop", (req, res) => {
+router.post("/automation/rebalance/stop", requireAuth, (req, res) => {
   try {
-    logger.info("POST /automation/rebalance/stop");
+    const wallet = req.body?.wallet || sessionWallet(res);
+    logger.info("POST /automation/rebalance/stop", { wallet });
 
-    // Update settings
-    const settings = storage.getSettings() || {};
-    storage.saveSettings({
-      ...settings,
-      autoRebalance: false,
-    });
+    if (!wallet) {
+      return res.status(400).json({
+        success: false,
+        error: "Wallet address is required",
+        timestamp: Date.now(),
+      });
+    }
+    if (!canManageWallet(res, wallet)) {
+      return res.status(403).json({
+        success: false,
+        error: "Not allowed for this wallet",
+        timestamp: Date.now(),
+      });
+    }
 
-    // Stop monitoring
-    positionMonitor.stopMonitoring();
-    rebalancer.stopAutoRebalancing();
-    logger.info("Auto-rebalancing stopped");
+    // Monitoring keeps running; only this wallet's rebalance checks stop
+    const profile = walletProfiles.update(wallet, { autoRebalance: false });
+    rebalancer.stopAutoRebalancing(wallet);
+    logger.info("Auto-rebalancing stopped", { wallet });
 
     // Broadcast auto-rebalance status via WebSocket
     wsServer.broadcastAutoRebalanceStatus({
+      wallet,
       enabled: false,
-      threshold: settings.rebalanceThreshold || 5,
+      threshold: profile.rebalanceThreshold,
     });
 
     res.json({
       success: true,
-      data: { message: "Auto-rebalancing stopped" },
+      data: { message: "Auto-rebalancing stopped", wallet },
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -1287,15 +2372,20 @@ router.post("/automation/rebalance/stop", (req, res) => {
 
 router.get("/automation/rebalance/status", (req, res) => {
   try {
-    logger.info("GET /automation/rebalance/status");
-    const settings = storage.getSettings() || {};
+    const wallet =
+      typeof req.query.wallet === "string"
+        ? req.query.wallet
+        : sessionWallet(res);
+    logger.info("GET /automation/rebalance/status", { wallet });
+    const profile = wallet ? walletProfiles.get(wallet) : undefined;
 
     res.json({
       success: true,
       data: {
-        enabled: settings.autoRebalance || false,
-        threshold: settings.rebalanceThreshold || 5,
-        wallet: settings.monitoredWallet || null,
+        enabled: profile?.autoRebalance || false,
+        threshold: profile?.rebalanceThreshold || 5,
+        wallet: wallet || null,
+        running: profile?.running || false,
       },
       timestamp: Date.now(),
     });
@@ -1311,6 +2401,83 @@ router.get("/automation/rebalance/status", (req, res) => {
   }
 });
 
+// Scheduled jobs: status, last/next run and recent runs of each
+router.get("/jobs", requireSettingsOwner, (req, res) => {
+  try {
+    logger.info("GET /jobs");
+    res.json({
+      success: true,
+      data: scheduler.list(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to list jobs", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to list jobs",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Run every due job; for serverless deployments where a cron drives the jobs
+router.post("/jobs/tick", requireSchedulerTrigger, async (req, res) => {
+  try {
+    logger.info("POST /jobs/tick");
+    const ran = await scheduler.tickDue();
+
+    res.json({
+      success: true,
+      data: ran,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to tick jobs", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to tick jobs",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Run one job if it is due, or right away with ?force=true
+router.post("/jobs/:name/tick", requireSchedulerTrigger, async (req, res) => {
+  try {
+    const { name } = req.params;
+    const force = req.query.force === "true";
+    logger.info("POST /jobs/:name/tick", { name, force });
+
+    const status = await scheduler.tick(name, force);
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: "Job not found",
+        timestamp: Date.now(),
+      });
+    }
+
+    res.json({
+      success: true,
+      data: status,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Failed to tick job", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to tick job",
+      timestamp: Date.now(),
+    });
+  }
+});
+
 // Simulator
 router.post("/simulator/run", async (req, res) => {
   try {
@@ -1322,8 +2489,117 @@ router.post("/simulator/run", async (req, res) => {
       duration,
       rebalanceFrequency,
       feeRate,
+      poolAddress,
+      mode,
+      strategy,
+      strategyOptions,
     } = req.body;
 
+    // Same range strategies the live rebalancers use; omitted = configured default
+    let simulationStrategy: PositionStrategy | undefined;
+    if (strategy !== undefined) {
+      const parsedStrategy = PositionStrategySchema.safeParse({
+        name: strategy,
+        options: strategyOptions || {},
+      });
+      if (!parsedStrategy.success) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid strategy. Use one of: ${RebalanceStrategyNameSchema.options.join(", ")}`,
+          timestamp: Date.now(),
+        });
+      }
+      simulationStrategy = parsedStrategy.data;
+    }
+
+    if (mode === "backtest") {
+      const {
+        series,
+        interval = "1h",
+        from,
+        to,
+        binStep,
+        binCount,
+        rebalanceCost,
+      } = req.body;
+
+      logger.info("POST /simulator/run (backtest)", {
+        poolAddress,
+        interval,
+        from,
+        to,
+        uploaded: series !== undefined,
+        binCount,
+        strategy,
+      });
+
+      if (!amount || (!poolAddress && series === undefined)) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Backtest requires amount and either poolAddress or an uploaded series",
+          timestamp: Date.now(),
+        });
+      }
+
+      const candleInterval = CandleIntervalSchema.safeParse(interval);
+      if (!candleInterval.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid interval. Use one of: 1m, 5m, 1h, 1d",
+          timestamp: Date.now(),
+        });
+      }
+
+      const candles =
+        series !== undefined
+          ? simulatorService.parsePriceSeries(series)
+          : simulatorService.loadRecordedCandles(
+              poolAddress,
+              candleInterval.data,
+              from !== undefined ? Number(from) : Date.now() - 30 * 86400000,
+              to !== undefined ? Number(to) : undefined
+            );
+
+      // Map prices with the pool's real bin step unless one is supplied
+      const resolvedBinStep =
+        binStep !== undefined
+          ? Number(binStep)
+          : poolAddress
+          ? (await dlmmClient.getPoolInfo(new PublicKey(poolAddress))).binStep
+          : undefined;
+
+      if (resolvedBinStep === undefined) {
+        return res.status(400).json({
+          success: false,
+          error: "binStep is required when no poolAddress is given",
+          timestamp: Date.now(),
+        });
+      }
+
+      const result = await simulatorService.runBacktest({
+        initialValue: Number(amount),
+        binStep: resolvedBinStep,
+        binCount: binCount !== undefined ? Number(binCount) : 16,
+        feeRate: feeRate !== undefined ? Number(feeRate) : 25,
+        rebalanceCost: rebalanceCost !== undefined ? Number(rebalanceCost) : 0,
+        rebalanceFrequency:
+          rebalanceFrequency !== undefined ? Number(rebalanceFrequency) : 0,
+        candles,
+        source: series !== undefined ? "uploaded" : "recorded",
+        poolAddress,
+        strategy: simulationStrategy,
+      });
+
+      logger.info("Backtest completed", {
+        totalReturn: result.data?.totalReturn,
+        feesEarned: result.data?.feesEarned,
+        rebalanceCount: result.data?.rebalanceCount,
+      });
+
+      return res.json(result);
+    }
+
     logger.info("POST /simulator/run", {
       amount,
       lowerPrice,
@@ -1331,6 +2607,7 @@ router.post("/simulator/run", async (req, res) => {
       volatility,
       duration,
       rebalanceFrequency,
+      strategy,
     });
 
     if (!amount || !lowerPrice || !upperPrice || volatility === undefined) {
@@ -1355,6 +2632,15 @@ router.post("/simulator/run", async (req, res) => {
       duration: duration || 720, // Default 30 days in hours
       rebalanceFrequency: rebalanceFrequency || 24, // Default daily rebalance
       feeRate: feeRate || 25, // Default 0.25% fee (25 bps)
+      poolAddress,
+      strategy: simulationStrategy,
+      binStep:
+        req.body.binStep !== undefined ? Number(req.body.binStep) : undefined,
+      iterations:
+        req.body.iterations !== undefined
+          ? Number(req.body.iterations)
+          : undefined,
+      seed: req.body.seed !== undefined ? Number(req.body.seed) : undefined,
     };
 
     const result = await simulatorService.runSimulation(simulationParams);
@@ -1363,6 +2649,7 @@ router.post("/simulator/run", async (req, res) => {
       totalReturn: result.data?.totalReturn,
       feesEarned: result.data?.feesEarned,
       rebalanceCount: result.data?.rebalanceCount,
+      iterations: result.data?.monteCarlo?.iterations,
     });
 
     res.json(result);
@@ -1370,7 +2657,7 @@ router.post("/simulator/run", async (req, res) => {
     logger.error("Failed to run simulation", {
       error: error instanceof Error ? error.message : String(error),
     });
-    res.status(500).json({
+    res.status(error instanceof ValidationError ? 400 : 500).json({
       success: false,
       error:
         error instanceof Error ? error.message : "Failed to run simulation",
@@ -1379,10 +2666,102 @@ router.post("/simulator/run", async (req, res) => {
   }
 });
 
+// Parameter sweep: every combination over the same Monte Carlo paths
+router.post("/simulator/sweep", requireAuth, async (req, res) => {
+  try {
+    const {
+      amount,
+      volatility,
+      duration,
+      paths,
+      binStep,
+      rebalanceCost,
+      poolAddress,
+      strategies,
+      rangeWidths,
+      rebalanceFrequencies,
+      feeRates,
+      rankBy = "sharpeRatio",
+    } = req.body;
+
+    logger.info("POST /simulator/sweep", {
+      amount,
+      volatility,
+      duration,
+      paths,
+      strategies,
+      rankBy,
+    });
+
+    if (!amount || volatility === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: "Missing required fields: amount, volatility",
+        timestamp: Date.now(),
+      });
+    }
+
+    const parsedStrategies = RebalanceStrategyNameSchema.array().safeParse(
+      strategies ?? [config.rebalancing.defaultStrategy]
+    );
+    if (!parsedStrategies.success) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid strategies. Use any of: ${RebalanceStrategyNameSchema.options.join(", ")}`,
+        timestamp: Date.now(),
+      });
+    }
+
+    if (!SWEEP_METRICS.includes(rankBy)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid rankBy. Use one of: ${SWEEP_METRICS.join(", ")}`,
+        timestamp: Date.now(),
+      });
+    }
+
+    const result = await simulatorService.runSweep({
+      initialLiquidity: new BN(amount * 1e9),
+      volatilityTarget: volatility / 100,
+      duration: duration || 720,
+      paths: paths !== undefined ? Number(paths) : 20,
+      seed: req.body.seed !== undefined ? Number(req.body.seed) : undefined,
+      binStep: binStep !== undefined ? Number(binStep) : 25,
+      rebalanceCost: Number(rebalanceCost) || 0,
+      poolAddress,
+      strategies: Array.from(new Set(parsedStrategies.data)),
+      rangeWidths: simulatorService.expandSweepAxis(
+        rangeWidths,
+        [8, 16, 32],
+        "rangeWidths"
+      ),
+      rebalanceFrequencies: simulatorService.expandSweepAxis(
+        rebalanceFrequencies,
+        [6, 24, 72],
+        "rebalanceFrequencies"
+      ),
+      feeRates: simulatorService.expandSweepAxis(feeRates, [25], "feeRates"),
+      rankBy,
+    });
+
+    res.json(result);
+  } catch (error) {
+    logger.error("Failed to run parameter sweep", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(error instanceof ValidationError ? 400 : 500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to run parameter sweep",
+      timestamp: Date.now(),
+    });
+  }
+});
+
 // Transaction Queue Endpoints
 
 // Get pending transactions for a wallet
-router.get("/transactions/pending/:wallet", async (req, res) => {
+router.get("/transactions/pending/:wallet", ownWalletParam, async (req, res) => {
   try {
     const { wallet } = req.params;
     logger.info("GET /transactions/pending/:wallet", { wallet });
@@ -1416,13 +2795,100 @@ router.get("/transactions/pending/:wallet", async (req, res) => {
   }
 });
 
-// Approve and execute a transaction
-router.post("/transactions/approve/:id", async (req, res) => {
+// Get a wallet's transactions in every status, optionally one status only
+router.get("/transactions/wallet/:wallet", ownWalletParam, async (req, res) => {
+  try {
+    const { wallet } = req.params;
+    const { status } = req.query;
+    logger.info("GET /transactions/wallet/:wallet", { wallet, status });
+
+    const statuses = ["pending", "approved", "rejected", "executed", "failed"];
+    if (status !== undefined && !statuses.includes(String(status))) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of: ${statuses.join(", ")}`,
+        timestamp: Date.now(),
+      });
+    }
+
+    const transactions = transactionQueueService.getTransactions(
+      wallet,
+      status as PendingTransaction["status"] | undefined
+    );
+
+    const response: ApiResponse<typeof transactions> = {
+      success: true,
+      data: transactions,
+      timestamp: Date.now(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    logger.error("Failed to get wallet transactions", {
+      wallet: req.params.wallet,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to get wallet transactions",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Approve a transaction, or refresh an approved one whose blockhash expired.
+// Responds with the rebuilt transaction for the wallet to sign.
+router.post("/transactions/approve/:id", requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+    logger.info("POST /transactions/approve/:id", { id });
+
+    const transaction = transactionQueueService.getTransaction(id);
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        error: "Transaction not found",
+        timestamp: Date.now(),
+      });
+    }
+    if (!canActFor(res, transaction.walletAddress)) {
+      return res.status(403).json({
+        success: false,
+        error: "Transaction belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+
+    const result = await transactionQueueService.approveTransaction(id);
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    res.json(result);
+  } catch (error) {
+    logger.error("Failed to approve transaction", {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to approve transaction",
+      timestamp: Date.now(),
+    });
+  }
+});
+
+// Send an approved transaction once the wallet has signed it
+router.post("/transactions/execute/:id", requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     const { signedTransaction } = req.body;
 
-    logger.info("POST /transactions/approve/:id", { id });
+    logger.info("POST /transactions/execute/:id", { id });
 
     if (!signedTransaction) {
       return res.status(400).json({
@@ -1432,7 +2898,6 @@ router.post("/transactions/approve/:id", async (req, res) => {
       });
     }
 
-    // Get the transaction from queue
     const transaction = transactionQueueService.getTransaction(id);
     if (!transaction) {
       return res.status(404).json({
@@ -1441,19 +2906,28 @@ router.post("/transactions/approve/:id", async (req, res) => {
         timestamp: Date.now(),
       });
     }
-
-    // Mark as approved
-    const approveResult = await transactionQueueService.approveTransaction(id);
-    if (!approveResult.success) {
-      return res.status(400).json(approveResult);
+    if (!canActFor(res, transaction.walletAddress)) {
+      return res.status(403).json({
+        success: false,
+        error: "Transaction belongs to another wallet",
+        timestamp: Date.now(),
+      });
     }
 
-    // Execute the signed transaction
     const executeResult = await transactionQueueService.executeTransaction(
       id,
       signedTransaction
     );
 
+    if (executeResult.needsRefresh) {
+      // Not a failure: approve again for a fresh blockhash and re-sign
+      logger.warn("Transaction needs a refresh before it can be sent", {
+        id,
+        error: executeResult.error,
+      });
+      return res.status(409).json(executeResult);
+    }
+
     if (executeResult.success) {
       // Send success notification
       await telegramBot.sendTransactionExecutedAlert(
@@ -1463,7 +2937,7 @@ router.post("/transactions/approve/:id", async (req, res) => {
         true
       );
 
-      logger.info("Transaction approved and executed", {
+      logger.info("Transaction executed", {
         id,
         signature: executeResult.data?.signature,
       });
@@ -1485,25 +2959,34 @@ router.post("/transactions/approve/:id", async (req, res) => {
 
     res.json(executeResult);
   } catch (error) {
-    logger.error("Failed to approve transaction", {
+    logger.error("Failed to execute transaction", {
       id: req.params.id,
       error: error instanceof Error ? error.message : String(error),
     });
     res.status(500).json({
       success: false,
       error:
-        error instanceof Error ? error.message : "Failed to approve transaction",
+        error instanceof Error ? error.message : "Failed to execute transaction",
       timestamp: Date.now(),
     });
   }
 });
 
 // Reject a transaction
-router.post("/transactions/reject/:id", async (req, res) => {
+router.post("/transactions/reject/:id", requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     logger.info("POST /transactions/reject/:id", { id });
 
+    const transaction = transactionQueueService.getTransaction(id);
+    if (transaction && !canActFor(res, transaction.walletAddress)) {
+      return res.status(403).json({
+        success: false,
+        error: "Transaction belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+
     const result = await transactionQueueService.rejectTransaction(id);
 
     if (result.success) {
@@ -1531,7 +3014,7 @@ router.post("/transactions/reject/:id", async (req, res) => {
 });
 
 // Get transaction by ID
-router.get("/transactions/:id", async (req, res) => {
+router.get("/transactions/:id", requireAuth, async (req, res) => {
   try {
     const { id } = req.params;
     logger.info("GET /transactions/:id", { id });
@@ -1546,6 +3029,14 @@ router.get("/transactions/:id", async (req, res) => {
       });
     }
 
+    if (!canActFor(res, transaction.walletAddress)) {
+      return res.status(403).json({
+        success: false,
+        error: "Transaction belongs to another wallet",
+        timestamp: Date.now(),
+      });
+    }
+
     const response: ApiResponse<typeof transaction> = {
       success: true,
       data: transaction,
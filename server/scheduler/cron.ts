@@ -0,0 +1,136 @@
+/**
+ * Cron Expressions
+ * Five-field cron (minute hour day-of-month month day-of-week) in server
+ * local time. Fields take `*`, numbers, ranges, lists and `/step`.
+ */
+
+import { ValidationError } from "../utils/errors";
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: with both day fields restricted, a day matching either runs
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 }, // 0 and 7 are both Sunday
+] as const;
+
+// Give up looking for a matching minute after this many days
+const SEARCH_LIMIT_DAYS = 5 * 366;
+
+function parseNumber(value: string, field: (typeof FIELDS)[number]): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value) || number < field.min || number > field.max) {
+    throw new ValidationError(
+      `Invalid ${field.name} "${value}" in cron expression`
+    );
+  }
+  return number;
+}
+
+function parseField(value: string, field: (typeof FIELDS)[number]) {
+  const values = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : parseNumber(stepText, field);
+    if (step === 0) {
+      throw new ValidationError(`Invalid ${field.name} step in cron expression`);
+    }
+
+    let start: number = field.min;
+    let end: number = field.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseNumber(from, field);
+      // "5/15" runs from 5 to the end of the field
+      if (to !== undefined) {
+        end = parseNumber(to, field);
+      } else if (stepText === undefined) {
+        end = start;
+      }
+    }
+    if (start > end) {
+      throw new ValidationError(`Invalid ${field.name} range "${range}"`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(field.name === "day of week" && n === 7 ? 0 : n);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new ValidationError(
+      `Cron expression must have ${FIELDS.length} fields: "${expression}"`
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) =>
+    parseField(part, FIELDS[index])
+  );
+  return {
+    expression,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== "*",
+    weekdaysRestricted: parts[4] !== "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+/**
+ * First minute strictly after `after` that the schedule matches
+ */
+export function nextCronRun(schedule: CronSchedule, after: number): number {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after + SEARCH_LIMIT_DAYS * 86400000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  throw new ValidationError(
+    `Cron expression never runs: "${schedule.expression}"`
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * Job Scheduler
+ * Named interval and cron jobs with persisted last/next run, overlap
+ * prevention, per-job run history and jittered backoff on RPC failures
+ */
+
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { RpcError, ValidationError } from "../utils/errors";
+import { nextCronRun, parseCron, type CronSchedule } from "./cron";
+import type {
+  JobDefinition,
+  JobRun,
+  JobRunSource,
+  JobState,
+  JobStatus,
+} from "./types";
+
+// Longest delay setTimeout takes; later runs are re-armed when it fires
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  cron?: CronSchedule;
+  timer: NodeJS.Timeout | null;
+}
+
+const TRANSIENT_RPC_ERROR =
+  /429|too many requests|rate limit|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed|50[234]/i;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Whether a failure looks like the RPC pushing back (rate limit, timeout,
+ * dropped connection) rather than a bug in the job
+ */
+export function isTransientRpcError(error: unknown): boolean {
+  return (
+    error instanceof RpcError || TRANSIENT_RPC_ERROR.test(errorMessage(error))
+  );
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, RegisteredJob>();
+  // By name, so a job re-registered mid-run still waits for that run
+  private running = new Set<string>();
+  private started = false;
+
+  /**
+   * Add a job, replacing any registered under the same name. A job that ran
+   * before a restart keeps its next run time unless its trigger now comes
+   * sooner.
+   */
+  register(definition: JobDefinition): void {
+    const { name, trigger } = definition;
+    if (trigger.type === "interval" && !(trigger.everyMs >= 1000)) {
+      throw new ValidationError(`Job ${name} needs an interval of at least 1s`);
+    }
+    const cron =
+      trigger.type === "cron" ? parseCron(trigger.expression) : undefined;
+
+    const existing = this.jobs.get(name);
+    if (existing?.timer) clearTimeout(existing.timer);
+    const job: RegisteredJob = { definition, cron, timer: null };
+    this.jobs.set(name, job);
+
+    const now = Date.now();
+    const state = this.getState(name);
+    const regular = this.nextRegularRun(job, now);
+    state.nextRunAt = definition.runOnStart
+      ? now
+      : Math.max(now, Math.min(state.nextRunAt ?? regular, regular));
+    storage.setJobState(state);
+
+    logger.debug("Job registered", {
+      name,
+      trigger,
+      nextRunAt: state.nextRunAt,
+    });
+    if (this.started) this.arm(job);
+  }
+
+  /**
+   * Remove a job. Its run history is kept for when it is registered again.
+   */
+  unregister(name: string): void {
+    const job = this.jobs.get(name);
+    if (!job) return;
+
+    if (job.timer) clearTimeout(job.timer);
+    this.jobs.delete(name);
+
+    const state = this.getState(name);
+    delete state.nextRunAt;
+    storage.setJobState(state);
+    logger.debug("Job unregistered", { name });
+  }
+
+  has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Names of registered jobs, optionally only those starting with a prefix
+   */
+  names(prefix = ""): string[] {
+    return Array.from(this.jobs.keys()).filter((name) =>
+      name.startsWith(prefix)
+    );
+  }
+
+  list(): JobStatus[] {
+    return this.names()
+      .sort()
+      .map((name) => this.status(name)!);
+  }
+
+  status(name: string): JobStatus | null {
+    const job = this.jobs.get(name);
+    if (!job) return null;
+    return {
+      ...this.getState(name),
+      description: job.definition.description,
+      trigger: job.definition.trigger,
+      running: this.running.has(name),
+    };
+  }
+
+  /**
+   * Run jobs from in-process timers. Without this (SCHEDULER_MODE=external)
+   * jobs only run when ticked through the API.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const job of this.jobs.values()) this.arm(job);
+    logger.info("Job scheduler started", { jobs: this.jobs.size });
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+    }
+    logger.info("Job scheduler stopped");
+  }
+
+  /**
+   * Run a job now if it is due (or always, with force) and wait for it
+   * @returns the job's status afterwards, or null if no such job
+   */
+  async tick(name: string, force = false): Promise<JobStatus | null> {
+    const job = this.jobs.get(name);
+    if (!job) return null;
+
+    const { nextRunAt } = this.getState(name);
+    if (force || (nextRunAt !== undefined && nextRunAt <= Date.now())) {
+      await this.run(job, "tick");
+    }
+    return this.status(name);
+  }
+
+  /**
+   * Run every due job, one after another to spare the RPC
+   */
+  async tickDue(): Promise<JobStatus[]> {
+    const ran: JobStatus[] = [];
+    for (const name of this.names()) {
+      const { nextRunAt } = this.getState(name);
+      if (nextRunAt === undefined || nextRunAt > Date.now()) continue;
+
+      const status = await this.tick(name);
+      if (status) ran.push(status);
+    }
+    return ran;
+  }
+
+  private async run(job: RegisteredJob, source: JobRunSource): Promise<void> {
+    const { name } = job.definition;
+    const startedAt = Date.now();
+
+    if (this.running.has(name)) {
+      logger.debug("Job still running, skipped", { name, source });
+      this.record(name, {
+        startedAt,
+        finishedAt: startedAt,
+        status: "skipped",
+        source,
+      });
+      return;
+    }
+
+    this.running.add(name);
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = null;
+
+    let failed = false;
+    let failure: unknown;
+    try {
+      await job.definition.run();
+    } catch (error) {
+      failed = true;
+      failure = error;
+    } finally {
+      this.running.delete(name);
+    }
+
+    const finishedAt = Date.now();
+    const error = failed ? errorMessage(failure) : undefined;
+    const state = this.record(name, {
+      startedAt,
+      finishedAt,
+      status: failed ? "failed" : "success",
+      source,
+      error,
+    });
+
+    state.lastRunAt = startedAt;
+    state.lastDurationMs = finishedAt - startedAt;
+    state.consecutiveFailures = failed ? state.consecutiveFailures + 1 : 0;
+
+    // A job unregistered while it ran stays unscheduled
+    if (this.jobs.get(name) === job) {
+      state.nextRunAt = this.nextRegularRun(job, startedAt, finishedAt);
+      if (failed && isTransientRpcError(failure)) {
+        state.nextRunAt = Math.max(
+          state.nextRunAt,
+          finishedAt + this.backoffDelay(state.consecutiveFailures)
+        );
+      }
+    }
+    storage.setJobState(state);
+
+    if (failed) {
+      logger.warn("Job failed", {
+        name,
+        error,
+        consecutiveFailures: state.consecutiveFailures,
+        nextRunAt: state.nextRunAt,
+      });
+    }
+    if (this.started && this.jobs.get(name) === job) this.arm(job);
+  }
+
+  // Adds a run to the job's history and updates its last status
+  private record(name: string, run: JobRun): JobState {
+    const state = this.getState(name);
+    state.history = [run, ...state.history].slice(
+      0,
+      config.scheduler.historyLimit
+    );
+    if (run.status !== "skipped") {
+      state.lastStatus = run.status;
+      state.lastError = run.error;
+    }
+    storage.setJobState(state);
+    return state;
+  }
+
+  private arm(job: RegisteredJob): void {
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = null;
+
+    const { nextRunAt } = this.getState(job.definition.name);
+    if (nextRunAt === undefined) return;
+
+    const delay = Math.max(0, nextRunAt - Date.now());
+    job.timer = setTimeout(
+      () => {
+        job.timer = null;
+        if (delay > MAX_TIMER_DELAY) return this.arm(job);
+        this.run(job, "schedule").catch((error) => {
+          logger.error("Job scheduler error", {
+            name: job.definition.name,
+            error: errorMessage(error),
+          });
+        });
+      },
+      Math.min(delay, MAX_TIMER_DELAY)
+    );
+  }
+
+  // Intervals count from the start of the last run, but never fire before
+  // the run has finished
+  private nextRegularRun(
+    job: RegisteredJob,
+    from: number,
+    notBefore: number = from
+  ): number {
+    if (job.cron) return nextCronRun(job.cron, notBefore);
+    const { trigger } = job.definition;
+    const everyMs = trigger.type === "interval" ? trigger.everyMs : 0;
+    return Math.max(from + everyMs, notBefore);
+  }
+
+  // Exponential in the failure count, with full jitter over its upper half
+  private backoffDelay(failures: number): number {
+    const { baseMs, maxMs } = config.scheduler.backoff;
+    const delay = Math.min(maxMs, baseMs * 2 ** Math.max(0, failures - 1));
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private getState(name: string): JobState {
+    return (
+      storage.getJobState(name) || {
+        name,
+        consecutiveFailures: 0,
+        history: [],
+      }
+    );
+  }
+}
+
+export const scheduler = new JobScheduler();
+
+export type {
+  JobDefinition,
+  JobRun,
+  JobRunSource,
+  JobRunStatus,
+  JobState,
+  JobStatus,
+  JobTrigger,
+} from "./types";
+export { parseCron, nextCronRun } from "./cron";
@@ -0,0 +1,46 @@
+/**
+ * Job Scheduler Types
+ * Job definitions and the run state persisted for each job
+ */
+
+export type JobTrigger =
+  | { type: "interval"; everyMs: number }
+  | { type: "cron"; expression: string };
+
+export interface JobDefinition {
+  name: string; // unique, e.g. "positions:<wallet>"
+  description?: string;
+  trigger: JobTrigger;
+  run: () => Promise<void> | void;
+  runOnStart?: boolean; // run as soon as registered instead of one period later
+}
+
+export type JobRunStatus = "success" | "failed" | "skipped";
+
+// "schedule" runs come from the in-process timers, "tick" runs from the API
+export type JobRunSource = "schedule" | "tick";
+
+export interface JobRun {
+  startedAt: number;
+  finishedAt: number;
+  status: JobRunStatus;
+  source: JobRunSource;
+  error?: string;
+}
+
+export interface JobState {
+  name: string;
+  lastRunAt?: number;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  lastDurationMs?: number;
+  nextRunAt?: number;
+  consecutiveFailures: number;
+  history: JobRun[]; // most recent first
+}
+
+export interface JobStatus extends JobState {
+  description?: string;
+  trigger: JobTrigger;
+  running: boolean;
+}
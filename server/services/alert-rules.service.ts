@@ -0,0 +1,314 @@
+/**
+ * Alert Rules
+ * User-defined conditions on positions, pools and queued transactions,
+ * checked after every position reload, with severities and per-rule cooldowns
+ */
+
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import { alertValuation } from "../oracle";
+import { wsServer } from "./websocket-server";
+import { telegramBot } from "./telegram-bot";
+import { volatilityTracker } from "./volatility-tracker";
+import { transactionQueueService } from "./transaction-queue.service";
+import {
+  AlertRuleInputSchema,
+  AlertRuleUpdateSchema,
+  type Alert,
+  type AlertRule,
+  type AlertRuleMetric,
+  type PositionData,
+} from "../../shared/schema";
+
+// A metric's value for one position or queued transaction
+interface Observation {
+  subject: string; // position address or transaction id
+  positionAddress: string;
+  value: number;
+  positionData?: PositionData;
+}
+
+const MAX_RULES_PER_WALLET = 50;
+
+const METRICS: Record<
+  AlertRuleMetric,
+  { label: string; format: (value: number) => string }
+> = {
+  price_distance: {
+    label: "Price distance",
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  pool_volatility: {
+    label: "Pool volatility",
+    format: (value) => `${value.toFixed(1)}% annualized`,
+  },
+  fees_accrued: {
+    label: "Unclaimed fees",
+    format: (value) => `$${value.toFixed(2)}`,
+  },
+  impermanent_loss: {
+    label: "Impermanent loss",
+    format: (value) => `${value.toFixed(2)}%`,
+  },
+  pending_tx_age: {
+    label: "Awaiting approval for",
+    format: (value) => `${Math.floor(value)} min`,
+  },
+};
+
+const ALERT_TYPES: Record<AlertRule["severity"], Alert["type"]> = {
+  info: "info",
+  warning: "warning",
+  critical: "error",
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class AlertRuleService {
+  list(wallet?: string): AlertRule[] {
+    return Object.values(storage.getAlertRules())
+      .filter((rule) => !wallet || rule.wallet === wallet)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): AlertRule | undefined {
+    return storage.getAlertRule(id);
+  }
+
+  create(wallet: string, input: unknown): AlertRule {
+    const parsed = AlertRuleInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid alert rule", {
+        issues: parsed.error.issues,
+      });
+    }
+    if (this.list(wallet).length >= MAX_RULES_PER_WALLET) {
+      throw new ValidationError(
+        `A wallet can have at most ${MAX_RULES_PER_WALLET} alert rules`
+      );
+    }
+    this.checkScope(wallet, parsed.data.positionAddress);
+
+    const now = Date.now();
+    const rule: AlertRule = {
+      ...parsed.data,
+      id: `rule_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      wallet,
+      lastTriggered: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    storage.setAlertRule(rule);
+    logger.info("Alert rule created", {
+      id: rule.id,
+      wallet,
+      metric: rule.metric,
+    });
+    return rule;
+  }
+
+  update(id: string, changes: unknown): AlertRule {
+    const current = storage.getAlertRule(id);
+    if (!current) throw new ValidationError(`Alert rule not found: ${id}`);
+
+    const parsed = AlertRuleUpdateSchema.safeParse(changes);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid alert rule", {
+        issues: parsed.error.issues,
+      });
+    }
+    this.checkScope(current.wallet, parsed.data.positionAddress);
+
+    const rule: AlertRule = {
+      ...current,
+      ...parsed.data,
+      // A changed condition starts its cooldowns over
+      lastTriggered: {},
+      updatedAt: Date.now(),
+    };
+    storage.setAlertRule(rule);
+    logger.info("Alert rule updated", { id });
+    return rule;
+  }
+
+  remove(id: string): void {
+    storage.removeAlertRule(id);
+    logger.info("Alert rule removed", { id });
+  }
+
+  /**
+   * Check a wallet's enabled rules against its freshly loaded positions and
+   * pending transactions, alerting on every match out of cooldown
+   */
+  async evaluate(wallet: string, positions: PositionData[]): Promise<Alert[]> {
+    const alerts: Alert[] = [];
+    const volatility = new Map<string, number>();
+
+    for (const rule of this.list(wallet)) {
+      if (!rule.enabled) continue;
+
+      try {
+        const now = Date.now();
+        const lastTriggered = { ...rule.lastTriggered };
+        let triggered = false;
+
+        for (const observation of this.observe(rule, positions, volatility)) {
+          if (!this.matches(rule, observation.value)) continue;
+          const last = lastTriggered[observation.subject];
+          if (last !== undefined && now - last < rule.cooldownMs) continue;
+
+          alerts.push(await this.emit(rule, observation));
+          lastTriggered[observation.subject] = now;
+          triggered = true;
+        }
+
+        if (triggered) this.saveTriggers(rule.id, lastTriggered, now);
+      } catch (error) {
+        logger.error("Failed to evaluate alert rule", {
+          id: rule.id,
+          error: errorMessage(error),
+        });
+      }
+    }
+    return alerts;
+  }
+
+  // A position must belong to the rule's wallet; unknown ones may load later
+  private checkScope(wallet: string, positionAddress?: string): void {
+    if (!positionAddress) return;
+    const owner = storage.getPosition(positionAddress)?.position.owner;
+    if (owner && owner !== wallet) {
+      throw new ValidationError("Position belongs to another wallet");
+    }
+  }
+
+  private observe(
+    rule: AlertRule,
+    positions: PositionData[],
+    volatility: Map<string, number>
+  ): Observation[] {
+    if (rule.metric === "pending_tx_age") {
+      return transactionQueueService
+        .getPendingTransactions(rule.wallet)
+        .filter(
+          (tx) =>
+            (!rule.positionAddress ||
+              tx.positionAddress === rule.positionAddress) &&
+            (!rule.poolAddress || tx.metadata.poolAddress === rule.poolAddress)
+        )
+        .map((tx) => ({
+          subject: tx.id,
+          positionAddress: tx.positionAddress,
+          value: (Date.now() - tx.createdAt) / 60000,
+          positionData: storage.getPosition(tx.positionAddress),
+        }));
+    }
+
+    const observations: Observation[] = [];
+    for (const positionData of positions) {
+      const { position, pool } = positionData;
+      if (rule.positionAddress && position.address !== rule.positionAddress) {
+        continue;
+      }
+      if (rule.poolAddress && pool.address !== rule.poolAddress) continue;
+
+      let value: number;
+      switch (rule.metric) {
+        case "price_distance":
+          value = positionData.riskMetrics.priceDistance * 100;
+          break;
+        case "pool_volatility":
+          if (!volatility.has(pool.address)) {
+            volatility.set(
+              pool.address,
+              volatilityTracker.calculateVolatility(pool.address)
+            );
+          }
+          value = volatility.get(pool.address)!;
+          // No price history yet
+          if (value === 0) continue;
+          break;
+        case "fees_accrued":
+          value = positionData.feesEarned.total;
+          break;
+        case "impermanent_loss":
+          value = positionData.performance.impermanentLoss;
+          break;
+      }
+
+      observations.push({
+        subject: position.address,
+        positionAddress: position.address,
+        value,
+        positionData,
+      });
+    }
+    return observations;
+  }
+
+  private matches(rule: AlertRule, value: number): boolean {
+    switch (rule.operator) {
+      case "<":
+        return value < rule.threshold;
+      case "<=":
+        return value <= rule.threshold;
+      case ">":
+        return value > rule.threshold;
+      case ">=":
+        return value >= rule.threshold;
+    }
+  }
+
+  private async emit(
+    rule: AlertRule,
+    observation: Observation
+  ): Promise<Alert> {
+    const metric = METRICS[rule.metric];
+    const alert: Alert = {
+      id: `rule_alert_${Date.now()}_${rule.id}_${observation.subject}`,
+      type: ALERT_TYPES[rule.severity],
+      title: rule.name,
+      message: `Position ${observation.positionAddress.slice(0, 8)}...: ${metric.label.toLowerCase()} ${metric.format(observation.value)} (rule: ${rule.operator} ${metric.format(rule.threshold)})`,
+      positionAddress: observation.positionAddress,
+      ...alertValuation(observation.positionData),
+      timestamp: Date.now(),
+      read: false,
+    };
+
+    storage.addAlert(alert);
+    wsServer.broadcast({ type: "alert", data: alert });
+    await telegramBot.sendAlert(alert);
+
+    logger.info("Alert rule triggered", {
+      id: rule.id,
+      subject: observation.subject,
+      value: observation.value,
+    });
+    return alert;
+  }
+
+  // Written against the stored rule, which may have changed mid-evaluation;
+  // cooldowns that have run out are dropped
+  private saveTriggers(
+    id: string,
+    lastTriggered: Record<string, number>,
+    now: number
+  ): void {
+    const rule = storage.getAlertRule(id);
+    if (!rule) return;
+
+    storage.setAlertRule({
+      ...rule,
+      lastTriggered: Object.fromEntries(
+        Object.entries(lastTriggered).filter(
+          ([, at]) => now - at < rule.cooldownMs
+        )
+      ),
+    });
+  }
+}
+
+export const alertRules = new AlertRuleService();
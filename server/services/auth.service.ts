@@ -0,0 +1,159 @@
+/**
+ * Auth Service
+ * Sign-In-With-Solana: the wallet signs a one-time server nonce, the ed25519
+ * signature is verified and a bearer session token is issued
+ */
+
+import crypto from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { AuthenticationError, ValidationError } from "../utils/errors";
+import type { AuthNonce, AuthSession } from "../types";
+
+interface PendingNonce {
+  wallet: string;
+  message: string;
+  expiresAt: number;
+}
+
+function parseWallet(wallet: unknown): PublicKey {
+  if (typeof wallet !== "string" || !wallet) {
+    throw new ValidationError("Wallet address is required");
+  }
+  try {
+    return new PublicKey(wallet);
+  } catch {
+    throw new ValidationError("Invalid wallet address", { wallet });
+  }
+}
+
+// Only the hash is stored, so a leaked storage file does not leak sessions
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export class AuthService {
+  private nonces = new Map<string, PendingNonce>();
+
+  /**
+   * Create a one-time nonce and the sign-in message the wallet must sign
+   */
+  issueNonce(wallet: unknown): AuthNonce {
+    const publicKey = parseWallet(wallet);
+    this.pruneNonces();
+
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const issuedAt = Date.now();
+    const expiresAt = issuedAt + config.auth.nonceTtlMs;
+    const message = [
+      `${config.auth.domain} wants you to sign in with your Solana account:`,
+      publicKey.toBase58(),
+      "",
+      "Sign in to LiquidFlow DLMM Manager",
+      "",
+      `Nonce: ${nonce}`,
+      `Issued At: ${new Date(issuedAt).toISOString()}`,
+      `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+    ].join("\n");
+
+    this.nonces.set(nonce, {
+      wallet: publicKey.toBase58(),
+      message,
+      expiresAt,
+    });
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Check the wallet's signature over a nonce's message and start a session
+   * @param signature - base64 ed25519 signature of the message bytes
+   * @returns the bearer token (shown once) and its session
+   */
+  verify(
+    wallet: unknown,
+    nonce: unknown,
+    signature: unknown
+  ): { token: string; session: AuthSession } {
+    const publicKey = parseWallet(wallet);
+    if (typeof nonce !== "string" || typeof signature !== "string") {
+      throw new ValidationError("Nonce and signature are required");
+    }
+
+    // Nonces are single use, whether or not the signature checks out
+    const pending = this.nonces.get(nonce);
+    this.nonces.delete(nonce);
+    if (!pending || pending.expiresAt < Date.now()) {
+      throw new AuthenticationError("Sign-in nonce is unknown or expired");
+    }
+    if (pending.wallet !== publicKey.toBase58()) {
+      throw new AuthenticationError("Nonce was issued to a different wallet");
+    }
+    if (!this.verifySignature(publicKey, pending.message, signature)) {
+      logger.warn("Rejected sign-in with invalid signature", {
+        wallet: pending.wallet,
+      });
+      throw new AuthenticationError("Invalid signature");
+    }
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    const now = Date.now();
+    const session: AuthSession = {
+      wallet: pending.wallet,
+      createdAt: now,
+      expiresAt: now + config.auth.sessionTtlMs,
+    };
+    storage.setAuthSession(hashToken(token), session);
+    logger.info("Wallet signed in", { wallet: session.wallet });
+    return { token, session };
+  }
+
+  getSession(token: string): AuthSession | null {
+    const session = storage.getAuthSession(hashToken(token));
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+      storage.removeAuthSession(hashToken(token));
+      return null;
+    }
+    return session;
+  }
+
+  revoke(token: string): void {
+    storage.removeAuthSession(hashToken(token));
+  }
+
+  private verifySignature(
+    publicKey: PublicKey,
+    message: string,
+    signature: string
+  ): boolean {
+    try {
+      const key = crypto.createPublicKey({
+        key: {
+          kty: "OKP",
+          crv: "Ed25519",
+          x: Buffer.from(publicKey.toBytes()).toString("base64url"),
+        },
+        format: "jwk",
+      });
+      return crypto.verify(
+        null,
+        Buffer.from(message, "utf8"),
+        key,
+        Buffer.from(signature, "base64")
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private pruneNonces(): void {
+    const now = Date.now();
+    for (const [nonce, pending] of this.nonces) {
+      if (pending.expiresAt < now) this.nonces.delete(nonce);
+    }
+  }
+}
+
+export const authService = new AuthService();
@@ -3,7 +3,7 @@
  * Handles scheduled automated tasks like rebalancing and monitoring
  */
 
-import { PublicKey, Keypair, Transaction } from "@solana/web3.js";
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { config } from "../config";
 import { logger } from "../utils/logger";
 import {
@@ -14,25 +14,22 @@ import {
 } from "../types";
 import { ValidationError } from "../utils/errors";
 import { RebalanceService } from "./rebalance.service";
-import { StopLossService } from "./stoploss.service";
+import { stopLossManager } from "./stop-loss-manager";
 import { DLMMService } from "./dlmm.service";
 import { transactionQueueService } from "./transaction-queue.service";
 import { telegramBot } from "./telegram-bot";
 import storage from "../storage";
+import { scheduler } from "../scheduler";
 
 export class AutomationService {
   private rebalanceService: RebalanceService;
-  private stopLossService: StopLossService;
   private dlmmService: DLMMService;
   private jobs: Map<string, AutomationJob>;
-  private intervals: Map<string, NodeJS.Timeout>;
 
   constructor() {
     this.rebalanceService = new RebalanceService();
-    this.stopLossService = new StopLossService();
     this.dlmmService = new DLMMService();
     this.jobs = new Map();
-    this.intervals = new Map();
     logger.info("Automation Service initialized");
   }
 
@@ -113,10 +110,7 @@ export class AutomationService {
   /**
    * Execute a job manually
    */
-  async executeJob(
-    jobId: string,
-    signerKeypair: Keypair
-  ): Promise<ApiResponse<AutomationResult>> {
+  async executeJob(jobId: string): Promise<ApiResponse<AutomationResult>> {
     try {
       logger.info("Executing automation job", { id: jobId });
 
@@ -125,7 +119,7 @@ export class AutomationService {
         throw new ValidationError(`Job not found: ${jobId}`);
       }
 
-      const result = await this.runJob(job, signerKeypair);
+      const result = await this.runJob(job);
 
       // Update last run time
       job.lastRun = Date.now();
@@ -150,9 +144,6 @@ export class AutomationService {
    * Schedule a job for automatic execution
    */
   private async scheduleJob(job: AutomationJob): Promise<void> {
-    // Cancel existing interval if any
-    this.cancelJob(job.id);
-
     let intervalMs: number;
 
     switch (job.type) {
@@ -173,8 +164,12 @@ export class AutomationService {
       intervalMs,
     });
 
-    const interval = setInterval(async () => {
-      try {
+    // Re-registering replaces any existing schedule for the job
+    scheduler.register({
+      name: `automation:${job.id}`,
+      description: `Automation ${job.type} check`,
+      trigger: { type: "interval", everyMs: intervalMs },
+      run: async () => {
         logger.debug("Auto-checking job", { id: job.id });
 
         // Check if action is needed and queue transaction for approval
@@ -183,15 +178,8 @@ export class AutomationService {
         job.lastRun = Date.now();
         job.nextRun = Date.now() + intervalMs;
         this.jobs.set(job.id, job);
-      } catch (error: any) {
-        logger.error("Error in scheduled job check", {
-          id: job.id,
-          error: error.message,
-        });
-      }
-    }, intervalMs);
-
-    this.intervals.set(job.id, interval);
+      },
+    });
 
     // Set next run time
     job.nextRun = Date.now() + intervalMs;
@@ -202,21 +190,16 @@ export class AutomationService {
    * Cancel a scheduled job
    */
   private cancelJob(jobId: string): void {
-    const interval = this.intervals.get(jobId);
-    if (interval) {
-      clearInterval(interval);
-      this.intervals.delete(jobId);
-      logger.debug("Cancelled job interval", { id: jobId });
+    if (scheduler.has(`automation:${jobId}`)) {
+      scheduler.unregister(`automation:${jobId}`);
+      logger.debug("Cancelled job schedule", { id: jobId });
     }
   }
 
   /**
    * Run a job based on its type
    */
-  private async runJob(
-    job: AutomationJob,
-    signerKeypair: Keypair
-  ): Promise<AutomationResult> {
+  private async runJob(job: AutomationJob): Promise<AutomationResult> {
     const startTime = Date.now();
 
     try {
@@ -241,11 +224,11 @@ export class AutomationService {
 
         case "stop-loss":
           action = "stop-loss-check";
-          const stopLossResult = await this.stopLossService.checkStopLoss(
-            job.positionKey.toString(),
-            signerKeypair
-          );
-          details = stopLossResult.data || {};
+          details = {
+            triggered: await stopLossManager.checkStopLoss(
+              job.positionKey.toString()
+            ),
+          };
           break;
 
         case "monitor":
@@ -428,12 +411,12 @@ export class AutomationService {
         return;
       }
 
-      // Deserialize the base64 transaction string to Transaction object
+      // Deserialize the base64 transaction string to a VersionedTransaction
       const transactionBuffer = Buffer.from(
         unsignedTx.data.transaction,
         "base64"
       );
-      const transaction = Transaction.from(transactionBuffer);
+      const transaction = VersionedTransaction.deserialize(transactionBuffer);
 
       // Queue the transaction for user approval
       const queuedTransaction = await transactionQueueService.queueTransaction(
@@ -450,6 +433,15 @@ export class AutomationService {
           newRange: unsignedTx.data.newRange,
           reason: unsignedTx.data.reason || "Position out of range",
           estimatedValue: positionData.currentValue,
+          swap: unsignedTx.data.swap,
+        },
+        {
+          range: unsignedTx.data.newRange,
+          amountX: positionData.position.liquidityX,
+          amountY: positionData.position.liquidityY,
+          swapToRatio: true,
+          slippageBps: rebalanceParams.slippageBps,
+          withdrawOld: true,
         }
       );
 
@@ -479,8 +471,9 @@ export class AutomationService {
   private async checkStopLossAndQueue(job: AutomationJob): Promise<void> {
     const positionAddress = job.positionKey.toString();
 
-    // TODO: Check stop loss condition and queue transaction if triggered
+    // The stop-loss engine queues the withdrawal itself
     logger.debug("Checking stop loss", { positionAddress });
+    await stopLossManager.checkStopLoss(positionAddress);
   }
 
   /**
@@ -489,12 +482,11 @@ export class AutomationService {
   cleanup(): void {
     logger.info("Cleaning up automation service");
 
-    for (const jobId of this.intervals.keys()) {
+    for (const jobId of this.jobs.keys()) {
       this.cancelJob(jobId);
     }
 
     this.jobs.clear();
-    this.intervals.clear();
 
     logger.info("Automation service cleaned up");
   }
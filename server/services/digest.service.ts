@@ -0,0 +1,232 @@
+/**
+ * Digest Service
+ * Daily and weekly portfolio digests per wallet: value and its change, fees,
+ * range coverage, rebalances, pending approvals and the best and worst
+ * positions. Scheduled digests are archived and sent over Telegram.
+ */
+
+import storage from "../storage";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import { scheduler } from "../scheduler";
+import { telegramBot } from "./telegram-bot";
+import { transactionQueueService } from "./transaction-queue.service";
+import type { PositionData } from "../../shared/schema";
+import type {
+  DigestPeriod,
+  DigestPosition,
+  PortfolioDigest,
+  ValueChange,
+} from "../types";
+
+const DAY_MS = 86400000;
+
+const PERIOD_MS: Record<DigestPeriod, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// How far an archived digest may be from the exact day / week back
+const BASELINE_TOLERANCE_MS = 3 * 3600000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toDigestPosition(positionData: PositionData): DigestPosition {
+  return {
+    positionAddress: positionData.position.address,
+    poolAddress: positionData.pool.address,
+    valueUsd: positionData.currentValue,
+    totalReturn: positionData.performance.totalReturn,
+    inRange: positionData.riskMetrics.isInRange,
+  };
+}
+
+export class DigestService {
+  /**
+   * Digest of a wallet as of now, without archiving it
+   */
+  build(
+    wallet: string,
+    period: DigestPeriod = "daily",
+    now: number = Date.now()
+  ): PortfolioDigest {
+    const since = now - PERIOD_MS[period];
+    const positions = storage.getUserPositions(wallet);
+    const addresses = new Set(positions.map((p) => p.position.address));
+
+    const totalValue = positions.reduce((sum, p) => sum + p.currentValue, 0);
+    const inRange = positions.filter((p) => p.riskMetrics.isInRange).length;
+
+    const earned = storage
+      .getLedgerEntries({ owner: wallet })
+      .filter(
+        (entry) =>
+          (entry.type === "fee_claim" || entry.type === "compound") &&
+          entry.timestamp >= since
+      )
+      .reduce((sum, entry) => sum + entry.valueUsd, 0);
+
+    // Rebalanced positions are replaced, so match closed ones through the
+    // ledger too
+    const rebalances = storage
+      .getRebalanceEvents()
+      .filter(
+        (event) =>
+          event.status === "success" &&
+          event.timestamp >= since &&
+          (addresses.has(event.positionAddress) ||
+            storage.getLedgerEntries({
+              positionAddress: event.positionAddress,
+            })[0]?.owner === wallet)
+      ).length;
+
+    // Best first; the bottom list only takes positions not already on top
+    const ranked = [...positions].sort(
+      (a, b) => b.performance.totalReturn - a.performance.totalReturn
+    );
+    const top = ranked.slice(0, config.digest.topPositions);
+    const bottom = ranked
+      .slice(top.length)
+      .slice(-config.digest.topPositions)
+      .reverse();
+
+    return {
+      id: `digest_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      wallet,
+      period,
+      generatedAt: now,
+      valuedAt: Math.min(
+        now,
+        ...positions.map((p) => p.valuation?.updatedAt ?? now)
+      ),
+      totalValue,
+      change24h: this.change(wallet, totalValue, now - DAY_MS),
+      change7d: this.change(wallet, totalValue, now - 7 * DAY_MS),
+      fees: {
+        earned,
+        unclaimed: positions.reduce((sum, p) => sum + p.feesEarned.total, 0),
+      },
+      positions: positions.length,
+      inRange,
+      inRangeRatio: positions.length > 0 ? inRange / positions.length : 0,
+      rebalances,
+      pendingApprovals:
+        transactionQueueService.getPendingTransactions(wallet).length,
+      topPositions: top.map(toDigestPosition),
+      bottomPositions: bottom.map(toDigestPosition),
+    };
+  }
+
+  /**
+   * Archived digests of a wallet, newest first
+   */
+  getHistory(
+    wallet: string,
+    options: { period?: DigestPeriod; limit?: number } = {}
+  ): PortfolioDigest[] {
+    const history = storage
+      .getDigests({ wallet, period: options.period })
+      .sort((a, b) => b.generatedAt - a.generatedAt);
+    return options.limit ? history.slice(0, options.limit) : history;
+  }
+
+  /**
+   * Build, archive and send a digest for every wallet with a profile and
+   * something to report
+   */
+  async generateAll(period: DigestPeriod): Promise<PortfolioDigest[]> {
+    const now = Date.now();
+    const retainSince = now - config.digest.retentionDays * DAY_MS;
+    const digests: PortfolioDigest[] = [];
+
+    for (const wallet of Object.keys(storage.getWalletProfiles())) {
+      try {
+        const digest = this.build(wallet, period, now);
+        if (digest.positions === 0 && digest.pendingApprovals === 0) continue;
+
+        storage.addDigest(digest, retainSince);
+        await telegramBot.sendDigest(digest);
+        digests.push(digest);
+      } catch (error) {
+        logger.error("Failed to generate digest", {
+          wallet,
+          period,
+          error: errorMessage(error),
+        });
+      }
+    }
+
+    logger.info("Digests generated", { period, count: digests.length });
+    return digests;
+  }
+
+  /**
+   * Schedule the daily and weekly digests at the configured local time
+   */
+  start() {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(config.digest.time);
+    if (!match) {
+      throw new ValidationError(
+        `DIGEST_TIME must be HH:MM, got "${config.digest.time}"`
+      );
+    }
+    const [, hour, minute] = match;
+    const at = `${Number(minute)} ${Number(hour)}`;
+
+    scheduler.register({
+      name: "digest-daily",
+      description: "Send each wallet's daily portfolio digest",
+      trigger: { type: "cron", expression: `${at} * * *` },
+      run: async () => {
+        await this.generateAll("daily");
+      },
+    });
+
+    scheduler.register({
+      name: "digest-weekly",
+      description: "Send each wallet's weekly portfolio digest",
+      trigger: {
+        type: "cron",
+        expression: `${at} * * ${config.digest.weeklyDay}`,
+      },
+      run: async () => {
+        await this.generateAll("weekly");
+      },
+    });
+
+    logger.info("Portfolio digests scheduled", {
+      time: config.digest.time,
+      weeklyDay: config.digest.weeklyDay,
+    });
+  }
+
+  // Change against the archived digest closest to `at`, within tolerance
+  private change(
+    wallet: string,
+    totalValue: number,
+    at: number
+  ): ValueChange | null {
+    let baseline: PortfolioDigest | undefined;
+    for (const digest of storage.getDigests({ wallet })) {
+      const distance = Math.abs(digest.generatedAt - at);
+      if (distance > BASELINE_TOLERANCE_MS) continue;
+      if (!baseline || distance < Math.abs(baseline.generatedAt - at)) {
+        baseline = digest;
+      }
+    }
+    if (!baseline) return null;
+
+    const valueUsd = totalValue - baseline.totalValue;
+    return {
+      valueUsd,
+      percent:
+        baseline.totalValue > 0 ? (valueUsd / baseline.totalValue) * 100 : 0,
+      since: baseline.generatedAt,
+    };
+  }
+}
+
+export const digestService = new DigestService();
@@ -1,19 +1,52 @@
 import { PublicKey, Keypair } from "@solana/web3.js";
-import { dlmmClient } from "../solana/dlmm-client";
+import {
+  dlmmClient,
+  type RebalanceInstructions,
+} from "../solana/dlmm-client";
+import { getConnection } from "../solana/connection";
+import { packTransactions } from "../solana/transaction-builder";
+import { config } from "../config";
 import storage from "../storage";
-import { volatilityTracker } from "./volatility-tracker";
 import { telegramBot } from "./telegram-bot";
+import { rebalanceStrategyService } from "./rebalance-strategy.service";
+import { scheduler } from "../scheduler";
+import { logger } from "../utils/logger";
 import type { RebalanceEvent, RebalanceParams } from "../../shared/schema";
 
 interface BatchedRebalance {
   positionAddress: string;
+  owner: string;
   params: RebalanceParams;
   priority: number;
 }
 
+export interface BatchPositionResult {
+  positionAddress: string;
+  status: "success" | "failed";
+  signature?: string;
+  transactionIndex?: number; // which of the batch's transactions carried it
+  error?: string;
+}
+
+export interface BatchRebalanceResult {
+  executedAt: number;
+  positions: BatchPositionResult[];
+  transactions: number;
+  // Fees of the rebalances that landed, against sending each on its own
+  fees: {
+    batchedLamports: number;
+    individualLamports: number; // estimate
+    savedLamports: number;
+  };
+}
+
+// Base fee the network charges per signature
+const LAMPORTS_PER_SIGNATURE = 5000;
+
 export class EcoRebalancer {
   private batchQueue: BatchedRebalance[] = [];
-  private batchInterval: NodeJS.Timeout | null = null;
+  private lastBatch: BatchRebalanceResult | null = null;
+  // One batch schedule per owner wallet
   private readonly BATCH_INTERVAL = 3600000; // 1 hour
   private readonly MAX_BATCH_SIZE = 5;
   private readonly MIN_PRIORITY_THRESHOLD = 50;
@@ -58,6 +91,8 @@ export class EcoRebalancer {
       return false;
     }
 
+    const owner = storage.getPosition(positionAddress)?.position.owner || "";
+
     // Check if already queued
     const existingIndex = this.batchQueue.findIndex(
       (item) => item.positionAddress === positionAddress
@@ -66,10 +101,15 @@ export class EcoRebalancer {
     if (existingIndex >= 0) {
       // Update existing entry if new priority is higher
       if (priority > this.batchQueue[existingIndex].priority) {
-        this.batchQueue[existingIndex] = { positionAddress, params, priority };
+        this.batchQueue[existingIndex] = {
+          positionAddress,
+          owner,
+          params,
+          priority,
+        };
       }
     } else {
-      this.batchQueue.push({ positionAddress, params, priority });
+      this.batchQueue.push({ positionAddress, owner, params, priority });
     }
 
     // Sort by priority (highest first)
@@ -82,51 +122,86 @@ export class EcoRebalancer {
   }
 
   /**
-   * Execute batched rebalances
+   * Execute batched rebalances, packed into as few transactions as fit.
+   * Each transaction lands or fails as a whole; positions in one that fails
+   * are reported failed without affecting the rest of the batch.
    */
-  async executeBatch(owner: Keypair): Promise<RebalanceEvent[]> {
-    if (this.batchQueue.length === 0) {
+  async executeBatch(owner: Keypair): Promise<BatchRebalanceResult> {
+    const wallet = owner.publicKey.toString();
+    const queued = this.batchQueue.filter((item) => item.owner === wallet);
+    const result: BatchRebalanceResult = {
+      executedAt: Date.now(),
+      positions: [],
+      transactions: 0,
+      fees: { batchedLamports: 0, individualLamports: 0, savedLamports: 0 },
+    };
+    if (queued.length === 0) {
       console.log("No rebalances in queue");
-      return [];
+      return result;
     }
 
-    // Take top N positions by priority
-    const batch = this.batchQueue.splice(0, this.MAX_BATCH_SIZE);
-    const events: RebalanceEvent[] = [];
+    // Take the owner's top N positions by priority
+    const batch = queued.slice(0, this.MAX_BATCH_SIZE);
+    this.batchQueue = this.batchQueue.filter((item) => !batch.includes(item));
+
+    // Rebalances in the same pool share most accounts; keep them together
+    const poolOf = (item: BatchedRebalance) =>
+      storage.getPosition(item.positionAddress)?.pool.address || "";
+    batch.sort((a, b) => poolOf(a).localeCompare(poolOf(b)));
 
     console.log(`Executing batch of ${batch.length} rebalances`);
 
+    const prepared: {
+      event: RebalanceEvent;
+      rebalance: RebalanceInstructions;
+    }[] = [];
     for (const item of batch) {
       try {
-        const event = await this.executeRebalance(item.params, owner);
-        events.push(event);
+        prepared.push(await this.prepareRebalance(item.params, owner));
       } catch (error) {
         console.error(`Failed to rebalance ${item.positionAddress}:`, error);
+        result.positions.push({
+          positionAddress: item.positionAddress,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
     }
 
-    // Add batch completion alert
+    if (prepared.length > 0) {
+      await this.sendPacked(prepared, owner, result);
+    }
+
+    this.lastBatch = result;
+
+    const succeeded = result.positions.filter(
+      (position) => position.status === "success"
+    ).length;
+    const savedSol = result.fees.savedLamports / 1e9;
     const batchAlert = {
       id: `alert_${Date.now()}`,
-      type: "info" as const,
+      type:
+        succeeded === result.positions.length
+          ? ("info" as const)
+          : ("warning" as const),
       title: "Batch Rebalance Completed",
-      message: `Processed ${events.length} positions in eco-mode`,
+      message: `Rebalanced ${succeeded}/${result.positions.length} positions in ${result.transactions} transaction(s), saving ~${savedSol.toFixed(6)} SOL in fees`,
       timestamp: Date.now(),
       read: false,
     };
     storage.addAlert(batchAlert);
     await telegramBot.sendAlert(batchAlert);
 
-    return events;
+    return result;
   }
 
   /**
-   * Execute single rebalance (similar to regular rebalancer but optimized)
+   * Instructions and a pending event for one rebalance
    */
-  private async executeRebalance(
+  private async prepareRebalance(
     params: RebalanceParams,
     owner: Keypair
-  ): Promise<RebalanceEvent> {
+  ): Promise<{ event: RebalanceEvent; rebalance: RebalanceInstructions }> {
     const positionData = storage.getPosition(params.positionAddress);
     if (!positionData) {
       throw new Error("Position not found");
@@ -150,19 +225,14 @@ export class EcoRebalancer {
     };
 
     try {
-      // Use rebalancePosition which properly handles the transaction preparation
-      const result = await dlmmClient.rebalancePosition(
+      const rebalance = await dlmmClient.prepareRebalanceInstructions(
         positionData.position,
         params.newLowerBinId,
         params.newUpperBinId,
         owner.publicKey
       );
-
-      event.signature = result.positionMint;
-      event.status = "success";
-      storage.addRebalanceEvent(event);
-
-      return event;
+      event.newRange = rebalance.newRange;
+      return { event, rebalance };
     } catch (error) {
       event.status = "failed";
       storage.addRebalanceEvent(event);
@@ -170,6 +240,104 @@ export class EcoRebalancer {
     }
   }
 
+  /**
+   * Pack the prepared rebalances, send each transaction and record how every
+   * position fared, with fees against one transaction per position
+   */
+  private async sendPacked(
+    prepared: { event: RebalanceEvent; rebalance: RebalanceInstructions }[],
+    owner: Keypair,
+    result: BatchRebalanceResult
+  ): Promise<void> {
+    const connection = getConnection();
+    const { margin, max } = config.transactions.computeUnits;
+
+    // Packing reads lookup tables, a blockhash and simulations, and rejects
+    // groups that do not fit; nothing was sent, so every position failed
+    let packing: Awaited<ReturnType<typeof packTransactions>>;
+    try {
+      packing = await packTransactions(
+        prepared.map(({ rebalance }) => rebalance),
+        owner.publicKey
+      );
+    } catch (packError) {
+      const error =
+        packError instanceof Error ? packError.message : String(packError);
+      logger.error("Failed to pack batch transactions", { error });
+      for (const { event } of prepared) {
+        event.status = "failed";
+        storage.addRebalanceEvent(event);
+        result.positions.push({
+          positionAddress: event.positionAddress,
+          status: "failed",
+          error,
+        });
+      }
+      return;
+    }
+    const { transactions, computeUnits } = packing;
+    result.transactions = transactions.length;
+
+    for (const [index, packed] of transactions.entries()) {
+      const members = packed.groups.map((i) => prepared[i]);
+      let signature: string | undefined;
+      let error: string | undefined;
+
+      try {
+        packed.transaction.sign([owner]);
+        signature = await connection.sendRawTransaction(
+          packed.transaction.serialize()
+        );
+        const { value } = await connection.confirmTransaction(
+          {
+            signature,
+            blockhash: packed.blockhash,
+            lastValidBlockHeight: packed.lastValidBlockHeight,
+          },
+          "confirmed"
+        );
+        if (value.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(value.err)}`);
+        }
+      } catch (sendError) {
+        error =
+          sendError instanceof Error ? sendError.message : String(sendError);
+        logger.error("Batch transaction failed", { index, error });
+      }
+
+      if (!error) {
+        result.fees.batchedLamports +=
+          LAMPORTS_PER_SIGNATURE * packed.transaction.signatures.length +
+          packed.priorityFeeLamports;
+        for (const i of packed.groups) {
+          const units = Math.min(max, Math.ceil(computeUnits[i] * margin));
+          const signatures = 1 + prepared[i].rebalance.signers.length;
+          result.fees.individualLamports +=
+            LAMPORTS_PER_SIGNATURE * signatures +
+            Math.ceil((units * packed.microLamports) / 1e6);
+        }
+      }
+
+      for (const { event } of members) {
+        event.signature = signature || "";
+        event.status = error ? "failed" : "success";
+        storage.addRebalanceEvent(event);
+        result.positions.push({
+          positionAddress: event.positionAddress,
+          status: event.status,
+          signature: error ? undefined : signature,
+          transactionIndex: index,
+          error,
+        });
+      }
+    }
+
+    result.fees.savedLamports = Math.max(
+      0,
+      result.fees.individualLamports - result.fees.batchedLamports
+    );
+  }
+
   /**
    * Check all positions and queue those needing rebalance
    */
@@ -177,30 +345,19 @@ export class EcoRebalancer {
     const positions = storage.getUserPositions(owner.toString());
 
     for (const positionData of positions) {
-      const shouldRebalance = await this.shouldRebalance(
-        positionData.position.address,
+      const decision = rebalanceStrategyService.evaluate(
+        positionData,
         threshold
       );
 
-      if (shouldRebalance) {
-        const volatilityData = volatilityTracker.getVolatilityData(
-          positionData.pool.address
-        );
-        const volatility = volatilityData?.volatility || 50;
-
-        const newRange = this.calculateOptimalRange(
-          positionData.pool.address,
-          positionData.pool.activeId,
-          volatility
-        );
+      if (decision.shouldRebalance) {
+        const newRange = rebalanceStrategyService.calculateRange(positionData);
 
         const params: RebalanceParams = {
           positionAddress: positionData.position.address,
           newLowerBinId: newRange.lowerBinId,
           newUpperBinId: newRange.upperBinId,
-          reason: positionData.riskMetrics.isInRange
-            ? "Price approaching range boundary"
-            : "Position out of range",
+          reason: rebalanceStrategyService.describeReason(decision.reason),
         };
 
         this.queueRebalance(positionData.position.address, params);
@@ -208,71 +365,37 @@ export class EcoRebalancer {
     }
   }
 
-  private async shouldRebalance(
-    positionAddress: string,
-    threshold: number
-  ): Promise<boolean> {
-    const positionData = storage.getPosition(positionAddress);
-    if (!positionData) return false;
-
-    const { pool, position, riskMetrics } = positionData;
-
-    if (!riskMetrics.isInRange) return true;
-
-    const distanceToLower = Math.abs(pool.activeId - position.lowerBinId);
-    const distanceToUpper = Math.abs(pool.activeId - position.upperBinId);
-    const positionWidth = position.upperBinId - position.lowerBinId;
-
-    const minDistance = Math.min(distanceToLower, distanceToUpper);
-    const distancePercentage = (minDistance / positionWidth) * 100;
-
-    return distancePercentage < threshold;
-  }
-
-  private calculateOptimalRange(
-    poolAddress: string,
-    currentBinId: number,
-    volatility: number
-  ): { lowerBinId: number; upperBinId: number } {
-    const baseWidth = 100;
-    const volatilityMultiplier = 1 + volatility / 100;
-    const width = Math.floor(baseWidth * volatilityMultiplier);
-
-    return {
-      lowerBinId: currentBinId - Math.floor(width / 2),
-      upperBinId: currentBinId + Math.floor(width / 2),
-    };
-  }
-
   /**
    * Start eco-mode auto-rebalancing
    */
   startEcoMode(owner: Keypair, threshold: number = 5) {
-    if (this.batchInterval) {
-      clearInterval(this.batchInterval);
-    }
-
-    this.batchInterval = setInterval(async () => {
-      // Check and queue positions
-      await this.checkAndQueuePositions(owner.publicKey, threshold);
-
-      // Execute batch if queue has items
-      if (this.batchQueue.length > 0) {
+    const wallet = owner.publicKey.toString();
+
+    scheduler.register({
+      name: `eco-rebalance:${wallet}`,
+      description: "Queue positions that need rebalancing, then run the batch",
+      trigger: { type: "interval", everyMs: this.BATCH_INTERVAL },
+      run: async () => {
+        // Check and queue positions, then execute the owner's batch
+        await this.checkAndQueuePositions(owner.publicKey, threshold);
         await this.executeBatch(owner);
-      }
-    }, this.BATCH_INTERVAL);
+      },
+    });
 
-    console.log("Eco-mode rebalancing started");
+    console.log(`Eco-mode rebalancing started for ${wallet}`);
   }
 
   /**
-   * Stop eco-mode
+   * Stop one owner's eco-mode, or every owner's when no wallet is given
    */
-  stopEcoMode() {
-    if (this.batchInterval) {
-      clearInterval(this.batchInterval);
-      this.batchInterval = null;
-      console.log("Eco-mode rebalancing stopped");
+  stopEcoMode(wallet?: string) {
+    const wallets = wallet
+      ? [wallet]
+      : scheduler.names("eco-rebalance:").map((name) => name.split(":")[1]);
+    for (const key of wallets) {
+      if (!scheduler.has(`eco-rebalance:${key}`)) continue;
+      scheduler.unregister(`eco-rebalance:${key}`);
+      console.log(`Eco-mode rebalancing stopped for ${key}`);
     }
   }
 
@@ -286,21 +409,9 @@ export class EcoRebalancer {
         position: item.positionAddress,
         priority: item.priority,
       })),
-      estimatedGasSavings: this.estimateGasSavings(),
+      lastBatch: this.lastBatch,
     };
   }
-
-  /**
-   * Estimate gas savings from batching
-   */
-  private estimateGasSavings(): number {
-    // Rough estimate: batching saves ~20% gas per transaction after the first
-    const queueLength = this.batchQueue.length;
-    if (queueLength <= 1) return 0;
-
-    const savingsPerTx = 0.2; // 20% savings
-    return (queueLength - 1) * savingsPerTx;
-  }
 }
 
 export const ecoRebalancer = new EcoRebalancer();
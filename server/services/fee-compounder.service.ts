@@ -0,0 +1,196 @@
+/**
+ * Fee Compounder
+ * Watches each wallet's unclaimed fees and, once they are worth more than the
+ * transaction costs to collect, queues a claim-and-re-add transaction for the
+ * owner to approve
+ */
+
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { positionAmounts, priceOracle } from "../oracle";
+import { scheduler } from "../scheduler";
+import { dlmmClient } from "../solana/dlmm-client";
+import { transactionQueueService } from "./transaction-queue.service";
+import { telegramBot } from "./telegram-bot";
+import type { PositionData } from "../../shared/schema";
+
+export interface CompoundDecision {
+  shouldCompound: boolean;
+  reason: string;
+  amountX: number;
+  amountY: number;
+  valueUsd: number;
+  estimatedCostUsd: number | null;
+}
+
+export class FeeCompounder {
+  /**
+   * Check a wallet's positions on a schedule
+   * @param feeThreshold - minimum USD value of fees worth compounding
+   */
+  start(wallet: string, feeThreshold: number): void {
+    scheduler.register({
+      name: `compound-fees:${wallet}`,
+      description: "Queue fee compounding for positions with enough fees",
+      trigger: {
+        type: "interval",
+        everyMs: config.compounding.checkIntervalMs,
+      },
+      run: () => this.checkWallet(wallet, feeThreshold),
+    });
+    logger.info("Fee compounding started", { wallet, feeThreshold });
+  }
+
+  stop(wallet: string): void {
+    if (!this.isRunning(wallet)) return;
+
+    scheduler.unregister(`compound-fees:${wallet}`);
+    logger.info("Fee compounding stopped", { wallet });
+  }
+
+  isRunning(wallet: string): boolean {
+    return scheduler.has(`compound-fees:${wallet}`);
+  }
+
+  /**
+   * USD cost of a compound transaction, or null while SOL has no price
+   * (set one with STATIC_TOKEN_PRICES)
+   */
+  estimateCostUsd(): number | null {
+    const sol = priceOracle.getPrice(NATIVE_MINT.toBase58());
+    if (!sol) return null;
+    return (config.compounding.txFeeLamports / LAMPORTS_PER_SOL) * sol.usd;
+  }
+
+  /**
+   * Whether a position's unclaimed fees clear both the wallet's threshold and
+   * the configured multiple of the transaction cost
+   */
+  evaluate(positionData: PositionData, feeThreshold: number): CompoundDecision {
+    const { feeX, feeY } = positionAmounts(
+      positionData.position,
+      positionData.pool
+    );
+    const { x, y } = priceOracle.getPoolPrices(positionData.pool);
+    const valueUsd = feeX * x.usd + feeY * y.usd;
+    const estimatedCostUsd = this.estimateCostUsd();
+    const decision = {
+      amountX: feeX,
+      amountY: feeY,
+      valueUsd,
+      estimatedCostUsd,
+    };
+
+    if (estimatedCostUsd === null) {
+      return {
+        ...decision,
+        shouldCompound: false,
+        reason: "No SOL price to estimate the transaction cost",
+      };
+    }
+    if (valueUsd < feeThreshold) {
+      return {
+        ...decision,
+        shouldCompound: false,
+        reason: `Fees $${valueUsd.toFixed(2)} below threshold $${feeThreshold}`,
+      };
+    }
+    const minValue = estimatedCostUsd * config.compounding.minFeeToCostRatio;
+    if (valueUsd < minValue) {
+      return {
+        ...decision,
+        shouldCompound: false,
+        reason: `Fees $${valueUsd.toFixed(2)} do not cover ${config.compounding.minFeeToCostRatio}x the $${estimatedCostUsd.toFixed(4)} cost`,
+      };
+    }
+
+    return {
+      ...decision,
+      shouldCompound: true,
+      reason: `Compound $${valueUsd.toFixed(2)} of fees (est. cost $${estimatedCostUsd.toFixed(4)})`,
+    };
+  }
+
+  private async checkWallet(wallet: string, feeThreshold: number) {
+    // Don't queue twice for a position still waiting on approval
+    const pending = new Set(
+      transactionQueueService
+        .getPendingTransactions(wallet)
+        .filter((tx) => tx.type === "compound")
+        .map((tx) => tx.positionAddress)
+    );
+
+    for (const positionData of storage.getUserPositions(wallet)) {
+      const positionAddress = positionData.position.address;
+      if (pending.has(positionAddress)) continue;
+
+      const decision = this.evaluate(positionData, feeThreshold);
+      if (!decision.shouldCompound) {
+        logger.debug("Fees not worth compounding yet", {
+          positionAddress,
+          reason: decision.reason,
+        });
+        continue;
+      }
+
+      try {
+        await this.queueCompound(positionData, decision);
+      } catch (error) {
+        logger.error("Failed to queue fee compounding", {
+          positionAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async queueCompound(
+    positionData: PositionData,
+    decision: CompoundDecision
+  ): Promise<void> {
+    const { position, pool } = positionData;
+    const prepared = await dlmmClient.prepareCompoundTransaction(
+      position,
+      new PublicKey(position.owner),
+      parseFloat(position.feeX) || 0,
+      parseFloat(position.feeY) || 0
+    );
+
+    const queued = await transactionQueueService.queueTransaction(
+      "compound",
+      position.address,
+      position.owner,
+      prepared.transaction,
+      {
+        poolAddress: pool.address,
+        reason: decision.reason,
+        estimatedValue: positionData.valuation?.usd,
+        fees: {
+          amountX: decision.amountX,
+          amountY: decision.amountY,
+          valueUsd: decision.valueUsd,
+        },
+        estimatedCostUsd: decision.estimatedCostUsd ?? undefined,
+      },
+      { amountX: position.feeX, amountY: position.feeY }
+    );
+
+    await telegramBot.sendTransactionApprovalAlert(
+      queued.id,
+      "compound",
+      position.address,
+      queued.metadata
+    );
+
+    logger.info("Fee compounding queued for approval", {
+      transactionId: queued.id,
+      positionAddress: position.address,
+      valueUsd: decision.valueUsd,
+    });
+  }
+}
+
+export const feeCompounder = new FeeCompounder();
@@ -0,0 +1,201 @@
+/**
+ * Pool Index
+ * Cached PoolInfo for every DLMM pool, refreshed in the background, so pool
+ * listings are filtered, sorted and paged in memory instead of fetching each
+ * pool from the RPC per request
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import { scheduler } from "../scheduler";
+import { dlmmClient } from "../solana/dlmm-client";
+import { volatilityTracker } from "./volatility-tracker";
+import {
+  PoolQuerySchema,
+  type PoolIndexEntry,
+  type PoolInfo,
+  type PoolQuery,
+} from "../../shared/schema";
+
+const JOB_NAME = "pool-index";
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export interface PoolIndexStatus {
+  size: number;
+  refreshing: boolean;
+  refreshedAt: number | null; // end of the last complete refresh
+}
+
+export class PoolIndexService {
+  private entries = new Map<string, PoolIndexEntry>();
+  private refreshing = false;
+  private refreshedAt: number | null = null;
+
+  /**
+   * Filtered, sorted page of the index
+   */
+  query(input: unknown): {
+    pools: PoolIndexEntry[];
+    total: number;
+    query: PoolQuery;
+  } {
+    const parsed = PoolQuerySchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid pool query", {
+        issues: parsed.error.issues,
+      });
+    }
+    const query = parsed.data;
+    const limit = Math.min(query.limit, config.poolIndex.maxPageSize);
+    const search = query.search?.toLowerCase();
+    const symbol = query.symbol?.toLowerCase();
+
+    const matches = Array.from(this.entries.values()).filter((pool) => {
+      const symbols = [
+        pool.tokenX.symbol.toLowerCase(),
+        pool.tokenY.symbol.toLowerCase(),
+      ];
+      if (
+        query.mint &&
+        pool.tokenX.mint !== query.mint &&
+        pool.tokenY.mint !== query.mint
+      ) {
+        return false;
+      }
+      if (symbol && !symbols.includes(symbol)) return false;
+      if (query.minTvl !== undefined && pool.tvl < query.minTvl) return false;
+      if (query.binStep !== undefined && pool.binStep !== query.binStep) {
+        return false;
+      }
+      if (search) {
+        const pair = symbols.join("/");
+        const reversed = [...symbols].reverse().join("/");
+        return (
+          pair.includes(search) ||
+          reversed.includes(search) ||
+          pool.address.toLowerCase().includes(search)
+        );
+      }
+      return true;
+    });
+
+    const direction = query.order === "asc" ? 1 : -1;
+    matches.sort(
+      (a, b) =>
+        direction * (a[query.sort] - b[query.sort]) ||
+        a.address.localeCompare(b.address)
+    );
+
+    const offset = (query.page - 1) * limit;
+    return {
+      pools: matches.slice(offset, offset + limit),
+      total: matches.length,
+      query: { ...query, limit },
+    };
+  }
+
+  /**
+   * One pool, from the index while it is fresh
+   */
+  async getPool(address: string): Promise<PoolInfo> {
+    const cached = this.entries.get(address);
+    if (
+      cached &&
+      Date.now() - cached.indexedAt < config.poolIndex.refreshIntervalMs
+    ) {
+      return cached;
+    }
+    return this.index(address);
+  }
+
+  getStatus(): PoolIndexStatus {
+    return {
+      size: this.entries.size,
+      refreshing: this.refreshing,
+      refreshedAt: this.refreshedAt,
+    };
+  }
+
+  /**
+   * Fetch every listed pool again. Entries are replaced as they arrive, so
+   * queries keep answering from the previous data meanwhile; pools no longer
+   * listed are dropped at the end.
+   */
+  async refresh(): Promise<void> {
+    this.refreshing = true;
+    const startedAt = Date.now();
+    try {
+      const addresses = (await dlmmClient.getPoolAddresses()).slice(
+        0,
+        config.poolIndex.maxPools
+      );
+      if (addresses.length === 0) {
+        logger.warn("No pool addresses to index");
+        return;
+      }
+
+      let failed = 0;
+      for (const address of addresses) {
+        try {
+          await this.index(address);
+        } catch (error) {
+          failed++;
+          logger.warn("Failed to index pool", {
+            address,
+            error: errorMessage(error),
+          });
+        }
+      }
+
+      const listed = new Set(addresses);
+      for (const address of this.entries.keys()) {
+        if (!listed.has(address)) this.entries.delete(address);
+      }
+
+      this.refreshedAt = Date.now();
+      logger.info("Pool index refreshed", {
+        pools: this.entries.size,
+        failed,
+        durationMs: this.refreshedAt - startedAt,
+      });
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  start() {
+    scheduler.register({
+      name: JOB_NAME,
+      description: "Refresh the pool discovery index",
+      trigger: {
+        type: "interval",
+        everyMs: config.poolIndex.refreshIntervalMs,
+      },
+      runOnStart: true,
+      run: () => this.refresh(),
+    });
+    logger.info("Pool index started", {
+      refreshIntervalMs: config.poolIndex.refreshIntervalMs,
+      maxPools: config.poolIndex.maxPools,
+    });
+  }
+
+  private async index(address: string): Promise<PoolIndexEntry> {
+    const pool = await dlmmClient.getPoolInfo(new PublicKey(address));
+    const entry: PoolIndexEntry = {
+      ...pool,
+      volatility: volatilityTracker.calculateVolatility(address),
+      feeApr: pool.tvl > 0 ? ((pool.fees24h * 365) / pool.tvl) * 100 : 0,
+      indexedAt: Date.now(),
+    };
+    this.entries.set(address, entry);
+    return entry;
+  }
+}
+
+export const poolIndex = new PoolIndexService();
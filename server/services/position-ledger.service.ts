@@ -0,0 +1,503 @@
+/**
+ * Position Ledger Service
+ * Records deposits, withdrawals, fee claims and rebalances per position and
+ * derives cost basis, realized/unrealized PnL, fee income and HODL comparison
+ */
+
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { PositionNotFoundError, ValidationError } from "../utils/errors";
+import { positionAmounts, priceOracle } from "../oracle";
+import {
+  LedgerEntryInputSchema,
+  LedgerEntrySchema,
+  type LedgerEntry,
+  type LedgerEntryInput,
+  type LedgerEntryType,
+  type PoolInfo,
+  type PositionData,
+} from "../../shared/schema";
+import type {
+  PendingDeposit,
+  PnlBreakdown,
+  PositionPnl,
+  WalletPnl,
+} from "../types";
+
+// A created position not seen on-chain by then was most likely never sent
+const PENDING_DEPOSIT_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface TokenPrices {
+  priceX: number;
+  priceY: number;
+}
+
+// Direction of each entry type; rebalances go either way
+const DEFAULT_DIRECTION: Partial<Record<LedgerEntryType, "in" | "out">> = {
+  deposit: "in",
+  withdrawal: "out",
+  fee_claim: "out",
+  compound: "in",
+};
+
+const PNL_FIELDS: Array<keyof PnlBreakdown> = [
+  "deposited",
+  "withdrawn",
+  "costBasis",
+  "currentValue",
+  "realizedPnl",
+  "unrealizedPnl",
+  "feesClaimed",
+  "feesCompounded",
+  "feesUnclaimed",
+  "feeIncome",
+  "hodlValue",
+  "impermanentLoss",
+  "vsHodl",
+  "totalPnl",
+];
+
+export class PositionLedgerService {
+  /**
+   * USD prices for a pool's tokens from the price oracle
+   */
+  prices(pool: PoolInfo): TokenPrices {
+    const { x, y } = priceOracle.getPoolPrices(pool);
+    return { priceX: x.usd, priceY: y.usd };
+  }
+
+  getEntries(positionAddress: string): LedgerEntry[] {
+    return storage.getLedgerEntries({ positionAddress });
+  }
+
+  /**
+   * Append an entry for a known position, priced at the pool's current price
+   * unless the caller supplies the prices at the time
+   */
+  record(positionData: PositionData, input: LedgerEntryInput): LedgerEntry {
+    const prices = this.prices(positionData.pool);
+    const priceX = input.priceX ?? prices.priceX;
+    const priceY = input.priceY ?? prices.priceY;
+
+    const parsed = LedgerEntrySchema.safeParse({
+      id: `ledger_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      positionAddress: positionData.position.address,
+      owner: positionData.position.owner,
+      poolAddress: positionData.pool.address,
+      type: input.type,
+      direction: input.direction ?? DEFAULT_DIRECTION[input.type],
+      amountX: input.amountX,
+      amountY: input.amountY,
+      priceX,
+      priceY,
+      valueUsd: input.amountX * priceX + input.amountY * priceY,
+      share: input.share,
+      signature: input.signature,
+      relatedPosition: input.relatedPosition,
+      note: input.note,
+      timestamp: input.timestamp ?? Date.now(),
+    });
+    if (!parsed.success) {
+      throw new ValidationError("Invalid ledger entry", {
+        issues: parsed.error.issues,
+      });
+    }
+
+    storage.addLedgerEntry(parsed.data);
+    logger.info("Ledger entry recorded", {
+      positionAddress: parsed.data.positionAddress,
+      type: parsed.data.type,
+      direction: parsed.data.direction,
+      valueUsd: parsed.data.valueUsd,
+    });
+
+    return parsed.data;
+  }
+
+  /**
+   * Record a manual entry (e.g. a deposit signed in the browser)
+   */
+  recordForPosition(positionAddress: string, input: unknown): LedgerEntry {
+    const positionData = storage.getPosition(positionAddress);
+    if (!positionData) {
+      throw new PositionNotFoundError(positionAddress);
+    }
+
+    const parsed = LedgerEntryInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid ledger entry", {
+        issues: parsed.error.issues,
+      });
+    }
+    const { type, direction, share } = parsed.data;
+    if (type === "rebalance" && !direction) {
+      throw new ValidationError("Rebalance entries need a direction (in/out)");
+    }
+    const isOutflow = (direction ?? DEFAULT_DIRECTION[type]) === "out";
+    if (isOutflow && type !== "fee_claim" && share === undefined) {
+      throw new ValidationError(
+        "Outflows need the share of the position removed (0-1]"
+      );
+    }
+
+    return this.record(positionData, parsed.data);
+  }
+
+  /**
+   * Record liquidity leaving a position (stop-loss, close or rebalance).
+   * Amounts are the stored position's holdings scaled by the share removed.
+   */
+  recordExit(
+    positionData: PositionData,
+    type: "withdrawal" | "rebalance",
+    options: {
+      share?: number;
+      signature?: string;
+      relatedPosition?: string;
+      note?: string;
+    } = {}
+  ): LedgerEntry | null {
+    try {
+      this.ensureOpeningEntry(positionData);
+
+      const share = options.share ?? 1;
+      const { amountX, amountY } = positionAmounts(
+        positionData.position,
+        positionData.pool
+      );
+
+      return this.record(positionData, {
+        type,
+        direction: "out",
+        amountX: amountX * share,
+        amountY: amountY * share,
+        share,
+        signature: options.signature,
+        relatedPosition: options.relatedPosition,
+        note: options.note,
+      });
+    } catch (error) {
+      // Never fail the on-chain action because bookkeeping did
+      logger.error("Failed to record ledger exit", {
+        positionAddress: positionData.position.address,
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record fees claimed and added back as liquidity in the same transaction
+   */
+  recordCompound(
+    positionData: PositionData,
+    fees: { amountX: number; amountY: number },
+    options: { signature?: string; note?: string } = {}
+  ): LedgerEntry | null {
+    try {
+      this.ensureOpeningEntry(positionData);
+
+      return this.record(positionData, {
+        type: "compound",
+        amountX: fees.amountX,
+        amountY: fees.amountY,
+        signature: options.signature,
+        note: options.note,
+      });
+    } catch (error) {
+      logger.error("Failed to record compounded fees", {
+        positionAddress: positionData.position.address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record fees collected out of a position and kept by the wallet
+   */
+  recordClaim(
+    positionData: PositionData,
+    fees: { amountX: number; amountY: number },
+    options: { signature?: string; note?: string } = {}
+  ): LedgerEntry | null {
+    if (fees.amountX <= 0 && fees.amountY <= 0) return null;
+    try {
+      this.ensureOpeningEntry(positionData);
+
+      return this.record(positionData, {
+        type: "fee_claim",
+        amountX: fees.amountX,
+        amountY: fees.amountY,
+        signature: options.signature,
+        note: options.note,
+      });
+    } catch (error) {
+      logger.error("Failed to record fee claim", {
+        positionAddress: positionData.position.address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Fees that fell between two observations of a position were claimed
+   * outside this server, unless an entry recorded since the earlier
+   * observation (a compound or withdrawal) already accounts for them
+   */
+  recordObservedClaim(
+    previous: PositionData,
+    current: PositionData
+  ): LedgerEntry | null {
+    const before = positionAmounts(previous.position, previous.pool);
+    const after = positionAmounts(current.position, current.pool);
+    const fees = {
+      amountX: Math.max(before.feeX - after.feeX, 0),
+      amountY: Math.max(before.feeY - after.feeY, 0),
+    };
+    if (fees.amountX <= 0 && fees.amountY <= 0) return null;
+
+    const since = previous.valuation?.updatedAt ?? 0;
+    const accounted = this.getEntries(current.position.address).some(
+      (entry) => entry.type !== "deposit" && entry.timestamp >= since
+    );
+    if (accounted) return null;
+
+    return this.recordClaim(current, fees, {
+      note: "Fees claimed outside the app (observed)",
+    });
+  }
+
+  /**
+   * Share of a position's value that amounts taken out of it make up
+   * @param amounts - base units, as in a queued transaction's intent
+   */
+  shareOf(
+    positionData: PositionData,
+    amounts: { amountX?: string; amountY?: string }
+  ): number {
+    const { position, pool } = positionData;
+    const held = positionAmounts(position, pool);
+    const { priceX, priceY } = this.prices(pool);
+    const valueX = held.amountX * priceX;
+    const valueY = held.amountY * priceY;
+    if (valueX + valueY <= 0) return 0;
+
+    const fraction = (taken: string | undefined, total: string) => {
+      const whole = parseFloat(total) || 0;
+      if (whole <= 0) return 0;
+      return Math.min((parseFloat(taken ?? "0") || 0) / whole, 1);
+    };
+    return (
+      (fraction(amounts.amountX, position.liquidityX) * valueX +
+        fraction(amounts.amountY, position.liquidityY) * valueY) /
+      (valueX + valueY)
+    );
+  }
+
+  /**
+   * Remember the deposit of a position being created, at the prices when its
+   * transaction was built, until the position is first observed
+   */
+  recordPendingDeposit(deposit: Omit<PendingDeposit, "timestamp">): void {
+    const now = Date.now();
+    storage.setPendingDeposits([
+      ...storage
+        .getPendingDeposits()
+        .filter((pending) => pending.timestamp > now - PENDING_DEPOSIT_TTL_MS),
+      { ...deposit, timestamp: now },
+    ]);
+  }
+
+  // Oldest unexpired pending deposit for this position's owner, pool and
+  // range, removed from the pending list
+  private takePendingDeposit(
+    positionData: PositionData
+  ): PendingDeposit | undefined {
+    const { position } = positionData;
+    const cutoff = Date.now() - PENDING_DEPOSIT_TTL_MS;
+    const pending = storage
+      .getPendingDeposits()
+      .filter((deposit) => deposit.timestamp > cutoff);
+    const index = pending.findIndex(
+      (deposit) =>
+        deposit.owner === position.owner &&
+        deposit.poolAddress === position.poolAddress &&
+        deposit.lowerBinId === position.lowerBinId &&
+        deposit.upperBinId === position.upperBinId
+    );
+    if (index < 0) return undefined;
+
+    const [deposit] = pending.splice(index, 1);
+    storage.setPendingDeposits(pending);
+    return deposit;
+  }
+
+  /**
+   * Positions created through this server open with the deposit recorded at
+   * creation. Others (opened elsewhere or before the ledger existed) start
+   * from the value they had when first observed; PnL before that is unknown.
+   */
+  ensureOpeningEntry(positionData: PositionData): void {
+    if (this.getEntries(positionData.position.address).length > 0) return;
+
+    const created = this.takePendingDeposit(positionData);
+    if (created) {
+      this.record(positionData, {
+        type: "deposit",
+        amountX: created.amountX,
+        amountY: created.amountY,
+        priceX: created.priceX,
+        priceY: created.priceY,
+        timestamp: created.timestamp,
+        note: "Opening deposit",
+      });
+      return;
+    }
+
+    const { amountX, amountY } = positionAmounts(
+      positionData.position,
+      positionData.pool
+    );
+    if (amountX <= 0 && amountY <= 0) return;
+
+    this.record(positionData, {
+      type: "deposit",
+      amountX,
+      amountY,
+      note: "Opening balance (first observed)",
+    });
+  }
+
+  /**
+   * PnL for one position from its ledger and latest stored state
+   */
+  getPositionPnl(
+    positionAddress: string,
+    positionData: PositionData | undefined = storage.getPosition(
+      positionAddress
+    )
+  ): PositionPnl {
+    const entries = this.getEntries(positionAddress);
+    if (entries.length === 0 && !positionData) {
+      throw new PositionNotFoundError(positionAddress);
+    }
+
+    let costBasis = 0;
+    let deposited = 0;
+    let withdrawn = 0;
+    let realizedPnl = 0;
+    let feesClaimed = 0;
+    let feesCompounded = 0;
+    let hodlX = 0;
+    let hodlY = 0;
+    let hodlCash = 0; // HODL tokens sold alongside each withdrawal
+    let isOpen = entries.length === 0;
+
+    for (const entry of entries) {
+      if (entry.type === "fee_claim") {
+        feesClaimed += entry.valueUsd;
+      } else if (entry.direction === "in") {
+        // Compounded fees are fee income that joins the cost basis, not
+        // capital the wallet put in
+        if (entry.type === "compound") {
+          feesClaimed += entry.valueUsd;
+          feesCompounded += entry.valueUsd;
+        } else {
+          deposited += entry.valueUsd;
+        }
+        costBasis += entry.valueUsd;
+        hodlX += entry.amountX;
+        hodlY += entry.amountY;
+        isOpen = true;
+      } else {
+        // Average cost: a withdrawal releases the same share of the basis
+        const share = entry.share ?? 1;
+        const releasedBasis = costBasis * share;
+        realizedPnl += entry.valueUsd - releasedBasis;
+        costBasis -= releasedBasis;
+        withdrawn += entry.valueUsd;
+        hodlCash += share * (hodlX * entry.priceX + hodlY * entry.priceY);
+        hodlX *= 1 - share;
+        hodlY *= 1 - share;
+        if (share >= 1) isOpen = false;
+      }
+    }
+
+    const last = entries[entries.length - 1];
+    const prices = positionData
+      ? this.prices(positionData.pool)
+      : { priceX: last.priceX, priceY: last.priceY };
+    const holdings =
+      positionData && isOpen
+        ? positionAmounts(positionData.position, positionData.pool)
+        : { amountX: 0, amountY: 0, feeX: 0, feeY: 0 };
+
+    const currentValue =
+      holdings.amountX * prices.priceX + holdings.amountY * prices.priceY;
+    const feesUnclaimed =
+      holdings.feeX * prices.priceX + holdings.feeY * prices.priceY;
+    const feeIncome = feesClaimed + feesUnclaimed;
+    const hodlValue = hodlX * prices.priceX + hodlY * prices.priceY + hodlCash;
+    const unrealizedPnl = isOpen ? currentValue - costBasis : 0;
+    const totalPnl = realizedPnl + unrealizedPnl + feeIncome;
+
+    return {
+      positionAddress,
+      owner: positionData?.position.owner || last?.owner || "",
+      poolAddress: positionData?.pool.address || last?.poolAddress || "",
+      isOpen,
+      entries: entries.length,
+      openedAt: entries[0]?.timestamp ?? null,
+      price: prices.priceX,
+      deposited,
+      withdrawn,
+      costBasis: isOpen ? costBasis : 0,
+      currentValue,
+      realizedPnl,
+      unrealizedPnl,
+      feesClaimed,
+      feesCompounded,
+      feesUnclaimed,
+      feeIncome,
+      hodlValue,
+      impermanentLoss: currentValue + withdrawn - hodlValue,
+      vsHodl: currentValue + withdrawn + feeIncome - hodlValue,
+      totalPnl,
+      totalReturn: deposited > 0 ? (totalPnl / deposited) * 100 : 0,
+    };
+  }
+
+  /**
+   * PnL for every position a wallet has held, with wallet totals
+   */
+  getWalletPnl(owner: string): WalletPnl {
+    const addresses = new Set([
+      ...storage.getLedgerEntries({ owner }).map((e) => e.positionAddress),
+      ...storage.getUserPositions(owner).map((p) => p.position.address),
+    ]);
+
+    const positions = Array.from(addresses).map((address) =>
+      this.getPositionPnl(address)
+    );
+
+    const totals = Object.fromEntries(
+      PNL_FIELDS.map((field) => [
+        field,
+        positions.reduce((sum, p) => sum + p[field], 0),
+      ])
+    ) as Omit<PnlBreakdown, "totalReturn">;
+
+    return {
+      owner,
+      ...totals,
+      totalReturn:
+        totals.deposited > 0 ? (totals.totalPnl / totals.deposited) * 100 : 0,
+      positions,
+    };
+  }
+}
+
+export const positionLedger = new PositionLedgerService();
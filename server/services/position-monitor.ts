@@ -5,14 +5,22 @@ import { ilCalculator } from "../utils/il-calculator";
 import { logger } from "../utils/logger";
 import { wsServer } from "./websocket-server";
 import { telegramBot } from "./telegram-bot";
+import { rebalanceStrategyService } from "./rebalance-strategy.service";
+import { positionLedger } from "./position-ledger.service";
+import { alertRules } from "./alert-rules.service";
+import { alertValuation, priceOracle } from "../oracle";
+import { scheduler } from "../scheduler";
 import type { PositionData, RebalanceParams } from "../../shared/schema";
 
+export interface WalletMonitorOptions {
+  intervalMs?: number;
+  // Called with the wallet's positions after every load
+  onPositions?: (wallet: string, positions: PositionData[]) => void;
+}
+
 export class PositionMonitor {
-  private monitoringInterval: NodeJS.Timeout | null = null;
-  private rebalanceCheckInterval: NodeJS.Timeout | null = null;
   private readonly UPDATE_INTERVAL = 60000; // 60 seconds to avoid rate limiting
   private readonly REBALANCE_CHECK_INTERVAL = 300000; // 5 minutes
-  private monitoredWallets: string[] = [];
   private lastUpdateTime = 0;
   private readonly MIN_UPDATE_DELAY = 2000; // Minimum 2 seconds between updates
 
@@ -35,26 +43,23 @@ export class PositionMonitor {
       );
       if (!pool) return null;
 
-      // Calculate current value
+      // Value liquidity and fees in USD
+      priceOracle.observePool(pool);
+      const valuation = priceOracle.valuePosition(position, pool);
+      const currentValue = valuation.usd;
       const liquidityX = parseFloat(position.liquidityX);
       const liquidityY = parseFloat(position.liquidityY);
-      const currentValue = liquidityX + liquidityY * pool.currentPrice;
 
       // Calculate fees earned
       const feeX = parseFloat(position.feeX);
       const feeY = parseFloat(position.feeY);
-      const totalFees = feeX + feeY * pool.currentPrice;
+      const totalFees = valuation.feesUsd;
 
-      // Calculate performance metrics
-      const initialValue = currentValue; // TODO: Store and retrieve initial value
-      const totalReturn =
-        initialValue > 0
-          ? ((currentValue - initialValue) / initialValue) * 100
-          : null;
+      // Calculate performance metrics (total return comes from the ledger)
       const positionAge = Date.now() - position.createdAt;
       const dailyYield =
-        initialValue > 0 && positionAge > 0
-          ? (totalFees / initialValue) * (86400000 / positionAge) * 100
+        currentValue > 0 && positionAge > 0
+          ? (totalFees / currentValue) * (86400000 / positionAge) * 100
           : null;
 
       // Calculate impermanent loss
@@ -66,8 +71,14 @@ export class PositionMonitor {
         storage.setInitialPrice(positionAddress, pool.currentPrice);
       }
 
-      const impermanentLoss = ilCalculator.calculateIL(
-        initialPrice,
+      // Concentrated range: composition shifts bin by bin, not along x·y = k
+      const { impermanentLoss } = ilCalculator.calculateDlmmIL(
+        {
+          binStep: pool.binStep,
+          lowerBinId: position.lowerBinId,
+          upperBinId: position.upperBinId,
+          initialPrice,
+        },
         pool.currentPrice
       );
 
@@ -94,7 +105,7 @@ export class PositionMonitor {
           total: totalFees,
         },
         performance: {
-          totalReturn: totalReturn ?? 0,
+          totalReturn: 0,
           dailyYield: dailyYield ?? 0,
           impermanentLoss,
         },
@@ -104,8 +115,18 @@ export class PositionMonitor {
           utilizationRate: liquidityX > 0 && liquidityY > 0 ? 1 : 0.5,
           isInRange,
         },
+        valuation,
       };
 
+      // Cost basis and PnL since the position was first deposited
+      positionLedger.ensureOpeningEntry(positionData);
+      const previous = storage.getPosition(positionAddress);
+      if (previous) positionLedger.recordObservedClaim(previous, positionData);
+      positionData.performance.totalReturn = positionLedger.getPositionPnl(
+        positionAddress,
+        positionData
+      ).totalReturn;
+
       logger.info("Saving position with owner", {
         positionAddress,
         owner: positionData.position.owner,
@@ -134,7 +155,14 @@ export class PositionMonitor {
     }
   }
 
-  async loadUserPositions(walletAddress: string): Promise<PositionData[]> {
+  /**
+   * @param options.throwOnError - rethrow RPC failures instead of returning
+   *   no positions, so scheduled loads back off
+   */
+  async loadUserPositions(
+    walletAddress: string,
+    options: { throwOnError?: boolean } = {}
+  ): Promise<PositionData[]> {
     try {
       logger.info("Loading user positions", { walletAddress });
       const positions = await dlmmClient.getUserPositions(
@@ -176,81 +204,109 @@ export class PositionMonitor {
         walletAddress,
         error: error instanceof Error ? error.message : String(error),
       });
+      if (options.throwOnError) throw error;
       return [];
     }
   }
 
-  startMonitoring(walletAddresses: string[]) {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-    }
+  /**
+   * Start (or restart) the monitoring schedule of one wallet; other wallets'
+   * schedules are left running
+   */
+  startWallet(wallet: string, options: WalletMonitorOptions = {}) {
+    const intervalMs = options.intervalMs || this.UPDATE_INTERVAL;
+    logger.info("Starting position monitoring", { wallet, intervalMs });
+
+    // Initial load, then regular monitoring
+    scheduler.register({
+      name: `positions:${wallet}`,
+      description: "Reload the wallet's positions",
+      trigger: { type: "interval", everyMs: intervalMs },
+      runOnStart: true,
+      run: async () => {
+        const positions = await this.loadUserPositions(wallet, {
+          throwOnError: true,
+        });
+        await alertRules.evaluate(wallet, positions);
+        options.onPositions?.(wallet, positions);
+      },
+    });
+  }
 
-    this.monitoredWallets = walletAddresses;
+  stopWallet(wallet: string) {
+    if (!this.isMonitoring(wallet)) return;
 
-    logger.info("Starting position monitoring", {
-      walletCount: walletAddresses.length,
-      intervalMs: this.UPDATE_INTERVAL,
-    });
+    scheduler.unregister(`positions:${wallet}`);
+    scheduler.unregister(`rebalance-check:${wallet}`);
+    logger.info("Position monitoring stopped", { wallet });
+  }
 
-    // Initial load
-    (async () => {
-      for (const address of walletAddresses) {
-        await this.loadUserPositions(address);
-      }
-    })();
+  isMonitoring(wallet: string): boolean {
+    return scheduler.has(`positions:${wallet}`);
+  }
 
-    // Regular monitoring with rate limiting
-    this.monitoringInterval = setInterval(async () => {
-      logger.debug("[Monitor] Running position monitoring cycle", {
-        walletCount: walletAddresses.length,
-      });
-      for (const address of walletAddresses) {
-        try {
-          await this.loadUserPositions(address);
-          // Add delay between wallet checks
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-        } catch (error) {
-          logger.error("[Monitor] Error in monitoring cycle", {
-            address,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      }
-    }, this.UPDATE_INTERVAL);
+  getMonitoredWallets(): string[] {
+    return scheduler
+      .names("positions:")
+      .map((name) => name.slice("positions:".length));
+  }
 
-    logger.info("Position monitoring started successfully");
+  startMonitoring(walletAddresses: string[]) {
+    for (const wallet of walletAddresses) {
+      this.startWallet(wallet);
+    }
   }
 
-  startAutoRebalancing(threshold: number = 5) {
-    if (this.rebalanceCheckInterval) {
-      clearInterval(this.rebalanceCheckInterval);
+  /**
+   * Check a monitored wallet's positions for rebalances on its own schedule
+   */
+  startWalletRebalancing(wallet: string, threshold: number = 5) {
+    if (!this.isMonitoring(wallet)) {
+      logger.warn("Auto-rebalancing needs monitoring to be running", {
+        wallet,
+      });
+      return;
     }
 
     logger.info("Starting auto-rebalancing checks", {
+      wallet,
       threshold,
       intervalMs: this.REBALANCE_CHECK_INTERVAL,
     });
 
-    this.rebalanceCheckInterval = setInterval(async () => {
-      await this.checkAndTriggerRebalances(threshold);
-    }, this.REBALANCE_CHECK_INTERVAL);
+    // Initial check, then on its own schedule
+    scheduler.register({
+      name: `rebalance-check:${wallet}`,
+      description: "Check the wallet's positions for rebalances",
+      trigger: { type: "interval", everyMs: this.REBALANCE_CHECK_INTERVAL },
+      runOnStart: true,
+      run: () => this.checkAndTriggerRebalances(wallet, threshold),
+    });
+  }
 
-    // Initial check
-    this.checkAndTriggerRebalances(threshold);
+  stopWalletRebalancing(wallet: string) {
+    if (!scheduler.has(`rebalance-check:${wallet}`)) return;
 
-    logger.info("Auto-rebalancing started successfully");
+    scheduler.unregister(`rebalance-check:${wallet}`);
+    logger.info("Auto-rebalancing stopped", { wallet });
   }
 
-  private async checkAndTriggerRebalances(threshold: number) {
+  startAutoRebalancing(threshold: number = 5) {
+    for (const wallet of this.getMonitoredWallets()) {
+      this.startWalletRebalancing(wallet, threshold);
+    }
+  }
+
+  private async checkAndTriggerRebalances(wallet: string, threshold: number) {
+    const walletPositions = storage.getUserPositions(wallet);
     logger.debug(
       "[AutoRebalance] Checking positions for rebalancing opportunities",
-      { positionCount: storage.getAllPositions().length }
+      { wallet, positionCount: walletPositions.length }
     );
-    const allPositions = storage.getAllPositions();
 
-    for (const positionData of allPositions) {
+    for (const positionData of walletPositions) {
       try {
-        const shouldRebalance = await this.shouldRebalance(
+        const decision = rebalanceStrategyService.evaluate(
           positionData,
           threshold
         );
@@ -258,9 +314,11 @@ export class PositionMonitor {
         // Add delay between checks to avoid rate limiting
         await new Promise((resolve) => setTimeout(resolve, 500));
 
-        if (shouldRebalance) {
+        if (decision.shouldRebalance) {
           logger.info("Position needs rebalancing", {
             positionAddress: positionData.position.address,
+            strategy: decision.strategy,
+            reason: decision.reason,
             isInRange: positionData.riskMetrics.isInRange,
             priceDistance: positionData.riskMetrics.priceDistance,
           });
@@ -270,8 +328,9 @@ export class PositionMonitor {
             id: `rebalance_alert_${Date.now()}_${positionData.position.address}`,
             type: "warning" as const,
             title: "Rebalance Recommended",
-            message: `Position ${positionData.position.address.slice(0, 8)}... is ${positionData.riskMetrics.isInRange ? "approaching range boundary" : "out of range"}`,
+            message: `Position ${positionData.position.address.slice(0, 8)}... needs rebalancing (${rebalanceStrategyService.describeReason(decision.reason).toLowerCase()})`,
             positionAddress: positionData.position.address,
+            ...alertValuation(positionData),
             timestamp: Date.now(),
             read: false,
           };
@@ -293,9 +352,7 @@ export class PositionMonitor {
             data: {
               positionAddress: positionData.position.address,
               shouldRebalance: true,
-              reason: positionData.riskMetrics.isInRange
-                ? "approaching_boundary"
-                : "out_of_range",
+              reason: decision.reason || "out_of_range",
               timestamp: Date.now(),
             },
           });
@@ -309,46 +366,10 @@ export class PositionMonitor {
     }
   }
 
-  private async shouldRebalance(
-    positionData: PositionData,
-    threshold: number
-  ): Promise<boolean> {
-    const { pool, position, riskMetrics } = positionData;
-
-    // Check if position is out of range
-    if (!riskMetrics.isInRange) {
-      return true;
-    }
-
-    // Check if price is close to range boundaries
-    const distanceToLower = Math.abs(pool.activeId - position.lowerBinId);
-    const distanceToUpper = Math.abs(pool.activeId - position.upperBinId);
-    const positionWidth = position.upperBinId - position.lowerBinId;
-
-    const minDistance = Math.min(distanceToLower, distanceToUpper);
-    const distancePercentage = (minDistance / positionWidth) * 100;
-
-    if (distancePercentage < threshold) {
-      return true;
-    }
-
-    return false;
-  }
-
   stopMonitoring() {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
-      logger.info("Position monitoring stopped");
+    for (const wallet of this.getMonitoredWallets()) {
+      this.stopWallet(wallet);
     }
-
-    if (this.rebalanceCheckInterval) {
-      clearInterval(this.rebalanceCheckInterval);
-      this.rebalanceCheckInterval = null;
-      logger.info("Auto-rebalancing stopped");
-    }
-
-    this.monitoredWallets = [];
   }
 }
 
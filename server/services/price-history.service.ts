@@ -0,0 +1,214 @@
+/**
+ * Price History Service
+ * Samples pool prices and rolls them into persisted OHLC candles
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import { config } from "../config";
+import { dlmmClient } from "../solana/dlmm-client";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { priceOracle } from "../oracle";
+import { scheduler } from "../scheduler";
+import { PricePoint } from "../types";
+import type { Candle, CandleInterval } from "../../shared/schema";
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60000,
+  "5m": 300000,
+  "1h": 3600000,
+  "1d": 86400000,
+};
+
+export const CANDLE_INTERVALS = Object.keys(INTERVAL_MS) as CandleInterval[];
+
+export class PriceHistoryService {
+
+  /**
+   * Record a price sample and fold it into every candle interval
+   */
+  recordPrice(
+    poolAddress: string,
+    price: number,
+    timestamp: number = Date.now()
+  ): void {
+    if (!Number.isFinite(price) || price <= 0) {
+      logger.warn("Ignoring invalid price sample", { poolAddress, price });
+      return;
+    }
+
+    // One transaction for the sample and every candle it updates
+    storage.batch(() => {
+      storage.addPricePoint(poolAddress, price, timestamp);
+
+      for (const interval of CANDLE_INTERVALS) {
+        const bucket = this.bucketStart(timestamp, interval);
+        const existing = storage.getCandle(poolAddress, interval, bucket);
+
+        const candle: Candle = existing
+          ? {
+              ...existing,
+              high: Math.max(existing.high, price),
+              low: Math.min(existing.low, price),
+              close: price,
+              samples: existing.samples + 1,
+            }
+          : {
+              timestamp: bucket,
+              open: price,
+              high: price,
+              low: price,
+              close: price,
+              samples: 1,
+            };
+
+        storage.saveCandle(poolAddress, interval, candle);
+      }
+    });
+  }
+
+  /**
+   * Get OHLC candles for a pool
+   */
+  getCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from?: number,
+    to?: number
+  ): Candle[] {
+    return storage.getCandles(poolAddress, interval, from, to);
+  }
+
+  /**
+   * Get a close-price series for a pool
+   */
+  getPriceSeries(
+    poolAddress: string,
+    interval: CandleInterval,
+    from?: number,
+    to?: number
+  ): PricePoint[] {
+    return this.getCandles(poolAddress, interval, from, to).map((c) => ({
+      timestamp: c.timestamp,
+      price: c.close,
+    }));
+  }
+
+  /**
+   * Most recent recorded price for a pool
+   */
+  getLatestPrice(poolAddress: string): number | undefined {
+    for (const interval of CANDLE_INTERVALS) {
+      const candles = this.getCandles(
+        poolAddress,
+        interval,
+        Date.now() - config.priceHistory.retention[interval]
+      );
+      if (candles.length > 0) {
+        return candles[candles.length - 1].close;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Finest candle interval whose retention still covers the timeframe
+   */
+  resolveInterval(timeframeMs: number): CandleInterval {
+    return (
+      CANDLE_INTERVALS.find(
+        (interval) => config.priceHistory.retention[interval] >= timeframeMs
+      ) || "1d"
+    );
+  }
+
+  getIntervalMs(interval: CandleInterval): number {
+    return INTERVAL_MS[interval];
+  }
+
+  /**
+   * Sample the current price of each pool
+   */
+  async samplePools(poolAddresses: string[]): Promise<void> {
+    for (const poolAddress of poolAddresses) {
+      try {
+        const poolInfo = await dlmmClient.getPoolInfo(
+          new PublicKey(poolAddress)
+        );
+        this.recordPrice(poolAddress, poolInfo.currentPrice);
+        priceOracle.observePool(poolInfo);
+      } catch (error) {
+        logger.warn("Failed to sample pool price", {
+          poolAddress,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Pools to sample: configured, saved in settings, or holding a tracked position
+   */
+  getSampledPools(): string[] {
+    const pools = new Set<string>(config.pools.monitored);
+    for (const pool of storage.getSettings().monitoring?.pools || []) {
+      pools.add(pool);
+    }
+    for (const position of storage.getAllPositions()) {
+      pools.add(position.position.poolAddress);
+    }
+    return Array.from(pools);
+  }
+
+  /**
+   * Drop samples and candles older than their retention window
+   */
+  enforceRetention(now: number = Date.now()): void {
+    const { retention } = config.priceHistory;
+    storage.prunePriceHistory(now - retention.raw);
+    for (const interval of CANDLE_INTERVALS) {
+      storage.pruneCandles(interval, now - retention[interval]);
+    }
+    logger.debug("Price history retention enforced");
+  }
+
+  startSampling() {
+    scheduler.register({
+      name: "price-sampling",
+      description: "Sample pool prices into the candle store",
+      trigger: {
+        type: "interval",
+        everyMs: config.priceHistory.sampleIntervalMs,
+      },
+      runOnStart: true,
+      run: () => this.samplePools(this.getSampledPools()),
+    });
+
+    scheduler.register({
+      name: "price-retention",
+      description: "Prune price samples and candles past their retention",
+      trigger: {
+        type: "interval",
+        everyMs: config.priceHistory.retentionCheckIntervalMs,
+      },
+      runOnStart: true,
+      run: () => this.enforceRetention(),
+    });
+
+    logger.info("Price history sampling started", {
+      intervalMs: config.priceHistory.sampleIntervalMs,
+    });
+  }
+
+  stopSampling() {
+    scheduler.unregister("price-sampling");
+    scheduler.unregister("price-retention");
+  }
+
+  private bucketStart(timestamp: number, interval: CandleInterval): number {
+    const size = INTERVAL_MS[interval];
+    return Math.floor(timestamp / size) * size;
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,161 @@
+/**
+ * Rebalance Strategy Service
+ * Resolves each position's strategy and runs it against live position data
+ */
+
+import { config } from "../config";
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import {
+  DEFAULT_VOLATILITY,
+  getStrategy,
+  type BinRange,
+  type RebalanceDecision,
+  type RebalanceReason,
+  type StrategyContext,
+} from "../strategies";
+import { priceHistoryService } from "./price-history.service";
+import { volatilityTracker } from "./volatility-tracker";
+import {
+  PositionStrategySchema,
+  type PositionData,
+  type PositionStrategy,
+  type RebalanceStrategyName,
+} from "../../shared/schema";
+
+const TREND_WINDOW_MS = 86400000; // 24 hours
+
+const REASON_LABELS: Record<RebalanceReason, string> = {
+  out_of_range: "Position out of range",
+  approaching_boundary: "Price approaching range boundary",
+  width_drift: "Volatility changed since the range was set",
+};
+
+export class RebalanceStrategyService {
+  /**
+   * Strategy selected for a position, or the configured default
+   */
+  getPositionStrategy(positionAddress: string): PositionStrategy {
+    return (
+      storage.getPositionStrategy(positionAddress) || {
+        name: config.rebalancing.defaultStrategy,
+        options: {},
+      }
+    );
+  }
+
+  setPositionStrategy(
+    positionAddress: string,
+    input: unknown
+  ): PositionStrategy {
+    const parsed = PositionStrategySchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid rebalance strategy", {
+        issues: parsed.error.issues,
+      });
+    }
+
+    storage.setPositionStrategy(positionAddress, parsed.data);
+    logger.info("Position strategy updated", {
+      positionAddress,
+      strategy: parsed.data.name,
+      options: parsed.data.options,
+    });
+
+    return parsed.data;
+  }
+
+  resetPositionStrategy(positionAddress: string) {
+    storage.removePositionStrategy(positionAddress);
+  }
+
+  /**
+   * Inputs a strategy needs, taken from the stored position and pool history
+   */
+  buildContext(
+    positionData: PositionData,
+    selection: PositionStrategy = this.getPositionStrategy(
+      positionData.position.address
+    ),
+    volatility?: number
+  ): StrategyContext {
+    const poolAddress = positionData.pool.address;
+
+    return {
+      activeBinId: positionData.pool.activeId,
+      binStep: positionData.pool.binStep,
+      volatility:
+        volatility ||
+        volatilityTracker.getVolatilityData(poolAddress)?.volatility ||
+        DEFAULT_VOLATILITY,
+      priceHistory: priceHistoryService.getPriceSeries(
+        poolAddress,
+        priceHistoryService.resolveInterval(TREND_WINDOW_MS),
+        Date.now() - TREND_WINDOW_MS
+      ),
+      currentRange: {
+        lowerBinId: positionData.position.lowerBinId,
+        upperBinId: positionData.position.upperBinId,
+      },
+      options: selection.options,
+    };
+  }
+
+  /**
+   * Ask the position's strategy whether it should be rebalanced
+   */
+  evaluate(
+    positionData: PositionData,
+    threshold: number
+  ): RebalanceDecision & { strategy: RebalanceStrategyName } {
+    const selection = this.getPositionStrategy(positionData.position.address);
+    const decision = getStrategy(selection.name).shouldRebalance(
+      this.buildContext(positionData, selection),
+      threshold
+    );
+
+    logger.debug("Rebalance check", {
+      positionAddress: positionData.position.address,
+      strategy: selection.name,
+      activeBinId: positionData.pool.activeId,
+      range: [
+        positionData.position.lowerBinId,
+        positionData.position.upperBinId,
+      ],
+      threshold,
+      ...decision,
+    });
+
+    return { ...decision, strategy: selection.name };
+  }
+
+  /**
+   * New range for a position from its strategy
+   */
+  calculateRange(
+    positionData: PositionData,
+    volatility?: number
+  ): BinRange & { strategy: RebalanceStrategyName } {
+    const selection = this.getPositionStrategy(positionData.position.address);
+    const context = this.buildContext(positionData, selection, volatility);
+    const range = getStrategy(selection.name).calculateRange(context);
+
+    logger.info("Calculated rebalance range", {
+      positionAddress: positionData.position.address,
+      strategy: selection.name,
+      activeBinId: context.activeBinId,
+      volatility: context.volatility,
+      ...range,
+      bins: range.upperBinId - range.lowerBinId + 1,
+    });
+
+    return { ...range, strategy: selection.name };
+  }
+
+  describeReason(reason: RebalanceReason | undefined): string {
+    return reason ? REASON_LABELS[reason] : "Position optimization";
+  }
+}
+
+export const rebalanceStrategyService = new RebalanceStrategyService();
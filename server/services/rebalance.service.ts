@@ -3,18 +3,24 @@
  * Simple, clean rebalancing logic for DLMM positions
  */
 
-import { PublicKey, Transaction } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import { logger } from "../utils/logger";
 import { dlmmClient } from "../solana/dlmm-client";
 import storage from "../storage";
-import { ApiResponse, RebalanceParams } from "../types";
+import { rebalanceStrategyService } from "./rebalance-strategy.service";
+import { ApiResponse, RebalanceParams, RebalanceSwap } from "../types";
+import type { PositionData } from "../../shared/schema";
 
 export class RebalanceService {
   /**
    * Check if a position needs rebalancing
-   * Position needs rebalancing if active bin is outside the position range
+   * Delegates to the position's rebalance strategy; with the default
+   * threshold of 0 only an out-of-range position qualifies
    */
-  async shouldRebalance(positionAddress: string): Promise<boolean> {
+  async shouldRebalance(
+    positionAddress: string,
+    threshold: number = 0
+  ): Promise<boolean> {
     try {
       logger.info("Checking if position needs rebalancing", {
         positionAddress,
@@ -26,23 +32,22 @@ export class RebalanceService {
         return false;
       }
 
-      const { position, pool } = positionData;
-      const activeBinId = pool.activeId;
-      const { lowerBinId, upperBinId } = position;
-
-      // Position needs rebalancing if active bin is outside range
-      const needsRebalance =
-        activeBinId <= lowerBinId || activeBinId >= upperBinId;
+      const decision = rebalanceStrategyService.evaluate(
+        positionData,
+        threshold
+      );
 
       logger.info("Rebalance check result", {
         positionAddress,
-        activeBinId,
-        lowerBinId,
-        upperBinId,
-        needsRebalance,
+        strategy: decision.strategy,
+        activeBinId: positionData.pool.activeId,
+        lowerBinId: positionData.position.lowerBinId,
+        upperBinId: positionData.position.upperBinId,
+        needsRebalance: decision.shouldRebalance,
+        reason: decision.reason,
       });
 
-      return needsRebalance;
+      return decision.shouldRebalance;
     } catch (error) {
       logger.error("Failed to check rebalance necessity", {
         positionAddress,
@@ -54,82 +59,16 @@ export class RebalanceService {
 
   /**
    * Calculate optimal bin range for rebalancing
-   * Uses volatility to determine range width
+   * Uses the position's rebalance strategy; volatility overrides the tracked value
    */
   calculateOptimalRange(
-    poolAddress: string,
-    activeBinId: number,
-    volatility: number
+    positionData: PositionData,
+    volatility?: number
   ): { lowerBinId: number; upperBinId: number } {
-    logger.info("Calculating optimal range", {
-      poolAddress,
-      activeBinId,
-      volatility,
-    });
-
-    // Calculate range width based on volatility
-    // Low volatility (0-30): narrow range (20-40 bins)
-    // Medium volatility (30-70): medium range (40-80 bins)
-    // High volatility (70-100): wide range (80-120 bins)
-    let rangeWidth: number;
-
-    if (volatility < 30) {
-      rangeWidth = 20 + Math.floor(volatility * 0.67); // 20-40 bins
-    } else if (volatility < 70) {
-      rangeWidth = 40 + Math.floor((volatility - 30) * 1.0); // 40-80 bins
-    } else {
-      rangeWidth = 80 + Math.floor((volatility - 70) * 1.33); // 80-120 bins
-    }
-
-    // Cap at 120 bins (leave margin below 140 max)
-    rangeWidth = Math.min(rangeWidth, 120);
-
-    // CRITICAL: Use asymmetric range to ensure active bin is strictly inside
-    // Split range asymmetrically to guarantee activeBinId is NOT on boundary
-    const halfWidthLeft = Math.floor(rangeWidth / 2);
-    const halfWidthRight = rangeWidth - halfWidthLeft;
-
-    const lowerBinId = activeBinId - halfWidthLeft;
-    const upperBinId = activeBinId + halfWidthRight;
-
-    // Validate: active bin must be strictly inside
-    const relativeLower = lowerBinId - activeBinId;
-    const relativeUpper = upperBinId - activeBinId;
-
-    logger.info("Optimal range calculated", {
-      poolAddress,
-      activeBinId,
-      volatility,
-      rangeWidth,
-      halfWidthLeft,
-      halfWidthRight,
-      lowerBinId,
-      upperBinId,
-      relativeLower,
-      relativeUpper,
-      validation: {
-        lowerLessThanActive: lowerBinId < activeBinId,
-        upperGreaterThanActive: upperBinId > activeBinId,
-        relativeLowerNegative: relativeLower < 0,
-        relativeUpperPositive: relativeUpper > 0,
-      },
-    });
-
-    // Final validation
-    if (lowerBinId >= activeBinId || upperBinId <= activeBinId) {
-      logger.error(
-        "CRITICAL: Calculated range does not strictly contain active bin",
-        {
-          lowerBinId,
-          upperBinId,
-          activeBinId,
-        }
-      );
-      throw new Error(
-        "Invalid range calculation: active bin not strictly inside range"
-      );
-    }
-
+    const { lowerBinId, upperBinId } = rebalanceStrategyService.calculateRange(
+      positionData,
+      volatility
+    );
     return { lowerBinId, upperBinId };
   }
 
@@ -141,6 +80,7 @@ export class RebalanceService {
       transaction: string;
       newRange: { lowerBinId: number; upperBinId: number };
       reason: string;
+      swap?: RebalanceSwap;
     }>
   > {
     try {
@@ -158,12 +98,10 @@ export class RebalanceService {
       const { position, pool } = positionData;
       const activeBinId = pool.activeId;
 
-      // Calculate optimal range
-      const volatility = params.targetVolatility || 50; // Default to medium volatility
+      // Calculate optimal range (falls back to tracked pool volatility)
       const newRange = this.calculateOptimalRange(
-        pool.address,
-        activeBinId,
-        volatility
+        positionData,
+        params.targetVolatility
       );
 
       // Determine rebalance reason
@@ -174,36 +112,39 @@ export class RebalanceService {
         reason = "Price above range";
       }
 
-      // Build unsigned transaction
-      // Note: This is a simplified version. In production, you would:
-      // 1. Call DLMM SDK to build the actual rebalance transaction
-      // 2. Serialize it without signing
-      // 3. Return the base64 encoded transaction
-
-      // For now, we'll create a placeholder transaction structure
-      // In real implementation, use dlmmClient to build the actual transaction
-      const transaction = new Transaction();
-      // TODO: Add actual rebalance instructions using DLMM SDK
-      // transaction.add(...rebalanceInstructions);
-
-      const serialized = transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false,
-      });
-      const base64Transaction = serialized.toString("base64");
+      // Withdraw the position and re-deposit its liquidity in the same
+      // transaction, swapped to the ratio the new range needs (an
+      // out-of-range position holds only one token)
+      const result = await dlmmClient.rebalancePosition(
+        position,
+        newRange.lowerBinId,
+        newRange.upperBinId,
+        new PublicKey(position.owner),
+        position.liquidityX,
+        position.liquidityY,
+        undefined,
+        {
+          swapToRatio: true,
+          slippageBps: params.slippageBps,
+          withdrawOld: true,
+        }
+      );
+      const base64Transaction = result.transaction;
 
       logger.info("Unsigned rebalance transaction created", {
         positionAddress,
-        newRange,
+        newRange: result.newRange,
         reason,
+        swap: result.swap,
       });
 
       return {
         success: true,
         data: {
           transaction: base64Transaction,
-          newRange,
+          newRange: result.newRange,
           reason,
+          swap: result.swap,
         },
         timestamp: Date.now(),
       };
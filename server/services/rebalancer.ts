@@ -1,13 +1,19 @@
 import { Keypair, PublicKey } from "@solana/web3.js";
 import { dlmmClient } from "../solana/dlmm-client";
 import storage from "../storage";
-import { volatilityTracker } from "./volatility-tracker";
 import { feeOptimizer } from "../utils/fee-optimizer";
 import { telegramBot } from "./telegram-bot";
-import type { RebalanceEvent, RebalanceParams } from "../../shared/schema";
+import { rebalanceStrategyService } from "./rebalance-strategy.service";
+import { alertValuation } from "../oracle";
+import { scheduler } from "../scheduler";
+import type {
+  PositionData,
+  RebalanceEvent,
+  RebalanceParams,
+} from "../../shared/schema";
 
 export class Rebalancer {
-  private rebalancingInterval: NodeJS.Timeout | null = null;
+  // One schedule per owner wallet
   private readonly CHECK_INTERVAL = 300000; // 5 minutes
 
   async shouldRebalance(
@@ -17,84 +23,35 @@ export class Rebalancer {
     const positionData = storage.getPosition(positionAddress);
     if (!positionData) return false;
 
-    const { pool, position, riskMetrics } = positionData;
+    const decision = rebalanceStrategyService.evaluate(positionData, threshold);
 
-    // Check if position is out of range
-    if (!riskMetrics.isInRange) {
-      console.log("[Rebalancer] Position out of range", {
+    if (decision.shouldRebalance) {
+      console.log("[Rebalancer] Position needs rebalancing", {
         positionAddress,
-        activeId: pool.activeId,
-        range: [position.lowerBinId, position.upperBinId],
+        strategy: decision.strategy,
+        reason: decision.reason,
+        activeId: positionData.pool.activeId,
+        range: [
+          positionData.position.lowerBinId,
+          positionData.position.upperBinId,
+        ],
+        distancePercentage: decision.distancePercentage,
+        threshold,
       });
-      return true;
     }
 
-    // Check if price is close to range boundaries (within threshold %)
-    const distanceToLower = Math.abs(pool.activeId - position.lowerBinId);
-    const distanceToUpper = Math.abs(pool.activeId - position.upperBinId);
-    const positionWidth = position.upperBinId - position.lowerBinId;
-
-    const minDistance = Math.min(distanceToLower, distanceToUpper);
-    const distancePercentage = (minDistance / positionWidth) * 100;
-
-    console.log("[Rebalancer] Position range check", {
-      positionAddress,
-      activeId: pool.activeId,
-      range: [position.lowerBinId, position.upperBinId],
-      distanceToLower,
-      distanceToUpper,
-      positionWidth,
-      minDistance,
-      distancePercentage,
-      threshold,
-      needsRebalance: distancePercentage < threshold,
-    });
-
-    // Only rebalance if price is within threshold % of range edge
-    if (distancePercentage < threshold) {
-      console.log(
-        "[Rebalancer] Position needs rebalancing - too close to edge",
-        {
-          positionAddress,
-          distancePercentage,
-          threshold,
-        }
-      );
-      return true;
-    }
-
-    return false;
+    return decision.shouldRebalance;
   }
 
-  calculateOptimalRange(
-    poolAddress: string,
-    currentBinId: number,
-    volatility: number
-  ): { lowerBinId: number; upperBinId: number } {
-    const finalBinCount = 16; // Fixed per position
-    const half = Math.floor((finalBinCount - 1) / 2); // 7
-    const lowerBinId = currentBinId - half; // e.g., -7
-    const upperBinId = currentBinId + (finalBinCount - 1 - half); // e.g., +8
-
-    const calculatedBinCount = upperBinId - lowerBinId + 1;
-    if (calculatedBinCount !== finalBinCount)
-      throw new Error(`Bin count mismatch: ${calculatedBinCount}`);
-
-    const relativeLeft = lowerBinId - currentBinId;
-    const relativeRight = upperBinId - currentBinId;
-    if (relativeLeft >= 0 || relativeRight <= 0)
-      throw new Error(
-        `Invalid relatives: left=${relativeLeft}, right=${relativeRight}`
-      );
-
-    console.log("Calculated optimal range (16 bins)", {
-      currentBinId,
-      lowerBinId,
-      upperBinId,
-      relativeLeft,
-      relativeRight,
-    });
-
+  /**
+   * New range from the position's rebalance strategy
+   */
+  calculateOptimalRange(positionData: PositionData): {
+    lowerBinId: number;
+    upperBinId: number;
+  } {
+    const { lowerBinId, upperBinId } =
+      rebalanceStrategyService.calculateRange(positionData);
     return { lowerBinId, upperBinId };
   }
 
@@ -170,6 +127,7 @@ export class Rebalancer {
         title: "Position Rebalanced",
         message: `Position ${params.positionAddress.slice(0, 8)}... successfully rebalanced`,
         positionAddress: params.positionAddress,
+        ...alertValuation(positionData),
         timestamp: Date.now(),
         read: false,
       });
@@ -196,6 +154,7 @@ export class Rebalancer {
         title: "Rebalance Failed",
         message: `Failed to rebalance position: ${error instanceof Error ? error.message : "Unknown error"}`,
         positionAddress: params.positionAddress,
+        ...alertValuation(positionData),
         timestamp: Date.now(),
         read: false,
       });
@@ -208,30 +167,19 @@ export class Rebalancer {
     const positions = storage.getUserPositions(owner.publicKey.toString());
 
     for (const positionData of positions) {
-      const shouldRebal = await this.shouldRebalance(
-        positionData.position.address,
+      const decision = rebalanceStrategyService.evaluate(
+        positionData,
         threshold
       );
 
-      if (shouldRebal) {
-        const volatilityData = volatilityTracker.getVolatilityData(
-          positionData.pool.address
-        );
-        const volatility = volatilityData?.volatility || 50;
-
-        const newRange = this.calculateOptimalRange(
-          positionData.pool.address,
-          positionData.pool.activeId,
-          volatility
-        );
+      if (decision.shouldRebalance) {
+        const newRange = this.calculateOptimalRange(positionData);
 
         const params: RebalanceParams = {
           positionAddress: positionData.position.address,
           newLowerBinId: newRange.lowerBinId,
           newUpperBinId: newRange.upperBinId,
-          reason: positionData.riskMetrics.isInRange
-            ? "Price approaching range boundary"
-            : "Position out of range",
+          reason: rebalanceStrategyService.describeReason(decision.reason),
         };
 
         try {
@@ -247,22 +195,29 @@ export class Rebalancer {
   }
 
   startAutoRebalancing(owner: Keypair, threshold: number = 5) {
-    if (this.rebalancingInterval) {
-      clearInterval(this.rebalancingInterval);
-    }
+    const wallet = owner.publicKey.toString();
 
-    this.rebalancingInterval = setInterval(async () => {
-      await this.checkAndRebalancePositions(owner, threshold);
-    }, this.CHECK_INTERVAL);
+    scheduler.register({
+      name: `rebalancer:${wallet}`,
+      description: "Rebalance the owner's positions that need it",
+      trigger: { type: "interval", everyMs: this.CHECK_INTERVAL },
+      run: () => this.checkAndRebalancePositions(owner, threshold),
+    });
 
-    console.log("Auto-rebalancing started");
+    console.log(`Auto-rebalancing started for ${wallet}`);
   }
 
-  stopAutoRebalancing() {
-    if (this.rebalancingInterval) {
-      clearInterval(this.rebalancingInterval);
-      this.rebalancingInterval = null;
-      console.log("Auto-rebalancing stopped");
+  /**
+   * Stop one owner's schedule, or every schedule when no wallet is given
+   */
+  stopAutoRebalancing(wallet?: string) {
+    const wallets = wallet
+      ? [wallet]
+      : scheduler.names("rebalancer:").map((name) => name.split(":")[1]);
+    for (const key of wallets) {
+      if (!scheduler.has(`rebalancer:${key}`)) continue;
+      scheduler.unregister(`rebalancer:${key}`);
+      console.log(`Auto-rebalancing stopped for ${key}`);
     }
   }
 }
@@ -12,8 +12,125 @@ import {
   SimulationSnapshot,
   PricePoint,
   ApiResponse,
+  BacktestParams,
+  BacktestResult,
+  BacktestCandle,
+  BacktestBinFees,
+  BacktestRebalance,
+  BacktestSnapshot,
+  MonteCarloDistribution,
+  MonteCarloSummary,
+  Percentiles,
+  SweepAxis,
+  SweepHeatmap,
+  SweepMetric,
+  SweepParams,
+  SweepResult,
+  SweepRow,
 } from "../types";
 import { ValidationError } from "../utils/errors";
+import { binIdToPrice, priceToBinId } from "../utils/bin-math";
+import { createRandom, randomSeed, type Random } from "../utils/random";
+import { priceHistoryService } from "./price-history.service";
+import {
+  DEFAULT_VOLATILITY,
+  getStrategy,
+  type BinRange,
+  type StrategyContext,
+} from "../strategies";
+import type {
+  CandleInterval,
+  PositionStrategy,
+  RebalanceStrategyName,
+} from "../../shared/schema";
+
+const MAX_BACKTEST_CANDLES = 50000;
+const MAX_TIMELINE_POINTS = 500;
+const DEFAULT_SIMULATION_BIN_STEP = 25;
+const STRATEGY_WINDOW_MS = 86400000; // price history handed to strategies
+const YEAR_MS = 365 * 86400000;
+const MAX_SIMULATION_ITERATIONS = 1000;
+const MAX_MONTE_CARLO_STEPS = 2000000; // iterations x hours
+const HISTOGRAM_BUCKETS = 20;
+const MAX_SWEEP_PATHS = 100;
+const MAX_SWEEP_AXIS_VALUES = 50;
+const MAX_SWEEP_COMBINATIONS = 500;
+const MAX_SWEEP_STEPS = 5000000; // combinations x paths x hours
+export const SWEEP_METRICS: SweepMetric[] = [
+  "totalReturn",
+  "feesEarned",
+  "maxDrawdown",
+  "sharpeRatio",
+];
+
+interface BinReserves {
+  x: number; // base token amount
+  y: number; // quote token amount
+}
+
+/**
+ * Trailing window over a price series: recent prices and realized volatility
+ * as of the current step, without looking ahead
+ */
+class TrailingWindow {
+  private start = 0;
+  private end = 0; // exclusive
+  private sum = 0;
+  private sumSq = 0;
+
+  constructor(
+    private readonly points: PricePoint[],
+    private readonly spanMs: number
+  ) {}
+
+  /**
+   * Move the window so it ends at index (inclusive)
+   */
+  advance(index: number) {
+    while (this.end <= index) {
+      if (this.end > this.start) {
+        const r = this.logReturn(this.end);
+        this.sum += r;
+        this.sumSq += r * r;
+      }
+      this.end++;
+    }
+
+    const cutoff = this.points[index].timestamp - this.spanMs;
+    while (this.start < index && this.points[this.start].timestamp < cutoff) {
+      const r = this.logReturn(this.start + 1);
+      this.sum -= r;
+      this.sumSq -= r * r;
+      this.start++;
+    }
+  }
+
+  prices(): PricePoint[] {
+    return this.points.slice(this.start, this.end);
+  }
+
+  /**
+   * Annualized realized volatility (%), undefined until there are enough returns
+   */
+  volatility(): number | undefined {
+    const count = this.end - 1 - this.start;
+    if (count < 2) return undefined;
+
+    const elapsed =
+      this.points[this.end - 1].timestamp - this.points[this.start].timestamp;
+    if (elapsed <= 0) return undefined;
+
+    const mean = this.sum / count;
+    const variance = Math.max(this.sumSq / count - mean * mean, 0);
+    const periodsPerYear = YEAR_MS / (elapsed / count);
+
+    return Math.sqrt(variance) * Math.sqrt(periodsPerYear) * 100;
+  }
+
+  private logReturn(index: number): number {
+    return Math.log(this.points[index].price / this.points[index - 1].price);
+  }
+}
 
 export class SimulatorService {
   /**
@@ -26,19 +143,35 @@ export class SimulatorService {
       logger.info("Starting strategy simulation", {
         duration: params.duration,
         rebalanceFrequency: params.rebalanceFrequency,
+        iterations: params.iterations,
+        seed: params.seed,
       });
 
       // Validate parameters
       this.validateSimulationParams(params);
 
-      // Generate price path based on volatility
-      const pricePath = this.generatePricePath(
-        params.duration,
-        params.volatilityTarget
-      );
+      // Start from the pool's last recorded price when available
+      const startPrice =
+        (params.poolAddress &&
+          priceHistoryService.getLatestPrice(params.poolAddress)) ||
+        100;
+      const seed = params.seed ?? randomSeed();
 
-      // Run simulation
-      const result = await this.simulate(params, pricePath);
+      let result: SimulationResult;
+      if ((params.iterations || 1) > 1) {
+        result = await this.monteCarlo(params, startPrice, seed);
+      } else {
+        // Generate price path based on volatility
+        const pricePath = this.generatePricePath(
+          params.duration,
+          params.volatilityTarget,
+          startPrice,
+          createRandom(seed)
+        );
+
+        // Run simulation
+        result = await this.simulate(params, pricePath);
+      }
 
       logger.info("Simulation completed", {
         totalReturn: result.totalReturn.toFixed(4),
@@ -63,6 +196,604 @@ export class SimulatorService {
     }
   }
 
+  /**
+   * Replay a historical price series through a DLMM position
+   */
+  async runBacktest(
+    params: BacktestParams
+  ): Promise<ApiResponse<BacktestResult>> {
+    try {
+      logger.info("Starting backtest", {
+        source: params.source,
+        poolAddress: params.poolAddress,
+        candles: params.candles.length,
+        binStep: params.binStep,
+        binCount: params.binCount,
+      });
+
+      this.validateBacktestParams(params);
+
+      const result = this.backtest(params);
+
+      logger.info("Backtest completed", {
+        totalReturn: result.totalReturn.toFixed(4),
+        feesEarned: result.feesEarned.toFixed(4),
+        rebalanceCount: result.rebalanceCount,
+      });
+
+      return {
+        success: true,
+        data: result,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Backtest failed", { error: message });
+
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+
+      throw new Error(`Backtest failed: ${message}`);
+    }
+  }
+
+  /**
+   * Run every combination of strategy, range width, rebalance frequency and
+   * fee rate over the same Monte Carlo price paths
+   */
+  async runSweep(params: SweepParams): Promise<ApiResponse<SweepResult>> {
+    try {
+      logger.info("Starting parameter sweep", {
+        strategies: params.strategies,
+        rangeWidths: params.rangeWidths,
+        rebalanceFrequencies: params.rebalanceFrequencies,
+        feeRates: params.feeRates,
+        paths: params.paths,
+      });
+
+      this.validateSweepParams(params);
+
+      const startPrice =
+        (params.poolAddress &&
+          priceHistoryService.getLatestPrice(params.poolAddress)) ||
+        100;
+
+      // Every combination sees the same paths, so differences come from the
+      // parameters rather than from luck
+      const random = createRandom(params.seed ?? randomSeed());
+      const start = Date.now();
+      const pricePaths = Array.from({ length: params.paths }, () =>
+        this.generatePricePath(
+          params.duration,
+          params.volatilityTarget,
+          startPrice,
+          random,
+          start
+        )
+      );
+
+      const rows: Array<Omit<SweepRow, "rank">> = [];
+      for (const strategyName of params.strategies) {
+        for (const feeRate of params.feeRates) {
+          for (const rangeWidth of params.rangeWidths) {
+            const selection = this.sweepStrategy(strategyName, rangeWidth);
+
+            for (const rebalanceFrequency of params.rebalanceFrequencies) {
+              const results: SimulationResult[] = [];
+              for (const pricePath of pricePaths) {
+                results.push(
+                  await this.simulate(
+                    {
+                      initialLiquidity: params.initialLiquidity,
+                      priceRange: this.simulationRange(
+                        selection,
+                        pricePath[0],
+                        [pricePath[0]],
+                        params.binStep,
+                        params.volatilityTarget
+                      ),
+                      volatilityTarget: params.volatilityTarget,
+                      duration: params.duration,
+                      rebalanceFrequency,
+                      feeRate,
+                      strategy: selection,
+                      binStep: params.binStep,
+                      rebalanceCost: params.rebalanceCost,
+                    },
+                    pricePath
+                  )
+                );
+              }
+
+              rows.push({
+                strategy: strategyName,
+                rangeWidth,
+                rebalanceFrequency,
+                feeRate,
+                ...this.summarizeSweepRuns(results),
+              });
+            }
+          }
+        }
+      }
+
+      // Lower drawdown is better; every other metric ranks high to low
+      const direction = params.rankBy === "maxDrawdown" ? 1 : -1;
+      const ranked = [...rows]
+        .sort((a, b) => direction * (a[params.rankBy] - b[params.rankBy]))
+        .map((row, index) => ({ rank: index + 1, ...row }));
+
+      const result: SweepResult = {
+        paths: params.paths,
+        duration: params.duration,
+        startPrice,
+        rankBy: params.rankBy,
+        combinations: rows.length,
+        ranked,
+        heatmaps: this.buildSweepHeatmaps(params, rows),
+      };
+
+      logger.info("Parameter sweep completed", {
+        combinations: result.combinations,
+        best: ranked[0],
+      });
+
+      return {
+        success: true,
+        data: result,
+        timestamp: Date.now(),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Parameter sweep failed", { error: message });
+
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+
+      throw new Error(`Parameter sweep failed: ${message}`);
+    }
+  }
+
+  /**
+   * Expand a sweep axis given as a list of values or { min, max, step }
+   */
+  expandSweepAxis(
+    axis: SweepAxis | undefined,
+    fallback: number[],
+    label: string
+  ): number[] {
+    if (axis === undefined) return fallback;
+
+    let values: number[];
+    if (Array.isArray(axis)) {
+      values = axis.map(Number);
+    } else if (axis && typeof axis === "object") {
+      const min = Number(axis.min);
+      const max = Number(axis.max);
+      const step = Number(axis.step);
+      if (!(step > 0) || !(max >= min)) {
+        throw new ValidationError(
+          `${label} range needs min <= max and a positive step`
+        );
+      }
+      if ((max - min) / step + 1 > MAX_SWEEP_AXIS_VALUES) {
+        throw new ValidationError(
+          `${label} range has more than ${MAX_SWEEP_AXIS_VALUES} values`
+        );
+      }
+      values = [];
+      // Tolerance keeps fractional steps from dropping the max to rounding
+      for (let v = min; v <= max + step * 1e-9; v += step) {
+        values.push(Number(v.toFixed(10)));
+      }
+    } else {
+      throw new ValidationError(
+        `${label} must be an array or { min, max, step }`
+      );
+    }
+
+    if (values.length === 0 || values.some((v) => !Number.isFinite(v))) {
+      throw new ValidationError(`${label} needs at least one numeric value`);
+    }
+    if (values.length > MAX_SWEEP_AXIS_VALUES) {
+      throw new ValidationError(
+        `${label} has more than ${MAX_SWEEP_AXIS_VALUES} values`
+      );
+    }
+
+    return Array.from(new Set(values)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Load recorded pool candles for a backtest
+   */
+  loadRecordedCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from?: number,
+    to?: number
+  ): BacktestCandle[] {
+    return priceHistoryService
+      .getCandles(poolAddress, interval, from, to)
+      .map(({ timestamp, open, high, low, close }) => ({
+        timestamp,
+        open,
+        high,
+        low,
+        close,
+      }));
+  }
+
+  /**
+   * Parse an uploaded price series.
+   * Accepts JSON (array of objects or [timestamp, price] pairs) or CSV with a
+   * header row containing timestamp/time/date and price/close (open/high/low optional).
+   */
+  parsePriceSeries(input: string | unknown[]): BacktestCandle[] {
+    let rows: Array<Record<string, unknown>>;
+
+    if (Array.isArray(input)) {
+      rows = this.normalizeJsonRows(input);
+    } else if (typeof input === "string") {
+      const trimmed = input.trim();
+      if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(trimmed);
+        } catch {
+          throw new ValidationError("Price series is not valid JSON");
+        }
+        const list = Array.isArray(parsed)
+          ? parsed
+          : (parsed as { data?: unknown }).data;
+        if (!Array.isArray(list)) {
+          throw new ValidationError("JSON price series must be an array");
+        }
+        rows = this.normalizeJsonRows(list);
+      } else {
+        rows = this.parseCsvRows(trimmed);
+      }
+    } else {
+      throw new ValidationError("Price series must be CSV text or a JSON array");
+    }
+
+    const candles = rows.map((row, index) => {
+      const timestamp = this.parseTimestamp(
+        row.timestamp ?? row.time ?? row.date ?? row.t
+      );
+      const close = Number(row.close ?? row.price ?? row.c);
+      const open = row.open ?? row.o;
+      const high = row.high ?? row.h;
+      const low = row.low ?? row.l;
+
+      const candle: BacktestCandle = {
+        timestamp,
+        open: open !== undefined ? Number(open) : close,
+        high: high !== undefined ? Number(high) : close,
+        low: low !== undefined ? Number(low) : close,
+        close,
+      };
+
+      const prices = [candle.open, candle.high, candle.low, candle.close];
+      if (
+        !Number.isFinite(timestamp) ||
+        prices.some((p) => !Number.isFinite(p) || p <= 0)
+      ) {
+        throw new ValidationError(
+          `Invalid price series row ${index + 1}: expected a timestamp and positive prices`
+        );
+      }
+
+      return candle;
+    });
+
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Walk the price path bin by bin, converting reserves and accruing swap fees
+   */
+  private backtest(params: BacktestParams): BacktestResult {
+    const { candles, binStep } = params;
+    const feeRate = params.feeRate / 10000;
+    const startPrice = candles[0].open;
+    const endPrice = candles[candles.length - 1].close;
+
+    const selection = this.resolveStrategy(params.strategy);
+    const strategy = getStrategy(selection.name);
+    const options = { binCount: params.binCount, ...selection.options };
+    const window = new TrailingWindow(
+      candles.map((c) => ({ timestamp: c.timestamp, price: c.close })),
+      STRATEGY_WINDOW_MS
+    );
+    const contextAt = (
+      activeBinId: number,
+      currentRange?: BinRange
+    ): StrategyContext => ({
+      activeBinId,
+      binStep,
+      volatility: window.volatility() || DEFAULT_VOLATILITY,
+      priceHistory: window.prices(),
+      currentRange,
+      options,
+    });
+
+    let activeBinId = priceToBinId(startPrice, binStep);
+    let { bins, range } = this.deployLiquidity(
+      params.initialValue,
+      activeBinId,
+      strategy.calculateRange(contextAt(activeBinId)),
+      binStep
+    );
+    const initialBinCount = range.upperBinId - range.lowerBinId + 1;
+
+    // HODL benchmark: the same 50/50 split held without providing liquidity
+    const hodlX = params.initialValue / 2 / startPrice;
+    const hodlY = params.initialValue / 2;
+
+    const binFees = new Map<number, BacktestBinFees>();
+    const rebalances: BacktestRebalance[] = [];
+    const timeline: BacktestSnapshot[] = [];
+    let feesEarned = 0;
+    let rebalanceCosts = 0;
+    let inRangeCount = 0;
+    let peakValue = 0;
+    let maxDrawdown = 0;
+    let lastRebalanceAt = candles[0].timestamp;
+
+    for (let i = 0; i < candles.length; i++) {
+      const candle = candles[i];
+      window.advance(i);
+
+      // Visit the extreme closest to the open first
+      const path =
+        candle.close >= candle.open
+          ? [candle.open, candle.low, candle.high, candle.close]
+          : [candle.open, candle.high, candle.low, candle.close];
+
+      for (const price of path) {
+        const targetBinId = priceToBinId(price, binStep);
+
+        while (activeBinId !== targetBinId) {
+          const movingUp = targetBinId > activeBinId;
+          const reserves = bins.get(activeBinId);
+
+          if (reserves) {
+            const binPrice = binIdToPrice(activeBinId, binStep);
+            // Price leaving a bin upward drains its base token, downward its quote token
+            const swappedValue = movingUp ? reserves.x * binPrice : reserves.y;
+
+            if (swappedValue > 0) {
+              if (movingUp) {
+                reserves.y += swappedValue;
+                reserves.x = 0;
+              } else {
+                reserves.x += swappedValue / binPrice;
+                reserves.y = 0;
+              }
+
+              const fee = swappedValue * feeRate;
+              feesEarned += fee;
+
+              const entry = binFees.get(activeBinId) || {
+                binId: activeBinId,
+                price: binPrice,
+                crossings: 0,
+                fees: 0,
+              };
+              entry.crossings++;
+              entry.fees += fee;
+              binFees.set(activeBinId, entry);
+            }
+          }
+
+          activeBinId += movingUp ? 1 : -1;
+        }
+      }
+
+      const inRange =
+        activeBinId >= range.lowerBinId && activeBinId <= range.upperBinId;
+      if (inRange) inRangeCount++;
+
+      const liquidityValue = this.valueOf(bins, candle.close);
+      const value = liquidityValue + feesEarned;
+
+      if (value > peakValue) {
+        peakValue = value;
+      }
+      const drawdown = peakValue > 0 ? (peakValue - value) / peakValue : 0;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+      }
+
+      timeline.push({
+        timestamp: candle.timestamp,
+        price: candle.close,
+        activeBinId,
+        value,
+        hodlValue: hodlX * candle.close + hodlY,
+        feesAccumulated: feesEarned,
+        inRange,
+      });
+
+      const scheduled =
+        params.rebalanceFrequency > 0 &&
+        candle.timestamp - lastRebalanceAt >=
+          params.rebalanceFrequency * 3600000;
+      const decision = strategy.shouldRebalance(
+        contextAt(activeBinId, range),
+        0
+      );
+
+      if (decision.shouldRebalance || scheduled) {
+        const redeployed = this.deployLiquidity(
+          1,
+          activeBinId,
+          strategy.calculateRange(contextAt(activeBinId)),
+          binStep
+        );
+
+        // Swap needed to move current reserves into the new shape
+        const quoteHeld = this.quoteOf(bins);
+        const targetQuoteShare = this.quoteOf(redeployed.bins);
+        const swapCost =
+          Math.abs(quoteHeld - targetQuoteShare * liquidityValue) * feeRate;
+        const txCost = params.rebalanceCost;
+        const remaining = Math.max(liquidityValue - swapCost - txCost, 0);
+
+        rebalances.push({
+          timestamp: candle.timestamp,
+          price: candle.close,
+          reason: !decision.shouldRebalance
+            ? "scheduled"
+            : decision.reason === "width_drift"
+            ? "width-drift"
+            : "out-of-range",
+          oldRange: range,
+          newRange: redeployed.range,
+          swapCost,
+          txCost,
+        });
+        rebalanceCosts += swapCost + txCost;
+        lastRebalanceAt = candle.timestamp;
+
+        ({ bins, range } = this.deployLiquidity(
+          remaining,
+          activeBinId,
+          redeployed.range,
+          binStep
+        ));
+      }
+    }
+
+    const finalValue = this.valueOf(bins, endPrice) + feesEarned;
+    const hodlValue = hodlX * endPrice + hodlY;
+
+    return {
+      source: params.source,
+      poolAddress: params.poolAddress,
+      strategy: selection.name,
+      binStep,
+      binCount: initialBinCount,
+      startPrice,
+      endPrice,
+      initialValue: params.initialValue,
+      finalValue,
+      hodlValue,
+      totalReturn: (finalValue - params.initialValue) / params.initialValue,
+      vsHodl: hodlValue > 0 ? (finalValue - hodlValue) / hodlValue : 0,
+      feesEarned,
+      rebalanceCount: rebalances.length,
+      rebalanceCosts,
+      timeInRange: inRangeCount / candles.length,
+      maxDrawdown,
+      binFees: Array.from(binFees.values()).sort((a, b) => a.binId - b.binId),
+      rebalances,
+      timeline: this.downsample(timeline, MAX_TIMELINE_POINTS),
+    };
+  }
+
+  /**
+   * Spread value uniformly across the bins of a range.
+   * Bins below the active bin hold quote, bins above hold base, the active bin holds both.
+   */
+  private deployLiquidity(
+    value: number,
+    activeBinId: number,
+    range: BinRange,
+    binStep: number
+  ): {
+    bins: Map<number, BinReserves>;
+    range: BinRange;
+  } {
+    const { lowerBinId, upperBinId } = range;
+    const perBin = value / (upperBinId - lowerBinId + 1);
+    const bins = new Map<number, BinReserves>();
+
+    for (let binId = lowerBinId; binId <= upperBinId; binId++) {
+      const price = binIdToPrice(binId, binStep);
+      if (binId < activeBinId) {
+        bins.set(binId, { x: 0, y: perBin });
+      } else if (binId > activeBinId) {
+        bins.set(binId, { x: perBin / price, y: 0 });
+      } else {
+        bins.set(binId, { x: perBin / 2 / price, y: perBin / 2 });
+      }
+    }
+
+    return { bins, range: { lowerBinId, upperBinId } };
+  }
+
+  /**
+   * Strategy to simulate, defaulting to the one live positions use
+   */
+  private resolveStrategy(strategy?: PositionStrategy): PositionStrategy {
+    return (
+      strategy || { name: config.rebalancing.defaultStrategy, options: {} }
+    );
+  }
+
+  private valueOf(bins: Map<number, BinReserves>, price: number): number {
+    let value = 0;
+    for (const { x, y } of bins.values()) {
+      value += x * price + y;
+    }
+    return value;
+  }
+
+  private quoteOf(bins: Map<number, BinReserves>): number {
+    let quote = 0;
+    for (const { y } of bins.values()) {
+      quote += y;
+    }
+    return quote;
+  }
+
+  private downsample<T>(points: T[], maxPoints: number): T[] {
+    if (points.length <= maxPoints) return points;
+    const step = points.length / maxPoints;
+    const sampled: T[] = [];
+    for (let i = 0; i < maxPoints - 1; i++) {
+      sampled.push(points[Math.floor(i * step)]);
+    }
+    sampled.push(points[points.length - 1]);
+    return sampled;
+  }
+
+  private normalizeJsonRows(list: unknown[]): Array<Record<string, unknown>> {
+    return list.map((item) =>
+      Array.isArray(item)
+        ? { timestamp: item[0], price: item[1] }
+        : (item as Record<string, unknown>)
+    );
+  }
+
+  private parseCsvRows(csv: string): Array<Record<string, unknown>> {
+    const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length < 2) {
+      throw new ValidationError("CSV price series needs a header and data rows");
+    }
+
+    const headers = lines[0].split(",").map((h) => h.trim().toLowerCase());
+    return lines.slice(1).map((line) => {
+      const cells = line.split(",").map((c) => c.trim());
+      return Object.fromEntries(headers.map((h, i) => [h, cells[i]]));
+    });
+  }
+
+  /**
+   * Accept epoch milliseconds, epoch seconds or ISO date strings
+   */
+  private parseTimestamp(value: unknown): number {
+    const numeric = Number(value);
+    if (value !== "" && Number.isFinite(numeric)) {
+      return numeric < 1e12 ? numeric * 1000 : numeric;
+    }
+    return typeof value === "string" ? Date.parse(value) : NaN;
+  }
+
   /**
    * Simulate strategy execution
    */
@@ -90,8 +821,14 @@ export class SimulatorService {
     const rebalanceIntervalHours = params.rebalanceFrequency;
     let hoursSinceLastRebalance = 0;
 
+    // Ranges come from the same strategy live positions use
+    const selection = this.resolveStrategy(params.strategy);
+    const binStep = params.binStep || DEFAULT_SIMULATION_BIN_STEP;
+    const window = new TrailingWindow(pricePath, STRATEGY_WINDOW_MS);
+
     for (let i = 0; i < pricePath.length; i++) {
       const point = pricePath[i];
+      window.advance(i);
       const inRange =
         point.price >= currentRange.lower && point.price <= currentRange.upper;
 
@@ -124,11 +861,15 @@ export class SimulatorService {
       // Check if rebalance is needed
       hoursSinceLastRebalance++;
       if (hoursSinceLastRebalance >= rebalanceIntervalHours) {
-        // Rebalance: adjust range based on current price
-        currentRange = this.calculateOptimalRange(
-          point.price,
+        // Rebalance: re-range around the current price
+        currentRange = this.simulationRange(
+          selection,
+          point,
+          window.prices(),
+          binStep,
           params.volatilityTarget
         );
+        totalFeesEarned -= params.rebalanceCost || 0;
         rebalanceCount++;
         hoursSinceLastRebalance = 0;
 
@@ -173,17 +914,154 @@ export class SimulatorService {
     };
   }
 
+  /**
+   * Run the simulation over many seeded price paths and summarize the spread.
+   * The returned timeline is the path with the median final return.
+   */
+  private async monteCarlo(
+    params: SimulationParams,
+    startPrice: number,
+    seed: number
+  ): Promise<SimulationResult> {
+    const iterations = params.iterations || 1;
+    const start = Date.now();
+
+    // One sub-seed per path so any single path can be replayed on its own
+    const seedRandom = createRandom(seed);
+    const pathSeeds = Array.from({ length: iterations }, () =>
+      Math.floor(seedRandom() * 4294967296)
+    );
+    const pathFor = (pathSeed: number) =>
+      this.generatePricePath(
+        params.duration,
+        params.volatilityTarget,
+        startPrice,
+        createRandom(pathSeed),
+        start
+      );
+
+    const values: Float64Array[] = [];
+    const fees: Float64Array[] = [];
+    const finalReturns: number[] = [];
+    const rebalanceCounts: number[] = [];
+    const maxDrawdowns: number[] = [];
+
+    for (const pathSeed of pathSeeds) {
+      const run = await this.simulate(params, pathFor(pathSeed));
+      values.push(Float64Array.from(run.timeline, (s) => s.value));
+      fees.push(Float64Array.from(run.timeline, (s) => s.feesAccumulated));
+      finalReturns.push(run.totalReturn);
+      rebalanceCounts.push(run.rebalanceCount);
+      maxDrawdowns.push(run.maxDrawdown);
+    }
+
+    const byReturn = finalReturns
+      .map((value, index) => ({ value, index }))
+      .sort((a, b) => a.value - b.value);
+    const medianIndex = byReturn[Math.floor(iterations / 2)].index;
+    const representative = await this.simulate(
+      params,
+      pathFor(pathSeeds[medianIndex])
+    );
+
+    const steps = Array.from(
+      { length: representative.timeline.length },
+      (_, i) => i
+    );
+    const bands = this.downsample(steps, MAX_TIMELINE_POINTS).map((step) => ({
+      timestamp: representative.timeline[step].timestamp,
+      value: this.percentiles(values.map((path) => path[step])),
+      fees: this.percentiles(fees.map((path) => path[step])),
+    }));
+
+    const monteCarlo: MonteCarloSummary = {
+      iterations,
+      seed,
+      probabilityOfLoss: finalReturns.filter((r) => r < 0).length / iterations,
+      bands,
+      finalReturn: this.distribution(finalReturns),
+      rebalanceCount: this.distribution(rebalanceCounts),
+      maxDrawdown: this.distribution(maxDrawdowns),
+    };
+
+    logger.info("Monte Carlo simulation completed", {
+      iterations,
+      seed,
+      probabilityOfLoss: monteCarlo.probabilityOfLoss,
+      medianReturn: monteCarlo.finalReturn.p50,
+    });
+
+    return { ...representative, monteCarlo };
+  }
+
+  /**
+   * p5/p25/p50/p75/p95 with linear interpolation between samples
+   */
+  private percentiles(values: number[]): Percentiles {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (q: number) => {
+      const position = (sorted.length - 1) * q;
+      const lower = Math.floor(position);
+      const upper = Math.ceil(position);
+      return (
+        sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+      );
+    };
+
+    return {
+      p5: at(0.05),
+      p25: at(0.25),
+      p50: at(0.5),
+      p75: at(0.75),
+      p95: at(0.95),
+    };
+  }
+
+  /**
+   * Percentiles, mean and an equal-width histogram of one outcome
+   */
+  private distribution(values: number[]): MonteCarloDistribution {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const width = (max - min) / HISTOGRAM_BUCKETS;
+
+    const histogram = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+      from: min + i * width,
+      to: min + (i + 1) * width,
+      count: 0,
+    }));
+    for (const value of values) {
+      const bucket =
+        width > 0
+          ? Math.min(Math.floor((value - min) / width), HISTOGRAM_BUCKETS - 1)
+          : 0;
+      histogram[bucket].count++;
+    }
+
+    return {
+      ...this.percentiles(values),
+      mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+      min,
+      max,
+      histogram:
+        width > 0
+          ? histogram
+          : [{ from: min, to: max, count: values.length }],
+    };
+  }
+
   /**
    * Generate synthetic price path
    */
   private generatePricePath(
     durationHours: number,
-    volatility: number
+    volatility: number,
+    startPrice: number = 100,
+    random: Random = Math.random,
+    now: number = Date.now()
   ): PricePoint[] {
     const path: PricePoint[] = [];
-    const startPrice = 100; // Base price
     const hourMs = 3600000;
-    const now = Date.now();
 
     // Geometric Brownian Motion parameters
     const dt = 1 / 24; // 1 hour in days
@@ -194,11 +1072,11 @@ export class SimulatorService {
 
     for (let i = 0; i < durationHours; i++) {
       // GBM: dS = μ*S*dt + σ*S*dW
-      const randomShock = this.randomNormal(0, 1);
+      const randomShock = this.randomNormal(0, 1, random);
       const priceChange =
         drift * price * dt + vol * price * Math.sqrt(dt) * randomShock;
 
-      price = Math.max(price + priceChange, 1); // Ensure price stays positive
+      price = Math.max(price + priceChange, startPrice * 0.01); // Ensure price stays positive
 
       path.push({
         timestamp: now + i * hourMs,
@@ -210,18 +1088,124 @@ export class SimulatorService {
   }
 
   /**
-   * Calculate optimal range based on price and volatility
+   * Price range a strategy picks around a synthetic price point
    */
-  private calculateOptimalRange(
-    currentPrice: number,
-    volatility: number
+  private simulationRange(
+    selection: PositionStrategy,
+    point: PricePoint,
+    priceHistory: PricePoint[],
+    binStep: number,
+    volatilityTarget: number
   ): { lower: number; upper: number } {
-    // Range width based on volatility (e.g., ±2 standard deviations)
-    const rangeWidth = currentPrice * volatility * 2;
+    return this.strategyPriceRange(
+      getStrategy(selection.name).calculateRange({
+        activeBinId: priceToBinId(point.price, binStep),
+        binStep,
+        // volatilityTarget is a daily fraction; strategies expect annualized %
+        volatility: volatilityTarget * Math.sqrt(365) * 100,
+        priceHistory,
+        options: selection.options,
+      }),
+      binStep
+    );
+  }
+
+  /**
+   * Strategy for one sweep column: fixed-width uses the width as its bin
+   * count, adaptive strategies use it as their widest allowed range
+   */
+  private sweepStrategy(
+    name: RebalanceStrategyName,
+    rangeWidth: number
+  ): PositionStrategy {
+    return {
+      name,
+      options:
+        name === "fixed-width"
+          ? { binCount: rangeWidth }
+          : { maxBins: rangeWidth },
+    };
+  }
+
+  /**
+   * Average a combination's results over all price paths
+   */
+  private summarizeSweepRuns(
+    results: SimulationResult[]
+  ): Omit<
+    SweepRow,
+    "rank" | "strategy" | "rangeWidth" | "rebalanceFrequency" | "feeRate"
+  > {
+    const mean = (values: number[]) =>
+      values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    const returns = results.map((r) => r.totalReturn);
+    const meanReturn = mean(returns);
+
+    return {
+      totalReturn: meanReturn,
+      feesEarned: mean(results.map((r) => r.feesEarned)),
+      maxDrawdown: mean(results.map((r) => r.maxDrawdown)),
+      sharpeRatio: mean(results.map((r) => r.sharpeRatio)),
+      rebalanceCount: mean(results.map((r) => r.rebalanceCount)),
+      returnStdDev: Math.sqrt(
+        mean(returns.map((r) => Math.pow(r - meanReturn, 2)))
+      ),
+    };
+  }
+
+  /**
+   * Width x frequency grids of each metric, one per strategy and fee rate
+   */
+  private buildSweepHeatmaps(
+    params: SweepParams,
+    rows: Array<Omit<SweepRow, "rank">>
+  ): SweepHeatmap[] {
+    const heatmaps: SweepHeatmap[] = [];
+
+    for (const strategy of params.strategies) {
+      for (const feeRate of params.feeRates) {
+        const cell = (rangeWidth: number, rebalanceFrequency: number) =>
+          rows.find(
+            (row) =>
+              row.strategy === strategy &&
+              row.feeRate === feeRate &&
+              row.rangeWidth === rangeWidth &&
+              row.rebalanceFrequency === rebalanceFrequency
+          );
 
+        const metrics = {} as Record<SweepMetric, number[][]>;
+        for (const metric of SWEEP_METRICS) {
+          metrics[metric] = params.rangeWidths.map((width) =>
+            params.rebalanceFrequencies.map(
+              (frequency) => cell(width, frequency)?.[metric] ?? 0
+            )
+          );
+        }
+
+        heatmaps.push({
+          strategy,
+          feeRate,
+          rangeWidths: params.rangeWidths,
+          rebalanceFrequencies: params.rebalanceFrequencies,
+          metrics,
+        });
+      }
+    }
+
+    return heatmaps;
+  }
+
+  /**
+   * Price bounds covered by a bin range (upper bound is the top edge of the last bin)
+   */
+  private strategyPriceRange(
+    range: BinRange,
+    binStep: number
+  ): { lower: number; upper: number } {
     return {
-      lower: currentPrice - rangeWidth / 2,
-      upper: currentPrice + rangeWidth / 2,
+      lower: binIdToPrice(range.lowerBinId, binStep),
+      upper: binIdToPrice(range.upperBinId + 1, binStep),
     };
   }
 
@@ -284,13 +1268,134 @@ export class SimulatorService {
   /**
    * Generate random normal distribution value (Box-Muller transform)
    */
-  private randomNormal(mean: number, stdDev: number): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
+  private randomNormal(
+    mean: number,
+    stdDev: number,
+    random: Random = Math.random
+  ): number {
+    const u1 = 1 - random(); // (0, 1] keeps log() finite
+    const u2 = random();
     const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
     return z0 * stdDev + mean;
   }
 
+  /**
+   * Validate backtest parameters
+   */
+  private validateBacktestParams(params: BacktestParams): void {
+    if (params.candles.length < 2) {
+      throw new ValidationError(
+        "Backtest needs at least 2 price points in the selected window"
+      );
+    }
+
+    if (params.candles.length > MAX_BACKTEST_CANDLES) {
+      throw new ValidationError(
+        `Backtest is limited to ${MAX_BACKTEST_CANDLES} price points; use a coarser interval`
+      );
+    }
+
+    if (!(params.initialValue > 0)) {
+      throw new ValidationError("Amount must be positive");
+    }
+
+    if (!Number.isInteger(params.binStep) || params.binStep <= 0) {
+      throw new ValidationError("Bin step must be a positive integer");
+    }
+
+    if (!Number.isInteger(params.binCount) || params.binCount < 1) {
+      throw new ValidationError("Bin count must be a positive integer");
+    }
+
+    if (params.feeRate < 0 || params.feeRate > 10000) {
+      throw new ValidationError("Fee rate must be between 0 and 10000 bps");
+    }
+
+    if (params.rebalanceCost < 0 || params.rebalanceFrequency < 0) {
+      throw new ValidationError(
+        "Rebalance cost and frequency cannot be negative"
+      );
+    }
+  }
+
+  /**
+   * Validate sweep parameters and keep the total work bounded
+   */
+  private validateSweepParams(params: SweepParams): void {
+    if (!(params.duration > 0)) {
+      throw new ValidationError("Duration must be positive");
+    }
+
+    if (
+      !Number.isInteger(params.paths) ||
+      params.paths < 1 ||
+      params.paths > MAX_SWEEP_PATHS
+    ) {
+      throw new ValidationError(
+        `Paths must be an integer between 1 and ${MAX_SWEEP_PATHS}`
+      );
+    }
+
+    if (params.volatilityTarget < 0 || params.volatilityTarget > 2) {
+      throw new ValidationError("Volatility target must be between 0 and 2");
+    }
+
+    if (!Number.isInteger(params.binStep) || params.binStep <= 0) {
+      throw new ValidationError("Bin step must be a positive integer");
+    }
+
+    if (params.rebalanceCost < 0) {
+      throw new ValidationError("Rebalance cost cannot be negative");
+    }
+
+    if (params.strategies.length === 0) {
+      throw new ValidationError("Sweep needs at least one strategy");
+    }
+
+    // Strategies clamp widths to these bounds, so widths outside them would
+    // run the same simulation under a different label
+    const { minPositionBins, maxPositionBins } = config.rebalancing;
+    if (
+      params.rangeWidths.some(
+        (w) =>
+          !Number.isInteger(w) || w < minPositionBins || w > maxPositionBins
+      )
+    ) {
+      throw new ValidationError(
+        `Range widths must be whole bin counts between ${minPositionBins} and ${maxPositionBins}`
+      );
+    }
+
+    if (
+      params.rebalanceFrequencies.some((f) => f <= 0 || f > params.duration)
+    ) {
+      throw new ValidationError(
+        "Rebalance frequencies must be positive and no longer than the duration"
+      );
+    }
+
+    if (params.feeRates.some((f) => f < 0 || f > 10000)) {
+      throw new ValidationError("Fee rates must be between 0 and 10000 bps");
+    }
+
+    const combinations =
+      params.strategies.length *
+      params.rangeWidths.length *
+      params.rebalanceFrequencies.length *
+      params.feeRates.length;
+    if (combinations > MAX_SWEEP_COMBINATIONS) {
+      throw new ValidationError(
+        `Sweep has ${combinations} combinations; the limit is ${MAX_SWEEP_COMBINATIONS}`
+      );
+    }
+
+    if (combinations * params.paths * params.duration > MAX_SWEEP_STEPS) {
+      throw new ValidationError(
+        "Sweep is too large; use fewer values, fewer paths or a shorter duration"
+      );
+    }
+  }
+
   /**
    * Validate simulation parameters
    */
@@ -307,6 +1412,27 @@ export class SimulatorService {
       throw new ValidationError("Rebalance frequency cannot exceed duration");
     }
 
+    const iterations = params.iterations ?? 1;
+    if (
+      !Number.isInteger(iterations) ||
+      iterations < 1 ||
+      iterations > MAX_SIMULATION_ITERATIONS
+    ) {
+      throw new ValidationError(
+        `Iterations must be an integer between 1 and ${MAX_SIMULATION_ITERATIONS}`
+      );
+    }
+
+    if (iterations * params.duration > MAX_MONTE_CARLO_STEPS) {
+      throw new ValidationError(
+        "Too many iterations for this duration; use fewer paths or a shorter duration"
+      );
+    }
+
+    if (params.seed !== undefined && !Number.isInteger(params.seed)) {
+      throw new ValidationError("Seed must be an integer");
+    }
+
     if (params.volatilityTarget < 0 || params.volatilityTarget > 2) {
       throw new ValidationError("Volatility target must be between 0 and 2");
     }
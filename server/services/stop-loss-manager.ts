@@ -1,36 +1,185 @@
-import { PublicKey, Keypair } from "@solana/web3.js";
+/**
+ * Stop-Loss Manager
+ * Per-position exit rules: loss and IL thresholds, absolute price triggers,
+ * trailing stops off the highest position value and take-profit targets. A
+ * trigger alerts, or queues a withdrawal (optionally swapped into one token)
+ * for the owner to approve. Configs and every trigger, queued withdrawal and
+ * its outcome are kept in storage.
+ */
+
+import { PublicKey } from "@solana/web3.js";
 import storage from "../storage";
+import { config as appConfig } from "../config";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
 import { dlmmClient } from "../solana/dlmm-client";
+import { alertValuation } from "../oracle";
+import { scheduler } from "../scheduler";
 import { telegramBot } from "./telegram-bot";
+import { wsServer } from "./websocket-server";
+import {
+  transactionQueueService,
+  type PendingTransaction,
+} from "./transaction-queue.service";
+import {
+  StopLossConfigSchema,
+  StopLossInputSchema,
+  type Alert,
+  type PoolInfo,
+  type PositionData,
+  type StopLossConfig,
+  type StopLossEvent,
+} from "../../shared/schema";
+
+export type { StopLossConfig, StopLossEvent };
+
+const DAY_MS = 86400000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
-interface StopLossConfig {
-  positionAddress: string;
-  enabled: boolean;
-  lossThreshold: number; // Percentage loss to trigger
-  impermanentLossThreshold: number; // IL percentage to trigger
+// Pool side holding a stablecoin, if either does
+function stableSide(pool: PoolInfo): "x" | "y" | undefined {
+  const stablecoins: readonly string[] = appConfig.oracle.stablecoins;
+  if (stablecoins.includes(pool.tokenY.mint)) return "y";
+  if (stablecoins.includes(pool.tokenX.mint)) return "x";
+  return undefined;
 }
 
 export class StopLossManager {
   private configs: Map<string, StopLossConfig> = new Map();
-  private checkInterval: NodeJS.Timeout | null = null;
-  private readonly CHECK_INTERVAL = 60000; // 1 minute
 
-  setStopLoss(config: StopLossConfig) {
+  constructor() {
+    for (const stored of storage.getAllStopLossConfigs()) {
+      const config = this.restore(stored);
+      if (config) this.configs.set(config.positionAddress, config);
+    }
+    transactionQueueService.onUpdate((tx) => this.recordOutcome(tx));
+  }
+
+  // Stored configs predating modes hold only a trigger price; they become
+  // price stops in the direction away from the price when loaded. Anything
+  // else that doesn't parse is skipped.
+  private restore(stored: unknown): StopLossConfig | undefined {
+    const record = stored as Partial<StopLossConfig>;
+    let candidate: unknown = stored;
+    let migrated = false;
+
+    if (
+      record &&
+      record.mode === undefined &&
+      record.triggerPrice !== undefined
+    ) {
+      const currentPrice = record.positionAddress
+        ? storage.getPosition(record.positionAddress)?.pool.currentPrice
+        : undefined;
+      candidate = {
+        ...record,
+        mode: "price",
+        action: record.action ?? "withdraw_to_token",
+        direction:
+          currentPrice !== undefined && record.triggerPrice > currentPrice
+            ? "above"
+            : "below",
+      };
+      migrated = true;
+    }
+
+    const parsed = StopLossConfigSchema.safeParse(candidate);
+    if (!parsed.success) {
+      logger.warn("Skipping invalid stored stop-loss", {
+        positionAddress: record?.positionAddress,
+        issues: parsed.error.issues,
+      });
+      return undefined;
+    }
+
+    if (migrated) {
+      storage.setStopLoss(parsed.data);
+      logger.info("Migrated legacy stop-loss to a price stop", {
+        positionAddress: parsed.data.positionAddress,
+        direction: parsed.data.direction,
+      });
+    }
+    return parsed.data;
+  }
+
+  /**
+   * @param options.persist - false for defaults derived from a wallet
+   * profile, which are applied again on every restore
+   */
+  setStopLoss(
+    config: StopLossConfig,
+    options: { persist?: boolean } = {}
+  ) {
     this.configs.set(config.positionAddress, config);
+    if (options.persist ?? true) storage.setStopLoss(config);
+  }
+
+  /**
+   * Validate and save a stop-loss from the API, replacing any existing one
+   */
+  configure(input: unknown): StopLossConfig {
+    const parsed = StopLossInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid stop-loss", {
+        issues: parsed.error.issues,
+      });
+    }
+
+    const positionData = storage.getPosition(parsed.data.positionAddress);
+    if (
+      parsed.data.action === "withdraw_to_stable" &&
+      positionData &&
+      !stableSide(positionData.pool)
+    ) {
+      throw new ValidationError(
+        "Neither token of the position's pool is a configured stablecoin"
+      );
+    }
+
+    const config: StopLossConfig = {
+      ...parsed.data,
+      createdAt: Date.now(),
+    };
+    this.setStopLoss(config);
+    logger.info("Stop-loss configured", {
+      positionAddress: config.positionAddress,
+      mode: config.mode,
+      action: config.action,
+    });
+    return config;
   }
 
   removeStopLoss(positionAddress: string) {
     this.configs.delete(positionAddress);
+    storage.removeStopLoss(positionAddress);
   }
 
   getStopLoss(positionAddress: string): StopLossConfig | undefined {
     return this.configs.get(positionAddress);
   }
 
-  async checkStopLoss(
-    positionAddress: string,
-    owner: Keypair
-  ): Promise<boolean> {
+  getStopLosses(): StopLossConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * A position's stop-loss history, newest first
+   */
+  getEvents(positionAddress: string): StopLossEvent[] {
+    return storage
+      .getStopLossEvents(positionAddress)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Evaluate a position's stop-loss and act on it when its condition starts
+   * to hold
+   * @returns whether it triggered
+   */
+  async checkStopLoss(positionAddress: string): Promise<boolean> {
     const config = this.configs.get(positionAddress);
     if (!config || !config.enabled) {
       return false;
@@ -41,117 +190,311 @@ export class StopLossManager {
       return false;
     }
 
-    const { performance } = positionData;
-
-    // Check total return threshold
-    if (performance.totalReturn <= -config.lossThreshold) {
-      await this.executeStopLoss(
-        positionAddress,
-        owner,
-        "Total loss threshold exceeded"
+    // A withdrawal is already waiting on the owner
+    const inFlight = transactionQueueService
+      .getPositionHistory(positionAddress)
+      .some(
+        (tx) =>
+          (tx.type === "stop-loss" || tx.type === "close-position") &&
+          (tx.status === "pending" || tx.status === "approved")
       );
-      return true;
-    }
+    if (inFlight) return false;
 
-    // Check impermanent loss threshold
-    if (performance.impermanentLoss >= config.impermanentLossThreshold) {
-      await this.executeStopLoss(
-        positionAddress,
-        owner,
-        "Impermanent loss threshold exceeded"
-      );
-      return true;
+    const wasTriggered = config.triggered ?? false;
+    const previousPeak = config.peakValue;
+    const reason = this.evaluate(config, positionData);
+    config.triggered = reason !== null;
+    if (reason && !wasTriggered) config.lastTriggeredAt = Date.now();
+    // Written back only when trigger state or the trailing peak moved
+    if (
+      config.triggered !== wasTriggered ||
+      config.peakValue !== previousPeak
+    ) {
+      this.save(config);
     }
 
-    return false;
+    if (!reason || wasTriggered) return false;
+
+    this.record(config, positionData, { type: "triggered", reason });
+    await this.trigger(config, positionData, reason);
+    return true;
+  }
+
+  // Why the stop-loss fires, or null while it holds. Trailing stops also
+  // raise their peak here.
+  private evaluate(
+    config: StopLossConfig,
+    positionData: PositionData
+  ): string | null {
+    const { performance, pool, currentValue } = positionData;
+
+    switch (config.mode) {
+      case "threshold":
+        if (
+          config.lossThreshold !== undefined &&
+          performance.totalReturn <= -config.lossThreshold
+        ) {
+          return "Total loss threshold exceeded";
+        }
+        if (
+          config.impermanentLossThreshold !== undefined &&
+          performance.impermanentLoss >= config.impermanentLossThreshold
+        ) {
+          return "Impermanent loss threshold exceeded";
+        }
+        return null;
+
+      case "price": {
+        if (config.triggerPrice === undefined || !config.direction) return null;
+        const crossed =
+          config.direction === "above"
+            ? pool.currentPrice >= config.triggerPrice
+            : pool.currentPrice <= config.triggerPrice;
+        return crossed
+          ? `Pool price ${pool.currentPrice} ${config.direction} trigger ${config.triggerPrice}`
+          : null;
+      }
+
+      case "trailing": {
+        if (config.trailPercent === undefined) return null;
+        const peak = Math.max(config.peakValue ?? 0, currentValue);
+        config.peakValue = peak;
+        const stop = peak * (1 - config.trailPercent / 100);
+        return peak > 0 && currentValue <= stop
+          ? `Value $${currentValue.toFixed(2)} fell ${config.trailPercent}% below its $${peak.toFixed(2)} peak`
+          : null;
+      }
+
+      case "take_profit":
+        if (config.takeProfitPercent === undefined) return null;
+        return performance.totalReturn >= config.takeProfitPercent
+          ? `Take-profit target of ${config.takeProfitPercent}% reached`
+          : null;
+
+      default:
+        return null;
+    }
   }
 
-  private async executeStopLoss(
-    positionAddress: string,
-    owner: Keypair,
+  private async trigger(
+    config: StopLossConfig,
+    positionData: PositionData,
     reason: string
   ) {
-    try {
-      console.log(`Executing stop-loss for ${positionAddress}: ${reason}`);
+    const { positionAddress } = config;
+    logger.info("Stop-loss triggered", {
+      positionAddress,
+      mode: config.mode,
+      action: config.action,
+      reason,
+    });
+
+    const title =
+      config.mode === "take_profit"
+        ? "Take-Profit Reached"
+        : "Stop-Loss Triggered";
+
+    if (config.action === "notify") {
+      await this.alert(
+        "warning",
+        title,
+        `Position ${positionAddress.slice(0, 8)}...: ${reason}`,
+        positionData
+      );
+      return;
+    }
 
-      const positionData = storage.getPosition(positionAddress);
-      if (!positionData) {
-        throw new Error("Position not found");
+    try {
+      const swapTo =
+        config.action === "withdraw_to_stable"
+          ? stableSide(positionData.pool)
+          : (config.withdrawTo ?? "y");
+      if (!swapTo) {
+        throw new ValidationError(
+          "Neither token of the position's pool is a configured stablecoin"
+        );
       }
 
-      // Remove all liquidity
-      const result = await dlmmClient.removeLiquidity(
-        positionData.position,
-        10000, // 100%
-        owner
+      const { position, pool } = positionData;
+      const { prepared, swap } = await dlmmClient.prepareWithdrawTransaction(
+        position,
+        new PublicKey(position.owner),
+        { swapTo, slippageBps: config.slippageBps }
       );
 
-      // Add alert
-      const alert = {
-        id: `alert_${Date.now()}`,
-        type: "warning" as const,
-        title: "Stop-Loss Triggered",
-        message: `Position ${positionAddress.slice(0, 8)}... closed due to: ${reason}`,
+      const type =
+        config.mode === "take_profit" ? "close-position" : "stop-loss";
+      const queued = await transactionQueueService.queueTransaction(
+        type,
         positionAddress,
-        timestamp: Date.now(),
-        read: false,
-      };
-      storage.addAlert(alert);
+        position.owner,
+        prepared.transaction,
+        {
+          poolAddress: pool.address,
+          reason,
+          estimatedValue: positionData.valuation?.usd,
+          swap,
+        },
+        { swapTo, slippageBps: config.slippageBps }
+      );
 
-      // Send Telegram notification
-      await telegramBot.sendAlert(alert);
-      await telegramBot.sendPositionAlert(
+      await telegramBot.sendTransactionApprovalAlert(
+        queued.id,
+        type,
         positionAddress,
-        "stop_loss",
-        `Reason: ${reason}\nTransaction: ${result}`
+        queued.metadata
+      );
+      await this.alert(
+        "warning",
+        title,
+        `Position ${positionAddress.slice(0, 8)}...: ${reason}. Withdrawal queued for approval.`,
+        positionData
       );
 
-      // Remove position from storage
-      storage.deletePosition(positionAddress);
-
-      // Remove stop-loss config
-      this.configs.delete(positionAddress);
+      this.record(config, positionData, {
+        type: "queued",
+        reason,
+        transactionId: queued.id,
+      });
 
-      console.log(`Stop-loss executed successfully: ${result}`);
+      logger.info("Stop-loss withdrawal queued for approval", {
+        transactionId: queued.id,
+        positionAddress,
+      });
     } catch (error) {
-      console.error(
-        `Failed to execute stop-loss for ${positionAddress}:`,
-        error
+      logger.error("Failed to queue stop-loss withdrawal", {
+        positionAddress,
+        error: errorMessage(error),
+      });
+      this.record(config, positionData, {
+        type: "failed",
+        reason,
+        error: errorMessage(error),
+      });
+      await this.alert(
+        "error",
+        "Stop-Loss Failed",
+        `Failed to queue stop-loss withdrawal: ${errorMessage(error)}`,
+        positionData
       );
+    }
+  }
 
-      const errorAlert = {
-        id: `alert_${Date.now()}`,
-        type: "error" as const,
-        title: "Stop-Loss Failed",
-        message: `Failed to execute stop-loss: ${error instanceof Error ? error.message : "Unknown error"}`,
-        positionAddress,
-        timestamp: Date.now(),
-        read: false,
-      };
-      storage.addAlert(errorAlert);
-      await telegramBot.sendAlert(errorAlert);
+  private async alert(
+    type: Alert["type"],
+    title: string,
+    message: string,
+    positionData: PositionData
+  ) {
+    const alert: Alert = {
+      id: `alert_${Date.now()}`,
+      type,
+      title,
+      message,
+      positionAddress: positionData.position.address,
+      ...alertValuation(positionData),
+      timestamp: Date.now(),
+      read: false,
+    };
+    storage.addAlert(alert);
+    wsServer.broadcast({ type: "alert", data: alert });
+    await telegramBot.sendAlert(alert);
+  }
+
+  private record(
+    config: Pick<StopLossConfig, "positionAddress" | "mode" | "action">,
+    positionData: PositionData | undefined,
+    event: Pick<
+      StopLossEvent,
+      "type" | "reason" | "transactionId" | "signature" | "error"
+    >
+  ) {
+    const now = Date.now();
+    storage.addStopLossEvent(
+      {
+        ...event,
+        id: `sl_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        positionAddress: config.positionAddress,
+        mode: config.mode,
+        action: config.action,
+        valueUsd: positionData?.currentValue,
+        price: positionData?.pool.currentPrice,
+        timestamp: now,
+      },
+      now - appConfig.stopLoss.eventRetentionDays * DAY_MS
+    );
+  }
+
+  // How a withdrawal this manager queued ended. Once one has executed the
+  // position is closed and its stop-loss is dropped.
+  private recordOutcome(tx: PendingTransaction) {
+    if (
+      tx.status !== "executed" &&
+      tx.status !== "failed" &&
+      tx.status !== "rejected"
+    ) {
+      return;
     }
+
+    const events = storage
+      .getStopLossEvents(tx.positionAddress)
+      .filter((event) => event.transactionId === tx.id);
+    const queued = events.find((event) => event.type === "queued");
+    if (!queued || events.some((event) => event.type === tx.status)) return;
+
+    this.record(queued, storage.getPosition(tx.positionAddress), {
+      type: tx.status,
+      reason: queued.reason,
+      transactionId: tx.id,
+      signature: tx.signature,
+      error: tx.error,
+    });
+    logger.info("Stop-loss withdrawal settled", {
+      positionAddress: tx.positionAddress,
+      transactionId: tx.id,
+      status: tx.status,
+    });
+
+    if (tx.status === "executed") this.removeStopLoss(tx.positionAddress);
   }
 
-  startMonitoring(owner: Keypair) {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
+  // Trigger state and trailing peaks are kept only for stored configs;
+  // profile defaults are updated in place
+  private save(config: StopLossConfig) {
+    if (storage.getStopLoss(config.positionAddress)) {
+      storage.setStopLoss(config);
     }
+  }
 
-    this.checkInterval = setInterval(async () => {
-      for (const [positionAddress] of this.configs) {
-        await this.checkStopLoss(positionAddress, owner);
-      }
-    }, this.CHECK_INTERVAL);
+  startMonitoring() {
+    scheduler.register({
+      name: "stop-loss-manager",
+      description: "Check positions with a stop-loss against their triggers",
+      trigger: {
+        type: "interval",
+        everyMs: appConfig.stopLoss.checkIntervalMs,
+      },
+      run: async () => {
+        for (const positionAddress of Array.from(this.configs.keys())) {
+          try {
+            await this.checkStopLoss(positionAddress);
+          } catch (error) {
+            logger.error("Stop-loss check failed", {
+              positionAddress,
+              error: errorMessage(error),
+            });
+          }
+        }
+      },
+    });
 
-    console.log("Stop-loss monitoring started");
+    logger.info("Stop-loss monitoring started");
   }
 
   stopMonitoring() {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
-      console.log("Stop-loss monitoring stopped");
+    if (scheduler.has("stop-loss-manager")) {
+      scheduler.unregister("stop-loss-manager");
+      logger.info("Stop-loss monitoring stopped");
     }
   }
 }
@@ -9,6 +9,16 @@ import { volatilityTracker } from "./volatility-tracker";
 import { dlmmClient } from "../solana/dlmm-client";
 import { logger } from "../utils/logger";
 import { simulatorService } from "./simulator.service";
+import { scheduler } from "../scheduler";
+import type { PendingTransaction } from "./transaction-queue.service";
+import type {
+  DigestPosition,
+  PortfolioDigest,
+  RebalanceSwap,
+  ValueChange,
+} from "../types";
+
+const MONITOR_JOB = "telegram-monitor";
 
 interface TelegramConfig {
   botToken?: string;
@@ -19,8 +29,6 @@ interface TelegramConfig {
 export class TelegramBot {
   private config: TelegramConfig;
   private bot?: Telegraf;
-  private monitoringInterval?: NodeJS.Timeout;
-  private monitoringWallet?: string;
 
   constructor() {
     // Load from environment or storage
@@ -78,7 +86,7 @@ export class TelegramBot {
         return;
       }
 
-      if (this.monitoringInterval) {
+      if (scheduler.has(MONITOR_JOB)) {
         ctx.reply("⚠️ Monitoring is already active! Use /stop first.");
         return;
       }
@@ -90,10 +98,8 @@ export class TelegramBot {
     });
 
     this.bot.command("stop", (ctx) => {
-      if (this.monitoringInterval) {
-        clearInterval(this.monitoringInterval);
-        this.monitoringInterval = undefined;
-        this.monitoringWallet = undefined;
+      if (scheduler.has(MONITOR_JOB)) {
+        scheduler.unregister(MONITOR_JOB);
         ctx.reply("🛑 Monitoring stopped.");
       } else {
         ctx.reply("ℹ️ No active monitoring to stop.");
@@ -217,7 +223,7 @@ export class TelegramBot {
       for (const pos of positions) {
         const poolPair = `${pos.pool.tokenX.symbol}/${pos.pool.tokenY.symbol}`;
         message += `*${poolPair}*\n`;
-        message += `   💰 Value: $${pos.currentValue.toFixed(2)}\n`;
+        message += `   💰 Value: $${pos.currentValue.toFixed(2)}${pos.valuation?.stale ? " (stale prices)" : ""}\n`;
         message += `   📈 Fees: $${pos.feesEarned.total.toFixed(2)}\n`;
         message += `   📊 Range: [${pos.position.lowerBinId}, ${pos.position.upperBinId}]\n`;
         message += `   ${pos.riskMetrics.isInRange ? "✅ In Range" : "⚠️ Out of Range"}\n\n`;
@@ -319,15 +325,15 @@ export class TelegramBot {
     }
   }
 
-  private async startMonitoring(chatId: number, walletAddress: string) {
-    this.monitoringWallet = walletAddress;
-
-    this.monitoringInterval = setInterval(async () => {
-      try {
-        if (!this.monitoringWallet) return;
-
+  private startMonitoring(chatId: number, walletAddress: string) {
+    scheduler.register({
+      name: MONITOR_JOB,
+      description: `Telegram /monitor alerts for ${walletAddress}`,
+      trigger: { type: "interval", everyMs: 60000 }, // Check every minute
+      run: async () => {
         const positions = await positionMonitor.loadUserPositions(
-          this.monitoringWallet
+          walletAddress,
+          { throwOnError: true }
         );
 
         for (const position of positions) {
@@ -358,10 +364,8 @@ export class TelegramBot {
             );
           }
         }
-      } catch (error) {
-        logger.error("Monitoring error in Telegram bot", { error });
-      }
-    }, 60000); // Check every minute
+      },
+    });
   }
 
   configure(botToken: string, chatId: string) {
@@ -392,10 +396,7 @@ export class TelegramBot {
     if (this.bot) {
       this.bot.stop();
     }
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = undefined;
-    }
+    scheduler.unregister(MONITOR_JOB);
 
     logger.info("Telegram bot disabled");
   }
@@ -403,8 +404,11 @@ export class TelegramBot {
   async sendRebalanceAlert(event: RebalanceEvent) {
     if (!this.config.enabled) return;
 
+    const chatId = this.chatForPosition(event.positionAddress);
+    if (chatId === null) return;
+
     const message = this.formatRebalanceMessage(event);
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   /**
@@ -412,28 +416,26 @@ export class TelegramBot {
    */
   async sendTransactionApprovalAlert(
     transactionId: string,
-    type: "rebalance" | "stop-loss" | "close-position",
+    type: PendingTransaction["type"],
     positionAddress: string,
-    metadata: {
-      poolAddress: string;
-      oldRange?: { lowerBinId: number; upperBinId: number };
-      newRange?: { lowerBinId: number; upperBinId: number };
-      reason: string;
-      estimatedValue?: number;
-    }
+    metadata: PendingTransaction["metadata"]
   ) {
     if (!this.config.enabled) return;
+    const chatId = this.chatForPosition(positionAddress);
+    if (chatId === null) return;
 
     const emoji = {
       rebalance: "🔄",
       "stop-loss": "🛑",
       "close-position": "❌",
+      compound: "🌱",
     }[type];
 
     const title = {
       rebalance: "Rebalance Required",
       "stop-loss": "Stop-Loss Triggered",
       "close-position": "Position Close Recommended",
+      compound: "Fees Ready to Compound",
     }[type];
 
     let message = `${emoji} *${title}*\n\n`;
@@ -445,6 +447,18 @@ export class TelegramBot {
       message += `New Range: [${metadata.newRange.lowerBinId}, ${metadata.newRange.upperBinId}]\n\n`;
     }
 
+    if (metadata.swap) {
+      message += `${this.describeSwap(positionAddress, metadata.swap)}\n\n`;
+    }
+
+    if (metadata.fees) {
+      message += `Fees: ${metadata.fees.amountX.toFixed(6)} X + ${metadata.fees.amountY.toFixed(6)} Y ($${metadata.fees.valueUsd.toFixed(2)})\n`;
+      if (metadata.estimatedCostUsd !== undefined) {
+        message += `Est. Tx Cost: $${metadata.estimatedCostUsd.toFixed(4)}\n`;
+      }
+      message += `\n`;
+    }
+
     if (metadata.estimatedValue) {
       message += `Estimated Value: $${metadata.estimatedValue.toFixed(2)}\n\n`;
     }
@@ -453,20 +467,22 @@ export class TelegramBot {
     message += `Please review and approve this transaction in the app.\n\n`;
     message += `Transaction ID: \`${transactionId}\``;
 
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   /**
    * Send notification when transaction is executed
    */
   async sendTransactionExecutedAlert(
-    type: "rebalance" | "stop-loss" | "close-position",
+    type: PendingTransaction["type"],
     positionAddress: string,
     signature: string,
     success: boolean,
     error?: string
   ) {
     if (!this.config.enabled) return;
+    const chatId = this.chatForPosition(positionAddress);
+    if (chatId === null) return;
 
     const emoji = success ? "✅" : "❌";
     const status = success ? "Executed Successfully" : "Execution Failed";
@@ -475,6 +491,7 @@ export class TelegramBot {
       rebalance: "Rebalance",
       "stop-loss": "Stop-Loss",
       "close-position": "Position Close",
+      compound: "Fee Compound",
     }[type];
 
     let message = `${emoji} *${title} ${status}*\n\n`;
@@ -486,14 +503,17 @@ export class TelegramBot {
       message += `Error: ${error}\n`;
     }
 
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   async sendAlert(alert: Alert) {
     if (!this.config.enabled) return;
 
+    const chatId = this.chatForPosition(alert.positionAddress);
+    if (chatId === null) return;
+
     const message = this.formatAlertMessage(alert);
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   async sendPositionAlert(
@@ -502,6 +522,8 @@ export class TelegramBot {
     details: string
   ) {
     if (!this.config.enabled) return;
+    const chatId = this.chatForPosition(positionAddress);
+    if (chatId === null) return;
 
     const emoji = {
       out_of_range: "⚠️",
@@ -517,7 +539,7 @@ export class TelegramBot {
 
     const message = `${emoji} *${title}*\n\nPosition: \`${positionAddress.slice(0, 8)}...${positionAddress.slice(-8)}\`\n\n${details}`;
 
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   private formatRebalanceMessage(event: RebalanceEvent): string {
@@ -538,6 +560,24 @@ export class TelegramBot {
     );
   }
 
+  // Swap-to-ratio step in token units when the position's pool is known
+  private describeSwap(positionAddress: string, swap: RebalanceSwap): string {
+    const pool = storage.getPosition(positionAddress)?.pool;
+    const [tokenIn, tokenOut] = swap.swapForY
+      ? [pool?.tokenX, pool?.tokenY]
+      : [pool?.tokenY, pool?.tokenX];
+    const format = (amount: string, token?: { decimals: number }) =>
+      token
+        ? (Number(amount) / Math.pow(10, token.decimals)).toFixed(6)
+        : amount;
+
+    return (
+      `Swap First: ${format(swap.amountIn, tokenIn)} ${tokenIn?.symbol || (swap.swapForY ? "X" : "Y")}` +
+      ` → min ${format(swap.minAmountOut, tokenOut)} ${tokenOut?.symbol || (swap.swapForY ? "Y" : "X")}` +
+      ` (${swap.slippageBps / 100}% slippage, ${Math.abs(swap.priceImpact).toFixed(2)}% impact)`
+    );
+  }
+
   private formatAlertMessage(alert: Alert): string {
     const emojiObj: Record<"info" | "warning" | "error" | "success", string> = {
       info: "ℹ️",
@@ -547,11 +587,43 @@ export class TelegramBot {
     };
     const emoji = emojiObj[alert.type as keyof typeof emojiObj];
 
-    return `${emoji} *${alert.title}*\n\n${alert.message}`;
+    const value =
+      alert.valueUsd !== undefined
+        ? `\n\nValue: $${alert.valueUsd.toFixed(2)}` +
+          (alert.valuedAt
+            ? ` (prices as of ${new Date(alert.valuedAt).toLocaleTimeString()})`
+            : "")
+        : "";
+
+    return `${emoji} *${alert.title}*\n\n${alert.message}${value}`;
+  }
+
+  /**
+   * Chat for messages about a position: the owner's profile chat if it has
+   * one, else the configured chat; null if the owner turned notifications off
+   */
+  private chatForPosition(positionAddress?: string): string | undefined | null {
+    if (!positionAddress) return this.config.chatId;
+
+    const owner =
+      storage.getPosition(positionAddress)?.position.owner ||
+      storage.getLedgerEntries({ positionAddress })[0]?.owner;
+    return owner ? this.chatForWallet(owner) : this.config.chatId;
   }
 
-  private async sendMessage(message: string) {
-    if (!this.config.botToken || !this.config.chatId) {
+  // Same rules for a wallet directly
+  private chatForWallet(wallet: string): string | undefined | null {
+    const profile = storage.getWalletProfile(wallet);
+    if (!profile) return this.config.chatId;
+    if (!profile.notifications.enabled) return null;
+    return profile.notifications.telegramChatId || this.config.chatId;
+  }
+
+  private async sendMessage(
+    message: string,
+    chatId: string | undefined = this.config.chatId
+  ) {
+    if (!this.config.botToken || !chatId) {
       console.log("Telegram not configured, skipping message:", message);
       return;
     }
@@ -565,7 +637,7 @@ export class TelegramBot {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          chat_id: this.config.chatId,
+          chat_id: chatId,
           text: message,
           parse_mode: "Markdown",
         }),
@@ -580,24 +652,50 @@ export class TelegramBot {
     }
   }
 
-  async sendDailySummary(summary: {
-    totalPositions: number;
-    totalValue: number;
-    totalFeesEarned: number;
-    rebalancesToday: number;
-    avgIL: number;
-  }) {
+  /**
+   * Send a portfolio digest to its wallet's chat
+   */
+  async sendDigest(digest: PortfolioDigest) {
     if (!this.config.enabled) return;
 
-    const message =
-      `📊 *Daily Summary*\n\n` +
-      `Total Positions: ${summary.totalPositions}\n` +
-      `Total Value: $${summary.totalValue.toFixed(2)}\n` +
-      `Fees Earned: $${summary.totalFeesEarned.toFixed(2)}\n` +
-      `Rebalances: ${summary.rebalancesToday}\n` +
-      `Avg IL: ${summary.avgIL.toFixed(2)}%`;
+    const chatId = this.chatForWallet(digest.wallet);
+    if (chatId === null) return;
+
+    const usd = (value: number) => `$${value.toFixed(2)}`;
+    const change = (label: string, value: ValueChange | null) =>
+      value
+        ? `${label}: ${value.valueUsd >= 0 ? "+" : "-"}${usd(Math.abs(value.valueUsd))} (${value.percent >= 0 ? "+" : ""}${value.percent.toFixed(2)}%)\n`
+        : "";
+    const list = (positions: DigestPosition[]) =>
+      positions
+        .map(
+          (p) =>
+            `• \`${p.positionAddress.slice(0, 8)}...\` ${usd(p.valueUsd)} (${p.totalReturn >= 0 ? "+" : ""}${p.totalReturn.toFixed(2)}%)${p.inRange ? "" : " ⚠️"}`
+        )
+        .join("\n");
+
+    let message =
+      `📊 *${digest.period === "weekly" ? "Weekly" : "Daily"} Digest*\n` +
+      `Wallet: \`${digest.wallet.slice(0, 8)}...\`\n\n` +
+      `Total Value: ${usd(digest.totalValue)}` +
+      ` (prices as of ${new Date(digest.valuedAt).toLocaleString()})\n` +
+      change("24h", digest.change24h) +
+      change("7d", digest.change7d) +
+      `Fees Earned: ${usd(digest.fees.earned)}` +
+      ` (${usd(digest.fees.unclaimed)} unclaimed)\n` +
+      `In Range: ${digest.inRange}/${digest.positions}` +
+      ` (${(digest.inRangeRatio * 100).toFixed(0)}%)\n` +
+      `Rebalances: ${digest.rebalances}\n` +
+      `Pending Approvals: ${digest.pendingApprovals}`;
+
+    if (digest.topPositions.length > 0) {
+      message += `\n\n*Top Positions*\n${list(digest.topPositions)}`;
+    }
+    if (digest.bottomPositions.length > 0) {
+      message += `\n\n*Bottom Positions*\n${list(digest.bottomPositions)}`;
+    }
 
-    await this.sendMessage(message);
+    await this.sendMessage(message, chatId);
   }
 
   launch() {
@@ -619,10 +717,7 @@ export class TelegramBot {
     if (this.bot) {
       this.bot.stop();
     }
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = undefined;
-    }
+    scheduler.unregister(MONITOR_JOB);
   }
 }
 
@@ -3,19 +3,68 @@
  * Manages pending transactions awaiting user approval
  */
 
-import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import {
+  PublicKey,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+} from "@solana/web3.js";
 import { logger } from "../utils/logger";
 import { ValidationError } from "../utils/errors";
 import storage from "../storage";
 import { getConnection } from "../solana/connection";
+import { simulateTransaction } from "../solana/simulation";
+import { dlmmClient } from "../solana/dlmm-client";
+import {
+  rebuildTransaction,
+  type PreparedTransaction,
+} from "../solana/transaction-builder";
+import { positionAmounts } from "../oracle";
+import { positionLedger } from "./position-ledger.service";
+import { wsServer } from "./websocket-server";
+import { scheduler } from "../scheduler";
+import type { RebalanceSwap } from "../types";
+import type {
+  LiquidityDistribution,
+  PositionData,
+  TransactionSimulation,
+} from "../../shared/schema";
 //import { getConnection } from "../solana/connection";
 
+/**
+ * What a queued transaction should do, kept so it can be rebuilt with a
+ * current blockhash when it is approved. Amounts are in base units.
+ */
+export interface TransactionIntent {
+  range?: { lowerBinId: number; upperBinId: number }; // rebalance target
+  amountX?: string;
+  amountY?: string;
+  distribution?: LiquidityDistribution;
+  swapToRatio?: boolean;
+  withdrawOld?: boolean; // rebalance: withdraw the old position first
+  swapTo?: "x" | "y"; // withdrawal: pool token to swap everything into
+  slippageBps?: number;
+}
+
 export interface PendingTransaction {
   id: string;
-  type: "rebalance" | "stop-loss" | "close-position";
+  type: "rebalance" | "stop-loss" | "close-position" | "compound";
   positionAddress: string;
   walletAddress: string;
   transaction: string; // Base64 encoded transaction
+  intent?: TransactionIntent;
+  // Blockhash of the stored transaction and the last block height it can
+  // land at; set when it is approved
+  blockhash?: string;
+  lastValidBlockHeight?: number;
+  // Compute budget of the approved transaction and, once it landed, the
+  // total fee the network charged
+  networkFee?: {
+    computeUnitLimit: number;
+    microLamports: number;
+    priorityFeeLamports: number;
+    paidLamports?: number;
+  };
   metadata: {
     poolAddress: string;
     oldRange?: { lowerBinId: number; upperBinId: number };
@@ -23,6 +72,12 @@ export interface PendingTransaction {
     reason: string;
     estimatedValue?: number;
     volatility?: number;
+    swap?: RebalanceSwap; // rebalance swap-to-ratio, or a withdrawal's swap
+    // Compounding: fees to claim and re-add (UI units) and what that costs
+    fees?: { amountX: number; amountY: number; valueUsd: number };
+    estimatedCostUsd?: number;
+    // Latest preflight: at queueing, approval and before sending
+    simulation?: TransactionSimulation;
   };
   status: "pending" | "approved" | "rejected" | "executed" | "failed";
   createdAt: number;
@@ -36,11 +91,12 @@ export interface PendingTransaction {
 export class TransactionQueueService {
   private queue: Map<string, PendingTransaction>;
   private readonly EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private listeners: Array<(tx: PendingTransaction) => void> = [];
 
   constructor() {
     this.queue = new Map();
     this.loadFromStorage();
-    this.startCleanupInterval();
+    this.scheduleCleanup();
     logger.info("Transaction Queue Service initialized");
   }
 
@@ -52,33 +108,42 @@ export class TransactionQueueService {
     positionAddress: string,
     walletAddress: string,
     transaction: Transaction | VersionedTransaction,
-    metadata: PendingTransaction["metadata"]
+    metadata: PendingTransaction["metadata"],
+    intent?: TransactionIntent
   ): Promise<PendingTransaction> {
     try {
       const id = this.generateId();
       const now = Date.now();
 
-      // Serialize transaction to base64
-      const serialized = transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false,
-      });
-      const transactionBase64 = Buffer.from(serialized).toString("base64");
+      const simulation = await this.simulate(
+        transaction,
+        walletAddress,
+        positionAddress
+      );
+      if (simulation && !simulation.success) {
+        logger.warn("Queued transaction fails simulation", {
+          type,
+          positionAddress,
+          error: simulation.error,
+        });
+      }
 
       const pendingTx: PendingTransaction = {
         id,
         type,
         positionAddress,
         walletAddress,
-        transaction: transactionBase64,
-        metadata,
+        transaction: this.serialize(transaction),
+        intent,
+        metadata: { ...metadata, simulation },
         status: "pending",
         createdAt: now,
         expiresAt: now + this.EXPIRY_MS,
       };
 
       this.queue.set(id, pendingTx);
-      this.saveToStorage();
+      this.saveToStorage(pendingTx);
+      this.publish(pendingTx);
 
       logger.info("Transaction queued", {
         id,
@@ -112,6 +177,21 @@ export class TransactionQueueService {
       .sort((a, b) => b.createdAt - a.createdAt);
   }
 
+  /**
+   * Get a wallet's transactions in any status, newest first
+   */
+  getTransactions(
+    walletAddress: string,
+    status?: PendingTransaction["status"]
+  ): PendingTransaction[] {
+    return Array.from(this.queue.values())
+      .filter(
+        (tx) =>
+          tx.walletAddress === walletAddress && (!status || tx.status === status)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
   /**
    * Get all pending transactions (admin view)
    */
@@ -129,7 +209,9 @@ export class TransactionQueueService {
   }
 
   /**
-   * Approve a transaction
+   * Approve a transaction, or refresh one already approved. It is rebuilt
+   * with a current blockhash and priority fee; sign the returned transaction
+   * before its lastValidBlockHeight passes.
    */
   async approveTransaction(
     id: string
@@ -140,10 +222,10 @@ export class TransactionQueueService {
         return { success: false, error: `Transaction not found: ${id}` };
       }
 
-      if (tx.status !== "pending") {
+      if (tx.status !== "pending" && tx.status !== "approved") {
         return {
           success: false,
-          error: `Transaction is not pending: ${tx.status}`,
+          error: `Transaction cannot be approved: ${tx.status}`,
         };
       }
 
@@ -151,12 +233,46 @@ export class TransactionQueueService {
         return { success: false, error: "Transaction has expired" };
       }
 
+      const prepared = await this.rebuild(tx);
+
+      // Chain state may have moved since queueing; don't approve a
+      // transaction that would now fail
+      const simulation = await this.simulate(
+        prepared.transaction,
+        tx.walletAddress,
+        tx.positionAddress,
+        false
+      );
+      if (simulation) {
+        tx.metadata.simulation = simulation;
+        this.saveToStorage(tx);
+        if (!simulation.success) {
+          return {
+            success: false,
+            error: `Transaction fails simulation: ${simulation.error}`,
+          };
+        }
+      }
+
+      tx.transaction = this.serialize(prepared.transaction);
+      tx.blockhash = prepared.blockhash;
+      tx.lastValidBlockHeight = prepared.lastValidBlockHeight;
+      tx.networkFee = {
+        computeUnitLimit: prepared.computeUnitLimit,
+        microLamports: prepared.microLamports,
+        priorityFeeLamports: prepared.priorityFeeLamports,
+      };
       tx.status = "approved";
-      tx.approvedAt = Date.now();
+      tx.approvedAt = tx.approvedAt ?? Date.now();
+      delete tx.error;
       this.queue.set(id, tx);
-      this.saveToStorage();
+      this.saveToStorage(tx);
+      this.publish(tx);
 
-      logger.info("Transaction approved", { id });
+      logger.info("Transaction approved", {
+        id,
+        lastValidBlockHeight: tx.lastValidBlockHeight,
+      });
       return { success: true, data: tx };
     } catch (error: any) {
       logger.error("Failed to approve transaction", {
@@ -179,16 +295,17 @@ export class TransactionQueueService {
         return { success: false, error: `Transaction not found: ${id}` };
       }
 
-      if (tx.status !== "pending") {
+      if (tx.status !== "pending" && tx.status !== "approved") {
         return {
           success: false,
-          error: `Transaction is not pending: ${tx.status}`,
+          error: `Transaction cannot be rejected: ${tx.status}`,
         };
       }
 
       tx.status = "rejected";
       this.queue.set(id, tx);
-      this.saveToStorage();
+      this.saveToStorage(tx);
+      this.publish(tx);
 
       logger.info("Transaction rejected", { id });
       return { success: true, data: tx };
@@ -217,7 +334,8 @@ export class TransactionQueueService {
     tx.executedAt = Date.now();
     tx.signature = signature;
     this.queue.set(id, tx);
-    this.saveToStorage();
+    this.saveToStorage(tx);
+    this.publish(tx);
 
     logger.info("Transaction executed", { id, signature });
     return tx;
@@ -235,7 +353,8 @@ export class TransactionQueueService {
     tx.status = "failed";
     tx.error = error;
     this.queue.set(id, tx);
-    this.saveToStorage();
+    this.saveToStorage(tx);
+    this.publish(tx);
 
     logger.error("Transaction failed", { id, error });
     return tx;
@@ -260,26 +379,26 @@ export class TransactionQueueService {
     for (const [id, tx] of this.queue.entries()) {
       if (tx.expiresAt < now && tx.status === "pending") {
         this.queue.delete(id);
+        storage.deleteQueuedTransaction(id);
         cleaned++;
       }
     }
 
     if (cleaned > 0) {
       logger.info("Cleaned up expired transactions", { count: cleaned });
-      this.saveToStorage();
     }
   }
 
   /**
-   * Start cleanup interval
+   * Schedule cleanup of expired transactions
    */
-  private startCleanupInterval(): void {
-    setInterval(
-      () => {
-        this.cleanupExpired();
-      },
-      60 * 60 * 1000
-    ); // Every hour
+  private scheduleCleanup(): void {
+    scheduler.register({
+      name: "transaction-cleanup",
+      description: "Drop pending transactions past their expiry",
+      trigger: { type: "interval", everyMs: 60 * 60 * 1000 }, // Every hour
+      run: () => this.cleanupExpired(),
+    });
   }
 
   /**
@@ -294,9 +413,9 @@ export class TransactionQueueService {
    */
   private loadFromStorage(): void {
     try {
-      const data = storage.get("transactionQueue");
-      if (data && Array.isArray(data)) {
-        this.queue = new Map(data.map((tx: PendingTransaction) => [tx.id, tx]));
+      const data = storage.getQueuedTransactions();
+      if (data.length > 0) {
+        this.queue = new Map(data.map((tx) => [tx.id, tx]));
         logger.info("Loaded transaction queue from storage", {
           count: this.queue.size,
         });
@@ -309,12 +428,11 @@ export class TransactionQueueService {
   }
 
   /**
-   * Save queue to storage
+   * Persist a single queue entry
    */
-  private saveToStorage(): void {
+  private saveToStorage(tx: PendingTransaction): void {
     try {
-      const data = Array.from(this.queue.values());
-      storage.set("transactionQueue", data);
+      storage.saveQueuedTransaction(tx);
     } catch (error: any) {
       logger.error("Failed to save transaction queue", {
         error: error.message,
@@ -322,6 +440,36 @@ export class TransactionQueueService {
     }
   }
 
+  /**
+   * Call `listener` whenever a transaction is queued or changes status
+   */
+  onUpdate(listener: (tx: PendingTransaction) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Tell listeners and WebSocket clients a transaction changed. Only the id
+   * and status go out to clients; they fetch the transaction itself over the
+   * authenticated API.
+   */
+  private publish(tx: PendingTransaction): void {
+    wsServer.broadcast({
+      type: "transaction_update",
+      data: { id: tx.id, status: tx.status },
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(tx);
+      } catch (error) {
+        logger.error("Transaction update listener failed", {
+          id: tx.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
   /**
    * Execute a signed transaction
    */
@@ -332,6 +480,7 @@ export class TransactionQueueService {
     success: boolean;
     data?: { signature: string };
     error?: string;
+    needsRefresh?: boolean; // blockhash expired; approve again and re-sign
   }> {
     try {
       const tx = this.queue.get(id);
@@ -348,19 +497,77 @@ export class TransactionQueueService {
 
       // Deserialize and send the signed transaction
       const buffer = Buffer.from(signedTransaction, "base64");
-      const transaction = Transaction.from(buffer);
+      const transaction = VersionedTransaction.deserialize(buffer);
+      const connection = getConnection();
+
+      const { recentBlockhash } = transaction.message;
+      if (tx.blockhash && recentBlockhash !== tx.blockhash) {
+        return {
+          success: false,
+          error:
+            "Signed transaction is not the one last approved; sign the refreshed transaction",
+          needsRefresh: true,
+        };
+      }
+      if (tx.lastValidBlockHeight !== undefined) {
+        const blockHeight = await connection.getBlockHeight("confirmed");
+        if (blockHeight > tx.lastValidBlockHeight) {
+          return this.blockhashExpired(tx);
+        }
+      }
+
+      // Preflight the signed bytes against their own blockhash
+      const simulation = await this.simulate(
+        transaction,
+        tx.walletAddress,
+        tx.positionAddress,
+        false
+      );
+      if (simulation) {
+        tx.metadata.simulation = simulation;
+        this.saveToStorage(tx);
+        if (!simulation.success) {
+          const error = `Preflight failed: ${simulation.error}`;
+          await this.markFailed(id, error);
+          return { success: false, error };
+        }
+      }
 
       // Send transaction to Solana network
-      const connection = getConnection();
       const signature = await connection.sendRawTransaction(
         transaction.serialize()
       );
 
-      // Wait for confirmation
-      await connection.confirmTransaction(signature, "confirmed");
+      // Wait for confirmation, giving up once the blockhash can no longer land
+      if (tx.blockhash && tx.lastValidBlockHeight !== undefined) {
+        try {
+          const { value } = await connection.confirmTransaction(
+            {
+              signature,
+              blockhash: tx.blockhash,
+              lastValidBlockHeight: tx.lastValidBlockHeight,
+            },
+            "confirmed"
+          );
+          if (value.err) {
+            throw new Error(`Transaction failed: ${JSON.stringify(value.err)}`);
+          }
+        } catch (error) {
+          if (error instanceof TransactionExpiredBlockheightExceededError) {
+            return this.blockhashExpired(tx);
+          }
+          throw error;
+        }
+      } else {
+        await connection.confirmTransaction(signature, "confirmed");
+      }
 
       // Mark as executed
       await this.markExecuted(id, signature);
+      await this.recordFeePaid(tx, signature);
+
+      const positionData = storage.getPosition(tx.positionAddress);
+      if (positionData) this.recordInLedger(tx, positionData, signature);
 
       logger.info("Transaction executed successfully", { id, signature });
       return { success: true, data: { signature } };
@@ -374,6 +581,190 @@ export class TransactionQueueService {
     }
   }
 
+  /**
+   * Record what an executed transaction moved in the position's ledger.
+   * Withdrawals remove all liquidity and collect the fees with it; a
+   * rebalance moves the amounts in its intent into the new range.
+   */
+  private recordInLedger(
+    tx: PendingTransaction,
+    positionData: PositionData,
+    signature: string
+  ): void {
+    const note = tx.metadata.reason;
+
+    if (tx.type === "compound") {
+      if (tx.metadata.fees) {
+        positionLedger.recordCompound(positionData, tx.metadata.fees, {
+          signature,
+          note,
+        });
+      }
+      return;
+    }
+
+    if (tx.type === "rebalance") {
+      // Transactions queued before intents were kept moved everything
+      const share = tx.intent
+        ? positionLedger.shareOf(positionData, tx.intent)
+        : 1;
+      if (share > 0) {
+        positionLedger.recordExit(positionData, "rebalance", {
+          share,
+          signature,
+          note,
+        });
+      }
+      return;
+    }
+
+    const { feeX, feeY } = positionAmounts(
+      positionData.position,
+      positionData.pool
+    );
+    positionLedger.recordClaim(
+      positionData,
+      { amountX: feeX, amountY: feeY },
+      { signature, note }
+    );
+    positionLedger.recordExit(positionData, "withdrawal", {
+      share: 1,
+      signature,
+      note,
+    });
+  }
+
+  // The signed transaction can no longer land; it stays approved so it can be
+  // refreshed and signed again
+  private blockhashExpired(tx: PendingTransaction) {
+    const error =
+      "Blockhash expired before the transaction landed; approve again to refresh it";
+    tx.error = error;
+    this.saveToStorage(tx);
+    this.publish(tx);
+    logger.warn("Transaction blockhash expired", {
+      id: tx.id,
+      lastValidBlockHeight: tx.lastValidBlockHeight,
+    });
+    return { success: false, error, needsRefresh: true };
+  }
+
+  /**
+   * Build the queued transaction afresh with a current blockhash and
+   * priority fee. Without an intent the stored transaction is rebuilt from
+   * its own instructions, which only works when the wallet is its sole
+   * signer.
+   */
+  private async rebuild(tx: PendingTransaction): Promise<PreparedTransaction> {
+    const wallet = new PublicKey(tx.walletAddress);
+    const position = storage.getPosition(tx.positionAddress)?.position;
+    const intent = tx.intent;
+
+    if (intent && position && tx.type === "rebalance" && intent.range) {
+      const result = await dlmmClient.rebalancePosition(
+        position,
+        intent.range.lowerBinId,
+        intent.range.upperBinId,
+        wallet,
+        intent.amountX,
+        intent.amountY,
+        intent.distribution,
+        {
+          swapToRatio: intent.swapToRatio,
+          slippageBps: intent.slippageBps,
+          withdrawOld: intent.withdrawOld,
+        }
+      );
+      tx.metadata.newRange = result.newRange;
+      tx.metadata.swap = result.swap;
+      return result.prepared;
+    }
+    if (
+      intent &&
+      position &&
+      (tx.type === "stop-loss" || tx.type === "close-position")
+    ) {
+      const result = await dlmmClient.prepareWithdrawTransaction(
+        position,
+        wallet,
+        { swapTo: intent.swapTo, slippageBps: intent.slippageBps }
+      );
+      tx.metadata.swap = result.swap;
+      return result.prepared;
+    }
+    if (intent && position && tx.type === "compound") {
+      return dlmmClient.prepareCompoundTransaction(
+        position,
+        wallet,
+        Number(intent.amountX) || 0,
+        Number(intent.amountY) || 0,
+        intent.distribution
+      );
+    }
+
+    return rebuildTransaction(
+      VersionedTransaction.deserialize(Buffer.from(tx.transaction, "base64")),
+      wallet
+    );
+  }
+
+  // Best effort: the fee is informational and the transaction already landed
+  private async recordFeePaid(
+    tx: PendingTransaction,
+    signature: string
+  ): Promise<void> {
+    try {
+      const confirmed = await getConnection().getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+      if (confirmed?.meta && tx.networkFee) {
+        tx.networkFee.paidLamports = confirmed.meta.fee;
+        this.saveToStorage(tx);
+      }
+    } catch (error) {
+      logger.warn("Failed to record transaction fee", {
+        id: tx.id,
+        signature,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private serialize(transaction: Transaction | VersionedTransaction): string {
+    const serialized = transaction.serialize({
+      requireAllSignatures: false,
+      verifySignatures: false,
+    });
+    return Buffer.from(serialized).toString("base64");
+  }
+
+  /**
+   * Preflight a transaction, tracking the wallet's SOL and the position's pool
+   * tokens. Undefined if the RPC could not simulate it.
+   */
+  private async simulate(
+    transaction: Transaction | VersionedTransaction,
+    walletAddress: string,
+    positionAddress: string,
+    replaceRecentBlockhash = true
+  ): Promise<TransactionSimulation | undefined> {
+    const pool = storage.getPosition(positionAddress)?.pool;
+    try {
+      return await simulateTransaction(transaction, {
+        wallet: walletAddress,
+        tokens: pool ? [pool.tokenX, pool.tokenY] : [],
+        replaceRecentBlockhash,
+      });
+    } catch (error) {
+      logger.warn("Transaction simulation unavailable", {
+        positionAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Get queue statistics
    */
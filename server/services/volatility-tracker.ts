@@ -2,16 +2,22 @@ import { storage } from "../storage";
 import { dlmmClient } from "../solana/dlmm-client";
 import { PublicKey } from "@solana/web3.js";
 import type { VolatilityData } from "../../shared/schema";
+import { priceHistoryService } from "./price-history.service";
+import { scheduler } from "../scheduler";
 
 export class VolatilityTracker {
-  private trackingInterval: NodeJS.Timeout | null = null;
   private readonly UPDATE_INTERVAL = 60000; // 1 minute
 
   calculateVolatility(
     poolAddress: string,
     timeframe: number = 86400000
   ): number {
-    const priceHistory = storage.getPriceHistory(poolAddress);
+    const interval = priceHistoryService.resolveInterval(timeframe);
+    const priceHistory = priceHistoryService.getPriceSeries(
+      poolAddress,
+      interval,
+      Date.now() - timeframe
+    );
 
     if (priceHistory.length < 2) {
       return 0;
@@ -34,14 +40,19 @@ export class VolatilityTracker {
     const stdDev = Math.sqrt(variance);
 
     // Annualize volatility
-    const periodsPerYear = 365 * 24 * 60; // Minutes in a year
+    const periodsPerYear =
+      (365 * 86400000) / priceHistoryService.getIntervalMs(interval);
     const annualizedVolatility = stdDev * Math.sqrt(periodsPerYear) * 100;
 
     return annualizedVolatility;
   }
 
   calculatePriceChange(poolAddress: string, timeframe: number): number {
-    const priceHistory = storage.getPriceHistory(poolAddress);
+    const priceHistory = priceHistoryService.getPriceSeries(
+      poolAddress,
+      priceHistoryService.resolveInterval(timeframe),
+      Date.now() - timeframe
+    );
 
     if (priceHistory.length < 2) {
       return 0;
@@ -81,20 +92,21 @@ export class VolatilityTracker {
   }
 
   async startTracking(poolAddresses: string[]) {
-    if (this.trackingInterval) {
-      clearInterval(this.trackingInterval);
-    }
-
-    // Initial update
-    for (const address of poolAddresses) {
-      await this.updateVolatilityData(address);
-    }
-
-    this.trackingInterval = setInterval(async () => {
+    const update = async () => {
       for (const address of poolAddresses) {
         await this.updateVolatilityData(address);
       }
-    }, this.UPDATE_INTERVAL);
+    };
+
+    // Initial update
+    await update();
+
+    scheduler.register({
+      name: "volatility",
+      description: "Refresh volatility data for the tracked pools",
+      trigger: { type: "interval", everyMs: this.UPDATE_INTERVAL },
+      run: update,
+    });
 
     console.log(
       "Volatility tracking started for",
@@ -104,9 +116,8 @@ export class VolatilityTracker {
   }
 
   stopTracking() {
-    if (this.trackingInterval) {
-      clearInterval(this.trackingInterval);
-      this.trackingInterval = null;
+    if (scheduler.has("volatility")) {
+      scheduler.unregister("volatility");
       console.log("Volatility tracking stopped");
     }
   }
@@ -13,6 +13,7 @@ import {
   ApiResponse,
 } from '../types';
 import { InsufficientDataError } from '../utils/errors';
+import { priceHistoryService } from './price-history.service';
 
 export class VolatilityService {
   /**
@@ -147,22 +148,14 @@ export class VolatilityService {
     poolKey: string,
     periodHours: number
   ): Promise<PricePoint[]> {
-    // TODO: Integrate with price oracle or historical data source
-    // For now, return mock data
     logger.debug('Fetching price history', { pool: poolKey, periodHours });
 
-    const now = Date.now();
-    const hourMs = 3600000;
-    const mockData: PricePoint[] = [];
-
-    for (let i = periodHours; i >= 0; i--) {
-      mockData.push({
-        timestamp: now - i * hourMs,
-        price: 100 + Math.random() * 10 - 5, // Mock price around 100
-      });
-    }
-
-    return mockData;
+    // Hourly closes from the persisted candle store
+    return priceHistoryService.getPriceSeries(
+      poolKey,
+      '1h',
+      Date.now() - periodHours * 3600000
+    );
   }
 
   /**
@@ -0,0 +1,226 @@
+/**
+ * Wallet Profile Service
+ * Per-wallet automation settings: monitoring, rebalance and fee compounding
+ * schedules, stop-loss defaults and notification targets
+ */
+
+import storage from "../storage";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+import { positionMonitor } from "./position-monitor";
+import { feeCompounder } from "./fee-compounder.service";
+import {
+  stopLossManager,
+  type StopLossConfig as StopLossSetting,
+} from "./stop-loss-manager";
+import {
+  WalletProfileUpdateSchema,
+  type PositionData,
+  type WalletProfile,
+  type WalletProfileStatus,
+} from "../../shared/schema";
+
+const DEFAULT_PROFILE: Omit<
+  WalletProfile,
+  "wallet" | "createdAt" | "updatedAt"
+> = {
+  monitoring: false,
+  monitorIntervalMs: 60000,
+  autoRebalance: false,
+  rebalanceThreshold: 5,
+  autoCollectFees: true,
+  feeThreshold: 10,
+  stopLoss: { enabled: false, lossThreshold: 10, impermanentLossThreshold: 5 },
+  notifications: { enabled: true },
+};
+
+export class WalletProfileService {
+  // Stop-losses set from a wallet's defaults, by position
+  private defaultedStopLosses = new Map<
+    string,
+    { wallet: string; config: StopLossSetting }
+  >();
+
+  list(): WalletProfileStatus[] {
+    return Object.values(storage.getWalletProfiles()).map((profile) =>
+      this.withStatus(profile)
+    );
+  }
+
+  /**
+   * Stored profile, or the defaults for a wallet that has none yet
+   */
+  get(wallet: string): WalletProfileStatus {
+    return this.withStatus(
+      storage.getWalletProfile(wallet) || this.defaults(wallet)
+    );
+  }
+
+  /**
+   * Merge changes into a wallet's profile and reschedule its automation
+   */
+  update(wallet: string, changes: unknown): WalletProfileStatus {
+    const profile = this.save(wallet, changes);
+    this.schedule(profile);
+    this.applyStopLossDefaults(profile, storage.getUserPositions(wallet));
+    return this.withStatus(profile);
+  }
+
+  remove(wallet: string): void {
+    positionMonitor.stopWallet(wallet);
+    feeCompounder.stop(wallet);
+    this.clearStopLossDefaults(wallet);
+    storage.removeWalletProfile(wallet);
+    logger.info("Wallet profile removed", { wallet });
+  }
+
+  /**
+   * Start the schedules of every stored profile (on server start). A legacy
+   * single-wallet setup becomes that wallet's profile first.
+   */
+  restore(): void {
+    this.migrateLegacySettings();
+
+    for (const profile of Object.values(storage.getWalletProfiles())) {
+      this.schedule(profile);
+    }
+  }
+
+  private save(wallet: string, changes: unknown): WalletProfile {
+    const parsed = WalletProfileUpdateSchema.safeParse(changes);
+    if (!parsed.success) {
+      throw new ValidationError("Invalid wallet profile", {
+        issues: parsed.error.issues,
+      });
+    }
+
+    const current = storage.getWalletProfile(wallet) || this.defaults(wallet);
+    const { stopLoss, notifications, ...rest } = parsed.data;
+    const profile: WalletProfile = {
+      ...current,
+      ...rest,
+      wallet,
+      stopLoss: { ...current.stopLoss, ...stopLoss },
+      notifications: { ...current.notifications, ...notifications },
+      updatedAt: Date.now(),
+    };
+    // Auto-rebalancing works off monitored positions
+    if (profile.autoRebalance) profile.monitoring = true;
+
+    storage.setWalletProfile(profile);
+    logger.info("Wallet profile saved", {
+      wallet,
+      monitoring: profile.monitoring,
+      autoRebalance: profile.autoRebalance,
+    });
+    return profile;
+  }
+
+  private defaults(wallet: string): WalletProfile {
+    const now = Date.now();
+    return {
+      ...structuredClone(DEFAULT_PROFILE),
+      wallet,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private schedule(profile: WalletProfile): void {
+    if (!profile.monitoring) {
+      positionMonitor.stopWallet(profile.wallet);
+      feeCompounder.stop(profile.wallet);
+      return;
+    }
+
+    positionMonitor.startWallet(profile.wallet, {
+      intervalMs: profile.monitorIntervalMs,
+      onPositions: (wallet, positions) => {
+        const current = storage.getWalletProfile(wallet);
+        if (current) this.applyStopLossDefaults(current, positions);
+      },
+    });
+
+    if (profile.autoRebalance) {
+      positionMonitor.startWalletRebalancing(
+        profile.wallet,
+        profile.rebalanceThreshold
+      );
+    } else {
+      positionMonitor.stopWalletRebalancing(profile.wallet);
+    }
+
+    // Compounding works off the fees monitoring keeps up to date
+    if (profile.autoCollectFees) {
+      feeCompounder.start(profile.wallet, profile.feeThreshold);
+    } else {
+      feeCompounder.stop(profile.wallet);
+    }
+  }
+
+  // Positions with a stop-loss of their own (set or replaced through the API)
+  // are left alone
+  private applyStopLossDefaults(
+    profile: WalletProfile,
+    positions: PositionData[]
+  ): void {
+    if (!profile.stopLoss.enabled) {
+      this.clearStopLossDefaults(profile.wallet);
+      return;
+    }
+
+    for (const { position } of positions) {
+      const existing = stopLossManager.getStopLoss(position.address);
+      const defaulted = this.defaultedStopLosses.get(position.address);
+      if (existing && existing !== defaulted?.config) {
+        this.defaultedStopLosses.delete(position.address);
+        continue;
+      }
+
+      const config: StopLossSetting = {
+        positionAddress: position.address,
+        enabled: true,
+        mode: "threshold",
+        action: "withdraw_to_token",
+        lossThreshold: profile.stopLoss.lossThreshold,
+        impermanentLossThreshold: profile.stopLoss.impermanentLossThreshold,
+        createdAt: Date.now(),
+      };
+      stopLossManager.setStopLoss(config, { persist: false });
+      this.defaultedStopLosses.set(position.address, {
+        wallet: profile.wallet,
+        config,
+      });
+    }
+  }
+
+  private clearStopLossDefaults(wallet: string): void {
+    for (const [positionAddress, defaulted] of this.defaultedStopLosses) {
+      if (defaulted.wallet !== wallet) continue;
+      if (stopLossManager.getStopLoss(positionAddress) === defaulted.config) {
+        stopLossManager.removeStopLoss(positionAddress);
+      }
+      this.defaultedStopLosses.delete(positionAddress);
+    }
+  }
+
+  private migrateLegacySettings(): void {
+    const settings = storage.getSettings();
+    const wallet = settings.monitoredWallet;
+    if (!wallet || storage.getWalletProfile(wallet)) return;
+    if (!settings.autoRebalance) return;
+
+    logger.info("Creating wallet profile from saved settings", { wallet });
+    this.save(wallet, {
+      monitoring: true,
+      autoRebalance: true,
+      rebalanceThreshold: settings.rebalanceThreshold || 5,
+    });
+  }
+
+  private withStatus(profile: WalletProfile): WalletProfileStatus {
+    return { ...profile, running: positionMonitor.isMonitoring(profile.wallet) };
+  }
+}
+
+export const walletProfiles = new WalletProfileService();
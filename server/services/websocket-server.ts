@@ -164,6 +164,7 @@ export class WSServer {
   }
 
   broadcastAutoRebalanceStatus(status: {
+    wallet?: string;
     enabled: boolean;
     threshold: number;
     lastCheck?: number;
@@ -1,13 +1,59 @@
-import { Connection, PublicKey, Keypair, Transaction } from "@solana/web3.js";
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
 import { getConnection } from "./connection";
-import type { PoolInfo, Position } from "../../shared/schema";
+import {
+  buildTransaction,
+  type PreparedTransaction,
+} from "./transaction-builder";
+import type {
+  LiquidityDistribution,
+  PoolInfo,
+  Position,
+} from "../../shared/schema";
 import { LiquidityBookServices, MODE } from "@saros-finance/dlmm-sdk";
 import { logger } from "../utils/logger";
+import { config } from "../config";
+import { binIdToPrice, priceToBinId } from "../utils/bin-math";
+import {
+  SPOT_DISTRIBUTION,
+  allocateLiquidity,
+  swapToRatio,
+  targetShareX,
+  toSdkDistribution,
+} from "../utils/liquidity-distribution";
 import { getMint } from "@solana/spl-token";
+import type { RebalanceSwap } from "../types";
+import { priceOracle } from "../oracle";
+
+export interface RebalanceInstructions {
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+  positionMint: string;
+  oldRange: { lowerBinId: number; upperBinId: number };
+  newRange: { lowerBinId: number; upperBinId: number };
+  activeBinId: number;
+  swap?: RebalanceSwap;
+}
+
+export interface RebalanceOptions {
+  // Swap part of the deposit first so it matches the new range's token ratio
+  swapToRatio?: boolean;
+  slippageBps?: number;
+  // Withdraw the old position in the same transaction so the deposit is
+  // paid from its liquidity instead of the wallet's free balance
+  withdrawOld?: boolean;
+}
 
 export class DLMMClient {
   private connection: Connection;
   private sarosDLMM: LiquidityBookServices;
+  // Token symbols by mint; metadata doesn't change once a token exists
+  private tokenSymbols = new Map<string, string>();
 
   constructor() {
     this.connection = getConnection();
@@ -25,6 +71,9 @@ export class DLMMClient {
   }
 
   async getTokenSymbol(mintAddress: string): Promise<string> {
+    const cached = this.tokenSymbols.get(mintAddress);
+    if (cached) return cached;
+
     try {
       const mint = new PublicKey(mintAddress);
 
@@ -63,6 +112,7 @@ export class DLMMClient {
             .trim();
 
           if (symbol) {
+            this.tokenSymbols.set(mintAddress, symbol);
             return symbol;
           }
         }
@@ -71,7 +121,9 @@ export class DLMMClient {
       }
 
       // Fallback: use shortened mint address
-      return mintAddress.slice(0, 4) + "..." + mintAddress.slice(-4);
+      const fallback = mintAddress.slice(0, 4) + "..." + mintAddress.slice(-4);
+      this.tokenSymbols.set(mintAddress, fallback);
+      return fallback;
     } catch (error) {
       logger.warn("Failed to fetch token symbol", {
         mint: mintAddress,
@@ -112,7 +164,7 @@ export class DLMMClient {
         this.getTokenSymbol(metadata.quoteMint),
       ]);
 
-      const poolInfo = {
+      const poolInfo: PoolInfo = {
         address: poolAddress.toString(),
         tokenX: {
           mint: metadata.baseMint,
@@ -131,6 +183,14 @@ export class DLMMClient {
         volume24h: 0,
         fees24h: 0,
       };
+
+      // TVL from the reserves at the oracle's prices
+      const { x, y } = priceOracle.getPoolPrices(poolInfo);
+      poolInfo.tvl =
+        (Number(metadata.baseReserve) / 10 ** poolInfo.tokenX.decimals) *
+          x.usd +
+        (Number(metadata.quoteReserve) / 10 ** poolInfo.tokenY.decimals) *
+          y.usd;
       logger.debug("Pool info fetched successfully", {
         poolAddress: poolAddress.toString(),
         activeId: pairAccount.activeId,
@@ -354,7 +414,8 @@ export class DLMMClient {
     upperBinId: number,
     amountX: string,
     amountY: string,
-    walletPublicKey: PublicKey
+    walletPublicKey: PublicKey,
+    distribution: LiquidityDistribution = SPOT_DISTRIBUTION
   ): Promise<{ transaction: string; positionMint: string }> {
     try {
       logger.info("Preparing position creation transaction", {
@@ -363,6 +424,7 @@ export class DLMMClient {
         upperBinId,
         amountX,
         amountY,
+        shape: distribution.shape,
       });
 
       // Get pair account to get active bin
@@ -431,19 +493,47 @@ export class DLMMClient {
         transaction,
       });
 
-      // Get recent blockhash and set fee payer
-      const { blockhash, lastValidBlockHeight } =
-        await this.connection.getLatestBlockhash("finalized");
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = walletPublicKey;
+      // Deposit into the new position with the requested shape
+      if (Number(amountX) > 0 || Number(amountY) > 0) {
+        const binArrayLower = await this.sarosDLMM.getBinArray({
+          pair: poolAddress,
+          binArrayIndex: Math.floor(lowerBinId / 256),
+        });
+        const binArrayUpper = await this.sarosDLMM.getBinArray({
+          pair: poolAddress,
+          binArrayIndex: Math.floor(upperBinId / 256),
+        });
 
-      // Add position mint as partial signer (needs to be signed on client side too)
-      transaction.partialSign(positionMint);
+        await this.sarosDLMM.addLiquidityIntoPosition({
+          pair: poolAddress,
+          payer: walletPublicKey,
+          positionMint: positionMint.publicKey,
+          amountX: Number(amountX),
+          amountY: Number(amountY),
+          transaction,
+          liquidityDistribution: this.buildLiquidityDistribution(
+            lowerBinId,
+            upperBinId,
+            activeBinId,
+            pairAccount.binStep,
+            Number(amountX),
+            Number(amountY),
+            distribution
+          ),
+          binArrayLower,
+          binArrayUpper,
+        });
+      }
+
+      // Position mint signs here; the wallet signs on the client side
+      const { transaction: built, blockhash } = await buildTransaction(
+        transaction.instructions,
+        walletPublicKey,
+        [positionMint]
+      );
 
       // Serialize transaction for client signing
-      const serializedTx = transaction
-        .serialize({ requireAllSignatures: false })
-        .toString("base64");
+      const serializedTx = Buffer.from(built.serialize()).toString("base64");
 
       logger.info("Position creation transaction prepared successfully", {
         positionMint: positionMint.publicKey.toString(),
@@ -520,7 +610,8 @@ export class DLMMClient {
     positionInfo: Position,
     amountX: string,
     amountY: string,
-    wallet: Keypair
+    wallet: Keypair,
+    distribution: LiquidityDistribution = SPOT_DISTRIBUTION
   ): Promise<string> {
     try {
       // Get position mint from position info
@@ -546,19 +637,15 @@ export class DLMMClient {
         binArrayIndex: binArrayUpperIndex,
       });
 
-      // Create liquidity distribution
-      const liquidityDistribution = [];
-      for (
-        let binId = positionInfo.lowerBinId;
-        binId <= positionInfo.upperBinId;
-        binId++
-      ) {
-        liquidityDistribution.push({
-          relativeBinId: binId - activeBinId,
-          distributionX: 50,
-          distributionY: 50,
-        });
-      }
+      const liquidityDistribution = this.buildLiquidityDistribution(
+        positionInfo.lowerBinId,
+        positionInfo.upperBinId,
+        activeBinId,
+        pairAccount.binStep,
+        parseFloat(amountX),
+        parseFloat(amountY),
+        distribution
+      );
 
       const transaction = new Transaction();
       await this.sarosDLMM.addLiquidityIntoPosition({
@@ -651,9 +738,200 @@ export class DLMMClient {
     }
   }
 
+  /**
+   * Claim a position's fees and add them back into its own range, as one
+   * unsigned transaction for the owner to sign
+   * @param feeX - fee amounts to re-add, in base units
+   */
+  async prepareCompoundTransaction(
+    positionInfo: Position,
+    walletPublicKey: PublicKey,
+    feeX: number,
+    feeY: number,
+    distribution: LiquidityDistribution = SPOT_DISTRIBUTION
+  ): Promise<PreparedTransaction> {
+    try {
+      const pair = new PublicKey(positionInfo.poolAddress);
+      const positionAccount = await this.sarosDLMM.getPositionAccount(
+        new PublicKey(positionInfo.address)
+      );
+      const pairAccount = await this.sarosDLMM.getPairAccount(pair);
+
+      // Claim the same way claimFees does
+      const claim = await this.sarosDLMM.removeMultipleLiquidity({
+        maxPositionList: [
+          {
+            position: positionInfo.address,
+            start: positionInfo.lowerBinId,
+            end: positionInfo.upperBinId,
+            positionMint: positionAccount.positionMint.toString(),
+          },
+        ],
+        payer: walletPublicKey,
+        type: "removeBoth",
+        pair,
+        tokenMintX: pairAccount.tokenMintX,
+        tokenMintY: pairAccount.tokenMintY,
+        activeId: pairAccount.activeId,
+      });
+
+      const transaction = new Transaction();
+      for (const tx of [claim.txCreateAccount, ...claim.txs]) {
+        if (tx) transaction.add(...tx.instructions);
+      }
+
+      const binArrayLower = await this.sarosDLMM.getBinArray({
+        pair,
+        binArrayIndex: Math.floor(positionInfo.lowerBinId / 256),
+      });
+      const binArrayUpper = await this.sarosDLMM.getBinArray({
+        pair,
+        binArrayIndex: Math.floor(positionInfo.upperBinId / 256),
+      });
+      await this.sarosDLMM.addLiquidityIntoPosition({
+        pair,
+        payer: walletPublicKey,
+        positionMint: positionAccount.positionMint,
+        amountX: feeX,
+        amountY: feeY,
+        transaction,
+        liquidityDistribution: this.buildLiquidityDistribution(
+          positionInfo.lowerBinId,
+          positionInfo.upperBinId,
+          pairAccount.activeId,
+          pairAccount.binStep,
+          feeX,
+          feeY,
+          distribution
+        ),
+        binArrayLower,
+        binArrayUpper,
+      });
+
+      // Unwrap leftover SOL only after the re-deposit
+      if (claim.txCloseAccount) {
+        transaction.add(...claim.txCloseAccount.instructions);
+      }
+
+      const prepared = await buildTransaction(
+        transaction.instructions,
+        walletPublicKey
+      );
+
+      logger.info("Compound transaction prepared", {
+        positionAddress: positionInfo.address,
+        feeX,
+        feeY,
+        instructions: transaction.instructions.length,
+      });
+      return prepared;
+    } catch (error) {
+      logger.error("Failed to prepare compound transaction", {
+        positionAddress: positionInfo.address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw all of a position's liquidity, optionally swapping the other
+   * token into one side through the same pool, as one unsigned transaction
+   * for the owner to sign
+   * @param options.swapTo - pool token ("x" or "y") to end up holding
+   */
+  async prepareWithdrawTransaction(
+    positionInfo: Position,
+    walletPublicKey: PublicKey,
+    options: { swapTo?: "x" | "y"; slippageBps?: number } = {}
+  ): Promise<{ prepared: PreparedTransaction; swap?: RebalanceSwap }> {
+    try {
+      const pair = new PublicKey(positionInfo.poolAddress);
+      const positionAccount = await this.sarosDLMM.getPositionAccount(
+        new PublicKey(positionInfo.address)
+      );
+      const pairAccount = await this.sarosDLMM.getPairAccount(pair);
+      const removal = await this.prepareRemoval(
+        positionInfo,
+        positionAccount.positionMint,
+        walletPublicKey,
+        pairAccount
+      );
+
+      const transaction = new Transaction();
+      transaction.add(...removal.instructions);
+
+      // Sell the withdrawn amount of the other token; fees stay as they are
+      let swap: RebalanceSwap | undefined;
+      const swapForY = options.swapTo === "y";
+      const amountIn = swapForY
+        ? positionInfo.liquidityX
+        : positionInfo.liquidityY;
+      if (options.swapTo && BigInt(amountIn || "0") > BigInt(0)) {
+        const slippageBps =
+          options.slippageBps ?? config.rebalancing.defaultSlippageBps;
+        const quote = await this.getSwapQuote(
+          pair,
+          amountIn,
+          swapForY,
+          slippageBps
+        );
+        swap = {
+          swapForY,
+          amountIn: quote.amountIn,
+          expectedAmountOut: quote.amountOut,
+          minAmountOut: quote.minAmountOut,
+          priceImpact: quote.priceImpact,
+          slippageBps,
+        };
+
+        const swapTx = await this.sarosDLMM.swap({
+          tokenMintX: pairAccount.tokenMintX,
+          tokenMintY: pairAccount.tokenMintY,
+          amount: BigInt(swap.amountIn),
+          otherAmountOffset: BigInt(swap.minAmountOut),
+          swapForY,
+          isExactInput: true,
+          pair,
+          hook: pairAccount.hook || PublicKey.default,
+          payer: walletPublicKey,
+        });
+        transaction.add(...swapTx.instructions);
+      }
+
+      // Unwrap SOL only after the swap has used it
+      if (removal.closeInstructions.length > 0) {
+        transaction.add(...removal.closeInstructions);
+      }
+
+      const prepared = await buildTransaction(
+        transaction.instructions,
+        walletPublicKey
+      );
+
+      logger.info("Withdraw transaction prepared", {
+        positionAddress: positionInfo.address,
+        swapTo: options.swapTo,
+        swap,
+      });
+      return { prepared, swap };
+    } catch (error) {
+      logger.error("Failed to prepare withdraw transaction", {
+        positionAddress: positionInfo.address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
   /**
    * Rebalance a position by creating a new position with optimized range
    * Returns unsigned transaction for wallet to sign
+   * @param options.swapToRatio - swap part of the liquidity first so it
+   * matches the token ratio the new range needs (e.g. an out-of-range
+   * position that is all one token)
+   * @param options.withdrawOld - withdraw the old position first; the
+   * liquidity amounts should then be the old position's own
    */
   async rebalancePosition(
     positionInfo: Position,
@@ -661,14 +939,61 @@ export class DLMMClient {
     newUpperBinId: number,
     walletPublicKey: PublicKey,
     liquidityAmountX?: string,
-    liquidityAmountY?: string
-  ): Promise<{
-    transaction: string;
-    positionMint: string;
-    oldRange: { lowerBinId: number; upperBinId: number };
-    newRange: { lowerBinId: number; upperBinId: number };
-    activeBinId: number;
-  }> {
+    liquidityAmountY?: string,
+    distribution: LiquidityDistribution = SPOT_DISTRIBUTION,
+    options: RebalanceOptions = {}
+  ): Promise<
+    Omit<RebalanceInstructions, "instructions" | "signers"> & {
+      transaction: string;
+      prepared: PreparedTransaction;
+    }
+  > {
+    const { instructions, signers, ...rebalance } =
+      await this.prepareRebalanceInstructions(
+        positionInfo,
+        newLowerBinId,
+        newUpperBinId,
+        walletPublicKey,
+        liquidityAmountX,
+        liquidityAmountY,
+        distribution,
+        options
+      );
+
+    // Serialize transaction
+    const prepared = await buildTransaction(
+      instructions,
+      walletPublicKey,
+      signers
+    );
+    const serializedTx = Buffer.from(prepared.transaction.serialize()).toString(
+      "base64"
+    );
+
+    logger.info("Rebalance transaction prepared successfully", {
+      newPositionMint: rebalance.positionMint,
+      oldRange: rebalance.oldRange,
+      newRange: rebalance.newRange,
+      txSize: serializedTx.length,
+    });
+
+    return { ...rebalance, transaction: serializedTx, prepared };
+  }
+
+  /**
+   * Instructions for a rebalance, without building a transaction, so several
+   * can share one (see EcoRebalancer). Signers holds the new position mint.
+   */
+  async prepareRebalanceInstructions(
+    positionInfo: Position,
+    newLowerBinId: number,
+    newUpperBinId: number,
+    walletPublicKey: PublicKey,
+    liquidityAmountX?: string,
+    liquidityAmountY?: string,
+    distribution: LiquidityDistribution = SPOT_DISTRIBUTION,
+    options: RebalanceOptions = {}
+  ): Promise<RebalanceInstructions> {
     try {
       logger.info("Starting rebalance transaction preparation", {
         positionAddress: positionInfo.address,
@@ -701,16 +1026,23 @@ export class DLMMClient {
         providedNewRange: { lower: newLowerBinId, upper: newUpperBinId },
       });
 
-      // Enforce standard 16-bin position (relative width = 15)
-      const expectedWidth = 15;
-      if (newUpperBinId - newLowerBinId !== expectedWidth) {
-        logger.warn("Adjusting to standard 16-bin position");
-        newLowerBinId = activeBinId - 7; // relativeLeft = -7
-        newUpperBinId = activeBinId + 8; // relativeRight = 8, width = 15
+      // Ranges are sized from stored pool state; if the active bin has since
+      // moved onto or past an edge, slide the range so it stays strictly inside
+      if (activeBinId <= newLowerBinId || activeBinId >= newUpperBinId) {
+        const shift =
+          activeBinId <= newLowerBinId
+            ? activeBinId - newLowerBinId - 1
+            : activeBinId - newUpperBinId + 1;
+        logger.warn("Active bin moved since range was calculated, shifting", {
+          activeBinId,
+          shift,
+        });
+        newLowerBinId += shift;
+        newUpperBinId += shift;
       }
 
-      const relativeBinIdLeft = newLowerBinId - activeBinId; // Must be negative, e.g., -7
-      const relativeBinIdRight = newUpperBinId - activeBinId; // Must be positive, e.g., 8
+      const relativeBinIdLeft = newLowerBinId - activeBinId; // Must be negative
+      const relativeBinIdRight = newUpperBinId - activeBinId; // Must be positive
 
       // Bin array size in Saros DLMM: 256 bins per array
       const BIN_ARRAY_SIZE = 256;
@@ -725,14 +1057,15 @@ export class DLMMClient {
         );
       }
 
-      const inclusiveBins = newUpperBinId - newLowerBinId + 1; // Should be 16
-      if (inclusiveBins !== 16) {
+      const inclusiveBins = newUpperBinId - newLowerBinId + 1;
+      const { minPositionBins, maxPositionBins } = config.rebalancing;
+      if (inclusiveBins < minPositionBins || inclusiveBins > maxPositionBins) {
         throw new Error(
-          `Invalid inclusive bin count: ${inclusiveBins} (must be 16)`
+          `Invalid inclusive bin count: ${inclusiveBins} (must be ${minPositionBins}-${maxPositionBins})`
         );
       }
 
-      logger.info("Bin range details (16 bins)", {
+      logger.info("Bin range details", {
         activeBinId,
         newLowerBinId,
         newUpperBinId,
@@ -766,6 +1099,19 @@ export class DLMMClient {
       const newPositionMint = Keypair.generate();
       const createPositionTx = new Transaction();
 
+      // The swap and deposit below spend what this withdrawal returns
+      let closeInstructions: TransactionInstruction[] = [];
+      if (options.withdrawOld) {
+        const removal = await this.prepareRemoval(
+          positionInfo,
+          positionAccount.positionMint,
+          walletPublicKey,
+          pairAccount
+        );
+        createPositionTx.add(...removal.instructions);
+        closeInstructions = removal.closeInstructions;
+      }
+
       logger.info("Calling DLMM createPosition with params", {
         pair: positionInfo.poolAddress,
         payer: walletPublicKey.toString(),
@@ -803,7 +1149,7 @@ export class DLMMClient {
         "binArrayIndex calculation: Math.floor(" + newLowerBinId + " / 256) =",
         binArrayIndex
       );
-      console.log("Inclusive bins:", inclusiveBins, "(should =16)");
+      console.log("Inclusive bins:", inclusiveBins);
       console.log(
         "Array span:",
         upperArrayIndex - lowerArrayIndex + 1,
@@ -835,14 +1181,56 @@ export class DLMMClient {
         logger.debug("Initialized bin array", { index: idx });
       }
 
-      // Add liquidity if provided
-      if (liquidityAmountX || liquidityAmountY) {
-        const minLiquidityX = Number(liquidityAmountX || "0");
-        const minLiquidityY = Number(liquidityAmountY || "0");
+      let minLiquidityX = Number(liquidityAmountX || "0");
+      let minLiquidityY = Number(liquidityAmountY || "0");
+      let swap: RebalanceSwap | undefined;
+
+      if (options.swapToRatio && (minLiquidityX > 0 || minLiquidityY > 0)) {
+        swap =
+          (await this.planSwapToRatio(
+            new PublicKey(positionInfo.poolAddress),
+            newLowerBinId,
+            newUpperBinId,
+            activeBinId,
+            pairAccount.binStep,
+            minLiquidityX,
+            minLiquidityY,
+            distribution,
+            options.slippageBps ?? config.rebalancing.defaultSlippageBps
+          )) ?? undefined;
+      }
+
+      if (swap) {
+        const swapTx = await this.sarosDLMM.swap({
+          tokenMintX: pairAccount.tokenMintX,
+          tokenMintY: pairAccount.tokenMintY,
+          amount: BigInt(swap.amountIn),
+          otherAmountOffset: BigInt(swap.minAmountOut),
+          swapForY: swap.swapForY,
+          isExactInput: true,
+          pair: new PublicKey(positionInfo.poolAddress),
+          hook: pairAccount.hook || PublicKey.default,
+          payer: walletPublicKey,
+        });
+        createPositionTx.add(...swapTx.instructions);
+
+        // Deposit only what the swap is guaranteed to return
+        if (swap.swapForY) {
+          minLiquidityX -= Number(swap.amountIn);
+          minLiquidityY += Number(swap.minAmountOut);
+        } else {
+          minLiquidityY -= Number(swap.amountIn);
+          minLiquidityX += Number(swap.minAmountOut);
+        }
+        logger.info("Swap to ratio added ahead of deposit", { ...swap });
+      }
 
+      // Add liquidity if provided
+      if (minLiquidityX > 0 || minLiquidityY > 0) {
         logger.info("Adding liquidity to new position", {
           amountX: minLiquidityX,
           amountY: minLiquidityY,
+          shape: distribution.shape,
         });
 
         // Get bin arrays for addition
@@ -855,15 +1243,15 @@ export class DLMMClient {
           binArrayIndex: upperArrayIndex,
         });
 
-        // Liquidity distribution for 16 bins
-        const liquidityDistribution = [];
-        for (let binId = newLowerBinId; binId <= newUpperBinId; binId++) {
-          liquidityDistribution.push({
-            relativeBinId: binId - activeBinId,
-            distributionX: 50,
-            distributionY: 50,
-          });
-        }
+        const liquidityDistribution = this.buildLiquidityDistribution(
+          newLowerBinId,
+          newUpperBinId,
+          activeBinId,
+          pairAccount.binStep,
+          minLiquidityX,
+          minLiquidityY,
+          distribution
+        );
 
         await this.sarosDLMM.addLiquidityIntoPosition({
           pair: new PublicKey(positionInfo.poolAddress),
@@ -880,29 +1268,14 @@ export class DLMMClient {
         logger.info("Liquidity added to new position successfully");
       }
 
-      // Serialize transaction
-      const { blockhash } =
-        await this.connection.getLatestBlockhash("finalized");
-      createPositionTx.recentBlockhash = blockhash;
-      createPositionTx.feePayer = walletPublicKey;
-      createPositionTx.partialSign(newPositionMint);
-
-      const serializedTx = createPositionTx
-        .serialize({ requireAllSignatures: false })
-        .toString("base64");
-
-      logger.info("Rebalance transaction prepared successfully", {
-        newPositionMint: newPositionMint.publicKey.toString(),
-        oldRange: {
-          lowerBinId: positionInfo.lowerBinId,
-          upperBinId: positionInfo.upperBinId,
-        },
-        newRange: { lowerBinId: newLowerBinId, upperBinId: newUpperBinId },
-        txSize: serializedTx.length,
-      });
+      // Unwrap SOL left over from the withdrawal once the deposit has used it
+      if (closeInstructions.length > 0) {
+        createPositionTx.add(...closeInstructions);
+      }
 
       return {
-        transaction: serializedTx,
+        instructions: createPositionTx.instructions,
+        signers: [newPositionMint],
         positionMint: newPositionMint.publicKey.toString(),
         oldRange: {
           lowerBinId: positionInfo.lowerBinId,
@@ -910,6 +1283,7 @@ export class DLMMClient {
         },
         newRange: { lowerBinId: newLowerBinId, upperBinId: newUpperBinId },
         activeBinId,
+        swap,
       };
     } catch (error) {
       logger.error("Failed to prepare rebalance transaction", {
@@ -1101,8 +1475,15 @@ export class DLMMClient {
   async getSwapQuote(
     poolAddress: PublicKey,
     amountIn: string,
-    swapForY: boolean
-  ): Promise<any> {
+    swapForY: boolean,
+    slippageBps: number = config.rebalancing.defaultSlippageBps
+  ): Promise<{
+    amountIn: string;
+    amountOut: string;
+    minAmountOut: string;
+    fee: string;
+    priceImpact: number;
+  }> {
     try {
       const metadata = await this.sarosDLMM.fetchPoolMetadata(
         poolAddress.toString()
@@ -1123,14 +1504,15 @@ export class DLMMClient {
         isExactInput: true,
         tokenBaseDecimal: metadata.extra.tokenBaseDecimal,
         tokenQuoteDecimal: metadata.extra.tokenQuoteDecimal,
-        slippage: 0.5,
+        slippage: slippageBps / 100, // percent
       });
 
       return {
         amountIn: amountIn,
         amountOut: quote.amountOut?.toString() || "0",
+        minAmountOut: quote.otherAmountOffset?.toString() || "0",
         fee: "0",
-        priceImpact: 0,
+        priceImpact: quote.priceImpact || 0,
       };
     } catch (error) {
       console.error("Failed to get swap quote:", error);
@@ -1169,33 +1551,134 @@ export class DLMMClient {
     }
   }
 
-  // Helper function to convert bin ID to price
-  private binIdToPrice(binId: number, binStep: number): number {
-    // DLMM uses a different formula: price = (1 + binStep/10000)^(binId - 8388608)
-    // 8388608 is the reference bin ID (2^23) where price = 1
-    const REFERENCE_BIN_ID = 8388608;
-    const basisPoints = binStep / 10000;
-    const exponent = binId - REFERENCE_BIN_ID;
-
-    // For large exponents, use logarithmic calculation to avoid overflow
-    if (Math.abs(exponent) > 10000) {
-      // price = exp(exponent * ln(1 + basisPoints))
-      const logPrice = exponent * Math.log(1 + basisPoints);
-      return Math.exp(logPrice);
+  // Instructions that withdraw all of a position's liquidity and fees. The
+  // close instructions unwrap SOL and go after anything that spends it.
+  private async prepareRemoval(
+    positionInfo: Position,
+    positionMint: PublicKey,
+    walletPublicKey: PublicKey,
+    pairAccount: {
+      tokenMintX: PublicKey;
+      tokenMintY: PublicKey;
+      activeId: number;
+    }
+  ): Promise<{
+    instructions: TransactionInstruction[];
+    closeInstructions: TransactionInstruction[];
+  }> {
+    const removal = await this.sarosDLMM.removeMultipleLiquidity({
+      maxPositionList: [
+        {
+          position: positionInfo.address,
+          start: positionInfo.lowerBinId,
+          end: positionInfo.upperBinId,
+          positionMint: positionMint.toString(),
+        },
+      ],
+      payer: walletPublicKey,
+      type: "removeBoth",
+      pair: new PublicKey(positionInfo.poolAddress),
+      tokenMintX: pairAccount.tokenMintX,
+      tokenMintY: pairAccount.tokenMintY,
+      activeId: pairAccount.activeId,
+    });
+
+    const instructions: TransactionInstruction[] = [];
+    for (const tx of [removal.txCreateAccount, ...removal.txs]) {
+      if (tx) instructions.push(...tx.instructions);
     }
+    return {
+      instructions,
+      closeInstructions: removal.txCloseAccount?.instructions ?? [],
+    };
+  }
+
+  // Quote the swap that gives a deposit (base units) the token ratio its new
+  // range needs; null when it is close enough already
+  private async planSwapToRatio(
+    pair: PublicKey,
+    lowerBinId: number,
+    upperBinId: number,
+    activeBinId: number,
+    binStep: number,
+    amountX: number,
+    amountY: number,
+    distribution: LiquidityDistribution,
+    slippageBps: number
+  ): Promise<RebalanceSwap | null> {
+    const price = this.binIdToPrice(activeBinId, binStep);
+    const shareX = targetShareX(
+      distribution,
+      lowerBinId,
+      upperBinId,
+      activeBinId
+    );
+    const plan = swapToRatio(amountX, amountY, price, shareX);
+    if (!plan) return null;
+
+    const totalValue = amountX * price + amountY;
+    const swapValue = plan.swapForY ? plan.amountIn * price : plan.amountIn;
+    if (swapValue < totalValue * config.rebalancing.minSwapShare) return null;
+
+    const quote = await this.getSwapQuote(
+      pair,
+      plan.amountIn.toString(),
+      plan.swapForY,
+      slippageBps
+    );
+    logger.info("Planned swap to ratio", {
+      targetShareX: shareX,
+      swapForY: plan.swapForY,
+      amountIn: quote.amountIn,
+      minAmountOut: quote.minAmountOut,
+    });
 
-    return Math.pow(1 + basisPoints, exponent);
+    return {
+      swapForY: plan.swapForY,
+      amountIn: quote.amountIn,
+      expectedAmountOut: quote.amountOut,
+      minAmountOut: quote.minAmountOut,
+      priceImpact: quote.priceImpact,
+      slippageBps,
+    };
+  }
+
+  // Helper function to convert bin ID to price
+  private binIdToPrice(binId: number, binStep: number): number {
+    return binIdToPrice(binId, binStep);
   }
 
   // Helper function to convert price to bin ID
   private priceToBinId(price: number, binStep: number): number {
-    // DLMM formula: binId = floor(log(price) / log(1 + binStep/10000)) + REFERENCE_BIN_ID
-    const REFERENCE_BIN_ID = 8388608;
-    const basisPoints = binStep / 10000;
-    const binId =
-      Math.floor(Math.log(price) / Math.log(1 + basisPoints)) +
-      REFERENCE_BIN_ID;
-    return binId;
+    return priceToBinId(price, binStep);
+  }
+
+  // SDK distribution for a bin range, shaped by the requested distribution
+  private buildLiquidityDistribution(
+    lowerBinId: number,
+    upperBinId: number,
+    activeBinId: number,
+    binStep: number,
+    amountX: number,
+    amountY: number,
+    distribution: LiquidityDistribution
+  ) {
+    const allocations = allocateLiquidity({
+      lowerBinId,
+      upperBinId,
+      activeBinId,
+      binStep,
+      amountX,
+      amountY,
+      distribution,
+    });
+
+    logger.debug("Liquidity distribution", {
+      shape: distribution.shape,
+      bins: allocations.length,
+    });
+
+    return toSdkDistribution(allocations);
   }
 
   // Calculate position value in USD
@@ -0,0 +1,138 @@
+/**
+ * Transaction Simulation
+ * Runs a transaction through simulateTransaction and reports compute units,
+ * logs, any error and the wallet's expected balance changes
+ */
+
+import {
+  AccountLayout,
+  NATIVE_MINT,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { getConnection } from "./connection";
+import { logger } from "../utils/logger";
+import type { BalanceChange, TransactionSimulation } from "../../shared/schema";
+
+export interface SimulatedToken {
+  mint: string;
+  symbol?: string;
+  decimals: number;
+}
+
+export interface SimulationOptions {
+  wallet: string;
+  tokens?: SimulatedToken[]; // balances to track besides SOL
+  // Simulate against the latest blockhash rather than the transaction's own.
+  // Leave off for signed transactions so an expired blockhash shows up.
+  replaceRecentBlockhash?: boolean;
+}
+
+// Keep the tail of the logs, where the failing instruction reports
+const LOG_LIMIT = 50;
+
+function tokenAmount(data: Buffer | null | undefined): bigint {
+  if (!data || data.length < AccountLayout.span) return BigInt(0);
+  return AccountLayout.decode(data).amount;
+}
+
+function toUi(amount: bigint | number, decimals: number): number {
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+/**
+ * Simulate a transaction without its signatures
+ */
+export async function simulateTransaction(
+  transaction: Transaction | VersionedTransaction,
+  options: SimulationOptions
+): Promise<TransactionSimulation> {
+  const connection = getConnection();
+  const wallet = new PublicKey(options.wallet);
+  const versioned =
+    transaction instanceof VersionedTransaction
+      ? transaction
+      : new VersionedTransaction(transaction.compileMessage());
+
+  // SOL is tracked as the wallet's lamports; wrapped SOL is opened and closed
+  // within the transaction by the SDK
+  const tokens = (options.tokens || []).filter(
+    (token) => token.mint !== NATIVE_MINT.toBase58()
+  );
+  const mints = tokens.map((token) => new PublicKey(token.mint));
+  const mintAccounts = await connection.getMultipleAccountsInfo(mints);
+  const tokenAccounts = mints.map((mint, i) =>
+    getAssociatedTokenAddressSync(
+      mint,
+      wallet,
+      false,
+      mintAccounts[i]?.owner // Token or Token-2022 program
+    )
+  );
+  const addresses = [wallet, ...tokenAccounts];
+
+  const before = await connection.getMultipleAccountsInfo(addresses);
+  const { value } = await connection.simulateTransaction(versioned, {
+    sigVerify: false,
+    replaceRecentBlockhash: options.replaceRecentBlockhash ?? false,
+    commitment: "confirmed",
+    accounts: {
+      encoding: "base64",
+      addresses: addresses.map((address) => address.toBase58()),
+    },
+  });
+
+  const balanceChanges: BalanceChange[] = [];
+  if (!value.err && value.accounts) {
+    const after = value.accounts.map((account) =>
+      account ? Buffer.from(account.data[0], "base64") : null
+    );
+
+    const solBefore = (before[0]?.lamports ?? 0) / LAMPORTS_PER_SOL;
+    const solAfter = (value.accounts[0]?.lamports ?? 0) / LAMPORTS_PER_SOL;
+    balanceChanges.push({
+      mint: NATIVE_MINT.toBase58(),
+      symbol: "SOL",
+      decimals: 9,
+      before: solBefore,
+      after: solAfter,
+      change: solAfter - solBefore,
+    });
+
+    tokens.forEach((token, i) => {
+      const amountBefore = toUi(
+        tokenAmount(before[i + 1]?.data),
+        token.decimals
+      );
+      const amountAfter = toUi(tokenAmount(after[i + 1]), token.decimals);
+      balanceChanges.push({
+        ...token,
+        before: amountBefore,
+        after: amountAfter,
+        change: amountAfter - amountBefore,
+      });
+    });
+  }
+
+  const simulation: TransactionSimulation = {
+    simulatedAt: Date.now(),
+    success: !value.err,
+    error: value.err ? JSON.stringify(value.err) : undefined,
+    computeUnits: value.unitsConsumed,
+    logs: (value.logs || []).slice(-LOG_LIMIT),
+    balanceChanges,
+  };
+
+  logger.debug("Transaction simulated", {
+    wallet: options.wallet,
+    success: simulation.success,
+    error: simulation.error,
+    computeUnits: simulation.computeUnits,
+  });
+  return simulation;
+}
@@ -0,0 +1,338 @@
+/**
+ * Transaction Builder
+ * Compiles instructions into v0 transactions with address lookup tables, a
+ * compute unit limit sized by simulation and a priority fee estimated from
+ * recent fees on the accounts they write
+ */
+
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { getConnection } from "./connection";
+import { config } from "../config";
+import { logger } from "../utils/logger";
+import { ValidationError } from "../utils/errors";
+
+export interface PreparedTransaction {
+  transaction: VersionedTransaction;
+  blockhash: string;
+  lastValidBlockHeight: number; // last block the transaction can land in
+  computeUnitLimit: number;
+  microLamports: number; // compute unit price
+  priorityFeeLamports: number; // at most; charged on the limit, not usage
+}
+
+// Instructions that must land together, and the keys besides the payer
+// that sign them
+export interface InstructionGroup {
+  instructions: TransactionInstruction[];
+  signers: Keypair[];
+}
+
+export interface PackedTransaction extends PreparedTransaction {
+  groups: number[]; // indices of the groups it carries
+}
+
+// Writable accounts the fee market is sampled for (the RPC takes up to 128)
+const MAX_FEE_ACCOUNTS = 128;
+const LOOKUP_TABLE_TTL_MS = 10 * 60 * 1000;
+
+const lookupTableCache = new Map<
+  string,
+  { table: AddressLookupTableAccount | null; fetchedAt: number }
+>();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The configured address lookup tables, skipping any that don't exist
+ */
+export async function loadLookupTables(): Promise<AddressLookupTableAccount[]> {
+  const connection = getConnection();
+  const now = Date.now();
+  const tables: AddressLookupTableAccount[] = [];
+
+  for (const address of config.transactions.lookupTables) {
+    const cached = lookupTableCache.get(address);
+    if (cached && now - cached.fetchedAt < LOOKUP_TABLE_TTL_MS) {
+      if (cached.table) tables.push(cached.table);
+      continue;
+    }
+
+    try {
+      const { value } = await connection.getAddressLookupTable(
+        new PublicKey(address)
+      );
+      lookupTableCache.set(address, { table: value, fetchedAt: now });
+      if (value) tables.push(value);
+      else logger.warn("Address lookup table not found", { address });
+    } catch (error) {
+      logger.warn("Failed to load address lookup table", {
+        address,
+        error: errorMessage(error),
+      });
+    }
+  }
+  return tables;
+}
+
+/**
+ * Compute unit price (micro-lamports) at the configured percentile of recent
+ * fees paid to write the given accounts
+ */
+export async function estimatePriorityFee(
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  const { percentile, fallbackMicroLamports, maxMicroLamports } =
+    config.transactions.priorityFee;
+
+  try {
+    const recent = await getConnection().getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS),
+    });
+    const fees = recent
+      .map((entry) => entry.prioritizationFee)
+      .sort((a, b) => a - b);
+    if (fees.length === 0) return fallbackMicroLamports;
+
+    const rank = Math.min(
+      fees.length - 1,
+      Math.max(0, Math.ceil((percentile / 100) * fees.length) - 1)
+    );
+    return Math.min(maxMicroLamports, fees[rank]);
+  } catch (error) {
+    logger.warn("Priority fee estimate unavailable", {
+      error: errorMessage(error),
+    });
+    return fallbackMicroLamports;
+  }
+}
+
+// Compute budget instructions for a limit and price, ahead of the rest
+function withComputeBudget(
+  instructions: TransactionInstruction[],
+  units: number,
+  microLamports: number
+): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ...instructions,
+  ];
+}
+
+function writableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const writable = new Map<string, PublicKey>();
+  for (const ix of instructions) {
+    for (const key of ix.keys) {
+      if (key.isWritable) writable.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return Array.from(writable.values());
+}
+
+function compile(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  blockhash: string,
+  lookupTables: AddressLookupTableAccount[]
+): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Build a v0 transaction for the payer to sign. Any compute budget
+ * instructions among the given ones are replaced.
+ * @param signers - other keys the transaction needs, signed here
+ */
+export async function buildTransaction(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  signers: Keypair[] = []
+): Promise<PreparedTransaction> {
+  const connection = getConnection();
+  const body = instructions.filter(
+    (ix) => !ix.programId.equals(ComputeBudgetProgram.programId)
+  );
+  if (body.length === 0) {
+    throw new ValidationError("Transaction has no instructions");
+  }
+
+  const lookupTables = await loadLookupTables();
+  const microLamports = await estimatePriorityFee(writableAccounts(body));
+
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash("finalized");
+
+  // Size the limit from a simulation run at the maximum
+  const { margin, fallback, max } = config.transactions.computeUnits;
+  let computeUnitLimit: number = fallback;
+  try {
+    const { value } = await connection.simulateTransaction(
+      compile(
+        withComputeBudget(body, max, microLamports),
+        payer,
+        blockhash,
+        lookupTables
+      ),
+      { sigVerify: false, replaceRecentBlockhash: true }
+    );
+    if (!value.err && value.unitsConsumed) {
+      computeUnitLimit = Math.min(
+        max,
+        Math.ceil(value.unitsConsumed * margin)
+      );
+    }
+  } catch (error) {
+    logger.warn("Compute unit estimate unavailable", {
+      error: errorMessage(error),
+    });
+  }
+
+  const transaction = compile(
+    withComputeBudget(body, computeUnitLimit, microLamports),
+    payer,
+    blockhash,
+    lookupTables
+  );
+  if (signers.length > 0) transaction.sign(signers);
+
+  const prepared: PreparedTransaction = {
+    transaction,
+    blockhash,
+    lastValidBlockHeight,
+    computeUnitLimit,
+    microLamports,
+    priorityFeeLamports: Math.ceil((computeUnitLimit * microLamports) / 1e6),
+  };
+  logger.debug("Transaction built", {
+    instructions: body.length,
+    lookupTables: lookupTables.length,
+    computeUnitLimit,
+    microLamports,
+    size: transaction.serialize().length,
+  });
+  return prepared;
+}
+
+/**
+ * Pack instruction groups, in order, into as few v0 transactions as fit the
+ * size limit and the compute unit limit. A group is never split; one that is
+ * too big on its own still gets a transaction, which will fail to send.
+ * @returns the transactions, and the compute units each group used alone
+ */
+export async function packTransactions(
+  groups: InstructionGroup[],
+  payer: PublicKey
+): Promise<{ transactions: PackedTransaction[]; computeUnits: number[] }> {
+  const connection = getConnection();
+  const { margin, fallback, max } = config.transactions.computeUnits;
+  const lookupTables = await loadLookupTables();
+  const { blockhash } = await connection.getLatestBlockhash("finalized");
+
+  const computeUnits: number[] = [];
+  for (const group of groups) {
+    let units: number = fallback;
+    try {
+      const { value } = await connection.simulateTransaction(
+        compile(
+          withComputeBudget(group.instructions, max, 0),
+          payer,
+          blockhash,
+          lookupTables
+        ),
+        { sigVerify: false, replaceRecentBlockhash: true }
+      );
+      if (!value.err && value.unitsConsumed) units = value.unitsConsumed;
+    } catch (error) {
+      logger.warn("Compute unit estimate unavailable", {
+        error: errorMessage(error),
+      });
+    }
+    computeUnits.push(units);
+  }
+
+  // Size includes a signature slot for every signer
+  const fits = (members: number[]): boolean => {
+    const units = members.reduce((sum, i) => sum + computeUnits[i], 0);
+    if (units * margin > max) return false;
+    try {
+      const instructions = members.flatMap((i) => groups[i].instructions);
+      const size = compile(
+        withComputeBudget(instructions, max, 1),
+        payer,
+        blockhash,
+        lookupTables
+      ).serialize().length;
+      return size <= PACKET_DATA_SIZE;
+    } catch {
+      return false; // too many accounts or bytes to encode at all
+    }
+  };
+
+  const packs: number[][] = [];
+  let current: number[] = [];
+  groups.forEach((_, i) => {
+    if (current.length > 0 && !fits([...current, i])) {
+      packs.push(current);
+      current = [];
+    }
+    current.push(i);
+  });
+  if (current.length > 0) packs.push(current);
+
+  const transactions: PackedTransaction[] = [];
+  for (const members of packs) {
+    const prepared = await buildTransaction(
+      members.flatMap((i) => groups[i].instructions),
+      payer,
+      members.flatMap((i) => groups[i].signers)
+    );
+    transactions.push({ ...prepared, groups: members });
+  }
+
+  logger.info("Instruction groups packed", {
+    groups: groups.length,
+    transactions: transactions.length,
+  });
+  return { transactions, computeUnits };
+}
+
+/**
+ * Build a stored transaction again with a current blockhash and fees. Only
+ * works when the payer is its sole signer.
+ */
+export async function rebuildTransaction(
+  transaction: VersionedTransaction,
+  payer: PublicKey
+): Promise<PreparedTransaction> {
+  const { message } = transaction;
+  const signerKeys = message.staticAccountKeys.slice(
+    0,
+    message.header.numRequiredSignatures
+  );
+  if (signerKeys.some((key) => !key.equals(payer))) {
+    throw new ValidationError(
+      "Transaction needs signers besides the wallet and cannot be refreshed; queue it again"
+    );
+  }
+
+  const { instructions } = TransactionMessage.decompile(message, {
+    addressLookupTableAccounts: await loadLookupTables(),
+  });
+  return buildTransaction(instructions, payer);
+}
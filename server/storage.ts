@@ -4,204 +4,199 @@ import type {
   Alert,
   VolatilityData,
   StopLossConfig,
+  StopLossEvent,
+  Candle,
+  CandleInterval,
+  PositionStrategy,
+  LedgerEntry,
+  WalletProfile,
+  AlertRule,
 } from "../shared/schema";
-import fs from "fs";
-import path from "path";
-
-const STORAGE_FILE = path.join(__dirname, "file.json");
-
-interface StorageData {
-  positions: Record<string, PositionData>;
-  rebalanceEvents: RebalanceEvent[];
-  alerts: Alert[];
-  stopLossConfigs: Record<string, StopLossConfig>;
-  transactionQueue?: any[]; // For transaction queue persistence
-  settings: {
-    telegram: {
-      enabled: boolean;
-      botToken: string;
-      chatId: string;
-    };
-    rebalancing: {
-      enabled: boolean;
-      intervalMinutes: number;
-      volatilityThreshold: number;
-    };
-    monitoring: {
-      enabled: boolean;
-      pools: string[];
-    };
-  };
-}
-
-// In-memory storage with JSON file persistence
+import type { PendingTransaction } from "./services/transaction-queue.service";
+import type {
+  AuthSession,
+  DigestPeriod,
+  PendingDeposit,
+  PortfolioDigest,
+} from "./types";
+import type { JobState } from "./scheduler/types";
+import {
+  createStorageAdapter,
+  type LedgerFilter,
+  type StorageAdapter,
+  type StorageSettings,
+} from "./persistence";
+
+const POSITION_STRATEGIES_KEY = "positionStrategies";
+const MANUAL_TOKEN_PRICES_KEY = "manualTokenPrices";
+const AUTH_SESSIONS_KEY = "authSessions";
+const WALLET_PROFILES_KEY = "walletProfiles";
+const JOB_STATES_KEY = "jobStates";
+const ALERT_RULES_KEY = "alertRules";
+const DIGESTS_KEY = "digests";
+const STOP_LOSS_EVENTS_KEY = "stopLossEvents";
+const PENDING_DEPOSITS_KEY = "pendingDeposits";
+
+// Facade over the configured storage adapter (JSON file or SQLite)
 class Storage {
-  private data: StorageData;
+  private adapter: StorageAdapter;
   private volatilityData: Map<string, VolatilityData> = new Map();
-  private priceHistory: Map<
-    string,
-    Array<{ price: number; timestamp: number }>
-  > = new Map();
   private initialPrices: Map<string, number> = new Map();
 
   constructor() {
-    this.data = this.loadFromFile();
+    this.adapter = createStorageAdapter();
   }
 
-  private loadFromFile(): StorageData {
-    try {
-      if (fs.existsSync(STORAGE_FILE)) {
-        const fileContent = fs.readFileSync(STORAGE_FILE, "utf-8");
-        return JSON.parse(fileContent);
-      }
-    } catch (error) {
-      console.error("Failed to load storage file:", error);
-    }
-    return {
-      positions: {},
-      rebalanceEvents: [],
-      alerts: [],
-      stopLossConfigs: {},
-      transactionQueue: [],
-      settings: {
-        telegram: { enabled: false, botToken: "", chatId: "" },
-        rebalancing: {
-          enabled: false,
-          intervalMinutes: 15,
-          volatilityThreshold: 0.05,
-        },
-        monitoring: { enabled: false, pools: [] },
-      },
-    };
+  public get driver(): string {
+    return this.adapter.name;
   }
 
-  private saveToFile() {
-    try {
-      fs.writeFileSync(
-        STORAGE_FILE,
-        JSON.stringify(this.data, null, 2),
-        "utf-8"
-      );
-    } catch (error) {
-      console.error("Failed to save storage file:", error);
-    }
+  public close() {
+    this.adapter.close();
+  }
+
+  /**
+   * Run several writes as one transaction (or one file write)
+   */
+  public batch<T>(fn: () => T): T {
+    return this.adapter.batch(fn);
+  }
+
+  private get settings(): StorageSettings {
+    return this.adapter.getSettings();
+  }
+
+  private persistSettings(settings: StorageSettings) {
+    this.adapter.saveSettings(settings);
   }
 
   // Positions
   public setPosition(address: string, data: PositionData) {
-    this.data.positions[address] = data;
-    this.saveToFile();
+    this.adapter.upsertPosition(address, data);
   }
 
   public getPosition(address: string): PositionData | undefined {
-    return this.data.positions[address];
+    return this.adapter.getPosition(address);
   }
 
   public getAllPositions(): PositionData[] {
-    return Object.values(this.data.positions);
+    return this.adapter.getAllPositions();
   }
 
   public getUserPositions(owner: string): PositionData[] {
-    return Object.values(this.data.positions).filter(
-      (pos) => pos.position.owner === owner
-    );
+    return this.adapter
+      .getAllPositions()
+      .filter((pos) => pos.position.owner === owner);
   }
 
   public deletePosition(address: string) {
-    delete this.data.positions[address];
-    this.saveToFile();
+    this.adapter.deletePosition(address);
   }
 
   // Rebalance events
   public addRebalanceEvent(event: RebalanceEvent) {
-    this.data.rebalanceEvents.push(event);
-    this.saveToFile();
+    this.adapter.insertRebalanceEvent(event);
   }
 
   public getRebalanceEvents(positionAddress?: string): RebalanceEvent[] {
-    if (positionAddress) {
-      return this.data.rebalanceEvents.filter(
-        (e) => e.positionAddress === positionAddress
-      );
-    }
-    return this.data.rebalanceEvents;
+    return this.adapter.listRebalanceEvents(positionAddress);
   }
 
   // Alerts
   public addAlert(alert: Alert) {
-    this.data.alerts.push(alert);
-    this.saveToFile();
+    this.adapter.insertAlert(alert);
   }
 
   public getAlerts(unreadOnly: boolean = false): Alert[] {
-    if (unreadOnly) {
-      return this.data.alerts.filter((a) => !a.read);
-    }
-    return this.data.alerts;
+    return this.adapter.listAlerts(unreadOnly);
   }
 
   public markAlertRead(id: string) {
-    const alert = this.data.alerts.find((a) => a.id === id);
-    if (alert) {
-      alert.read = true;
-      this.saveToFile();
-    }
+    this.adapter.markAlertRead(id);
   }
 
   // Stop-loss configs
   public setStopLoss(config: StopLossConfig) {
-    this.data.stopLossConfigs[config.positionAddress] = config;
-    this.saveToFile();
+    this.adapter.upsertStopLoss(config);
   }
 
   public getStopLoss(positionAddress: string): StopLossConfig | undefined {
-    return this.data.stopLossConfigs[positionAddress];
+    return this.adapter.getStopLoss(positionAddress);
   }
 
   public removeStopLoss(positionAddress: string) {
-    delete this.data.stopLossConfigs[positionAddress];
-    this.saveToFile();
+    this.adapter.deleteStopLoss(positionAddress);
   }
 
   public getAllStopLossConfigs(): StopLossConfig[] {
-    return Object.values(this.data.stopLossConfigs);
+    return this.adapter.listStopLoss();
+  }
+
+  // Stop-loss event history, oldest first
+  public getStopLossEvents(positionAddress?: string): StopLossEvent[] {
+    return (
+      this.adapter.getValue<StopLossEvent[]>(STOP_LOSS_EVENTS_KEY) || []
+    ).filter(
+      (event) => !positionAddress || event.positionAddress === positionAddress
+    );
+  }
+
+  // Appends an event and drops those from before `retainSince`
+  public addStopLossEvent(event: StopLossEvent, retainSince: number) {
+    this.adapter.setValue(STOP_LOSS_EVENTS_KEY, [
+      ...this.getStopLossEvents().filter((e) => e.timestamp >= retainSince),
+      event,
+    ]);
+  }
+
+  // Transaction queue
+  public saveQueuedTransaction(tx: PendingTransaction) {
+    this.adapter.upsertQueuedTransaction(tx);
+  }
+
+  public getQueuedTransactions(): PendingTransaction[] {
+    return this.adapter.listQueuedTransactions();
+  }
+
+  public deleteQueuedTransaction(id: string) {
+    this.adapter.deleteQueuedTransaction(id);
   }
 
   // Settings management
   public getSettings() {
+    const settings = this.settings;
     // Return flattened settings for frontend compatibility
     return {
-      autoRebalance: this.data.settings.rebalancing?.enabled || false,
-      rebalanceThreshold: this.data.settings.rebalancing?.volatilityThreshold
-        ? this.data.settings.rebalancing.volatilityThreshold * 100
+      autoRebalance: settings.rebalancing?.enabled || false,
+      rebalanceThreshold: settings.rebalancing?.volatilityThreshold
+        ? settings.rebalancing.volatilityThreshold * 100
         : 5,
       autoCollectFees: true,
       feeThreshold: 10,
       stopLossEnabled: false,
       stopLossThreshold: 10,
-      monitoredWallet: (this.data.settings as any).monitoredWallet || null,
-      telegram: this.data.settings.telegram,
-      rebalancing: this.data.settings.rebalancing,
-      monitoring: this.data.settings.monitoring,
+      monitoredWallet: settings.monitoredWallet || null,
+      telegram: settings.telegram,
+      rebalancing: settings.rebalancing,
+      monitoring: settings.monitoring,
     };
   }
 
-  public updateSettings(settings: Partial<StorageData["settings"]>) {
-    this.data.settings = { ...this.data.settings, ...settings };
-    this.saveToFile();
+  public updateSettings(settings: Partial<StorageSettings>) {
+    this.persistSettings({ ...this.settings, ...settings });
   }
 
   public saveSettings(settings: any) {
+    const next: StorageSettings = structuredClone(this.settings);
     // Handle both flat and nested settings from frontend
     if (settings.autoRebalance !== undefined) {
-      this.data.settings.rebalancing.enabled = settings.autoRebalance;
+      next.rebalancing.enabled = settings.autoRebalance;
     }
     if (settings.rebalanceThreshold !== undefined) {
-      this.data.settings.rebalancing.volatilityThreshold =
-        settings.rebalanceThreshold / 100;
+      next.rebalancing.volatilityThreshold = settings.rebalanceThreshold / 100;
     }
     if (settings.monitoredWallet !== undefined) {
-      (this.data.settings as any).monitoredWallet = settings.monitoredWallet;
+      next.monitoredWallet = settings.monitoredWallet;
     }
     if (settings.autoCollectFees !== undefined) {
       // Store in settings for future use
@@ -217,38 +212,204 @@ class Storage {
     }
     // Merge any nested settings objects
     if (settings.telegram) {
-      this.data.settings.telegram = {
-        ...this.data.settings.telegram,
-        ...settings.telegram,
-      };
+      next.telegram = { ...next.telegram, ...settings.telegram };
     }
     if (settings.rebalancing) {
-      this.data.settings.rebalancing = {
-        ...this.data.settings.rebalancing,
-        ...settings.rebalancing,
-      };
+      next.rebalancing = { ...next.rebalancing, ...settings.rebalancing };
     }
     if (settings.monitoring) {
-      this.data.settings.monitoring = {
-        ...this.data.settings.monitoring,
-        ...settings.monitoring,
-      };
+      next.monitoring = { ...next.monitoring, ...settings.monitoring };
     }
-    this.saveToFile();
+    this.persistSettings(next);
   }
 
   public getTelegramSettings() {
-    return this.data.settings.telegram;
+    return this.settings.telegram;
+  }
+
+  public updateTelegramSettings(telegram: Partial<StorageSettings["telegram"]>) {
+    this.persistSettings({
+      ...this.settings,
+      telegram: { ...this.settings.telegram, ...telegram },
+    });
+  }
+
+  // Per-position rebalance strategy selection
+  public getPositionStrategy(
+    positionAddress: string
+  ): PositionStrategy | undefined {
+    return this.getPositionStrategies()[positionAddress];
+  }
+
+  public getPositionStrategies(): Record<string, PositionStrategy> {
+    return (
+      this.adapter.getValue<Record<string, PositionStrategy>>(
+        POSITION_STRATEGIES_KEY
+      ) || {}
+    );
   }
 
-  public updateTelegramSettings(
-    telegram: Partial<StorageData["settings"]["telegram"]>
+  public setPositionStrategy(
+    positionAddress: string,
+    strategy: PositionStrategy
   ) {
-    this.data.settings.telegram = {
-      ...this.data.settings.telegram,
-      ...telegram,
-    };
-    this.saveToFile();
+    this.adapter.setValue(POSITION_STRATEGIES_KEY, {
+      ...this.getPositionStrategies(),
+      [positionAddress]: strategy,
+    });
+  }
+
+  public removePositionStrategy(positionAddress: string) {
+    const strategies = this.getPositionStrategies();
+    if (!(positionAddress in strategies)) return;
+    delete strategies[positionAddress];
+    this.adapter.setValue(POSITION_STRATEGIES_KEY, strategies);
+  }
+
+  // Per-wallet automation profiles, keyed by wallet address
+  public getWalletProfile(wallet: string): WalletProfile | undefined {
+    return this.getWalletProfiles()[wallet];
+  }
+
+  public getWalletProfiles(): Record<string, WalletProfile> {
+    return (
+      this.adapter.getValue<Record<string, WalletProfile>>(
+        WALLET_PROFILES_KEY
+      ) || {}
+    );
+  }
+
+  public setWalletProfile(profile: WalletProfile) {
+    this.adapter.setValue(WALLET_PROFILES_KEY, {
+      ...this.getWalletProfiles(),
+      [profile.wallet]: profile,
+    });
+  }
+
+  public removeWalletProfile(wallet: string) {
+    const profiles = this.getWalletProfiles();
+    if (!(wallet in profiles)) return;
+    delete profiles[wallet];
+    this.adapter.setValue(WALLET_PROFILES_KEY, profiles);
+  }
+
+  // User-defined alert rules, keyed by rule id
+  public getAlertRule(id: string): AlertRule | undefined {
+    return this.getAlertRules()[id];
+  }
+
+  public getAlertRules(): Record<string, AlertRule> {
+    return (
+      this.adapter.getValue<Record<string, AlertRule>>(ALERT_RULES_KEY) || {}
+    );
+  }
+
+  public setAlertRule(rule: AlertRule) {
+    this.adapter.setValue(ALERT_RULES_KEY, {
+      ...this.getAlertRules(),
+      [rule.id]: rule,
+    });
+  }
+
+  public removeAlertRule(id: string) {
+    const rules = this.getAlertRules();
+    if (!(id in rules)) return;
+    delete rules[id];
+    this.adapter.setValue(ALERT_RULES_KEY, rules);
+  }
+
+  // Archived portfolio digests, oldest first
+  public getDigests(filter?: {
+    wallet?: string;
+    period?: DigestPeriod;
+  }): PortfolioDigest[] {
+    return (
+      this.adapter.getValue<PortfolioDigest[]>(DIGESTS_KEY) || []
+    ).filter(
+      (digest) =>
+        (!filter?.wallet || digest.wallet === filter.wallet) &&
+        (!filter?.period || digest.period === filter.period)
+    );
+  }
+
+  // Appends a digest and drops those generated before `retainSince`
+  public addDigest(digest: PortfolioDigest, retainSince: number) {
+    this.adapter.setValue(DIGESTS_KEY, [
+      ...this.getDigests().filter((d) => d.generatedAt >= retainSince),
+      digest,
+    ]);
+  }
+
+  // Manual token prices (USD), keyed by mint
+  public getManualTokenPrices(): Record<string, number> {
+    return (
+      this.adapter.getValue<Record<string, number>>(MANUAL_TOKEN_PRICES_KEY) ||
+      {}
+    );
+  }
+
+  public setManualTokenPrice(mint: string, usd: number) {
+    this.adapter.setValue(MANUAL_TOKEN_PRICES_KEY, {
+      ...this.getManualTokenPrices(),
+      [mint]: usd,
+    });
+  }
+
+  public removeManualTokenPrice(mint: string) {
+    const prices = this.getManualTokenPrices();
+    delete prices[mint];
+    this.adapter.setValue(MANUAL_TOKEN_PRICES_KEY, prices);
+  }
+
+  // Sign-in sessions, keyed by the SHA-256 hash of the session token
+  public getAuthSession(tokenHash: string): AuthSession | undefined {
+    return this.getAuthSessions()[tokenHash];
+  }
+
+  public setAuthSession(tokenHash: string, session: AuthSession) {
+    // Expired sessions are dropped whenever a new one is written
+    const now = Date.now();
+    const sessions = Object.fromEntries(
+      Object.entries(this.getAuthSessions()).filter(
+        ([, existing]) => existing.expiresAt > now
+      )
+    );
+    this.adapter.setValue(AUTH_SESSIONS_KEY, {
+      ...sessions,
+      [tokenHash]: session,
+    });
+  }
+
+  public removeAuthSession(tokenHash: string) {
+    const sessions = this.getAuthSessions();
+    if (!(tokenHash in sessions)) return;
+    delete sessions[tokenHash];
+    this.adapter.setValue(AUTH_SESSIONS_KEY, sessions);
+  }
+
+  private getAuthSessions(): Record<string, AuthSession> {
+    return (
+      this.adapter.getValue<Record<string, AuthSession>>(AUTH_SESSIONS_KEY) ||
+      {}
+    );
+  }
+
+  // Scheduler run state and history, keyed by job name
+  public getJobState(name: string): JobState | undefined {
+    return this.getJobStates()[name];
+  }
+
+  public getJobStates(): Record<string, JobState> {
+    return (
+      this.adapter.getValue<Record<string, JobState>>(JOB_STATES_KEY) || {}
+    );
+  }
+
+  public setJobState(state: JobState) {
+    this.adapter.setValue(JOB_STATES_KEY, {
+      ...this.getJobStates(),
+      [state.name]: state,
+    });
   }
 
   // Volatility data (in-memory only)
@@ -260,18 +421,65 @@ class Storage {
     return this.volatilityData.get(poolAddress);
   }
 
-  // Price history (in-memory only)
+  // Price history
   public addPricePoint(poolAddress: string, price: number, timestamp: number) {
-    if (!this.priceHistory.has(poolAddress)) {
-      this.priceHistory.set(poolAddress, []);
-    }
-    this.priceHistory.get(poolAddress)!.push({ price, timestamp });
+    this.adapter.insertPricePoint(poolAddress, { price, timestamp });
   }
 
   public getPriceHistory(
-    poolAddress: string
+    poolAddress: string,
+    from?: number,
+    to?: number
   ): Array<{ price: number; timestamp: number }> {
-    return this.priceHistory.get(poolAddress) || [];
+    return this.adapter.listPricePoints(poolAddress, from, to);
+  }
+
+  public prunePriceHistory(before: number) {
+    this.adapter.deletePricePointsBefore(before);
+  }
+
+  // OHLC candles
+  public saveCandle(poolAddress: string, interval: CandleInterval, candle: Candle) {
+    this.adapter.upsertCandle(poolAddress, interval, candle);
+  }
+
+  public getCandle(
+    poolAddress: string,
+    interval: CandleInterval,
+    timestamp: number
+  ): Candle | undefined {
+    return this.adapter.getCandle(poolAddress, interval, timestamp);
+  }
+
+  public getCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    from?: number,
+    to?: number
+  ): Candle[] {
+    return this.adapter.listCandles(poolAddress, interval, from, to);
+  }
+
+  public pruneCandles(interval: CandleInterval, before: number) {
+    this.adapter.deleteCandlesBefore(interval, before);
+  }
+
+  // Position ledger
+  public addLedgerEntry(entry: LedgerEntry) {
+    this.adapter.insertLedgerEntry(entry);
+  }
+
+  public getLedgerEntries(filter?: LedgerFilter): LedgerEntry[] {
+    return this.adapter.listLedgerEntries(filter);
+  }
+
+  // Deposits of positions created but not yet observed on-chain
+  public getPendingDeposits(): PendingDeposit[] {
+    return this.adapter.getValue<PendingDeposit[]>(PENDING_DEPOSITS_KEY) || [];
+  }
+
+  public setPendingDeposits(deposits: PendingDeposit[]) {
+    this.adapter.setValue(PENDING_DEPOSITS_KEY, deposits);
   }
 
   // Initial prices (in-memory only)
@@ -284,17 +492,16 @@ class Storage {
   }
 
   public getRebalancingSettings() {
-    return this.data.settings.rebalancing;
+    return this.settings.rebalancing;
   }
 
-  // Generic get/set for additional data (like transaction queue)
+  // Generic get/set for additional data
   public get(key: string): any {
-    return (this.data as any)[key];
+    return this.adapter.getValue(key);
   }
 
   public set(key: string, value: any): void {
-    (this.data as any)[key] = value;
-    this.saveToFile();
+    this.adapter.setValue(key, value);
   }
 }
 
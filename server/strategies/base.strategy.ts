@@ -0,0 +1,133 @@
+/**
+ * Base Rebalance Strategy
+ * Edge-distance rebalance check and range placement shared by all strategies
+ */
+
+import { config } from "../config";
+import type {
+  RebalanceStrategyName,
+  StrategyOptions,
+} from "../../shared/schema";
+import type {
+  BinRange,
+  RebalanceDecision,
+  RebalanceStrategy,
+  StrategyContext,
+} from "./types";
+
+const HOURS_PER_YEAR = 8760;
+const DEFAULT_HORIZON_HOURS = 24;
+
+export abstract class BaseStrategy implements RebalanceStrategy {
+  abstract readonly name: RebalanceStrategyName;
+  abstract readonly description: string;
+
+  abstract calculateRange(context: StrategyContext): BinRange;
+
+  /**
+   * Rebalance when out of range or within threshold % of either edge
+   */
+  shouldRebalance(
+    context: StrategyContext,
+    threshold: number
+  ): RebalanceDecision {
+    const { activeBinId, currentRange } = context;
+    if (!currentRange) {
+      return { shouldRebalance: true, reason: "out_of_range" };
+    }
+
+    if (
+      activeBinId < currentRange.lowerBinId ||
+      activeBinId > currentRange.upperBinId
+    ) {
+      return { shouldRebalance: true, reason: "out_of_range" };
+    }
+
+    const width = currentRange.upperBinId - currentRange.lowerBinId;
+    const minDistance = Math.min(
+      activeBinId - currentRange.lowerBinId,
+      currentRange.upperBinId - activeBinId
+    );
+    const distancePercentage = width > 0 ? (minDistance / width) * 100 : 0;
+
+    if (distancePercentage < threshold) {
+      return {
+        shouldRebalance: true,
+        reason: "approaching_boundary",
+        distancePercentage,
+      };
+    }
+
+    return { shouldRebalance: false, distancePercentage };
+  }
+
+  /**
+   * Build a range with the given bins either side of the active bin,
+   * clamped to the allowed position width and keeping the active bin strictly inside
+   */
+  protected place(
+    activeBinId: number,
+    binsBelow: number,
+    binsAbove: number,
+    options: StrategyOptions
+  ): BinRange {
+    const { minBins, maxBins } = this.widthLimits(options);
+    let below = Math.max(1, Math.round(binsBelow));
+    let above = Math.max(1, Math.round(binsAbove));
+
+    const total = below + above + 1;
+    const target = Math.min(Math.max(total, minBins), maxBins);
+    if (target !== total) {
+      // Resize while keeping the same skew
+      const share = below / (below + above);
+      below = Math.min(
+        Math.max(1, Math.round((target - 1) * share)),
+        target - 2
+      );
+      above = target - 1 - below;
+    }
+
+    return { lowerBinId: activeBinId - below, upperBinId: activeBinId + above };
+  }
+
+  /**
+   * Position width bounds (inclusive bin count) after applying config limits
+   */
+  protected widthLimits(options: StrategyOptions): {
+    minBins: number;
+    maxBins: number;
+  } {
+    const floor = config.rebalancing.minPositionBins;
+    const ceiling = config.rebalancing.maxPositionBins;
+    const minBins = Math.min(Math.max(options.minBins ?? floor, floor), ceiling);
+    const maxBins = Math.max(
+      Math.min(options.maxBins ?? ceiling, ceiling),
+      minBins
+    );
+    return { minBins, maxBins };
+  }
+
+  /**
+   * Expected 1σ log-price move over a number of hours
+   */
+  protected sigmaOver(volatility: number, hours: number): number {
+    return (volatility / 100) * Math.sqrt(hours / HOURS_PER_YEAR);
+  }
+
+  /**
+   * Expected 1σ log-price move over the strategy horizon
+   */
+  protected horizonSigma(context: StrategyContext): number {
+    return this.sigmaOver(
+      context.volatility,
+      context.options.horizonHours ?? DEFAULT_HORIZON_HOURS
+    );
+  }
+
+  /**
+   * Bins needed to cover a log-price move
+   */
+  protected binsForMove(logMove: number, binStep: number): number {
+    return Math.ceil(logMove / Math.log(1 + binStep / 10000));
+  }
+}
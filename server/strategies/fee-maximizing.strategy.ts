@@ -0,0 +1,59 @@
+/**
+ * Fee-Maximizing Strategy
+ * Narrowest range that is still likely to hold for the whole horizon
+ */
+
+import { BaseStrategy } from "./base.strategy";
+import type { BinRange, StrategyContext } from "./types";
+
+const DEFAULT_TARGET_IN_RANGE = 0.8;
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const poly =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export class FeeMaximizingStrategy extends BaseStrategy {
+  readonly name = "fee-maximizing" as const;
+  readonly description =
+    "Concentrates liquidity in the narrowest range expected to stay in range for the horizon";
+
+  calculateRange(context: StrategyContext): BinRange {
+    const { activeBinId, binStep, options } = context;
+    const sigma = this.horizonSigma(context);
+    const target = options.targetInRange ?? DEFAULT_TARGET_IN_RANGE;
+    const { minBins, maxBins } = this.widthLimits(options);
+    const binWidth = Math.log(1 + binStep / 10000);
+
+    // Fewer bins means a larger share of swap fees per unit of liquidity
+    let bins = minBins;
+    while (
+      bins < maxBins &&
+      this.holdProbability(((bins - 1) / 2) * binWidth, sigma) < target
+    ) {
+      bins++;
+    }
+
+    const below = Math.floor((bins - 1) / 2);
+    return this.place(activeBinId, below, bins - 1 - below, options);
+  }
+
+  /**
+   * Lower bound on the chance price never leaves ±halfWidth (log) over the horizon.
+   * By the reflection principle each edge is touched with probability 2(1 - Φ(h/σ)).
+   */
+  private holdProbability(halfWidth: number, sigma: number): number {
+    if (sigma <= 0) return 1;
+    return Math.max(0, 1 - 4 * (1 - normalCdf(halfWidth / sigma)));
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Fixed-Width Strategy
+ * Same number of bins every time, centred on the active bin
+ */
+
+import { BaseStrategy } from "./base.strategy";
+import type { BinRange, StrategyContext } from "./types";
+
+const DEFAULT_BIN_COUNT = 16;
+
+export class FixedWidthStrategy extends BaseStrategy {
+  readonly name = "fixed-width" as const;
+  readonly description =
+    "Constant bin count centred on the active bin, regardless of market conditions";
+
+  calculateRange(context: StrategyContext): BinRange {
+    const binCount = context.options.binCount ?? DEFAULT_BIN_COUNT;
+    const below = Math.floor((binCount - 1) / 2); // 7 of 16
+    const above = binCount - 1 - below; // 8 of 16
+
+    return this.place(context.activeBinId, below, above, context.options);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Rebalance Strategies
+ * Registry of the range-selection strategies shared by every rebalancer
+ */
+
+import { ValidationError } from "../utils/errors";
+import { RebalanceStrategyNameSchema } from "../../shared/schema";
+import type { RebalanceStrategyName } from "../../shared/schema";
+import type { RebalanceStrategy } from "./types";
+import { FixedWidthStrategy } from "./fixed-width.strategy";
+import { VolatilityScaledStrategy } from "./volatility-scaled.strategy";
+import { TrendFollowingStrategy } from "./trend-following.strategy";
+import { FeeMaximizingStrategy } from "./fee-maximizing.strategy";
+
+// Annualized volatility (%) assumed until a pool has price history
+export const DEFAULT_VOLATILITY = 50;
+
+const STRATEGIES: Record<RebalanceStrategyName, RebalanceStrategy> = {
+  "fixed-width": new FixedWidthStrategy(),
+  "volatility-scaled": new VolatilityScaledStrategy(),
+  "trend-following": new TrendFollowingStrategy(),
+  "fee-maximizing": new FeeMaximizingStrategy(),
+};
+
+/**
+ * Look up a strategy by name
+ */
+export function getStrategy(name: string): RebalanceStrategy {
+  const parsed = RebalanceStrategyNameSchema.safeParse(name);
+  if (!parsed.success) {
+    throw new ValidationError(`Unknown rebalance strategy: ${name}`, {
+      available: Object.keys(STRATEGIES),
+    });
+  }
+  return STRATEGIES[parsed.data];
+}
+
+export function listStrategies(): RebalanceStrategy[] {
+  return Object.values(STRATEGIES);
+}
+
+export type {
+  BinRange,
+  StrategyContext,
+  RebalanceReason,
+  RebalanceDecision,
+  RebalanceStrategy,
+} from "./types";
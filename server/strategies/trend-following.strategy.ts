@@ -0,0 +1,52 @@
+/**
+ * Trend-Following Strategy
+ * Volatility-sized range skewed towards the direction price is trending
+ */
+
+import { BaseStrategy } from "./base.strategy";
+import type { BinRange, StrategyContext } from "./types";
+
+const DEFAULT_MAX_SKEW = 0.5;
+
+export class TrendFollowingStrategy extends BaseStrategy {
+  readonly name = "trend-following" as const;
+  readonly description =
+    "Places more bins on the side price is trending towards, so the range lasts longer in a trend";
+
+  calculateRange(context: StrategyContext): BinRange {
+    const half = this.binsForMove(
+      2 * this.horizonSigma(context),
+      context.binStep
+    );
+    const sideBins = 2 * Math.max(half, 1);
+    const skew = this.trendSkew(context);
+
+    // skew > 0 shifts bins above the active bin, skew < 0 below it
+    const above = sideBins * (0.5 + skew / 2);
+    const below = sideBins - above;
+
+    return this.place(context.activeBinId, below, above, context.options);
+  }
+
+  /**
+   * Trend strength in [-maxSkew, maxSkew]: drift over the history window
+   * measured against the move volatility alone would explain
+   */
+  private trendSkew(context: StrategyContext): number {
+    const history = context.priceHistory;
+    if (history.length < 2) return 0;
+
+    const first = history[0];
+    const last = history[history.length - 1];
+    const elapsedHours = (last.timestamp - first.timestamp) / 3600000;
+    if (elapsedHours <= 0 || first.price <= 0 || last.price <= 0) return 0;
+
+    const noise = this.sigmaOver(context.volatility, elapsedHours);
+    if (noise <= 0) return 0;
+
+    const drift = Math.log(last.price / first.price);
+    const strength = Math.max(-1, Math.min(1, drift / noise));
+
+    return strength * (context.options.maxSkew ?? DEFAULT_MAX_SKEW);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Rebalance Strategy Types
+ * Contract shared by every range-selection strategy
+ */
+
+import type { PricePoint } from "../types";
+import type {
+  RebalanceStrategyName,
+  StrategyOptions,
+} from "../../shared/schema";
+
+export interface BinRange {
+  lowerBinId: number;
+  upperBinId: number;
+}
+
+export interface StrategyContext {
+  activeBinId: number;
+  binStep: number;
+  volatility: number; // annualized, percent (as reported by VolatilityTracker)
+  priceHistory: PricePoint[]; // recent prices, oldest first
+  currentRange?: BinRange;
+  options: StrategyOptions;
+}
+
+export type RebalanceReason =
+  | "out_of_range"
+  | "approaching_boundary"
+  | "width_drift";
+
+export interface RebalanceDecision {
+  shouldRebalance: boolean;
+  reason?: RebalanceReason;
+  distancePercentage?: number;
+}
+
+export interface RebalanceStrategy {
+  readonly name: RebalanceStrategyName;
+  readonly description: string;
+
+  /**
+   * Decide whether the current range should be replaced
+   */
+  shouldRebalance(context: StrategyContext, threshold: number): RebalanceDecision;
+
+  /**
+   * Pick a new range around the active bin.
+   * The active bin is always strictly inside the returned range.
+   */
+  calculateRange(context: StrategyContext): BinRange;
+}
@@ -0,0 +1,51 @@
+/**
+ * Volatility-Scaled Strategy
+ * Range covers a ±2σ move over the horizon, widening as volatility rises
+ */
+
+import { BaseStrategy } from "./base.strategy";
+import type { BinRange, RebalanceDecision, StrategyContext } from "./types";
+
+const SIGMA_MULTIPLE = 2;
+// Re-range an in-range position once its width is off by this factor
+const WIDTH_DRIFT_FACTOR = 2;
+
+export class VolatilityScaledStrategy extends BaseStrategy {
+  readonly name = "volatility-scaled" as const;
+  readonly description =
+    "Symmetric range sized to cover a two-sigma price move over the horizon";
+
+  calculateRange(context: StrategyContext): BinRange {
+    const half = this.binsForMove(
+      SIGMA_MULTIPLE * this.horizonSigma(context),
+      context.binStep
+    );
+
+    return this.place(context.activeBinId, half, half, context.options);
+  }
+
+  /**
+   * Edge check, plus a re-range when volatility has moved far from what the range was sized for
+   */
+  shouldRebalance(
+    context: StrategyContext,
+    threshold: number
+  ): RebalanceDecision {
+    const decision = super.shouldRebalance(context, threshold);
+    if (decision.shouldRebalance || !context.currentRange) {
+      return decision;
+    }
+
+    const target = this.calculateRange(context);
+    const targetWidth = target.upperBinId - target.lowerBinId + 1;
+    const currentWidth =
+      context.currentRange.upperBinId - context.currentRange.lowerBinId + 1;
+    const ratio = currentWidth / targetWidth;
+
+    if (ratio > WIDTH_DRIFT_FACTOR || ratio < 1 / WIDTH_DRIFT_FACTOR) {
+      return { ...decision, shouldRebalance: true, reason: "width_drift" };
+    }
+
+    return decision;
+  }
+}
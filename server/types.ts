@@ -4,6 +4,10 @@
 
 import { PublicKey } from "@solana/web3.js";
 import BN from "bn.js";
+import type {
+  PositionStrategy,
+  RebalanceStrategyName,
+} from "../shared/schema";
 
 // Position Types
 export interface DLMMPosition {
@@ -71,6 +75,16 @@ export interface RebalanceResult {
   timestamp: number;
 }
 
+// Swap ahead of a rebalance deposit so it matches the new range's token ratio
+export interface RebalanceSwap {
+  swapForY: boolean; // true sells token X for token Y
+  amountIn: string; // base units
+  expectedAmountOut: string;
+  minAmountOut: string; // after slippage; the deposit only counts on this
+  priceImpact: number;
+  slippageBps: number;
+}
+
 // Strategy Simulation Types
 export interface SimulationParams {
   initialLiquidity: BN;
@@ -79,6 +93,12 @@ export interface SimulationParams {
   duration: number; // hours
   rebalanceFrequency: number; // hours
   feeRate: number; // bps
+  poolAddress?: string; // seeds the start price from recorded history
+  strategy?: PositionStrategy; // range picked on each rebalance (default from config)
+  binStep?: number; // bin step used to map strategy ranges to prices
+  rebalanceCost?: number; // flat cost per rebalance, deducted from fees
+  iterations?: number; // Monte Carlo paths; > 1 adds confidence bands
+  seed?: number; // replays the same price paths
 }
 
 export interface SimulationResult {
@@ -89,6 +109,38 @@ export interface SimulationResult {
   sharpeRatio: number;
   finalValue: number;
   timeline: SimulationSnapshot[];
+  monteCarlo?: MonteCarloSummary; // set when iterations > 1
+}
+
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloBand {
+  timestamp: number;
+  value: Percentiles;
+  fees: Percentiles;
+}
+
+export interface MonteCarloDistribution extends Percentiles {
+  mean: number;
+  min: number;
+  max: number;
+  histogram: Array<{ from: number; to: number; count: number }>;
+}
+
+export interface MonteCarloSummary {
+  iterations: number;
+  seed: number;
+  probabilityOfLoss: number; // share of paths with a negative total return
+  bands: MonteCarloBand[];
+  finalReturn: MonteCarloDistribution;
+  rebalanceCount: MonteCarloDistribution;
+  maxDrawdown: MonteCarloDistribution;
 }
 
 export interface SimulationSnapshot {
@@ -100,22 +152,222 @@ export interface SimulationSnapshot {
   inRange: boolean;
 }
 
-// Stop-Loss Types
-export interface StopLossConfig {
-  positionKey: PublicKey;
-  threshold: number; // percentage loss
-  enabled: boolean;
-  notifyOnly: boolean; // if true, only notify, don't execute
+// Historical Backtest Types
+export interface BacktestCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
 }
 
-export interface StopLossEvent {
-  positionKey: PublicKey;
-  currentLoss: number;
-  threshold: number;
-  triggered: boolean;
-  executed: boolean;
-  txSignature?: string;
+export interface BacktestParams {
+  initialValue: number; // quote token value deposited
+  binStep: number; // pool bin step (bps)
+  binCount: number; // bins per position for fixed-width, e.g. 16
+  feeRate: number; // bps charged on swaps
+  rebalanceCost: number; // flat cost per rebalance (tx fees) in quote token
+  rebalanceFrequency: number; // hours between forced rebalances (0 = only when out of range)
+  candles: BacktestCandle[];
+  source: "recorded" | "uploaded";
+  poolAddress?: string;
+  strategy?: PositionStrategy;
+}
+
+export interface BacktestBinFees {
+  binId: number;
+  price: number;
+  crossings: number;
+  fees: number;
+}
+
+export interface BacktestRebalance {
+  timestamp: number;
+  price: number;
+  reason: "out-of-range" | "width-drift" | "scheduled";
+  oldRange: { lowerBinId: number; upperBinId: number };
+  newRange: { lowerBinId: number; upperBinId: number };
+  swapCost: number;
+  txCost: number;
+}
+
+export interface BacktestSnapshot {
   timestamp: number;
+  price: number;
+  activeBinId: number;
+  value: number;
+  hodlValue: number;
+  feesAccumulated: number;
+  inRange: boolean;
+}
+
+export interface BacktestResult {
+  source: BacktestParams["source"];
+  poolAddress?: string;
+  strategy: RebalanceStrategyName;
+  binStep: number;
+  binCount: number; // bins in the initial range
+  startPrice: number;
+  endPrice: number;
+  initialValue: number;
+  finalValue: number;
+  hodlValue: number;
+  totalReturn: number;
+  vsHodl: number;
+  feesEarned: number;
+  rebalanceCount: number;
+  rebalanceCosts: number;
+  timeInRange: number; // 0..1
+  maxDrawdown: number;
+  binFees: BacktestBinFees[];
+  rebalances: BacktestRebalance[];
+  timeline: BacktestSnapshot[];
+}
+
+// Parameter Sweep Types
+export type SweepAxis = number[] | { min: number; max: number; step: number };
+
+export type SweepMetric =
+  | "totalReturn"
+  | "feesEarned"
+  | "maxDrawdown"
+  | "sharpeRatio";
+
+export interface SweepParams {
+  initialLiquidity: BN;
+  volatilityTarget: number; // daily, as in SimulationParams
+  duration: number; // hours
+  paths: number; // Monte Carlo price paths shared by every combination
+  seed?: number;
+  binStep: number;
+  rebalanceCost: number;
+  poolAddress?: string;
+  strategies: RebalanceStrategyName[];
+  rangeWidths: number[]; // bins
+  rebalanceFrequencies: number[]; // hours
+  feeRates: number[]; // bps
+  rankBy: SweepMetric;
+}
+
+export type SweepMetrics = Record<SweepMetric, number>;
+
+export interface SweepRow extends SweepMetrics {
+  rank: number;
+  strategy: RebalanceStrategyName;
+  rangeWidth: number;
+  rebalanceFrequency: number;
+  feeRate: number;
+  rebalanceCount: number;
+  returnStdDev: number; // spread of totalReturn across paths
+}
+
+// One grid per strategy and fee rate: rows are range widths, columns rebalance frequencies
+export interface SweepHeatmap {
+  strategy: RebalanceStrategyName;
+  feeRate: number;
+  rangeWidths: number[];
+  rebalanceFrequencies: number[];
+  metrics: Record<SweepMetric, number[][]>;
+}
+
+export interface SweepResult {
+  paths: number;
+  duration: number;
+  startPrice: number;
+  rankBy: SweepMetric;
+  combinations: number;
+  ranked: SweepRow[];
+  heatmaps: SweepHeatmap[];
+}
+
+// Position PnL Types (USD, from the position ledger)
+export interface PnlBreakdown {
+  deposited: number;
+  withdrawn: number;
+  costBasis: number; // average cost of what is still in the position
+  currentValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  feesClaimed: number;
+  feesCompounded: number; // part of feesClaimed added back as liquidity
+  feesUnclaimed: number;
+  feeIncome: number;
+  hodlValue: number; // deposited tokens held instead, at today's price
+  impermanentLoss: number; // LP value against hodlValue, before fees
+  vsHodl: number; // LP value plus fees against hodlValue
+  totalPnl: number;
+  totalReturn: number; // % of deposited
+}
+
+export interface PositionPnl extends PnlBreakdown {
+  positionAddress: string;
+  owner: string;
+  poolAddress: string;
+  isOpen: boolean;
+  entries: number;
+  openedAt: number | null;
+  price: number;
+}
+
+export interface WalletPnl extends PnlBreakdown {
+  owner: string;
+  positions: PositionPnl[];
+}
+
+// Deposit of a position being created, priced when its transaction was
+// built. The position's address is only known once it is seen on-chain, so
+// it is matched by owner, pool and range.
+export interface PendingDeposit {
+  owner: string;
+  poolAddress: string;
+  lowerBinId: number;
+  upperBinId: number;
+  amountX: number; // UI units
+  amountY: number;
+  priceX: number; // USD
+  priceY: number;
+  timestamp: number;
+}
+
+// Digest Types
+export type DigestPeriod = "daily" | "weekly";
+
+export interface ValueChange {
+  valueUsd: number;
+  percent: number;
+  since: number; // when the compared digest was generated
+}
+
+export interface DigestPosition {
+  positionAddress: string;
+  poolAddress: string;
+  valueUsd: number;
+  totalReturn: number; // %
+  inRange: boolean;
+}
+
+export interface PortfolioDigest {
+  id: string;
+  wallet: string;
+  period: DigestPeriod;
+  generatedAt: number;
+  valuedAt: number; // oldest price behind totalValue
+  totalValue: number;
+  // Against the archived digest from about a day / a week earlier; null
+  // until one exists
+  change24h: ValueChange | null;
+  change7d: ValueChange | null;
+  fees: {
+    earned: number; // claimed or compounded during the period
+    unclaimed: number;
+  };
+  positions: number;
+  inRange: number;
+  inRangeRatio: number; // 0-1; 0 with no positions
+  rebalances: number; // executed during the period
+  pendingApprovals: number;
+  topPositions: DigestPosition[];
+  bottomPositions: DigestPosition[];
 }
 
 // Automation Types
@@ -138,6 +390,19 @@ export interface AutomationResult {
   error?: string;
 }
 
+// Auth Types (Sign-In-With-Solana)
+export interface AuthNonce {
+  nonce: string;
+  message: string; // exact text the wallet must sign
+  expiresAt: number;
+}
+
+export interface AuthSession {
+  wallet: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -0,0 +1,32 @@
+/**
+ * DLMM Bin Math
+ * price = (1 + binStep/10000)^(binId - REFERENCE_BIN_ID)
+ */
+
+// Bin where price = 1 (2^23)
+export const REFERENCE_BIN_ID = 8388608;
+
+/**
+ * Convert a bin ID to its price
+ */
+export function binIdToPrice(binId: number, binStep: number): number {
+  const basisPoints = binStep / 10000;
+  const exponent = binId - REFERENCE_BIN_ID;
+
+  // For large exponents, use logarithmic calculation to avoid overflow
+  if (Math.abs(exponent) > 10000) {
+    return Math.exp(exponent * Math.log(1 + basisPoints));
+  }
+
+  return Math.pow(1 + basisPoints, exponent);
+}
+
+/**
+ * Convert a price to the bin ID that contains it
+ */
+export function priceToBinId(price: number, binStep: number): number {
+  const basisPoints = binStep / 10000;
+  return (
+    Math.floor(Math.log(price) / Math.log(1 + basisPoints)) + REFERENCE_BIN_ID
+  );
+}
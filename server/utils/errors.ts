@@ -66,3 +66,17 @@ export class RpcError extends SarosError {
     this.name = 'RpcError';
   }
 }
+
+export class AuthenticationError extends SarosError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 'AUTHENTICATION_ERROR');
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends SarosError {
+  constructor(message: string = 'Not allowed for this wallet') {
+    super(message, 'FORBIDDEN');
+    this.name = 'ForbiddenError';
+  }
+}
@@ -1,9 +1,14 @@
 /**
  * Impermanent Loss Calculator
- * Formula: IL = 2√r / (1 + r) - 1
+ * Full range: IL = 2√r / (1 + r) - 1
  * where r = price_ratio (current_price / initial_price)
+ * DLMM: exact per-bin token composition of a concentrated bin range
  */
 
+import { binIdToPrice, priceToBinId } from './bin-math';
+import { shapeWeights } from './liquidity-distribution';
+import type { LiquidityDistribution } from '../../shared/schema';
+
 export interface ImpermanentLossResult {
   impermanentLoss: number; // Percentage
   hodlValue: number;
@@ -11,6 +16,36 @@ export interface ImpermanentLossResult {
   absoluteLoss: number;
 }
 
+export interface DlmmRangeParams {
+  binStep: number;
+  lowerBinId: number;
+  upperBinId: number;
+  initialPrice: number; // price when liquidity was deposited
+  initialValue?: number; // quote value deposited (default 1; IL % ignores it)
+  distribution?: LiquidityDistribution; // liquidity per bin (default spot)
+}
+
+export interface DlmmBinComposition {
+  binId: number;
+  price: number;
+  amountX: number;
+  amountY: number;
+}
+
+export interface DlmmImpermanentLossResult extends ImpermanentLossResult {
+  inRange: boolean;
+  initialAmountX: number;
+  initialAmountY: number;
+  currentAmountX: number;
+  currentAmountY: number;
+  bins: DlmmBinComposition[];
+}
+
+// Price multipliers to test
+const IL_SCENARIO_MULTIPLIERS = [
+  0.5, 0.75, 0.9, 1.0, 1.1, 1.25, 1.5, 2.0, 3.0, 5.0,
+];
+
 export class ImpermanentLossCalculator {
   /**
    * Calculate impermanent loss using the standard formula
@@ -70,16 +105,165 @@ export class ImpermanentLossCalculator {
     };
   }
 
+  /**
+   * Token composition of every bin in a DLMM range at a price.
+   * Each bin is a constant-sum pool holding L = p·x + y: bins above the
+   * active bin are all X, bins below are all Y, and the active bin converts
+   * X to Y as price moves through it.
+   */
+  calculateDlmmComposition(
+    params: DlmmRangeParams,
+    price: number
+  ): DlmmBinComposition[] {
+    return this.dlmmBinLiquidity(params).map(
+      ({ binId, price: binPrice, liquidity }) => {
+        const shareY = this.binShareY(binId, price, params.binStep);
+        return {
+          binId,
+          price: binPrice,
+          amountX: (liquidity * (1 - shareY)) / binPrice,
+          amountY: liquidity * shareY,
+        };
+      }
+    );
+  }
+
+  /**
+   * IL of a concentrated DLMM position against holding the tokens it was
+   * opened with. Once price leaves the range the position is entirely one
+   * token, so the loss keeps growing where the full-range formula flattens.
+   */
+  calculateDlmmIL(
+    params: DlmmRangeParams,
+    currentPrice: number,
+    feesEarned: number = 0
+  ): DlmmImpermanentLossResult {
+    if (params.initialPrice <= 0 || currentPrice <= 0) {
+      throw new Error('Prices must be positive');
+    }
+
+    const initialBins = this.calculateDlmmComposition(
+      params,
+      params.initialPrice
+    );
+    const bins = this.calculateDlmmComposition(params, currentPrice);
+    const sum = (
+      list: DlmmBinComposition[],
+      key: 'amountX' | 'amountY'
+    ) => list.reduce((total, bin) => total + bin[key], 0);
+
+    const initialAmountX = sum(initialBins, 'amountX');
+    const initialAmountY = sum(initialBins, 'amountY');
+    const currentAmountX = sum(bins, 'amountX');
+    const currentAmountY = sum(bins, 'amountY');
+
+    const hodlValue = initialAmountX * currentPrice + initialAmountY;
+    const lpValue = currentAmountX * currentPrice + currentAmountY;
+    const activeBinId = priceToBinId(currentPrice, params.binStep);
+
+    return {
+      impermanentLoss: hodlValue > 0 ? (lpValue / hodlValue - 1) * 100 : 0,
+      hodlValue,
+      lpValue: lpValue + feesEarned,
+      absoluteLoss: lpValue + feesEarned - hodlValue,
+      inRange:
+        activeBinId >= params.lowerBinId && activeBinId <= params.upperBinId,
+      initialAmountX,
+      initialAmountY,
+      currentAmountX,
+      currentAmountY,
+      bins,
+    };
+  }
+
+  /**
+   * DLMM IL across the same price multipliers as calculateILScenarios
+   */
+  calculateDlmmILScenarios(params: DlmmRangeParams): Map<number, number> {
+    const scenarios = new Map<number, number>();
+
+    for (const multiplier of IL_SCENARIO_MULTIPLIERS) {
+      const { impermanentLoss } = this.calculateDlmmIL(
+        params,
+        params.initialPrice * multiplier
+      );
+      scenarios.set(multiplier, impermanentLoss);
+    }
+
+    return scenarios;
+  }
+
+  /**
+   * Liquidity (L = p·x + y) in each bin, scaled so the deposit is worth
+   * initialValue at the initial price
+   */
+  private dlmmBinLiquidity(
+    params: DlmmRangeParams
+  ): Array<{ binId: number; price: number; liquidity: number }> {
+    const { binStep, lowerBinId, upperBinId, initialPrice } = params;
+    if (!Number.isInteger(lowerBinId) || !Number.isInteger(upperBinId)) {
+      throw new Error('Bin IDs must be integers');
+    }
+    if (lowerBinId > upperBinId) {
+      throw new Error('Lower bin must not be above upper bin');
+    }
+    if (!(binStep > 0)) {
+      throw new Error('Bin step must be positive');
+    }
+
+    const weights = shapeWeights(
+      params.distribution || { shape: 'spot' },
+      lowerBinId,
+      upperBinId,
+      priceToBinId(initialPrice, binStep)
+    );
+    const bins = weights.map((weight, i) => ({
+      binId: lowerBinId + i,
+      price: binIdToPrice(lowerBinId + i, binStep),
+      weight,
+    }));
+
+    // Value of one unit of weight per bin at the initial price
+    let unitValue = 0;
+    for (const bin of bins) {
+      const shareY = this.binShareY(bin.binId, initialPrice, binStep);
+      unitValue +=
+        bin.weight * ((1 - shareY) * (initialPrice / bin.price) + shareY);
+    }
+    if (unitValue <= 0) {
+      throw new Error('Distribution places no liquidity in the range');
+    }
+
+    const scale = (params.initialValue ?? 1) / unitValue;
+    return bins.map(({ binId, price, weight }) => ({
+      binId,
+      price,
+      liquidity: weight * scale,
+    }));
+  }
+
+  /**
+   * Share of a bin's liquidity held as Y at a price: 1 below the active bin,
+   * 0 above it, and how far price has climbed through the active bin
+   */
+  private binShareY(binId: number, price: number, binStep: number): number {
+    const activeBinId = priceToBinId(price, binStep);
+    if (binId < activeBinId) return 1;
+    if (binId > activeBinId) return 0;
+
+    const position =
+      Math.log(price / binIdToPrice(binId, binStep)) /
+      Math.log(1 + binStep / 10000);
+    return Math.min(Math.max(position, 0), 1);
+  }
+
   /**
    * Calculate IL for different price scenarios
    */
   calculateILScenarios(initialPrice: number): Map<number, number> {
     const scenarios = new Map<number, number>();
     
-    // Price multipliers to test
-    const multipliers = [0.5, 0.75, 0.9, 1.0, 1.1, 1.25, 1.5, 2.0, 3.0, 5.0];
-    
-    for (const multiplier of multipliers) {
+    for (const multiplier of IL_SCENARIO_MULTIPLIERS) {
       const currentPrice = initialPrice * multiplier;
       const il = this.calculateIL(initialPrice, currentPrice);
       scenarios.set(multiplier, il);
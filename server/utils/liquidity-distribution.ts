@@ -0,0 +1,209 @@
+/**
+ * Liquidity Distribution
+ * Per-bin weights for DLMM liquidity shapes and the amounts they place in each bin.
+ * Token X sits in bins at or above the active bin, token Y at or below it.
+ */
+
+import { binIdToPrice } from "./bin-math";
+import { ValidationError } from "./errors";
+import type {
+  BinAllocation,
+  LiquidityDistribution,
+} from "../../shared/schema";
+
+// Saros distributions are basis points of each token's total amount
+const MAX_BASIS_POINTS = 10000;
+
+export const SPOT_DISTRIBUTION: LiquidityDistribution = { shape: "spot" };
+
+export interface AllocationParams {
+  lowerBinId: number;
+  upperBinId: number;
+  activeBinId: number;
+  binStep: number;
+  amountX: number;
+  amountY: number;
+  distribution?: LiquidityDistribution;
+}
+
+/**
+ * Relative weight of each bin in [lowerBinId, upperBinId] for a shape
+ */
+export function shapeWeights(
+  distribution: LiquidityDistribution,
+  lowerBinId: number,
+  upperBinId: number,
+  activeBinId: number
+): number[] {
+  const binCount = upperBinId - lowerBinId + 1;
+  const binIds = Array.from({ length: binCount }, (_, i) => lowerBinId + i);
+
+  switch (distribution.shape) {
+    case "spot":
+      return binIds.map(() => 1);
+
+    case "curve": {
+      // Normal curve peaking at the active bin; each side reaches ~2σ at its edge
+      const radiusBelow = Math.max(activeBinId - lowerBinId, 1);
+      const radiusAbove = Math.max(upperBinId - activeBinId, 1);
+      return binIds.map((binId) => {
+        const distance = binId - activeBinId;
+        const sigma = (distance < 0 ? radiusBelow : radiusAbove) / 2;
+        return Math.exp(-0.5 * Math.pow(distance / sigma, 2));
+      });
+    }
+
+    case "bid-ask":
+      // U-shape: thinnest at the active bin, growing linearly towards the edges
+      return binIds.map((binId) => Math.abs(binId - activeBinId) + 1);
+
+    case "custom": {
+      const weights = distribution.weights || [];
+      if (weights.length !== binCount) {
+        throw new ValidationError(
+          `Custom distribution needs ${binCount} weights (one per bin), got ${weights.length}`
+        );
+      }
+      return weights;
+    }
+  }
+}
+
+/**
+ * Split weights into integer basis points that sum to exactly MAX_BASIS_POINTS
+ */
+function toBasisPoints(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (w / total) * MAX_BASIS_POINTS);
+  const bps = exact.map(Math.floor);
+
+  // Hand the rounding remainder to the bins that lost the most
+  let remainder = MAX_BASIS_POINTS - bps.reduce((sum, b) => sum + b, 0);
+  const byLoss = exact
+    .map((value, index) => ({ index, loss: value - bps[index] }))
+    .sort((a, b) => b.loss - a.loss);
+  for (const { index } of byLoss) {
+    if (remainder <= 0) break;
+    bps[index]++;
+    remainder--;
+  }
+
+  return bps;
+}
+
+/**
+ * Per-bin share of each token for a distribution over a bin range
+ */
+export function allocateLiquidity(params: AllocationParams): BinAllocation[] {
+  const { lowerBinId, upperBinId, activeBinId, binStep, amountX, amountY } =
+    params;
+
+  if (lowerBinId > upperBinId) {
+    throw new ValidationError(
+      `Invalid bin range: lower (${lowerBinId}) is above upper (${upperBinId})`
+    );
+  }
+
+  const weights = shapeWeights(
+    params.distribution || SPOT_DISTRIBUTION,
+    lowerBinId,
+    upperBinId,
+    activeBinId
+  );
+  const binIds = weights.map((_, i) => lowerBinId + i);
+
+  const bpsX = toBasisPoints(
+    weights.map((w, i) => (binIds[i] >= activeBinId ? w : 0))
+  );
+  const bpsY = toBasisPoints(
+    weights.map((w, i) => (binIds[i] <= activeBinId ? w : 0))
+  );
+
+  if (amountX > 0 && bpsX.every((b) => b === 0)) {
+    throw new ValidationError(
+      "Distribution places no token X: the range needs bins at or above the active bin with weight"
+    );
+  }
+  if (amountY > 0 && bpsY.every((b) => b === 0)) {
+    throw new ValidationError(
+      "Distribution places no token Y: the range needs bins at or below the active bin with weight"
+    );
+  }
+
+  return binIds.map((binId, i) => ({
+    binId,
+    relativeBinId: binId - activeBinId,
+    price: binIdToPrice(binId, binStep),
+    distributionX: bpsX[i],
+    distributionY: bpsY[i],
+    amountX: (amountX * bpsX[i]) / MAX_BASIS_POINTS,
+    amountY: (amountY * bpsY[i]) / MAX_BASIS_POINTS,
+  }));
+}
+
+/**
+ * Shape expected by the Saros SDK's addLiquidityIntoPosition
+ */
+export function toSdkDistribution(allocations: BinAllocation[]): Array<{
+  relativeBinId: number;
+  distributionX: number;
+  distributionY: number;
+}> {
+  return allocations.map(({ relativeBinId, distributionX, distributionY }) => ({
+    relativeBinId,
+    distributionX,
+    distributionY,
+  }));
+}
+
+/**
+ * Share of a deposit's value (0-1) a shape needs in token X for both tokens
+ * to fill their bins at the same weight. The active bin takes half of each.
+ */
+export function targetShareX(
+  distribution: LiquidityDistribution,
+  lowerBinId: number,
+  upperBinId: number,
+  activeBinId: number
+): number {
+  const weights = shapeWeights(
+    distribution,
+    lowerBinId,
+    upperBinId,
+    activeBinId
+  );
+  let total = 0;
+  let weightX = 0;
+  weights.forEach((weight, i) => {
+    const binId = lowerBinId + i;
+    total += weight;
+    if (binId > activeBinId) weightX += weight;
+    else if (binId === activeBinId) weightX += weight / 2;
+  });
+  return total > 0 ? weightX / total : 0.5;
+}
+
+/**
+ * Swap that brings two base-unit amounts to a target value share of token X,
+ * ignoring fees and price impact
+ * @param price - token Y per token X in base units (the bin price)
+ * @returns amountIn in base units of the token sold, or null if already there
+ */
+export function swapToRatio(
+  amountX: number,
+  amountY: number,
+  price: number,
+  shareX: number
+): { swapForY: boolean; amountIn: number } | null {
+  const valueX = amountX * price;
+  const targetX = (valueX + amountY) * shareX;
+
+  if (valueX > targetX) {
+    const amountIn = Math.floor((valueX - targetX) / price);
+    return amountIn > 0 ? { swapForY: true, amountIn } : null;
+  }
+  const amountIn = Math.floor(targetX - valueX);
+  return amountIn > 0 ? { swapForY: false, amountIn } : null;
+}
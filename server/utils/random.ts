@@ -0,0 +1,28 @@
+/**
+ * Seedable Random Numbers
+ * mulberry32: small, fast and good enough for Monte Carlo price paths
+ */
+
+export type Random = () => number; // uniform in [0, 1)
+
+/**
+ * Deterministic generator: the same seed always yields the same sequence
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh 32-bit seed for callers that did not supply one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
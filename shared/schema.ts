@@ -37,6 +37,47 @@ export const PoolInfoSchema = z.object({
   fees24h: z.number(),
 });
 
+// A pool in the discovery index, with the metrics it can be sorted by
+export const PoolIndexEntrySchema = PoolInfoSchema.extend({
+  volatility: z.number(), // annualized %, 0 without price history
+  feeApr: z.number(), // % a year from the last day's fees over TVL
+  indexedAt: z.number(),
+});
+
+export const PoolSortSchema = z.enum([
+  "tvl",
+  "volume24h",
+  "fees24h",
+  "volatility",
+  "feeApr",
+]);
+
+// Query string of GET /pools
+export const PoolQuerySchema = z.object({
+  search: z.string().trim().optional(), // symbols ("SOL/USDC") or address
+  mint: z.string().optional(), // either token
+  symbol: z.string().optional(), // either token, case-insensitive
+  minTvl: z.coerce.number().nonnegative().optional(),
+  binStep: z.coerce.number().int().positive().optional(),
+  sort: PoolSortSchema.default("tvl"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().default(20),
+});
+
+// USD value of a position and how fresh the prices behind it are
+export const PositionValuationSchema = z.object({
+  usd: z.number(),
+  tokenXUsd: z.number(),
+  tokenYUsd: z.number(),
+  feesUsd: z.number(),
+  priceXUsd: z.number(),
+  priceYUsd: z.number(),
+  source: z.string(),
+  updatedAt: z.number(),
+  stale: z.boolean(),
+});
+
 export const PositionDataSchema = z.object({
   position: PositionSchema,
   pool: PoolInfoSchema,
@@ -57,6 +98,7 @@ export const PositionDataSchema = z.object({
     utilizationRate: z.number(),
     isInRange: z.boolean(),
   }),
+  valuation: PositionValuationSchema.optional(),
 });
 
 // Volatility schemas
@@ -69,6 +111,61 @@ export const VolatilityDataSchema = z.object({
   timestamp: z.number(),
 });
 
+// Price history schemas
+export const CandleIntervalSchema = z.enum(["1m", "5m", "1h", "1d"]);
+
+export const CandleSchema = z.object({
+  timestamp: z.number(), // bucket start (ms)
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  samples: z.number(),
+});
+
+// Liquidity distribution schemas
+export const LiquidityShapeSchema = z.enum([
+  "spot",
+  "curve",
+  "bid-ask",
+  "custom",
+]);
+
+export const LiquidityDistributionSchema = z.object({
+  shape: LiquidityShapeSchema,
+  // custom only: one relative weight per bin, lowest bin first
+  weights: z.array(z.number().nonnegative()).optional(),
+});
+
+export const BinAllocationSchema = z.object({
+  binId: z.number(),
+  relativeBinId: z.number(), // offset from the active bin
+  price: z.number(),
+  distributionX: z.number(), // bps of the total token X amount
+  distributionY: z.number(), // bps of the total token Y amount
+  amountX: z.number(),
+  amountY: z.number(),
+});
+
+// Widest bin range accepted where per-bin amounts are built for a request
+export const MAX_RANGE_BINS = 140;
+
+// Bin range of a DLMM calculation, from a JSON body or a query string
+export const BinRangeSchema = z
+  .object({
+    binStep: z.coerce.number().int().positive(),
+    lowerBinId: z.coerce.number().int(),
+    upperBinId: z.coerce.number().int(),
+  })
+  .refine((range) => range.upperBinId >= range.lowerBinId, {
+    message: "upperBinId must not be below lowerBinId",
+    path: ["upperBinId"],
+  })
+  .refine((range) => range.upperBinId - range.lowerBinId <= MAX_RANGE_BINS, {
+    message: `Range too wide (max ${MAX_RANGE_BINS} bins)`,
+    path: ["upperBinId"],
+  });
+
 // Rebalancing schemas
 export const RebalanceParamsSchema = z.object({
   positionAddress: z.string(),
@@ -78,6 +175,29 @@ export const RebalanceParamsSchema = z.object({
   // Optional: for manual rebalancing with user-specified liquidity
   liquidityAmountX: z.string().optional(),
   liquidityAmountY: z.string().optional(),
+  distribution: LiquidityDistributionSchema.optional(),
+});
+
+// Rebalance strategy schemas
+export const RebalanceStrategyNameSchema = z.enum([
+  "fixed-width",
+  "volatility-scaled",
+  "trend-following",
+  "fee-maximizing",
+]);
+
+export const StrategyOptionsSchema = z.object({
+  binCount: z.number().int().min(3).optional(), // fixed-width
+  minBins: z.number().int().min(3).optional(),
+  maxBins: z.number().int().min(3).optional(),
+  horizonHours: z.number().positive().optional(), // how far ahead the range should hold
+  maxSkew: z.number().min(0).max(0.9).optional(), // trend-following
+  targetInRange: z.number().min(0.5).max(0.99).optional(), // fee-maximizing
+});
+
+export const PositionStrategySchema = z.object({
+  name: RebalanceStrategyNameSchema,
+  options: StrategyOptionsSchema.default({}),
 });
 
 export const RebalanceEventSchema = z.object({
@@ -104,6 +224,8 @@ export const AlertSchema = z.object({
   title: z.string(),
   message: z.string(),
   positionAddress: z.string().optional(),
+  valueUsd: z.number().optional(),
+  valuedAt: z.number().optional(),
   timestamp: z.number(),
   read: z.boolean(),
 });
@@ -133,6 +255,7 @@ export const WSMessageSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("auto_rebalance_status"),
     data: z.object({
+      wallet: z.string().optional(),
       enabled: z.boolean(),
       threshold: z.number(),
       lastCheck: z.number().optional(),
@@ -147,16 +270,262 @@ export const WSMessageSchema = z.discriminatedUnion("type", [
       timestamp: z.number(),
     }),
   }),
+  z.object({
+    type: z.literal("transaction_update"),
+    data: z.object({
+      id: z.string(),
+      status: z.enum(["pending", "approved", "rejected", "executed", "failed"]),
+    }),
+  }),
 ]);
 
 // Stop Loss schemas
+// threshold: total return or IL past a loss; price: pool price crossing a
+// level; trailing: value falling from its peak; take_profit: return target
+export const StopLossModeSchema = z.enum([
+  "threshold",
+  "price",
+  "trailing",
+  "take_profit",
+]);
+
+// What a trigger does; withdrawals are queued for approval
+export const StopLossActionSchema = z.enum([
+  "notify",
+  "withdraw_to_token", // withdraw, then swap into one of the pool's tokens
+  "withdraw_to_stable", // withdraw, then swap into the pool's stablecoin
+]);
+
 export const StopLossConfigSchema = z.object({
   positionAddress: z.string(),
-  triggerPrice: z.number(),
   enabled: z.boolean(),
+  mode: StopLossModeSchema,
+  action: StopLossActionSchema,
+  // threshold: % loss of total return / % IL
+  lossThreshold: z.number().positive().optional(),
+  impermanentLossThreshold: z.number().positive().optional(),
+  // price: pool price (token Y per token X)
+  triggerPrice: z.number().positive().optional(),
+  direction: z.enum(["above", "below"]).optional(),
+  // trailing: % drop from the highest position value seen
+  trailPercent: z.number().gt(0).lt(100).optional(),
+  peakValue: z.number().optional(), // USD
+  // take_profit: % total return
+  takeProfitPercent: z.number().positive().optional(),
+  // withdraw_to_token: the pool token to end up holding
+  withdrawTo: z.enum(["x", "y"]).optional(),
+  slippageBps: z.number().int().min(1).max(1000).optional(),
+  // The condition held at the last check; a trigger fires when it starts to
+  triggered: z.boolean().optional(),
+  lastTriggeredAt: z.number().optional(),
   createdAt: z.number(),
 });
 
+export const StopLossInputSchema = StopLossConfigSchema.omit({
+  peakValue: true,
+  triggered: true,
+  lastTriggeredAt: true,
+  createdAt: true,
+})
+  .extend({
+    enabled: z.boolean().default(true),
+    mode: StopLossModeSchema.default("threshold"),
+    action: StopLossActionSchema.default("withdraw_to_token"),
+  })
+  .superRefine((input, ctx) => {
+    const requireField = (field: keyof typeof input, mode: string) => {
+      if (input[field] === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          path: [field],
+          message: `${field} is required for ${mode} stop-losses`,
+        });
+      }
+    };
+    if (input.mode === "threshold" && !input.impermanentLossThreshold) {
+      requireField("lossThreshold", "threshold");
+    }
+    if (input.mode === "price") {
+      requireField("triggerPrice", "price");
+      requireField("direction", "price");
+    }
+    if (input.mode === "trailing") requireField("trailPercent", "trailing");
+    if (input.mode === "take_profit") {
+      requireField("takeProfitPercent", "take_profit");
+    }
+  });
+
+// What happened to a stop-loss: it triggered, its withdrawal was queued, and
+// the owner's approval ended in execution, failure or rejection
+export const StopLossEventSchema = z.object({
+  id: z.string(),
+  positionAddress: z.string(),
+  type: z.enum(["triggered", "queued", "executed", "failed", "rejected"]),
+  mode: StopLossModeSchema,
+  action: StopLossActionSchema,
+  reason: z.string(),
+  valueUsd: z.number().optional(), // position value at the time
+  price: z.number().optional(), // pool price at the time
+  transactionId: z.string().optional(),
+  signature: z.string().optional(),
+  error: z.string().optional(),
+  timestamp: z.number(),
+});
+
+// Position ledger schemas
+export const LedgerEntryTypeSchema = z.enum([
+  "deposit",
+  "withdrawal",
+  "fee_claim",
+  "rebalance",
+  "compound", // fees claimed and added back into the position
+]);
+
+export const LedgerEntrySchema = z.object({
+  id: z.string(),
+  positionAddress: z.string(),
+  owner: z.string(),
+  poolAddress: z.string(),
+  type: LedgerEntryTypeSchema,
+  direction: z.enum(["in", "out"]),
+  // Token amounts in UI units, priced in USD at the time of the entry
+  amountX: z.number().nonnegative(),
+  amountY: z.number().nonnegative(),
+  priceX: z.number().nonnegative(),
+  priceY: z.number().nonnegative(),
+  valueUsd: z.number(),
+  // Fraction of the position an outflow removed (1 = closed)
+  share: z.number().gt(0).max(1).optional(),
+  signature: z.string().optional(),
+  relatedPosition: z.string().optional(),
+  note: z.string().optional(),
+  timestamp: z.number(),
+});
+
+// Manual ledger entry; prices default to the pool's current price
+export const LedgerEntryInputSchema = LedgerEntrySchema.pick({
+  type: true,
+  amountX: true,
+  amountY: true,
+  share: true,
+  signature: true,
+  relatedPosition: true,
+  note: true,
+}).extend({
+  direction: z.enum(["in", "out"]).optional(),
+  priceX: z.number().nonnegative().optional(),
+  priceY: z.number().nonnegative().optional(),
+  timestamp: z.number().optional(),
+});
+
+// Per-wallet automation profile (thresholds, stop-loss defaults, notifications)
+export const WalletProfileSchema = z.object({
+  wallet: z.string(),
+  label: z.string().optional(),
+  monitoring: z.boolean(),
+  monitorIntervalMs: z.number().int().min(30000),
+  autoRebalance: z.boolean(),
+  rebalanceThreshold: z.number().min(1).max(50), // % of range from a boundary
+  autoCollectFees: z.boolean(),
+  feeThreshold: z.number().nonnegative(), // USD
+  // Applied to the wallet's positions that have no stop-loss of their own
+  stopLoss: z.object({
+    enabled: z.boolean(),
+    lossThreshold: z.number().positive(), // % loss
+    impermanentLossThreshold: z.number().positive(), // % IL
+  }),
+  notifications: z.object({
+    enabled: z.boolean(),
+    telegramChatId: z.string().optional(), // falls back to the server's chat
+  }),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const WalletProfileUpdateSchema = WalletProfileSchema.omit({
+  wallet: true,
+  createdAt: true,
+  updatedAt: true,
+})
+  .partial()
+  .extend({
+    stopLoss: WalletProfileSchema.shape.stopLoss.partial().optional(),
+    notifications: WalletProfileSchema.shape.notifications.partial().optional(),
+  });
+
+// Expected change to one of a wallet's balances from a simulated transaction
+// (UI units; SOL is reported under the wrapped SOL mint)
+export const BalanceChangeSchema = z.object({
+  mint: z.string(),
+  symbol: z.string().optional(),
+  decimals: z.number(),
+  before: z.number(),
+  after: z.number(),
+  change: z.number(),
+});
+
+export const TransactionSimulationSchema = z.object({
+  simulatedAt: z.number(),
+  success: z.boolean(),
+  error: z.string().optional(),
+  computeUnits: z.number().optional(),
+  logs: z.array(z.string()),
+  balanceChanges: z.array(BalanceChangeSchema),
+});
+
+// Alert rule schemas
+export const AlertRuleMetricSchema = z.enum([
+  "price_distance", // % of the range between the active bin and the nearer edge
+  "pool_volatility", // annualized %, of the position's pool
+  "fees_accrued", // USD of unclaimed fees
+  "impermanent_loss", // %, negative when the position trails holding
+  "pending_tx_age", // minutes a queued transaction has waited for approval
+]);
+
+export const AlertRuleSchema = z.object({
+  id: z.string(),
+  wallet: z.string(), // rules watch this wallet's positions and transactions
+  name: z.string().min(1),
+  metric: AlertRuleMetricSchema,
+  operator: z.enum(["<", "<=", ">", ">="]),
+  threshold: z.number(),
+  // Only one position or pool; every one of the wallet's otherwise
+  positionAddress: z.string().optional(),
+  poolAddress: z.string().optional(),
+  severity: z.enum(["info", "warning", "critical"]),
+  cooldownMs: z.number().int().min(60000), // per position or transaction
+  enabled: z.boolean(),
+  // Last alert per position or transaction, for the cooldown
+  lastTriggered: z.record(z.string(), z.number()),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const AlertRuleInputSchema = AlertRuleSchema.pick({
+  name: true,
+  metric: true,
+  operator: true,
+  threshold: true,
+  positionAddress: true,
+  poolAddress: true,
+}).extend({
+  severity: AlertRuleSchema.shape.severity.default("warning"),
+  cooldownMs: AlertRuleSchema.shape.cooldownMs.default(3600000),
+  enabled: z.boolean().default(true),
+});
+
+export const AlertRuleUpdateSchema = AlertRuleSchema.pick({
+  name: true,
+  metric: true,
+  operator: true,
+  threshold: true,
+  positionAddress: true,
+  poolAddress: true,
+  severity: true,
+  cooldownMs: true,
+  enabled: true,
+}).partial();
+
 // API Response schemas
 export const ApiResponseSchema = <T extends z.ZodType>(dataSchema: T) =>
   z.object({
@@ -169,12 +538,41 @@ export const ApiResponseSchema = <T extends z.ZodType>(dataSchema: T) =>
 // Export types
 export type Position = z.infer<typeof PositionSchema>;
 export type PoolInfo = z.infer<typeof PoolInfoSchema>;
+export type PoolIndexEntry = z.infer<typeof PoolIndexEntrySchema>;
+export type PoolSort = z.infer<typeof PoolSortSchema>;
+export type PoolQuery = z.infer<typeof PoolQuerySchema>;
+export type PositionValuation = z.infer<typeof PositionValuationSchema>;
 export type PositionData = z.infer<typeof PositionDataSchema>;
 export type VolatilityData = z.infer<typeof VolatilityDataSchema>;
+export type CandleInterval = z.infer<typeof CandleIntervalSchema>;
+export type Candle = z.infer<typeof CandleSchema>;
+export type LiquidityShape = z.infer<typeof LiquidityShapeSchema>;
+export type LiquidityDistribution = z.infer<typeof LiquidityDistributionSchema>;
+export type BinAllocation = z.infer<typeof BinAllocationSchema>;
+export type BinRange = z.infer<typeof BinRangeSchema>;
 export type RebalanceParams = z.infer<typeof RebalanceParamsSchema>;
+export type RebalanceStrategyName = z.infer<typeof RebalanceStrategyNameSchema>;
+export type StrategyOptions = z.infer<typeof StrategyOptionsSchema>;
+export type PositionStrategy = z.infer<typeof PositionStrategySchema>;
 export type RebalanceEvent = z.infer<typeof RebalanceEventSchema>;
 export type Alert = z.infer<typeof AlertSchema>;
 export type StopLossConfig = z.infer<typeof StopLossConfigSchema>;
+export type StopLossMode = z.infer<typeof StopLossModeSchema>;
+export type StopLossAction = z.infer<typeof StopLossActionSchema>;
+export type StopLossInput = z.input<typeof StopLossInputSchema>;
+export type StopLossEvent = z.infer<typeof StopLossEventSchema>;
+export type LedgerEntryType = z.infer<typeof LedgerEntryTypeSchema>;
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+export type LedgerEntryInput = z.infer<typeof LedgerEntryInputSchema>;
+export type WalletProfile = z.infer<typeof WalletProfileSchema>;
+export type WalletProfileUpdate = z.infer<typeof WalletProfileUpdateSchema>;
+export type WalletProfileStatus = WalletProfile & { running: boolean };
+export type BalanceChange = z.infer<typeof BalanceChangeSchema>;
+export type TransactionSimulation = z.infer<typeof TransactionSimulationSchema>;
+export type AlertRuleMetric = z.infer<typeof AlertRuleMetricSchema>;
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+export type AlertRuleInput = z.input<typeof AlertRuleInputSchema>;
+export type AlertRuleUpdate = z.infer<typeof AlertRuleUpdateSchema>;
 export type WSMessage = z.infer<typeof WSMessageSchema>;
 export type ApiResponse<T> = {
   success: boolean;